@@ -13,7 +13,9 @@ import {
     groupRoutes,
     expenseRoutes,
     settlementRoutes,
+    rateRoutes,
 } from './routes';
+import { startJobs } from './jobs';
 
 // Load environment variables
 dotenv.config();
@@ -111,6 +113,7 @@ app.use('/api/users', userRoutes);
 app.use('/api/groups', groupRoutes);
 app.use('/api/expenses', expenseRoutes);
 app.use('/api/settlements', settlementRoutes);
+app.use('/api/rates', rateRoutes);
 
 // Error handling
 app.use(notFound);
@@ -121,6 +124,9 @@ const PORT = process.env.PORT || 5000;
 
 // Only start the server if we're not in a serverless environment
 if (process.env.VERCEL !== '1') {
+    // Background jobs need a long-lived process, so they only run here
+    startJobs();
+
     app.listen(PORT, () => {
         console.log(`
 🚀 Server is running!
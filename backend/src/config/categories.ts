@@ -0,0 +1,23 @@
+/**
+ * Expense Categories
+ *
+ * Built-in categories every expense can use. Groups can add their own
+ * on top of these (see Group.categories).
+ */
+
+export const DEFAULT_CATEGORY = 'Other';
+
+export const DEFAULT_CATEGORIES = [
+    'Food',
+    'Groceries',
+    'Transport',
+    'Lodging',
+    'Utilities',
+    'Rent',
+    'Entertainment',
+    'Shopping',
+    'Health',
+    DEFAULT_CATEGORY,
+];
+
+export default DEFAULT_CATEGORIES;
@@ -0,0 +1,24 @@
+/**
+ * Currency Configuration
+ *
+ * Supported currencies and a locally managed table of exchange rates,
+ * so multi-currency groups work offline without an outside FX service.
+ * Rates are units of DEFAULT_CURRENCY per 1 unit of the currency.
+ */
+
+export const DEFAULT_CURRENCY = 'INR';
+
+export const EXCHANGE_RATES: Record<string, number> = {
+    INR: 1,
+    USD: 83.2,
+    EUR: 90.4,
+    GBP: 105.6,
+    AED: 22.65,
+    SGD: 61.8,
+    THB: 2.3,
+    JPY: 0.56,
+};
+
+export const SUPPORTED_CURRENCIES = Object.keys(EXCHANGE_RATES);
+
+export default EXCHANGE_RATES;
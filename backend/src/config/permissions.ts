@@ -0,0 +1,47 @@
+/**
+ * Group Roles and Permissions
+ *
+ * What each role may do in a group. Roles are ranked: members can only
+ * add, remove or change the role of people ranked below them, and only
+ * the owner can hand the group over to someone else.
+ */
+
+import { GroupPermission, GroupRole } from '../types';
+
+export const DEFAULT_GROUP_ROLE = GroupRole.MEMBER;
+
+// Roles that can be given to members; ownership only changes hands by transfer
+export const ASSIGNABLE_ROLES = [GroupRole.ADMIN, GroupRole.MEMBER, GroupRole.VIEWER];
+
+export const ROLE_PERMISSIONS: Record<GroupRole, GroupPermission[]> = {
+    [GroupRole.OWNER]: Object.values(GroupPermission),
+    [GroupRole.ADMIN]: [
+        GroupPermission.ADD_EXPENSES,
+        GroupPermission.EDIT_ANY_EXPENSE,
+        GroupPermission.RECORD_FOR_OTHERS,
+        GroupPermission.INVITE_MEMBERS,
+        GroupPermission.MANAGE_MEMBERS,
+        GroupPermission.MANAGE_SETTINGS,
+    ],
+    [GroupRole.MEMBER]: [GroupPermission.ADD_EXPENSES, GroupPermission.INVITE_MEMBERS],
+    [GroupRole.VIEWER]: [],
+};
+
+export const ROLE_RANK: Record<GroupRole, number> = {
+    [GroupRole.OWNER]: 3,
+    [GroupRole.ADMIN]: 2,
+    [GroupRole.MEMBER]: 1,
+    [GroupRole.VIEWER]: 0,
+};
+
+// Shown when a member lacks a permission
+export const PERMISSION_ERRORS: Record<GroupPermission, string> = {
+    [GroupPermission.ADD_EXPENSES]: 'Viewers cannot add to this group',
+    [GroupPermission.EDIT_ANY_EXPENSE]: 'Only group admins can change what others added',
+    [GroupPermission.RECORD_FOR_OTHERS]: 'Only group admins can record payments on behalf of others',
+    [GroupPermission.INVITE_MEMBERS]: 'Viewers cannot invite people to this group',
+    [GroupPermission.MANAGE_MEMBERS]: 'Only group admins can add or remove members',
+    [GroupPermission.MANAGE_SETTINGS]: 'Only group admins can change group settings',
+    [GroupPermission.MANAGE_ROLES]: 'Only the group owner can change roles',
+    [GroupPermission.TRANSFER_OWNERSHIP]: 'Only the group owner can transfer ownership',
+};
@@ -2,9 +2,11 @@ import { Request, Response, NextFunction } from 'express';
 import { User } from '../models';
 import { generateToken } from '../middleware';
 import { AppError } from '../middleware';
+import { claimPlaceholder } from '../services';
 
 /**
- * Register a new user
+ * Register a new user. Registering with the email of a placeholder group
+ * member claims it, along with everything recorded against it.
  * POST /api/auth/register
  */
 export const register = async (
@@ -17,20 +19,22 @@ export const register = async (
 
         // Check if user already exists
         const existingUser = await User.findOne({ email });
-        if (existingUser) {
+        if (existingUser && !existingUser.isPlaceholder) {
             throw new AppError('User with this email already exists', 400);
         }
 
-        // Create user
-        const user = await User.create({
-            name,
-            email,
-            password,
-            phone,
-        });
+        // Create user, or take over the placeholder added for them
+        const user = existingUser
+            ? await claimPlaceholder(existingUser, { name, password, phone })
+            : await User.create({
+                name,
+                email,
+                password,
+                phone,
+            });
 
         // Generate token
-        const token = generateToken(user._id.toString(), user.email);
+        const token = generateToken(user._id.toString(), user.email!);
 
         res.status(201).json({
             success: true,
@@ -42,6 +46,7 @@ export const register = async (
                     phone: user.phone,
                 },
                 token,
+                claimed: !!existingUser,
             },
         });
     } catch (error) {
@@ -74,7 +79,7 @@ export const login = async (
         }
 
         // Generate token
-        const token = generateToken(user._id.toString(), user.email);
+        const token = generateToken(user._id.toString(), user.email!);
 
         res.json({
             success: true,
@@ -112,6 +117,41 @@ export const getMe = async (
                 name: user.name,
                 email: user.email,
                 phone: user.phone,
+                autoConfirmSettlements: user.autoConfirmSettlements,
+                createdAt: user.createdAt,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Update current user preferences
+ * PATCH /api/auth/me
+ */
+export const updateMe = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const user = req.user!;
+        const { autoConfirmSettlements } = req.body;
+
+        if (autoConfirmSettlements !== undefined) {
+            user.autoConfirmSettlements = autoConfirmSettlements;
+        }
+        await user.save();
+
+        res.json({
+            success: true,
+            data: {
+                _id: user._id,
+                name: user.name,
+                email: user.email,
+                phone: user.phone,
+                autoConfirmSettlements: user.autoConfirmSettlements,
                 createdAt: user.createdAt,
             },
         });
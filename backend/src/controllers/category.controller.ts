@@ -0,0 +1,185 @@
+import { Request, Response, NextFunction } from 'express';
+import { Expense, RecurringExpense } from '../models';
+import {
+    findCategory,
+    getCategories,
+    getMemberGroup,
+    recordExpenseHistory,
+    runInTransaction,
+} from '../services';
+import { AppError, hasGroupPermission } from '../middleware';
+import { DEFAULT_CATEGORY } from '../config/categories';
+import { toExpenseSnapshot } from '../utils';
+import { ExpenseHistoryAction, GroupPermission, IGroupCategory, IGroupDocument } from '../types';
+import { Types } from 'mongoose';
+
+/**
+ * Load a group's custom category that the user may change
+ * (whoever added it, or a group admin)
+ */
+const getManagedCategory = async (
+    req: Request
+): Promise<{ group: IGroupDocument; category: IGroupCategory }> => {
+    const userId = req.user!._id;
+    const group = await getMemberGroup(req.params.id, userId);
+
+    const category = group.categories.find((c) => c._id.equals(req.params.categoryId));
+    if (!category) {
+        throw new AppError('Category not found', 404);
+    }
+    const allowed = category.createdBy.equals(userId)
+        ? hasGroupPermission(group, userId, GroupPermission.ADD_EXPENSES)
+        : hasGroupPermission(group, userId, GroupPermission.MANAGE_SETTINGS);
+    if (!allowed) {
+        throw new AppError('Only the member who added this category or a group admin can change it', 403);
+    }
+    return { group, category };
+};
+
+/**
+ * Move a group's expenses and recurring templates from one category to
+ * another, noting the change in each expense's history
+ */
+const recategorize = async (
+    group: IGroupDocument,
+    from: string,
+    to: string,
+    changedBy: Types.ObjectId
+): Promise<void> => {
+    await runInTransaction(async (session) => {
+        const expenses = await Expense.find({ group: group._id, category: from }).session(session);
+        await recordExpenseHistory(
+            expenses.map((expense) => ({
+                expense: { ...expense.toObject(), category: to },
+                action: ExpenseHistoryAction.UPDATED,
+                before: toExpenseSnapshot(expense),
+                changedBy,
+            })),
+            session
+        );
+
+        await Expense.updateMany(
+            { group: group._id, category: from },
+            { $set: { category: to } },
+            { session }
+        );
+        await RecurringExpense.updateMany(
+            { group: group._id, 'template.category': from },
+            { $set: { 'template.category': to } },
+            { session }
+        );
+        await group.save({ session });
+    });
+};
+
+/**
+ * Get the categories a group's expenses can use (built-in and custom)
+ * GET /api/groups/:id/categories
+ */
+export const getGroupCategories = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = await getMemberGroup(req.params.id, req.user!._id);
+
+        res.json({
+            success: true,
+            data: getCategories(group),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Add a custom category to a group
+ * POST /api/groups/:id/categories
+ */
+export const createGroupCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { name, icon } = req.body;
+        const userId = req.user!._id;
+        const group = await getMemberGroup(req.params.id, userId, GroupPermission.ADD_EXPENSES);
+
+        if (findCategory(name, group)) {
+            throw new AppError(`Category "${name}" already exists`, 400);
+        }
+
+        group.categories.push({ name, icon, createdBy: userId } as IGroupCategory);
+        await group.save();
+
+        res.status(201).json({
+            success: true,
+            data: findCategory(name, group),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Rename a custom category or change its icon. Expenses using it follow the new name.
+ * PATCH /api/groups/:id/categories/:categoryId
+ */
+export const updateGroupCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { name, icon } = req.body;
+        const { group, category } = await getManagedCategory(req);
+        const previousName = category.name;
+
+        if (name !== undefined && name.toLowerCase() !== previousName.toLowerCase()) {
+            if (findCategory(name, group)) {
+                throw new AppError(`Category "${name}" already exists`, 400);
+            }
+        }
+        if (name !== undefined) category.name = name;
+        if (icon !== undefined) category.icon = icon || undefined;
+
+        if (category.name !== previousName) {
+            await recategorize(group, previousName, category.name, req.user!._id);
+        } else {
+            await group.save();
+        }
+
+        res.json({
+            success: true,
+            data: findCategory(category.name, group),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Delete a custom category. Expenses using it move to the default category.
+ * DELETE /api/groups/:id/categories/:categoryId
+ */
+export const deleteGroupCategory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { group, category } = await getManagedCategory(req);
+
+        group.categories = group.categories.filter((c) => !c._id.equals(category._id));
+        await recategorize(group, category.name, DEFAULT_CATEGORY, req.user!._id);
+
+        res.json({
+            success: true,
+            message: 'Category deleted successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,10 +1,72 @@
 import { Request, Response, NextFunction } from 'express';
-import { Expense, Group, User } from '../models';
-import { calculateSplits } from '../utils';
-import { AppError } from '../middleware';
-import { SplitType } from '../types';
+import { Expense, Group } from '../models';
+import {
+    applyCursor,
+    buildExpenseListQuery,
+    decodeCursor,
+    encodeCursor,
+    ExpenseListFilters,
+    getCursorKey,
+    toExpenseSnapshot,
+    ExpenseSnapshot,
+} from '../utils';
+import {
+    buildExpense,
+    buildItemizedInput,
+    resolveCategory,
+    getExchangeRate,
+    getExpenseLedgerEntries,
+    applyLedgerEntries,
+    runInTransaction,
+    recordExpenseHistory,
+    findExpenseHistory,
+    getMemberGroup,
+    getInputPayerIds,
+    assertCanRecordExpense,
+    assertValidPayers,
+    assertSplitMembers,
+    calculateExpenseSplits,
+    TRASH_RETENTION_DAYS,
+} from '../services';
+import { AppError, assertGroupPermission } from '../middleware';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+import {
+    ExpenseHistoryAction,
+    GroupPermission,
+    IExpenseDocument,
+    IGroupDocument,
+    SplitType,
+} from '../types';
 import { Types } from 'mongoose';
 
+/**
+ * Throw unless the user may change (edit, delete or restore) an expense:
+ * its creator, or in a group an admin. Returns the expense's group.
+ */
+const assertCanManageExpense = async (
+    expense: IExpenseDocument,
+    userId: Types.ObjectId,
+    action: string
+): Promise<IGroupDocument | null> => {
+    const isCreator = expense.createdBy.equals(userId);
+    const group = expense.group ? await Group.findById(expense.group) : null;
+
+    if (!group) {
+        if (!isCreator) {
+            throw new AppError(`Only the creator can ${action} this expense`, 403);
+        }
+        return null;
+    }
+
+    // Creators who have since become viewers can't change theirs either
+    assertGroupPermission(
+        group,
+        userId,
+        isCreator ? GroupPermission.ADD_EXPENSES : GroupPermission.EDIT_ANY_EXPENSE
+    );
+    return group;
+};
+
 /**
  * Create a new expense
  * POST /api/expenses
@@ -15,58 +77,29 @@ export const createExpense = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { description, amount, paidBy, groupId, splitType, splits } = req.body;
+        const { groupId } = req.body;
         const userId = req.user!._id;
 
-        // Validate payer exists
-        const payer = await User.findById(paidBy);
-        if (!payer) {
-            throw new AppError('Payer not found', 404);
-        }
-
-        // If group expense, validate group and membership
         if (groupId) {
-            const group = await Group.findById(groupId);
-            if (!group) {
-                throw new AppError('Group not found', 404);
-            }
-
-            // Check all split users are group members
-            for (const split of splits) {
-                if (!group.members.some((m) => m.equals(new Types.ObjectId(split.userId)))) {
-                    throw new AppError(
-                        `User ${split.userId} is not a member of this group`,
-                        400
-                    );
-                }
-            }
-
-            // Check payer is a group member
-            if (!group.members.some((m) => m.equals(new Types.ObjectId(paidBy)))) {
-                throw new AppError('Payer must be a member of the group', 400);
-            }
+            const group = await getMemberGroup(groupId, userId);
+            assertCanRecordExpense(group, userId, getInputPayerIds(req.body));
         }
 
-        // Calculate splits based on type
-        const calculatedSplits = calculateSplits(
-            amount,
-            splitType as SplitType,
-            splits.map((s: any) => ({ userId: s.userId, amount: s.amount }))
-        );
+        const expense = await buildExpense(req.body, userId);
 
-        // Create expense
-        const expense = await Expense.create({
-            description,
-            amount,
-            paidBy,
-            group: groupId || undefined,
-            splitType,
-            splits: calculatedSplits,
-            createdBy: userId,
+        // Save, update the balance ledger and start the history together
+        await runInTransaction(async (session) => {
+            await expense.save({ session });
+            await applyLedgerEntries(getExpenseLedgerEntries(expense), session);
+            await recordExpenseHistory(
+                [{ expense, action: ExpenseHistoryAction.CREATED, changedBy: req.user!._id }],
+                session
+            );
         });
 
         // Populate and return
         await expense.populate('paidBy', 'name email');
+        await expense.populate('payers.user', 'name email');
         await expense.populate('splits.user', 'name email');
         if (groupId) {
             await expense.populate('group', 'name');
@@ -82,7 +115,9 @@ export const createExpense = async (
 };
 
 /**
- * Get all expenses (with optional filters)
+ * Get all expenses (with optional filters). Pass the `nextCursor` of one
+ * response as `cursor` to get the following rows; without a cursor, pages
+ * are numbered.
  * GET /api/expenses
  */
 export const getExpenses = async (
@@ -91,42 +126,64 @@ export const getExpenses = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const userId = req.user!._id;
-        const { groupId, page = 1, limit = 20 } = req.query;
+        const { page = 1, limit = 20, cursor } = req.query;
 
-        // Build query
-        const query: any = {
-            $or: [
-                { paidBy: userId },
-                { 'splits.user': userId },
-                { createdBy: userId },
-            ],
-        };
+        // Query values have been checked and converted by expenseValidation.list
+        const { filter, sort } = buildExpenseListQuery(
+            req.user!._id,
+            req.query as unknown as ExpenseListFilters
+        );
 
-        if (groupId) {
-            query.group = groupId;
+        const findExpenses = (query: Record<string, any>) => Expense.find(query)
+            .populate('paidBy', 'name email')
+            .populate('payers.user', 'name email')
+            .populate('splits.user', 'name email')
+            .populate('group', 'name')
+            .sort(sort);
+
+        if (cursor !== undefined) {
+            if (!getCursorKey(sort)) {
+                throw new AppError('Cursor pagination is not available when sorting by relevance', 400);
+            }
+            const position = decodeCursor(String(cursor), sort);
+            if (!position) {
+                throw new AppError('Invalid cursor', 400);
+            }
+
+            // One extra row tells us whether there is another page
+            const rows = await findExpenses(applyCursor(filter, position)).limit(Number(limit) + 1);
+            const expenses = rows.slice(0, Number(limit));
+            const hasMore = rows.length > expenses.length;
+
+            res.json({
+                success: true,
+                count: expenses.length,
+                nextCursor: hasMore ? encodeCursor(sort, expenses[expenses.length - 1]) : null,
+                data: expenses,
+            });
+            return;
         }
 
         // Pagination
         const skip = (Number(page) - 1) * Number(limit);
 
         const [expenses, total] = await Promise.all([
-            Expense.find(query)
-                .populate('paidBy', 'name email')
-                .populate('splits.user', 'name email')
-                .populate('group', 'name')
-                .sort({ createdAt: -1 })
+            findExpenses(filter)
                 .skip(skip)
                 .limit(Number(limit)),
-            Expense.countDocuments(query),
+            Expense.countDocuments(filter),
         ]);
+        const pages = Math.ceil(total / Number(limit));
 
         res.json({
             success: true,
             count: expenses.length,
             total,
             page: Number(page),
-            pages: Math.ceil(total / Number(limit)),
+            pages,
+            nextCursor: Number(page) < pages && expenses.length > 0
+                ? encodeCursor(sort, expenses[expenses.length - 1])
+                : null,
             data: expenses,
         });
     } catch (error) {
@@ -144,8 +201,9 @@ export const getExpenseById = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const expense = await Expense.findById(req.params.id)
+        const expense = await Expense.findOne({ _id: req.params.id, deletedAt: null })
             .populate('paidBy', 'name email')
+            .populate('payers.user', 'name email')
             .populate('splits.user', 'name email')
             .populate('group', 'name')
             .populate('createdBy', 'name email');
@@ -167,6 +225,64 @@ export const getExpenseById = async (
     }
 };
 
+/**
+ * Whether a user paid for or shares in an expense (as of a snapshot)
+ */
+const isInvolved = (snapshot: ExpenseSnapshot, userId: string): boolean => {
+    const payers = (snapshot.payers as { user: string }[] | undefined) || [];
+    const splits = (snapshot.splits as { user: string }[] | undefined) || [];
+
+    return snapshot.paidBy === userId ||
+        payers.some((p) => p.user === userId) ||
+        splits.some((s) => s.user === userId);
+};
+
+/**
+ * Get an expense's change history, oldest first. Deleted expenses keep
+ * their history.
+ * GET /api/expenses/:id/history
+ */
+export const getExpenseHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user!._id;
+        const [expense, history] = await Promise.all([
+            Expense.findById(req.params.id),
+            findExpenseHistory(req.params.id),
+        ]);
+
+        if (!expense && history.length === 0) {
+            throw new AppError('Expense not found', 404);
+        }
+
+        // Visible to the creator, anyone involved in its latest version, and group members
+        const latest = expense
+            ? toExpenseSnapshot(expense)
+            : history[history.length - 1].snapshot as ExpenseSnapshot;
+        const creator = expense?.createdBy ?? history[0]?.changedBy?._id;
+        let allowed = Boolean(creator?.equals(userId)) || isInvolved(latest, userId.toString());
+        if (!allowed && latest.group) {
+            const group = await Group.findById(latest.group);
+            allowed = Boolean(group?.members.some((m) => m.equals(userId)));
+        }
+        if (!allowed) {
+            throw new AppError('You cannot view this expense', 403);
+        }
+
+        res.json({
+            success: true,
+            count: history.length,
+            deleted: !expense || Boolean(expense.deletedAt),
+            data: history,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * Update expense
  * PUT /api/expenses/:id
@@ -177,10 +293,24 @@ export const updateExpense = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { description, amount, paidBy, splitType, splits } = req.body;
+        const {
+            description,
+            amount,
+            paidBy,
+            payers,
+            splitType,
+            splits,
+            items,
+            charges,
+            currency,
+            exchangeRate,
+            expenseDate,
+            category,
+            notes,
+        } = req.body;
 
         // Find expense
-        const expense = await Expense.findById(req.params.id);
+        const expense = await Expense.findOne({ _id: req.params.id, deletedAt: null });
         if (!expense) {
             res.status(404).json({
                 success: false,
@@ -189,42 +319,102 @@ export const updateExpense = async (
             return;
         }
 
-        // Check if user created the expense
-        if (!expense.createdBy.equals(req.user!._id)) {
-            res.status(403).json({
-                success: false,
-                error: 'Only the creator can update this expense',
-            });
-            return;
+        const group = await assertCanManageExpense(expense, req.user!._id, 'update');
+        if (payers?.length || paidBy) {
+            if (group) {
+                assertCanRecordExpense(group, req.user!._id, getInputPayerIds({ payers, paidBy }));
+            }
+            await assertValidPayers({ payers, paidBy }, amount || expense.amount, group);
+        } else if (amount && amount !== expense.amount && expense.payers?.length) {
+            // What each person paid would no longer add up
+            throw new AppError('Send the payers again when changing the amount of an expense with several payers', 400);
         }
 
-        // Recalculate splits if amount or split type changed
-        if (amount || splitType || splits) {
+        // What this expense contributes to the ledger before the change
+        const previousEntries = getExpenseLedgerEntries(expense);
+        const before = toExpenseSnapshot(expense);
+
+        // Recalculate splits if amount, split type or items changed
+        if (amount || splitType || splits || items || charges) {
             const newAmount = amount || expense.amount;
             const newSplitType = splitType || expense.splitType;
             const newSplitInput = splits || expense.splits.map((s) => ({
                 userId: s.user.toString(),
                 amount: s.amount,
+                adjustment: s.adjustment,
             }));
+            if (group && (splits || items)) {
+                assertSplitMembers(newSplitInput, group);
+            }
 
-            const calculatedSplits = calculateSplits(
+            const itemized = newSplitType === SplitType.ITEMIZED
+                ? buildItemizedInput(items || expense.items, charges || expense.charges)
+                : undefined;
+
+            const calculatedSplits = calculateExpenseSplits(
                 newAmount,
                 newSplitType as SplitType,
-                newSplitInput
+                newSplitInput,
+                itemized
             );
 
             expense.amount = newAmount;
             expense.splitType = newSplitType;
             expense.splits = calculatedSplits;
+            expense.set('items', itemized?.items);
+            expense.set('charges', itemized && {
+                tax: itemized.tax,
+                serviceCharge: itemized.serviceCharge,
+                tip: itemized.tip,
+            });
+        }
+
+        if (expenseDate) expense.expenseDate = expenseDate;
+        if (category !== undefined) {
+            const group = expense.group ? await Group.findById(expense.group) : null;
+            expense.category = resolveCategory(category, group);
+        }
+
+        if (currency || exchangeRate) {
+            const group = expense.group ? await Group.findById(expense.group) : null;
+            const baseCurrency = group?.baseCurrency || DEFAULT_CURRENCY;
+
+            expense.currency = currency || expense.currency;
+            expense.exchangeRate = exchangeRate
+                ?? await getExchangeRate(
+                    expense.currency,
+                    baseCurrency,
+                    expense.expenseDate,
+                    expense.group
+                );
         }
 
         if (description) expense.description = description;
-        if (paidBy) expense.paidBy = paidBy;
+        if (notes !== undefined) expense.notes = notes || undefined;
+        if (payers?.length) {
+            expense.paidBy = payers[0].userId;
+            expense.set('payers', payers.map((p: any) => ({ user: p.userId, amount: p.amount })));
+        } else if (paidBy) {
+            // Back to a single payer
+            expense.paidBy = paidBy;
+            expense.set('payers', undefined);
+        }
 
-        await expense.save();
+        // Swap the old ledger entries for the new ones and record what
+        // changed, in one transaction
+        await runInTransaction(async (session) => {
+            await expense.save({ session });
+            await applyLedgerEntries(previousEntries, session, -1);
+            await applyLedgerEntries(getExpenseLedgerEntries(expense), session);
+            await recordExpenseHistory(
+                [{ expense, action: ExpenseHistoryAction.UPDATED, before, changedBy: req.user!._id }],
+                session
+            );
+        });
 
         // Populate and return
         await expense.populate('paidBy', 'name email');
+        await expense.populate('payers.user', 'name email');
         await expense.populate('splits.user', 'name email');
         await expense.populate('group', 'name');
 
@@ -238,7 +428,8 @@ export const updateExpense = async (
 };
 
 /**
- * Delete expense
+ * Move an expense to the trash. It stops counting towards balances until
+ * it is restored, and is purged after the retention period.
  * DELETE /api/expenses/:id
  */
 export const deleteExpense = async (
@@ -247,7 +438,7 @@ export const deleteExpense = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const expense = await Expense.findById(req.params.id);
+        const expense = await Expense.findOne({ _id: req.params.id, deletedAt: null });
 
         if (!expense) {
             res.status(404).json({
@@ -257,20 +448,110 @@ export const deleteExpense = async (
             return;
         }
 
-        // Check if user created the expense
-        if (!expense.createdBy.equals(req.user!._id)) {
-            res.status(403).json({
-                success: false,
-                error: 'Only the creator can delete this expense',
-            });
-            return;
+        await assertCanManageExpense(expense, req.user!._id, 'delete');
+
+        await runInTransaction(async (session) => {
+            expense.deletedAt = new Date();
+            expense.deletedBy = req.user!._id;
+            await expense.save({ session });
+            await applyLedgerEntries(getExpenseLedgerEntries(expense), session, -1);
+            await recordExpenseHistory(
+                [{ expense, action: ExpenseHistoryAction.DELETED, changedBy: req.user!._id }],
+                session
+            );
+        });
+
+        res.json({
+            success: true,
+            message: 'Expense moved to trash',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Restore an expense from the trash
+ * POST /api/expenses/:id/restore
+ */
+export const restoreExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user!._id;
+        const expense = await Expense.findOne({ _id: req.params.id, deletedAt: { $ne: null } });
+        if (!expense) {
+            throw new AppError('Expense not found in trash', 404);
         }
 
-        await expense.deleteOne();
+        const group = await assertCanManageExpense(expense, userId, 'restore');
+
+        // Everyone on it has to still be in the group for its balances to make sense
+        if (expense.group) {
+            if (!group) {
+                throw new AppError('The group of this expense no longer exists', 400);
+            }
+            const involved = [
+                expense.paidBy,
+                ...(expense.payers || []).map((p) => p.user),
+                ...expense.splits.map((s) => s.user),
+            ];
+            if (!involved.every((user) => group.members.some((m) => m.equals(user)))) {
+                throw new AppError('Someone on this expense is no longer a member of the group', 400);
+            }
+        }
+
+        await runInTransaction(async (session) => {
+            expense.deletedAt = null;
+            expense.deletedBy = undefined;
+            await expense.save({ session });
+            await applyLedgerEntries(getExpenseLedgerEntries(expense), session);
+            await recordExpenseHistory(
+                [{ expense, action: ExpenseHistoryAction.RESTORED, changedBy: userId }],
+                session
+            );
+        });
+
+        await expense.populate('paidBy', 'name email');
+        await expense.populate('payers.user', 'name email');
+        await expense.populate('splits.user', 'name email');
+        await expense.populate('group', 'name');
+
+        res.json({
+            success: true,
+            data: expense,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get a group's deleted expenses, most recently deleted first
+ * GET /api/groups/:id/trash
+ */
+export const getGroupTrash = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = await getMemberGroup(req.params.id, req.user!._id);
+
+        const expenses = await Expense.find({ group: group._id, deletedAt: { $ne: null } })
+            .populate('paidBy', 'name email')
+            .populate('payers.user', 'name email')
+            .populate('deletedBy', 'name email')
+            .populate('createdBy', 'name email')
+            .sort({ deletedAt: -1 });
 
         res.json({
             success: true,
-            message: 'Expense deleted successfully',
+            count: expenses.length,
+            retentionDays: TRASH_RETENTION_DAYS,
+            data: expenses,
         });
     } catch (error) {
         next(error);
@@ -1,7 +1,17 @@
 import { Request, Response, NextFunction } from 'express';
 import { Group, User } from '../models';
-import { getGroupBalances, getSettlementSuggestions } from '../services';
-import { AppError } from '../middleware';
+import {
+    getSettlementSuggestions,
+    getGroupPlanHash,
+    setMemberRole,
+    addPlaceholderMember,
+    updatePlaceholder,
+    removeFromGroup,
+    getMemberGroup,
+} from '../services';
+import { AppError, getMemberRole, outranks } from '../middleware';
+import { DEFAULT_GROUP_ROLE } from '../config/permissions';
+import { GroupRole } from '../types';
 import { Types } from 'mongoose';
 
 /**
@@ -14,12 +24,13 @@ export const createGroup = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { name, description, memberIds = [] } = req.body;
+        const { name, description, baseCurrency, simplifyDebts, memberIds = [] } = req.body;
         const userId = req.user!._id;
 
         // Validate member IDs exist
         if (memberIds.length > 0) {
-            const validMembers = await User.find({ _id: { $in: memberIds } });
+            // People who haven't signed up are added to a group by name instead
+            const validMembers = await User.find({ _id: { $in: memberIds }, isPlaceholder: { $ne: true } });
             if (validMembers.length !== memberIds.length) {
                 throw new AppError('One or more member IDs are invalid', 400);
             }
@@ -29,12 +40,14 @@ export const createGroup = async (
         const group = await Group.create({
             name,
             description,
+            baseCurrency,
+            simplifyDebts,
             members: [userId, ...memberIds.filter((id: string) => id !== userId.toString())],
             createdBy: userId,
         });
 
         // Populate members
-        await group.populate('members', 'name email');
+        await group.populate('members', 'name email isPlaceholder');
         await group.populate('createdBy', 'name email');
 
         res.status(201).json({
@@ -59,7 +72,7 @@ export const getGroups = async (
         const userId = req.user!._id;
 
         const groups = await Group.find({ members: userId })
-            .populate('members', 'name email')
+            .populate('members', 'name email isPlaceholder')
             .populate('createdBy', 'name email')
             .sort({ updatedAt: -1 });
 
@@ -84,7 +97,8 @@ export const getGroupById = async (
 ): Promise<void> => {
     try {
         const group = await Group.findById(req.params.id)
-            .populate('members', 'name email')
+            .populate('members', 'name email isPlaceholder')
+            .populate('formerMembers.user', 'name email isPlaceholder')
             .populate('createdBy', 'name email');
 
         if (!group) {
@@ -115,7 +129,41 @@ export const getGroupById = async (
 };
 
 /**
- * Add member to group
+ * Update group details and settings
+ * PATCH /api/groups/:id
+ */
+export const updateGroup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { name, description, simplifyDebts, autoConfirmDays } = req.body;
+        const group = req.group!;
+
+        if (name !== undefined) group.name = name;
+        if (description !== undefined) group.description = description;
+        if (simplifyDebts !== undefined) group.simplifyDebts = simplifyDebts;
+        if (autoConfirmDays !== undefined) group.autoConfirmDays = autoConfirmDays ?? undefined;
+
+        await group.save();
+
+        // Populate and return
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            data: group,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Add member to group, as a member unless another role is given
  * POST /api/groups/:id/members
  */
 export const addMember = async (
@@ -124,26 +172,12 @@ export const addMember = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { userId } = req.body;
-        const groupId = req.params.id;
+        const { userId, role = DEFAULT_GROUP_ROLE } = req.body;
+        const group = req.group!;
 
-        // Find group
-        const group = await Group.findById(groupId);
-        if (!group) {
-            res.status(404).json({
-                success: false,
-                error: 'Group not found',
-            });
-            return;
-        }
-
-        // Check if requester is a member
-        if (!group.members.some((m) => m.equals(req.user!._id))) {
-            res.status(403).json({
-                success: false,
-                error: 'You are not a member of this group',
-            });
-            return;
+        // Admins can add members and viewers; only the owner can add admins
+        if (!outranks(group, req.user!._id, role)) {
+            throw new AppError(`You cannot add members as ${role}`, 403);
         }
 
         // Check if user exists
@@ -156,6 +190,11 @@ export const addMember = async (
             return;
         }
 
+        // Placeholders only ever belong to the group that added them
+        if (newMember.isPlaceholder && !group.formerMembers?.some((f) => f.user.equals(newMember._id))) {
+            throw new AppError('People who haven\'t signed up can only be added by name', 400);
+        }
+
         // Check if already a member
         if (group.members.some((m) => m.equals(new Types.ObjectId(userId)))) {
             res.status(400).json({
@@ -166,11 +205,13 @@ export const addMember = async (
         }
 
         // Add member
-        group.members.push(new Types.ObjectId(userId));
+        group.members.push(newMember._id);
+        setMemberRole(group, newMember._id, role);
         await group.save();
 
         // Populate and return
-        await group.populate('members', 'name email');
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
         await group.populate('createdBy', 'name email');
 
         res.json({
@@ -183,7 +224,16 @@ export const addMember = async (
 };
 
 /**
- * Remove member from group
+ * A leaving member's balance resolution from the request, if any
+ */
+const getLeaveOptions = (source: Record<string, any>) => ({
+    resolution: source.resolution,
+    transferTo: source.transferTo ? new Types.ObjectId(source.transferTo as string) : undefined,
+});
+
+/**
+ * Remove member from group (only members ranked below you). Blocked while
+ * they have a balance in the group, unless `resolution` says how to clear it.
  * DELETE /api/groups/:id/members/:userId
  */
 export const removeMember = async (
@@ -192,42 +242,94 @@ export const removeMember = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { id: groupId, userId } = req.params;
+        const group = req.group!;
+        const userId = new Types.ObjectId(req.params.userId);
 
-        // Find group
-        const group = await Group.findById(groupId);
-        if (!group) {
-            res.status(404).json({
-                success: false,
-                error: 'Group not found',
-            });
-            return;
+        const role = getMemberRole(group, userId);
+        if (!role) {
+            throw new AppError('User is not a member of this group', 404);
+        }
+        if (role === GroupRole.OWNER) {
+            throw new AppError('The owner cannot be removed. Transfer ownership first', 400);
+        }
+        if (!outranks(group, req.user!._id, userId)) {
+            throw new AppError(`You cannot remove a member with the ${role} role`, 403);
         }
 
-        // Check if requester is the creator
-        if (!group.createdBy.equals(req.user!._id)) {
-            res.status(403).json({
-                success: false,
-                error: 'Only the group creator can remove members',
-            });
-            return;
+        const settlements = await removeFromGroup(group, userId, req.user!._id, getLeaveOptions(req.query));
+
+        // Populate and return
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            data: group,
+            settlements,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Leave a group. Blocked while you have a balance in the group, unless
+ * `resolution` says how to clear it.
+ * POST /api/groups/:id/leave
+ */
+export const leaveGroup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const userId = req.user!._id;
+        const group = await getMemberGroup(req.params.id, userId);
+
+        if (getMemberRole(group, userId) === GroupRole.OWNER) {
+            throw new AppError('The owner cannot leave. Transfer ownership first', 400);
         }
 
-        // Can't remove the creator
-        if (group.createdBy.equals(new Types.ObjectId(userId))) {
-            res.status(400).json({
-                success: false,
-                error: 'Cannot remove the group creator',
-            });
-            return;
+        const settlements = await removeFromGroup(group, userId, userId, getLeaveOptions(req.body));
+
+        res.json({
+            success: true,
+            message: `You left ${group.name}`,
+            data: { settlements },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Change a member's role (owner only)
+ * PATCH /api/groups/:id/members/:userId
+ */
+export const updateMemberRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const userId = new Types.ObjectId(req.params.userId);
+
+        const current = getMemberRole(group, userId);
+        if (!current) {
+            throw new AppError('User is not a member of this group', 404);
+        }
+        if (current === GroupRole.OWNER) {
+            throw new AppError('Transfer ownership to change the owner\'s role', 400);
         }
 
-        // Remove member
-        group.members = group.members.filter((m) => !m.equals(new Types.ObjectId(userId)));
+        setMemberRole(group, userId, req.body.role);
         await group.save();
 
         // Populate and return
-        await group.populate('members', 'name email');
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
         await group.populate('createdBy', 'name email');
 
         res.json({
@@ -239,6 +341,108 @@ export const removeMember = async (
     }
 };
 
+/**
+ * Hand the group over to another member. The previous owner stays on as
+ * an admin.
+ * POST /api/groups/:id/transfer-ownership
+ */
+export const transferOwnership = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const ownerId = req.user!._id;
+        const newOwnerId = new Types.ObjectId(req.body.userId);
+
+        if (newOwnerId.equals(ownerId)) {
+            throw new AppError('You already own this group', 400);
+        }
+        if (!getMemberRole(group, newOwnerId)) {
+            throw new AppError('The new owner must be a member of the group', 400);
+        }
+
+        setMemberRole(group, ownerId, GroupRole.ADMIN);
+        setMemberRole(group, newOwnerId, GroupRole.OWNER);
+        await group.save();
+
+        // Populate and return
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            data: group,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Add someone who hasn't signed up as a placeholder member
+ * POST /api/groups/:id/placeholders
+ */
+export const addPlaceholder = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const { name, email, phone } = req.body;
+
+        const placeholder = await addPlaceholderMember(group, { name, email, phone });
+
+        // Populate and return
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.status(201).json({
+            success: true,
+            data: { placeholder, group },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Change a placeholder member's name, email or phone
+ * PATCH /api/groups/:id/placeholders/:userId
+ */
+export const updatePlaceholderMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const userId = new Types.ObjectId(req.params.userId);
+
+        if (!group.members.some((m) => m.equals(userId))) {
+            throw new AppError('User is not a member of this group', 404);
+        }
+        const placeholder = await User.findById(userId);
+        if (!placeholder) {
+            throw new AppError('User not found', 404);
+        }
+
+        const { name, email, phone } = req.body;
+        await updatePlaceholder(group, placeholder, { name, email, phone });
+
+        res.json({
+            success: true,
+            data: placeholder,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 /**
  * Get group balances
  * GET /api/groups/:id/balances
@@ -270,12 +474,18 @@ export const getGroupBalanceSummary = async (
         }
 
         // Get simplified settlement suggestions
-        const settlements = await getSettlementSuggestions(groupId);
+        const [settlements, planHash] = await Promise.all([
+            getSettlementSuggestions(groupId),
+            getGroupPlanHash(groupId),
+        ]);
 
         res.json({
             success: true,
             data: {
                 groupId,
+                currency: group.baseCurrency,
+                simplifyDebts: group.simplifyDebts,
+                planHash,
                 settlementSuggestions: settlements.map((s) => ({
                     from: { userId: s.from.userId, name: s.from.userName },
                     to: { userId: s.to.userId, name: s.to.userName },
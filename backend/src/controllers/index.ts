@@ -3,3 +3,7 @@ export * from './user.controller';
 export * from './group.controller';
 export * from './expense.controller';
 export * from './settlement.controller';
+export * from './rate.controller';
+export * from './recurring.controller';
+export * from './category.controller';
+export * from './invite.controller';
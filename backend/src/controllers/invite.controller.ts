@@ -0,0 +1,259 @@
+import { Request, Response, NextFunction } from 'express';
+import { GroupInvite, GroupJoinRequest } from '../models';
+import {
+    createInvite,
+    getInviteToken,
+    findActiveInvite,
+    redeemInvite,
+    decideJoinRequest,
+} from '../services';
+import { AppError, hasGroupPermission } from '../middleware';
+import { GroupPermission, IGroupInviteDocument, JoinRequestStatus } from '../types';
+
+/**
+ * An invite as returned to its group, with the token for its link
+ */
+const toInviteResponse = (invite: IGroupInviteDocument) => ({
+    ...invite.toJSON(),
+    token: getInviteToken(invite),
+});
+
+/**
+ * Create an invite link for a group
+ * POST /api/groups/:id/invites
+ */
+export const createGroupInvite = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { expiresInDays, maxUses, requiresApproval } = req.body;
+
+        const invite = await createInvite(req.group!, req.user!._id, {
+            expiresInDays,
+            maxUses,
+            requiresApproval,
+        });
+        await invite.populate('createdBy', 'name email');
+
+        res.status(201).json({
+            success: true,
+            data: toInviteResponse(invite),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get a group's active invites (admins see everyone's, others their own)
+ * GET /api/groups/:id/invites
+ */
+export const getGroupInvites = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const userId = req.user!._id;
+
+        const invites = await GroupInvite.find({
+            group: group._id,
+            revokedAt: null,
+            expiresAt: { $gt: new Date() },
+            ...(hasGroupPermission(group, userId, GroupPermission.MANAGE_MEMBERS) ? {} : { createdBy: userId }),
+        })
+            .populate('createdBy', 'name email')
+            .sort({ createdAt: -1 });
+
+        res.json({
+            success: true,
+            count: invites.length,
+            data: invites.map(toInviteResponse),
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Revoke an invite (whoever created it, or a group admin)
+ * DELETE /api/groups/:id/invites/:inviteId
+ */
+export const revokeGroupInvite = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+        const userId = req.user!._id;
+
+        const invite = await GroupInvite.findOne({ _id: req.params.inviteId, group: group._id });
+        if (!invite) {
+            throw new AppError('Invite not found', 404);
+        }
+        if (!invite.createdBy.equals(userId) && !hasGroupPermission(group, userId, GroupPermission.MANAGE_MEMBERS)) {
+            throw new AppError('Only the member who created this invite or a group admin can revoke it', 403);
+        }
+
+        if (!invite.revokedAt) {
+            invite.revokedAt = new Date();
+            await invite.save();
+        }
+
+        res.json({
+            success: true,
+            message: 'Invite revoked',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * What an invite link is for, shown before signing in or joining
+ * GET /api/groups/join/:token
+ */
+export const getInvitePreview = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { invite, group } = await findActiveInvite(req.params.token);
+        await invite.populate('createdBy', 'name');
+
+        res.json({
+            success: true,
+            data: {
+                group: {
+                    _id: group._id,
+                    name: group.name,
+                    description: group.description,
+                    memberCount: group.members.length,
+                },
+                invitedBy: invite.createdBy,
+                requiresApproval: invite.requiresApproval,
+                expiresAt: invite.expiresAt,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Join a group through an invite link. Invites that need approval leave a
+ * join request for the group's admins instead (202).
+ * POST /api/groups/join/:token
+ */
+export const joinGroup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { status, group, request } = await redeemInvite(req.params.token, req.user!._id);
+
+        if (status === 'PENDING') {
+            res.status(202).json({
+                success: true,
+                status,
+                message: 'Your request to join has been sent to the group admins',
+                data: request,
+            });
+            return;
+        }
+
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            status,
+            data: group,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get a group's open join requests
+ * GET /api/groups/:id/join-requests
+ */
+export const getJoinRequests = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const requests = await GroupJoinRequest.find({
+            group: req.group!._id,
+            status: JoinRequestStatus.PENDING,
+        })
+            .populate('user', 'name email')
+            .populate({ path: 'invite', select: 'createdBy', populate: { path: 'createdBy', select: 'name' } })
+            .sort({ createdAt: 1 });
+
+        res.json({
+            success: true,
+            count: requests.length,
+            data: requests,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Approve a join request, adding the person to the group
+ * POST /api/groups/:id/join-requests/:requestId/approve
+ */
+export const approveJoinRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = req.group!;
+
+        const request = await decideJoinRequest(group, req.params.requestId, req.user!._id, true);
+
+        await group.populate('members', 'name email isPlaceholder');
+        await group.populate('formerMembers.user', 'name email isPlaceholder');
+        await group.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            data: { request, group },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Reject a join request
+ * POST /api/groups/:id/join-requests/:requestId/reject
+ */
+export const rejectJoinRequest = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const request = await decideJoinRequest(req.group!, req.params.requestId, req.user!._id, false);
+
+        res.json({
+            success: true,
+            data: request,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -0,0 +1,228 @@
+import { Request, Response, NextFunction } from 'express';
+import { ExchangeRate } from '../models';
+import { getExchangeRate, getMemberGroup, importRates, toRateDay } from '../services';
+import { parseRatesCsv } from '../utils';
+import { AppError } from '../middleware';
+import { ExchangeRateSource, GroupPermission } from '../types';
+import { Types } from 'mongoose';
+
+/**
+ * Get rate history
+ * GET /api/rates
+ */
+export const getRates = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { from, to, groupId } = req.query;
+
+        if (groupId) {
+            await getMemberGroup(groupId as string, req.user!._id);
+        }
+
+        const query: any = { group: groupId || null };
+        if (from) query.fromCurrency = from;
+        if (to) query.toCurrency = to;
+
+        const rates = await ExchangeRate.find(query)
+            .populate('createdBy', 'name email')
+            .sort({ effectiveDate: -1, fromCurrency: 1, toCurrency: 1 });
+
+        res.json({
+            success: true,
+            count: rates.length,
+            data: rates,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Look up the rate valid on a date
+ * GET /api/rates/lookup
+ */
+export const lookupRate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { from, to, date, groupId } = req.query as Record<string, string | undefined>;
+        const on = date ? new Date(date) : new Date();
+
+        if (groupId) {
+            await getMemberGroup(groupId, req.user!._id);
+        }
+
+        const rate = await getExchangeRate(from!, to!, on, groupId);
+
+        res.json({
+            success: true,
+            data: { from, to, date: on, rate },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Global rates convert expenses in every group, so the API can't change
+ * them; they are loaded with the rates:import script
+ */
+const GLOBAL_RATE_ERROR = 'Global exchange rates can only be changed by the server administrator';
+
+/**
+ * Pin a dated rate to a group (replaces any rate for the same pair and day)
+ * POST /api/rates
+ */
+export const createRate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { fromCurrency, toCurrency, rate, effectiveDate, groupId } = req.body;
+        const userId = req.user!._id;
+
+        await getMemberGroup(groupId, userId, GroupPermission.MANAGE_SETTINGS);
+
+        const saved = await ExchangeRate.findOneAndUpdate(
+            {
+                fromCurrency,
+                toCurrency,
+                group: groupId,
+                effectiveDate: toRateDay(effectiveDate),
+            },
+            {
+                rate,
+                source: ExchangeRateSource.MANUAL,
+                createdBy: userId,
+            },
+            { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+        );
+
+        res.status(201).json({
+            success: true,
+            data: saved,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Pin many rates to a group from CSV (date,from,to,rate)
+ * POST /api/rates/bulk
+ */
+export const uploadRates = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { csv, groupId } = req.body;
+        const userId = req.user!._id;
+
+        await getMemberGroup(groupId, userId, GroupPermission.MANAGE_SETTINGS);
+
+        const { rates, errors } = parseRatesCsv(csv);
+
+        // Reject the whole upload if any line is bad
+        if (errors.length > 0 || rates.length === 0) {
+            res.status(400).json({
+                success: false,
+                error: 'Invalid CSV',
+                details: errors.length > 0 ? errors : ['CSV has no rate rows'],
+            });
+            return;
+        }
+
+        const { created, updated } = await importRates(rates, new Types.ObjectId(groupId as string), userId);
+
+        res.status(201).json({
+            success: true,
+            data: {
+                count: rates.length,
+                created,
+                updated,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Override a stored rate
+ * PUT /api/rates/:id
+ */
+export const updateRate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { rate, effectiveDate } = req.body;
+
+        const exchangeRate = await ExchangeRate.findById(req.params.id);
+
+        if (!exchangeRate) {
+            throw new AppError('Exchange rate not found', 404);
+        }
+
+        if (!exchangeRate.group) {
+            throw new AppError(GLOBAL_RATE_ERROR, 403);
+        }
+        await getMemberGroup(exchangeRate.group.toString(), req.user!._id, GroupPermission.MANAGE_SETTINGS);
+
+        if (rate !== undefined) exchangeRate.rate = rate;
+        if (effectiveDate) exchangeRate.effectiveDate = toRateDay(effectiveDate);
+        exchangeRate.source = ExchangeRateSource.MANUAL;
+        exchangeRate.createdBy = req.user!._id;
+
+        await exchangeRate.save();
+        await exchangeRate.populate('createdBy', 'name email');
+
+        res.json({
+            success: true,
+            data: exchangeRate,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Delete a stored rate
+ * DELETE /api/rates/:id
+ */
+export const deleteRate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const exchangeRate = await ExchangeRate.findById(req.params.id);
+
+        if (!exchangeRate) {
+            throw new AppError('Exchange rate not found', 404);
+        }
+
+        if (!exchangeRate.group) {
+            throw new AppError(GLOBAL_RATE_ERROR, 403);
+        }
+        await getMemberGroup(exchangeRate.group.toString(), req.user!._id, GroupPermission.MANAGE_SETTINGS);
+
+        await exchangeRate.deleteOne();
+
+        res.json({
+            success: true,
+            message: 'Exchange rate deleted successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
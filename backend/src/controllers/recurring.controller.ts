@@ -0,0 +1,275 @@
+import { Request, Response, NextFunction } from 'express';
+import { RecurringExpense } from '../models';
+import {
+    buildExpense,
+    getMemberGroup,
+    getNextDueDate,
+    getInputPayerIds,
+    assertCanRecordExpense,
+} from '../services';
+import { AppError, hasGroupPermission } from '../middleware';
+import {
+    GroupPermission,
+    IGroupDocument,
+    IRecurringExpenseDocument,
+    RecurrenceFrequency,
+    RecurringExpenseTemplate,
+} from '../types';
+
+/**
+ * Load a group's recurring expense that the user may change
+ * (whoever set it up, or a group admin)
+ */
+const getManagedRecurringExpense = async (
+    req: Request
+): Promise<{ group: IGroupDocument; recurring: IRecurringExpenseDocument }> => {
+    const userId = req.user!._id;
+    const group = await getMemberGroup(req.params.id, userId);
+
+    const recurring = await RecurringExpense.findOne({
+        _id: req.params.recurringId,
+        group: group._id,
+    });
+    if (!recurring) {
+        throw new AppError('Recurring expense not found', 404);
+    }
+    const allowed = recurring.createdBy.equals(userId)
+        ? hasGroupPermission(group, userId, GroupPermission.ADD_EXPENSES)
+        : hasGroupPermission(group, userId, GroupPermission.EDIT_ANY_EXPENSE);
+    if (!allowed) {
+        throw new AppError('Only the creator of this recurring expense or a group admin can change it', 403);
+    }
+    return { group, recurring };
+};
+
+/**
+ * The template fields stored for a schedule (the group, date and rate come from the schedule)
+ */
+const toTemplate = (template: any): RecurringExpenseTemplate => {
+    const { groupId: _groupId, exchangeRate: _exchangeRate, expenseDate: _expenseDate, ...rest } = template;
+    return rest;
+};
+
+/**
+ * Get a group's recurring expenses
+ * GET /api/groups/:id/recurring
+ */
+export const getRecurringExpenses = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = await getMemberGroup(req.params.id, req.user!._id);
+
+        const recurringExpenses = await RecurringExpense.find({ group: group._id })
+            .populate('createdBy', 'name email')
+            .sort({ nextRunAt: 1 });
+
+        res.json({
+            success: true,
+            count: recurringExpenses.length,
+            data: recurringExpenses,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Create a recurring expense
+ * POST /api/groups/:id/recurring
+ */
+export const createRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { frequency, interval, cron, endDate } = req.body;
+        const userId = req.user!._id;
+        const group = await getMemberGroup(req.params.id, userId);
+        const template = toTemplate(req.body.template);
+        const startDate: Date = req.body.startDate || new Date();
+        assertCanRecordExpense(group, userId, getInputPayerIds(template));
+
+        // Check the template would make a valid expense in this group
+        await buildExpense({ ...template, groupId: group._id.toString() }, userId);
+
+        const recurring = new RecurringExpense({
+            group: group._id,
+            frequency,
+            interval,
+            cron,
+            startDate,
+            endDate,
+            template,
+            createdBy: userId,
+        });
+        // The start date itself is the first occurrence
+        recurring.nextRunAt = getNextDueDate(recurring, new Date(startDate.getTime() - 1));
+        await recurring.save();
+
+        res.status(201).json({
+            success: true,
+            data: recurring,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Update a recurring expense's schedule or template
+ * PUT /api/groups/:id/recurring/:recurringId
+ */
+export const updateRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { frequency, interval, cron, startDate, endDate, template } = req.body;
+        const { group, recurring } = await getManagedRecurringExpense(req);
+
+        if (template !== undefined) {
+            recurring.template = toTemplate(template);
+            assertCanRecordExpense(group, req.user!._id, getInputPayerIds(recurring.template));
+            recurring.markModified('template');
+            await buildExpense(
+                { ...recurring.template, groupId: recurring.group.toString() },
+                req.user!._id
+            );
+        }
+        if (frequency !== undefined) recurring.frequency = frequency;
+        if (interval !== undefined) recurring.interval = interval;
+        if (cron !== undefined) recurring.cron = cron;
+        if (startDate !== undefined) recurring.startDate = startDate;
+        if (endDate !== undefined) recurring.endDate = endDate ?? undefined;
+
+        if (recurring.frequency === RecurrenceFrequency.CUSTOM && !recurring.cron) {
+            throw new AppError('A cron rule is required for CUSTOM frequency', 400);
+        }
+
+        // Reschedule from now on; a changed schedule doesn't backfill the past
+        const scheduleChanged = [frequency, interval, cron, startDate, endDate]
+            .some((value) => value !== undefined);
+        if (scheduleChanged) {
+            const now = new Date();
+            const from = recurring.startDate > now ? new Date(recurring.startDate.getTime() - 1) : now;
+            recurring.nextRunAt = getNextDueDate(recurring, from);
+        }
+        await recurring.save();
+
+        res.json({
+            success: true,
+            data: recurring,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Delete a recurring expense (expenses it already generated are kept)
+ * DELETE /api/groups/:id/recurring/:recurringId
+ */
+export const deleteRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { recurring } = await getManagedRecurringExpense(req);
+        await recurring.deleteOne();
+
+        res.json({
+            success: true,
+            message: 'Recurring expense deleted successfully',
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Skip the next occurrence of a recurring expense
+ * POST /api/groups/:id/recurring/:recurringId/skip
+ */
+export const skipRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { recurring } = await getManagedRecurringExpense(req);
+        if (!recurring.nextRunAt) {
+            throw new AppError('This recurring expense has ended', 400);
+        }
+
+        recurring.nextRunAt = getNextDueDate(recurring, recurring.nextRunAt);
+        await recurring.save();
+
+        res.json({
+            success: true,
+            data: recurring,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Pause a recurring expense
+ * POST /api/groups/:id/recurring/:recurringId/pause
+ */
+export const pauseRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { recurring } = await getManagedRecurringExpense(req);
+        recurring.paused = true;
+        await recurring.save();
+
+        res.json({
+            success: true,
+            data: recurring,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Resume a paused recurring expense. Occurrences missed while paused are skipped.
+ * POST /api/groups/:id/recurring/:recurringId/resume
+ */
+export const resumeRecurringExpense = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { group, recurring } = await getManagedRecurringExpense(req);
+        // Paused when its creator left; it would keep adding expenses in their name
+        if (!group.members.some((m) => m.equals(recurring.createdBy))) {
+            throw new AppError('Whoever set up this recurring expense has left the group. Add a new one instead', 400);
+        }
+        recurring.paused = false;
+
+        const now = new Date();
+        if (recurring.nextRunAt && recurring.nextRunAt < now) {
+            recurring.nextRunAt = getNextDueDate(recurring, now);
+        }
+        await recurring.save();
+
+        res.json({
+            success: true,
+            data: recurring,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,9 +1,108 @@
 import { Request, Response, NextFunction } from 'express';
 import { Settlement, User, Group } from '../models';
-import { getSettlementSuggestions } from '../services';
-import { AppError } from '../middleware';
+import {
+    getSettlementSuggestions,
+    getGroupPlanHash,
+    getPairBalances,
+    getExchangeRate,
+    updateSettlementStatus,
+    confirmPaymentsToPlaceholders,
+    runInTransaction,
+    getMemberGroup,
+} from '../services';
+import { AppError, assertGroupPermission } from '../middleware';
+import { GroupPermission, ISettlementDocument, SettlementKind, SettlementStatus } from '../types';
+import {
+    SimplifyStrategy,
+    SettlementActor,
+    checkTransition,
+    applyCursor,
+    decodeCursor,
+    encodeCursor,
+    CursorSort,
+} from '../utils';
+import { DEFAULT_CURRENCY } from '../config/currencies';
 import { Types } from 'mongoose';
 
+/**
+ * A settlement plus any settlements recorded with it by a cross-group settle-up
+ */
+const getLinkedSettlements = async (
+    settlement: ISettlementDocument
+): Promise<ISettlementDocument[]> => {
+    if (!settlement.linkId) return [settlement];
+
+    const linked = await Settlement.find({
+        linkId: settlement.linkId,
+        _id: { $ne: settlement._id },
+    });
+    return [settlement, ...linked];
+};
+
+/**
+ * The user's role in a settlement. For a cross-group settle-up money can
+ * flow both ways, so the party who recorded it acts as the payer and the
+ * other party as the receiver.
+ */
+const getSettlementActor = (
+    settlement: ISettlementDocument,
+    userId: Types.ObjectId
+): SettlementActor | null => {
+    const isParty = settlement.fromUser.equals(userId) || settlement.toUser.equals(userId);
+    if (!isParty) return null;
+
+    if (settlement.linkId && settlement.createdBy) {
+        return settlement.createdBy.equals(userId) ? SettlementActor.PAYER : SettlementActor.RECEIVER;
+    }
+    return settlement.fromUser.equals(userId) ? SettlementActor.PAYER : SettlementActor.RECEIVER;
+};
+
+/**
+ * Move a settlement (and any linked ones) to `status` on behalf of the
+ * requesting user, enforcing the settlement state machine
+ */
+const transitionSettlement = async (
+    req: Request,
+    status: SettlementStatus,
+    forbiddenMessage: string,
+    reason?: string
+): Promise<ISettlementDocument> => {
+    const userId = req.user!._id;
+
+    const settlement = await Settlement.findById(req.params.id);
+    if (!settlement) {
+        throw new AppError('Settlement not found', 404);
+    }
+    if (settlement.kind && settlement.kind !== SettlementKind.PAYMENT) {
+        throw new AppError('Balances cleared when a member left the group cannot be changed', 400);
+    }
+
+    const check = checkTransition(settlement.status, status, getSettlementActor(settlement, userId));
+    if (!check.allowed) {
+        if (check.reason === 'FORBIDDEN') {
+            throw new AppError(forbiddenMessage, 403);
+        }
+        throw new AppError(`Settlement already ${settlement.status.toLowerCase()}`, 400);
+    }
+
+    const settlements = await getLinkedSettlements(settlement);
+    if (status === SettlementStatus.CONFIRMED) {
+        const confirmedAt = new Date();
+        settlements.forEach((s) => {
+            s.confirmedAt = confirmedAt;
+        });
+    }
+    await updateSettlementStatus(settlements, status, userId, reason);
+
+    await settlement.populate('fromUser', 'name email');
+    await settlement.populate('toUser', 'name email');
+    if (settlement.group) {
+        await settlement.populate('group', 'name');
+    }
+
+    return settlement;
+};
+
 /**
  * Create a settlement (record a payment)
  * POST /api/settlements
@@ -14,7 +113,9 @@ export const createSettlement = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { fromUserId, toUserId, amount, groupId, note } = req.body;
+        const { fromUserId, toUserId, amount, groupId, note, currency, exchangeRate } = req.body;
+        const userId = req.user!._id;
+        const onBehalfOfOthers = !userId.equals(fromUserId) && !userId.equals(toUserId);
 
         // Validate users exist
         const fromUser = await User.findById(fromUserId);
@@ -32,12 +133,14 @@ export const createSettlement = async (
             throw new AppError('Cannot settle with yourself', 400);
         }
 
-        // If group settlement, validate group
+        // If group settlement, validate group; group admins can record payments between others
+        let baseCurrency = DEFAULT_CURRENCY;
         if (groupId) {
-            const group = await Group.findById(groupId);
-            if (!group) {
-                throw new AppError('Group not found', 404);
+            const group = await getMemberGroup(groupId, userId, GroupPermission.ADD_EXPENSES);
+            if (onBehalfOfOthers) {
+                assertGroupPermission(group, userId, GroupPermission.RECORD_FOR_OTHERS);
             }
+            baseCurrency = group.baseCurrency;
 
             // Check both users are group members
             if (!group.members.some((m) => m.equals(new Types.ObjectId(fromUserId)))) {
@@ -46,16 +149,28 @@ export const createSettlement = async (
             if (!group.members.some((m) => m.equals(new Types.ObjectId(toUserId)))) {
                 throw new AppError('Receiver is not a member of this group', 400);
             }
+        } else if (onBehalfOfOthers) {
+            throw new AppError('You can only record payments you made or received', 403);
         }
 
-        // Create settlement
+        // Payments can be made in any currency; keep the rate to the base currency
+        const settlementCurrency = currency || baseCurrency;
+        const rate = exchangeRate
+            ?? await getExchangeRate(settlementCurrency, baseCurrency, new Date(), groupId);
+
+        // Create settlement (pending, so the balance ledger is untouched until confirmed;
+        // payments to placeholders are confirmed right away)
         const settlement = await Settlement.create({
             fromUser: fromUserId,
             toUser: toUserId,
             amount,
             group: groupId || undefined,
             note,
+            currency: settlementCurrency,
+            exchangeRate: rate,
+            createdBy: userId,
         });
+        await confirmPaymentsToPlaceholders([settlement], userId);
 
         // Populate and return
         await settlement.populate('fromUser', 'name email');
@@ -74,7 +189,8 @@ export const createSettlement = async (
 };
 
 /**
- * Get all settlements for current user
+ * Get all settlements for current user, newest first. Pass the
+ * `nextCursor` of one response as `cursor` to get the following rows.
  * GET /api/settlements
  */
 export const getSettlements = async (
@@ -84,7 +200,7 @@ export const getSettlements = async (
 ): Promise<void> => {
     try {
         const userId = req.user!._id;
-        const { groupId, page = 1, limit = 20 } = req.query;
+        const { groupId, page = 1, limit = 20, cursor } = req.query;
 
         // Build query
         const query: any = {
@@ -98,26 +214,53 @@ export const getSettlements = async (
             query.group = groupId;
         }
 
+        const sort: CursorSort = { createdAt: -1, _id: -1 };
+        const findSettlements = (filter: Record<string, any>) => Settlement.find(filter)
+            .populate('fromUser', 'name email')
+            .populate('toUser', 'name email')
+            .populate('group', 'name')
+            .sort(sort);
+
+        if (cursor !== undefined) {
+            const position = decodeCursor(String(cursor), sort);
+            if (!position) {
+                throw new AppError('Invalid cursor', 400);
+            }
+
+            // One extra row tells us whether there is another page
+            const rows = await findSettlements(applyCursor(query, position)).limit(Number(limit) + 1);
+            const settlements = rows.slice(0, Number(limit));
+            const hasMore = rows.length > settlements.length;
+
+            res.json({
+                success: true,
+                count: settlements.length,
+                nextCursor: hasMore ? encodeCursor(sort, settlements[settlements.length - 1]) : null,
+                data: settlements,
+            });
+            return;
+        }
+
         // Pagination
         const skip = (Number(page) - 1) * Number(limit);
 
         const [settlements, total] = await Promise.all([
-            Settlement.find(query)
-                .populate('fromUser', 'name email')
-                .populate('toUser', 'name email')
-                .populate('group', 'name')
-                .sort({ createdAt: -1 })
+            findSettlements(query)
                 .skip(skip)
                 .limit(Number(limit)),
             Settlement.countDocuments(query),
         ]);
+        const pages = Math.ceil(total / Number(limit));
 
         res.json({
             success: true,
             count: settlements.length,
             total,
             page: Number(page),
-            pages: Math.ceil(total / Number(limit)),
+            pages,
+            nextCursor: Number(page) < pages && settlements.length > 0
+                ? encodeCursor(sort, settlements[settlements.length - 1])
+                : null,
             data: settlements,
         });
     } catch (error) {
@@ -136,6 +279,7 @@ export const getSuggestions = async (
 ): Promise<void> => {
     try {
         const { groupId } = req.query;
+        const strategy = (req.query.strategy as SimplifyStrategy) || SimplifyStrategy.OPTIMAL;
 
         if (!groupId) {
             throw new AppError('groupId is required', 400);
@@ -152,12 +296,19 @@ export const getSuggestions = async (
         }
 
         // Get optimized settlements
-        const suggestions = await getSettlementSuggestions(groupId as string);
+        const [suggestions, planHash] = await Promise.all([
+            getSettlementSuggestions(groupId as string, { strategy }),
+            getGroupPlanHash(groupId as string),
+        ]);
 
         res.json({
             success: true,
             data: {
                 groupId,
+                currency: group.baseCurrency,
+                simplifyDebts: group.simplifyDebts,
+                strategy,
+                planHash,
                 optimizedSettlements: suggestions.map((s) => ({
                     from: { userId: s.from.userId, name: s.from.userName },
                     to: { userId: s.to.userId, name: s.to.userName },
@@ -172,44 +323,202 @@ export const getSuggestions = async (
 };
 
 /**
- * Confirm a settlement (by the creditor/receiver)
- * PATCH /api/settlements/:id/confirm
+ * Record several suggested settlements at once (all or nothing).
+ * The plan must still match the group's balances (checked via planHash),
+ * and every transfer must be part of it, for at most the suggested amount.
+ * POST /api/settlements/batch
  */
-export const confirmSettlement = async (
+export const createBatchSettlements = async (
     req: Request,
     res: Response,
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { id } = req.params;
+        const { groupId, planHash, settlements: transfers, note } = req.body;
+        const strategy = (req.body.strategy as SimplifyStrategy) || SimplifyStrategy.OPTIMAL;
+
+        // Verify the user may record these payments; only admins can record other people's
         const userId = req.user!._id;
+        const group = await getMemberGroup(groupId, userId, GroupPermission.ADD_EXPENSES);
+        if (transfers.some((t: any) => !userId.equals(t.fromUserId) && !userId.equals(t.toUserId))) {
+            assertGroupPermission(group, userId, GroupPermission.RECORD_FOR_OTHERS);
+        }
 
-        const settlement = await Settlement.findById(id);
-        if (!settlement) {
-            throw new AppError('Settlement not found', 404);
+        // Reject stale plans
+        if (planHash !== await getGroupPlanHash(groupId)) {
+            throw new AppError(
+                'Balances have changed since this plan was computed. Please refresh and try again',
+                409
+            );
         }
 
-        // Only the receiver (creditor) can confirm
-        if (!settlement.toUser.equals(userId)) {
-            throw new AppError('Only the receiver can confirm this settlement', 403);
+        // Each transfer must be in the current plan
+        const plan = await getSettlementSuggestions(groupId, { strategy });
+        const seen = new Set<string>();
+        for (const transfer of transfers) {
+            const key = `${transfer.fromUserId}:${transfer.toUserId}`;
+            const suggestion = plan.find(
+                (s) => s.from.userId.toString() === transfer.fromUserId &&
+                    s.to.userId.toString() === transfer.toUserId
+            );
+
+            if (!suggestion || seen.has(key)) {
+                throw new AppError(`Transfer ${key} is not part of the settlement plan`, 400);
+            }
+            if (transfer.amount > suggestion.amount) {
+                throw new AppError(
+                    `Transfer ${key} exceeds the suggested amount of ${suggestion.amount}`,
+                    400
+                );
+            }
+            seen.add(key);
         }
 
-        // Check if already processed
-        if (settlement.status !== 'PENDING') {
-            throw new AppError(`Settlement already ${settlement.status.toLowerCase()}`, 400);
+        const settlements = await runInTransaction((session) =>
+            Settlement.create(
+                transfers.map((transfer: any) => ({
+                    fromUser: transfer.fromUserId,
+                    toUser: transfer.toUserId,
+                    amount: transfer.amount,
+                    group: groupId,
+                    note,
+                    currency: group.baseCurrency,
+                    exchangeRate: 1,
+                    createdBy: userId,
+                })),
+                { session, ordered: true }
+            )
+        );
+        await confirmPaymentsToPlaceholders(settlements, userId);
+
+        res.status(201).json({
+            success: true,
+            count: settlements.length,
+            data: settlements,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Get what two users owe each other in every group they share
+ * GET /api/settlements/cross-group
+ */
+export const getCrossGroupBalances = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const otherUserId = req.query.userId as string;
+        const userId = req.user!._id.toString();
+
+        const otherUser = await User.findById(otherUserId);
+        if (!otherUser) {
+            throw new AppError('User not found', 404);
+        }
+        if (otherUserId === userId) {
+            throw new AppError('Cannot settle with yourself', 400);
         }
 
-        // Confirm the settlement
-        settlement.status = 'CONFIRMED' as any;
-        settlement.confirmedAt = new Date();
-        await settlement.save();
+        const breakdown = await getPairBalances(userId, otherUserId);
 
-        await settlement.populate('fromUser', 'name email');
-        await settlement.populate('toUser', 'name email');
-        if (settlement.group) {
-            await settlement.populate('group', 'name');
+        res.json({
+            success: true,
+            data: {
+                user: { _id: otherUser._id, name: otherUser.name },
+                ...breakdown,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Settle up with another user across all shared groups.
+ * Records one linked settlement per group, in each group's currency.
+ * POST /api/settlements/cross-group
+ */
+export const settleCrossGroup = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const { userId: otherUserId, note } = req.body;
+        const userId = req.user!._id;
+
+        const otherUser = await User.findById(otherUserId);
+        if (!otherUser) {
+            throw new AppError('User not found', 404);
+        }
+        if (userId.equals(otherUserId)) {
+            throw new AppError('Cannot settle with yourself', 400);
+        }
+        if (otherUser.isPlaceholder) {
+            throw new AppError(`${otherUser.name} hasn't signed up to confirm a linked settle-up. Settle each group separately`, 400);
+        }
+
+        const breakdown = await getPairBalances(userId.toString(), otherUserId);
+        const linkId = new Types.ObjectId();
+
+        // Positive amounts are owed to the current user
+        const docs = breakdown.groups
+            .filter((group) => Math.round(Math.abs(group.amount)) >= 1)
+            .map((group) => ({
+                fromUser: group.amount > 0 ? otherUserId : userId,
+                toUser: group.amount > 0 ? userId : otherUserId,
+                amount: Math.round(Math.abs(group.amount)),
+                group: group.groupId || undefined,
+                note,
+                currency: group.currency,
+                exchangeRate: 1,
+                linkId,
+                createdBy: userId,
+            }));
+
+        if (docs.length === 0) {
+            throw new AppError('Nothing to settle with this user', 400);
         }
 
+        // All or nothing; the other user confirms them together
+        const settlements = await runInTransaction((session) =>
+            Settlement.create(docs, { session, ordered: true })
+        );
+
+        res.status(201).json({
+            success: true,
+            data: {
+                linkId,
+                currency: breakdown.currency,
+                netAmount: breakdown.netAmount,
+                groups: breakdown.groups,
+                settlements,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+/**
+ * Confirm a settlement (by the creditor/receiver)
+ * PATCH /api/settlements/:id/confirm
+ */
+export const confirmSettlement = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const settlement = await transitionSettlement(
+            req,
+            SettlementStatus.CONFIRMED,
+            'Only the receiver can confirm this settlement'
+        );
+
         res.json({
             success: true,
             message: 'Settlement confirmed successfully',
@@ -230,37 +539,69 @@ export const rejectSettlement = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const { id } = req.params;
-        const userId = req.user!._id;
-
-        const settlement = await Settlement.findById(id);
-        if (!settlement) {
-            throw new AppError('Settlement not found', 404);
-        }
+        const settlement = await transitionSettlement(
+            req,
+            SettlementStatus.REJECTED,
+            'Only the receiver can reject this settlement'
+        );
 
-        // Only the receiver (creditor) can reject
-        if (!settlement.toUser.equals(userId)) {
-            throw new AppError('Only the receiver can reject this settlement', 403);
-        }
+        res.json({
+            success: true,
+            message: 'Settlement rejected',
+            data: settlement,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
 
-        // Check if already processed
-        if (settlement.status !== 'PENDING') {
-            throw new AppError(`Settlement already ${settlement.status.toLowerCase()}`, 400);
-        }
+/**
+ * Cancel a settlement recorded by mistake (by the payer, before it's confirmed)
+ * PATCH /api/settlements/:id/cancel
+ */
+export const cancelSettlement = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const settlement = await transitionSettlement(
+            req,
+            SettlementStatus.CANCELLED,
+            'Only the payer can cancel this settlement'
+        );
 
-        // Reject the settlement
-        settlement.status = 'REJECTED' as any;
-        await settlement.save();
+        res.json({
+            success: true,
+            message: 'Settlement cancelled',
+            data: settlement,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
 
-        await settlement.populate('fromUser', 'name email');
-        await settlement.populate('toUser', 'name email');
-        if (settlement.group) {
-            await settlement.populate('group', 'name');
-        }
+/**
+ * Dispute a settlement (by either party). Disputing a confirmed
+ * settlement takes it back out of the balances.
+ * PATCH /api/settlements/:id/dispute
+ */
+export const disputeSettlement = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const settlement = await transitionSettlement(
+            req,
+            SettlementStatus.DISPUTED,
+            'Only the payer or receiver can dispute this settlement',
+            req.body.reason
+        );
 
         res.json({
             success: true,
-            message: 'Settlement rejected',
+            message: 'Settlement disputed',
             data: settlement,
         });
     } catch (error) {
@@ -280,10 +621,17 @@ export const getPendingSettlements = async (
     try {
         const userId = req.user!._id;
 
-        // Get settlements where user is the receiver and status is pending
+        // Get pending settlements the user can respond to (see getSettlementActor)
         const settlements = await Settlement.find({
-            toUser: userId,
-            status: 'PENDING',
+            $or: [
+                { toUser: userId, linkId: { $exists: false } },
+                {
+                    linkId: { $exists: true },
+                    createdBy: { $ne: userId },
+                    $or: [{ fromUser: userId }, { toUser: userId }],
+                },
+            ],
+            status: SettlementStatus.PENDING,
         })
             .populate('fromUser', 'name email')
             .populate('toUser', 'name email')
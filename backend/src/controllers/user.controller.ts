@@ -1,6 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../models';
 import { getUserBalances } from '../services';
+import { IUserDocument } from '../types';
+
+/**
+ * Contact details are only shared for people who signed up. A placeholder's
+ * email decides who can claim it, so only its own group gets to see it.
+ */
+const hidePlaceholderContact = (user: IUserDocument) =>
+    user.isPlaceholder ? { _id: user._id, name: user.name, isPlaceholder: true } : user;
 
 /**
  * Get all users (for adding to groups)
@@ -12,12 +20,12 @@ export const getUsers = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const users = await User.find().select('name email phone');
+        const users = await User.find().select('name email phone isPlaceholder');
 
         res.json({
             success: true,
             count: users.length,
-            data: users,
+            data: users.map(hidePlaceholderContact),
         });
     } catch (error) {
         next(error);
@@ -34,7 +42,7 @@ export const getUserById = async (
     next: NextFunction
 ): Promise<void> => {
     try {
-        const user = await User.findById(req.params.id).select('name email phone createdAt');
+        const user = await User.findById(req.params.id).select('name email phone isPlaceholder createdAt');
 
         if (!user) {
             res.status(404).json({
@@ -46,7 +54,7 @@ export const getUserById = async (
 
         res.json({
             success: true,
-            data: user,
+            data: hidePlaceholderContact(user),
         });
     } catch (error) {
         next(error);
@@ -0,0 +1,52 @@
+import { createScheduler, Scheduler } from './scheduler';
+import { autoConfirmSettlements, runDueRecurringExpenses, purgeDeletedExpenses } from '../services';
+
+export { createScheduler } from './scheduler';
+export type { Scheduler, ScheduledJob } from './scheduler';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Schedule the background jobs and start them
+ */
+export const startJobs = (): Scheduler => {
+    const scheduler = createScheduler();
+
+    scheduler.schedule({
+        name: 'auto-confirm-settlements',
+        intervalMs: Number(process.env.AUTO_CONFIRM_INTERVAL_MINUTES || 60) * MINUTE_MS,
+        runOnStart: true,
+        run: async () => {
+            const confirmed = await autoConfirmSettlements();
+            if (confirmed > 0) {
+                console.log(`✅ Auto-confirmed ${confirmed} pending settlement(s)`);
+            }
+        },
+    });
+
+    scheduler.schedule({
+        name: 'recurring-expenses',
+        intervalMs: Number(process.env.RECURRING_INTERVAL_MINUTES || 15) * MINUTE_MS,
+        runOnStart: true,
+        run: async () => {
+            const created = await runDueRecurringExpenses();
+            if (created > 0) {
+                console.log(`✅ Generated ${created} recurring expense(s)`);
+            }
+        },
+    });
+
+    scheduler.schedule({
+        name: 'purge-trash',
+        intervalMs: Number(process.env.TRASH_PURGE_INTERVAL_MINUTES || 60) * MINUTE_MS,
+        run: async () => {
+            const purged = await purgeDeletedExpenses();
+            if (purged > 0) {
+                console.log(`🗑️ Purged ${purged} expense(s) from the trash`);
+            }
+        },
+    });
+
+    scheduler.start();
+    return scheduler;
+};
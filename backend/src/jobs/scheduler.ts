@@ -0,0 +1,68 @@
+/**
+ * In-process Job Scheduler
+ *
+ * Runs jobs at a fixed interval inside the Node server. Each run is
+ * scheduled only after the previous one finished, so a slow job never
+ * overlaps itself. Timers are unref'd and don't keep the process alive.
+ */
+
+export interface ScheduledJob {
+    name: string;
+    intervalMs: number;
+    run: () => Promise<unknown>;
+    runOnStart?: boolean; // Run once immediately instead of waiting a full interval
+}
+
+export interface Scheduler {
+    schedule: (job: ScheduledJob) => void;
+    start: () => void;
+    stop: () => void;
+    isRunning: () => boolean;
+}
+
+export const createScheduler = (): Scheduler => {
+    const jobs: ScheduledJob[] = [];
+    const timers = new Map<string, NodeJS.Timeout>();
+    let running = false;
+
+    const queue = (job: ScheduledJob, delay: number): void => {
+        const timer = setTimeout(async () => {
+            try {
+                await job.run();
+            } catch (error) {
+                console.error(`❌ Job "${job.name}" failed:`, error);
+            }
+            if (running) {
+                queue(job, job.intervalMs);
+            }
+        }, delay);
+        timer.unref();
+        timers.set(job.name, timer);
+    };
+
+    return {
+        schedule: (job) => {
+            if (jobs.some((j) => j.name === job.name)) {
+                throw new Error(`Job "${job.name}" is already scheduled`);
+            }
+            jobs.push(job);
+            if (running) {
+                queue(job, job.runOnStart ? 0 : job.intervalMs);
+            }
+        },
+
+        start: () => {
+            if (running) return;
+            running = true;
+            jobs.forEach((job) => queue(job, job.runOnStart ? 0 : job.intervalMs));
+        },
+
+        stop: () => {
+            running = false;
+            timers.forEach((timer) => clearTimeout(timer));
+            timers.clear();
+        },
+
+        isRunning: () => running,
+    };
+};
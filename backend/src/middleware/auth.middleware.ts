@@ -1,10 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models';
-import { JWTPayload } from '../types';
+import { AppError } from './error.middleware';
+import { InviteTokenPayload, JWTPayload } from '../types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key';
 
+// Keeps invite tokens and login tokens from being used for each other
+const INVITE_AUDIENCE = 'group-invite';
+
 /**
  * Authentication middleware - verifies JWT token and attaches user to request
  */
@@ -75,6 +79,34 @@ export const generateToken = (userId: string, email: string): string => {
     return jwt.sign(
         { userId, email } as JWTPayload,
         JWT_SECRET,
-        { expiresIn: process.env.JWT_EXPIRES_IN || '7d' }
+        { expiresIn: (process.env.JWT_EXPIRES_IN || '7d') as jwt.SignOptions['expiresIn'] }
     );
 };
+
+/**
+ * Sign an invite link token; it stops verifying when the invite expires
+ */
+export const generateInviteToken = (inviteId: string, groupId: string, expiresAt: Date): string => {
+    return jwt.sign(
+        { inviteId, groupId, exp: Math.floor(expiresAt.getTime() / 1000) },
+        JWT_SECRET,
+        { audience: INVITE_AUDIENCE }
+    );
+};
+
+/**
+ * Check an invite link token's signature and expiry
+ */
+export const verifyInviteToken = (token: string): InviteTokenPayload => {
+    try {
+        const { inviteId, groupId } = jwt.verify(token, JWT_SECRET, {
+            audience: INVITE_AUDIENCE,
+        }) as InviteTokenPayload;
+        return { inviteId, groupId };
+    } catch (error) {
+        if (error instanceof jwt.TokenExpiredError) {
+            throw new AppError('This invite link has expired', 400);
+        }
+        throw new AppError('This invite link is invalid', 400);
+    }
+};
@@ -1,10 +1,26 @@
-export { authenticate, generateToken } from './auth.middleware';
+export {
+    authenticate,
+    generateToken,
+    generateInviteToken,
+    verifyInviteToken,
+} from './auth.middleware';
 export { AppError, errorHandler, notFound } from './error.middleware';
 export { handleValidation } from './handleValidation';
+export {
+    getMemberRole,
+    hasGroupPermission,
+    assertGroupPermission,
+    outranks,
+    requireGroupPermission,
+} from './permission.middleware';
 export {
     authValidation,
     groupValidation,
     expenseValidation,
+    recurringValidation,
+    categoryValidation,
+    inviteValidation,
     settlementValidation,
+    rateValidation,
     commonValidation,
 } from './validate.middleware';
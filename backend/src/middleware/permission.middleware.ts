@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { Group } from '../models';
+import { AppError } from './error.middleware';
+import { GroupPermission, GroupRole, IGroupDocument } from '../types';
+import { DEFAULT_GROUP_ROLE, PERMISSION_ERRORS, ROLE_PERMISSIONS, ROLE_RANK } from '../config/permissions';
+
+/**
+ * A member's role in a group, or null for non-members. Groups from before
+ * roles existed have no entries; their creator is the owner.
+ */
+export const getMemberRole = (
+    group: IGroupDocument,
+    userId: Types.ObjectId | string
+): GroupRole | null => {
+    const id = new Types.ObjectId(userId);
+    if (!group.members.some((m) => m.equals(id))) {
+        return null;
+    }
+
+    const entry = (group.memberRoles || []).find((r) => r.user.equals(id));
+    if (entry) {
+        return entry.role;
+    }
+    const hasOwner = (group.memberRoles || []).some((r) => r.role === GroupRole.OWNER);
+    return !hasOwner && group.createdBy.equals(id) ? GroupRole.OWNER : DEFAULT_GROUP_ROLE;
+};
+
+/**
+ * Whether a member's role grants a permission (false for non-members)
+ */
+export const hasGroupPermission = (
+    group: IGroupDocument,
+    userId: Types.ObjectId | string,
+    permission: GroupPermission
+): boolean => {
+    const role = getMemberRole(group, userId);
+    return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+};
+
+/**
+ * Throw a 403 unless the user is a member with the permission
+ */
+export const assertGroupPermission = (
+    group: IGroupDocument,
+    userId: Types.ObjectId | string,
+    permission: GroupPermission
+): void => {
+    if (getMemberRole(group, userId) === null) {
+        throw new AppError('You are not a member of this group', 403);
+    }
+    if (!hasGroupPermission(group, userId, permission)) {
+        throw new AppError(PERMISSION_ERRORS[permission], 403);
+    }
+};
+
+/**
+ * Whether one member's role ranks above another's (or above a role)
+ */
+export const outranks = (
+    group: IGroupDocument,
+    userId: Types.ObjectId | string,
+    target: Types.ObjectId | string | GroupRole
+): boolean => {
+    const role = getMemberRole(group, userId);
+    const targetRole = Object.values(GroupRole).includes(target as GroupRole)
+        ? target as GroupRole
+        : getMemberRole(group, target);
+    return role !== null && targetRole !== null && ROLE_RANK[role] > ROLE_RANK[targetRole];
+};
+
+/**
+ * Permission middleware - loads the group in `:id`, checks the current
+ * user holds `permission` in it and attaches the group to the request
+ */
+export const requireGroupPermission = (permission: GroupPermission) => async (
+    req: Request,
+    _res: Response,
+    next: NextFunction
+): Promise<void> => {
+    try {
+        const group = await Group.findById(req.params.id);
+        if (!group) {
+            throw new AppError('Group not found', 404);
+        }
+
+        assertGroupPermission(group, req.user!._id, permission);
+        req.group = group;
+        next();
+    } catch (error) {
+        next(error);
+    }
+};
@@ -1,5 +1,10 @@
 import { body, param, query, ValidationChain } from 'express-validator';
-import { SplitType } from '../types';
+import { DebtResolution, RecurrenceFrequency, SplitType } from '../types';
+import { SUPPORTED_CURRENCIES } from '../config/currencies';
+import { ASSIGNABLE_ROLES } from '../config/permissions';
+import { SimplifyStrategy } from '../utils/balanceSimplifier';
+import { isValidCronRule } from '../utils/recurrence';
+import { EXPENSE_SORT_FIELDS } from '../utils/expenseQuery';
 
 /**
  * Validation rules for authentication
@@ -31,6 +36,13 @@ export const authValidation = {
         body('password')
             .notEmpty().withMessage('Password is required'),
     ] as ValidationChain[],
+
+    updateMe: [
+        body('autoConfirmSettlements')
+            .optional()
+            .isBoolean().withMessage('autoConfirmSettlements must be true or false')
+            .toBoolean(),
+    ] as ValidationChain[],
 };
 
 /**
@@ -52,12 +64,120 @@ export const groupValidation = {
         body('memberIds.*')
             .optional()
             .isMongoId().withMessage('Invalid member ID'),
+        body('baseCurrency')
+            .optional()
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        body('simplifyDebts')
+            .optional()
+            .isBoolean().withMessage('simplifyDebts must be true or false')
+            .toBoolean(),
+    ] as ValidationChain[],
+
+    update: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('name')
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 100 }).withMessage('Name must be 2-100 characters'),
+        body('description')
+            .optional()
+            .trim()
+            .isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+        body('simplifyDebts')
+            .optional()
+            .isBoolean().withMessage('simplifyDebts must be true or false')
+            .toBoolean(),
+        body('autoConfirmDays')
+            .optional({ values: 'null' })
+            .isInt({ min: 1, max: 90 }).withMessage('Auto-confirm window must be 1-90 days')
+            .toInt(),
     ] as ValidationChain[],
 
     addMember: [
         body('userId')
             .notEmpty().withMessage('User ID is required')
             .isMongoId().withMessage('Invalid user ID'),
+        body('role')
+            .optional()
+            .isIn(ASSIGNABLE_ROLES).withMessage(`Role must be one of ${ASSIGNABLE_ROLES.join(', ')}`),
+    ] as ValidationChain[],
+
+    removeMember: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('userId')
+            .isMongoId().withMessage('Invalid user ID'),
+        query('resolution')
+            .optional()
+            .isIn(Object.values(DebtResolution)).withMessage('Resolution must be FORGIVE or TRANSFER'),
+        query('transferTo')
+            .if(query('resolution').equals(DebtResolution.TRANSFER))
+            .isMongoId().withMessage('Choose a member to transfer the balance to'),
+    ] as ValidationChain[],
+
+    leave: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('resolution')
+            .optional()
+            .isIn(Object.values(DebtResolution)).withMessage('Resolution must be FORGIVE or TRANSFER'),
+        body('transferTo')
+            .if(body('resolution').equals(DebtResolution.TRANSFER))
+            .isMongoId().withMessage('Choose a member to transfer the balance to'),
+    ] as ValidationChain[],
+
+    updateRole: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('userId')
+            .isMongoId().withMessage('Invalid user ID'),
+        body('role')
+            .isIn(ASSIGNABLE_ROLES).withMessage(`Role must be one of ${ASSIGNABLE_ROLES.join(', ')}`),
+    ] as ValidationChain[],
+
+    transferOwnership: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('userId')
+            .notEmpty().withMessage('User ID is required')
+            .isMongoId().withMessage('Invalid user ID'),
+    ] as ValidationChain[],
+
+    addPlaceholder: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('name')
+            .trim()
+            .notEmpty().withMessage('Name is required')
+            .isLength({ min: 2, max: 50 }).withMessage('Name must be 2-50 characters'),
+        body('email')
+            .optional({ values: 'falsy' })
+            .trim()
+            .isEmail().withMessage('Invalid email format')
+            .normalizeEmail(),
+        body('phone')
+            .optional({ values: 'falsy' })
+            .matches(/^[0-9]{10}$/).withMessage('Phone must be a 10-digit number'),
+    ] as ValidationChain[],
+
+    updatePlaceholder: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('userId')
+            .isMongoId().withMessage('Invalid user ID'),
+        body('name')
+            .optional()
+            .trim()
+            .isLength({ min: 2, max: 50 }).withMessage('Name must be 2-50 characters'),
+        body('email')
+            .optional({ values: 'falsy' })
+            .trim()
+            .isEmail().withMessage('Invalid email format')
+            .normalizeEmail(),
+        body('phone')
+            .optional({ values: 'falsy' })
+            .matches(/^[0-9]{10}$/).withMessage('Phone must be a 10-digit number'),
     ] as ValidationChain[],
 
     idParam: [
@@ -67,46 +187,316 @@ export const groupValidation = {
 };
 
 /**
- * Validation rules for expenses
+ * Expense fields shared by expenses and recurring expense templates
+ * (`prefix` is the path of the fields in the body, e.g. 'template.').
+ * With `optional`, the fields are only checked when the object is present,
+ * or without a prefix, each field when it is sent (for updates).
  */
-export const expenseValidation = {
-    create: [
-        body('description')
+const expenseFields = (prefix = '', optional = false): ValidationChain[] => {
+    const field = (path: string | string[]) => {
+        if (!optional) {
+            return body(path);
+        }
+        const parent = prefix
+            ? prefix.slice(0, -1)
+            : (Array.isArray(path) ? path[0] : path).split('.')[0];
+        return body(path).if(body(parent).exists());
+    };
+
+    return [
+        field(`${prefix}description`)
             .trim()
             .notEmpty().withMessage('Description is required')
             .isLength({ max: 200 }).withMessage('Description cannot exceed 200 characters'),
-        body('amount')
+        field(`${prefix}notes`)
+            .optional()
+            .isString().withMessage('Notes must be a string')
+            .trim()
+            .isLength({ max: 1000 }).withMessage('Notes cannot exceed 1000 characters'),
+        field(`${prefix}amount`)
             .notEmpty().withMessage('Amount is required')
             .isFloat({ min: 1 }).withMessage('Amount must be at least 1'),
-        body('paidBy')
+        field(`${prefix}paidBy`)
+            .if(body(`${prefix}payers`).not().exists())
             .notEmpty().withMessage('Payer is required')
             .isMongoId().withMessage('Invalid payer ID'),
-        body('groupId')
+        field(`${prefix}payers`)
+            .optional()
+            .isArray({ min: 1 }).withMessage('payers must be a non-empty array'),
+        field(`${prefix}payers.*.userId`)
+            .notEmpty().withMessage('User ID is required for each payer')
+            .isMongoId().withMessage('Invalid payer ID'),
+        field(`${prefix}payers.*.amount`)
+            .isFloat({ min: 1 }).withMessage('Each payer must pay at least 1'),
+        field(`${prefix}groupId`)
             .optional()
             .isMongoId().withMessage('Invalid group ID'),
-        body('splitType')
+        field(`${prefix}category`)
+            .optional()
+            .isString().withMessage('Category must be a string')
+            .trim()
+            .isLength({ max: 30 }).withMessage('Category cannot exceed 30 characters'),
+        field(`${prefix}currency`)
+            .optional()
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        field(`${prefix}exchangeRate`)
+            .optional()
+            .isFloat({ gt: 0 }).withMessage('Exchange rate must be greater than 0'),
+        field(`${prefix}splitType`)
             .notEmpty().withMessage('Split type is required')
             .isIn(Object.values(SplitType)).withMessage('Invalid split type'),
-        body('splits')
+        field(`${prefix}splits`)
             .isArray({ min: 1 }).withMessage('At least one split is required'),
-        body('splits.*.userId')
+        field(`${prefix}splits.*.userId`)
             .notEmpty().withMessage('User ID is required in each split')
             .isMongoId().withMessage('Invalid user ID in split'),
-        body('splits.*.amount')
+        field(`${prefix}splits.*.amount`)
             .optional()
             .isFloat({ min: 0 }).withMessage('Split amount must be non-negative'),
+        field(`${prefix}splits.*.amount`)
+            .if(body(`${prefix}splitType`).equals(SplitType.SHARES))
+            .exists().withMessage('Each split needs a number of shares for SHARES split'),
+        field(`${prefix}splits.*.adjustment`)
+            .optional()
+            .isInt().withMessage('Split adjustment must be a whole number'),
+        field(`${prefix}items`)
+            .if(body(`${prefix}splitType`).equals(SplitType.ITEMIZED))
+            .isArray({ min: 1 }).withMessage('At least one item is required for ITEMIZED split'),
+        field(`${prefix}items.*.name`)
+            .trim()
+            .notEmpty().withMessage('Item name is required')
+            .isLength({ max: 100 }).withMessage('Item name cannot exceed 100 characters'),
+        field(`${prefix}items.*.price`)
+            .isFloat({ min: 0 }).withMessage('Item price must be non-negative'),
+        field(`${prefix}items.*.sharedBy`)
+            .isArray({ min: 1 }).withMessage('Each item must be shared by at least one person'),
+        field(`${prefix}items.*.sharedBy.*`)
+            .isMongoId().withMessage('Invalid user ID in item'),
+        field([`${prefix}charges.tax`, `${prefix}charges.serviceCharge`, `${prefix}charges.tip`])
+            .optional()
+            .isFloat({ min: 0 }).withMessage('Charges must be non-negative'),
+        field(`${prefix}splits`)
+            .if(body(`${prefix}splitType`).equals(SplitType.SHARES))
+            .custom((splits: { amount?: number }[]) =>
+                Array.isArray(splits) &&
+                splits.reduce((sum, s) => sum + (Number(s.amount) || 0), 0) > 0
+            ).withMessage('Total shares must be greater than 0'),
+    ];
+};
+
+/**
+ * Validation rules for expenses
+ */
+export const expenseValidation = {
+    create: [
+        ...expenseFields(),
+        body('expenseDate')
+            .optional()
+            .isISO8601().withMessage('Invalid expense date')
+            .toDate(),
+    ] as ValidationChain[],
+
+    update: [
+        ...expenseFields('', true),
+        body('expenseDate')
+            .optional()
+            .isISO8601().withMessage('Invalid expense date')
+            .toDate(),
     ] as ValidationChain[],
 
     list: [
         query('groupId')
             .optional()
             .isMongoId().withMessage('Invalid group ID'),
+        query('q')
+            .optional()
+            .trim()
+            .isLength({ min: 1, max: 100 }).withMessage('Search must be 1-100 characters'),
+        query('category')
+            .optional()
+            .trim()
+            .isLength({ max: 30 }).withMessage('Category cannot exceed 30 characters'),
+        query('splitType')
+            .optional()
+            .isIn(Object.values(SplitType)).withMessage('Invalid split type'),
+        query(['payer', 'participant'])
+            .optional()
+            .isMongoId().withMessage('Invalid user ID'),
+        query(['minAmount', 'maxAmount'])
+            .optional()
+            .isFloat({ min: 0 }).withMessage('Amounts must be non-negative numbers')
+            .toFloat(),
+        query('maxAmount')
+            .optional()
+            .custom((max: number, { req }) =>
+                req.query?.minAmount === undefined || max >= Number(req.query.minAmount)
+            ).withMessage('maxAmount cannot be less than minAmount'),
+        query(['from', 'to'])
+            .optional()
+            .isISO8601().withMessage('Invalid date')
+            .toDate(),
+        query('sortBy')
+            .optional()
+            .isIn(EXPENSE_SORT_FIELDS).withMessage(`sortBy must be one of ${EXPENSE_SORT_FIELDS.join(', ')}`),
+        query('sortBy')
+            .if(query('sortBy').equals('relevance'))
+            .custom((_value, { req }) => Boolean(req.query?.q))
+            .withMessage('Sorting by relevance needs a search (q)'),
+        query('order')
+            .optional()
+            .isIn(['asc', 'desc']).withMessage('order must be asc or desc'),
         query('page')
             .optional()
             .isInt({ min: 1 }).withMessage('Page must be a positive integer'),
         query('limit')
             .optional()
             .isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+        query('cursor')
+            .optional()
+            .isString().withMessage('Invalid cursor')
+            .isLength({ max: 500 }).withMessage('Invalid cursor'),
+    ] as ValidationChain[],
+};
+
+/**
+ * Schedule fields of a recurring expense (all optional when updating)
+ */
+const scheduleFields = (optional: boolean): ValidationChain[] => [
+    (optional ? body('frequency').optional() : body('frequency'))
+        .notEmpty().withMessage('Frequency is required')
+        .isIn(Object.values(RecurrenceFrequency)).withMessage('Frequency must be DAILY, WEEKLY, MONTHLY or CUSTOM'),
+    body('interval')
+        .optional()
+        .isInt({ min: 1, max: 365 }).withMessage('Interval must be between 1 and 365')
+        .toInt(),
+    body('cron')
+        .if(body('frequency').equals(RecurrenceFrequency.CUSTOM))
+        .notEmpty().withMessage('A cron rule is required for CUSTOM frequency'),
+    body('cron')
+        .optional()
+        .custom(isValidCronRule).withMessage('Invalid cron rule (expected: minute hour day-of-month month day-of-week)'),
+    body('startDate')
+        .optional()
+        .isISO8601().withMessage('Invalid start date')
+        .toDate(),
+    body('endDate')
+        .optional({ values: 'null' })
+        .isISO8601().withMessage('Invalid end date')
+        .toDate(),
+];
+
+/**
+ * Validation rules for recurring expenses
+ */
+export const recurringValidation = {
+    create: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        ...scheduleFields(false),
+        body('template')
+            .isObject().withMessage('Expense template is required'),
+        ...expenseFields('template.'),
+    ] as ValidationChain[],
+
+    update: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('recurringId')
+            .isMongoId().withMessage('Invalid recurring expense ID'),
+        ...scheduleFields(true),
+        body('template')
+            .optional()
+            .isObject().withMessage('Expense template must be an object'),
+        ...expenseFields('template.', true),
+    ] as ValidationChain[],
+
+    idParams: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('recurringId')
+            .isMongoId().withMessage('Invalid recurring expense ID'),
+    ] as ValidationChain[],
+};
+
+/**
+ * Validation rules for custom group categories
+ */
+export const categoryValidation = {
+    create: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('name')
+            .trim()
+            .notEmpty().withMessage('Category name is required')
+            .isLength({ max: 30 }).withMessage('Category name cannot exceed 30 characters'),
+        body('icon')
+            .optional()
+            .trim()
+            .isLength({ max: 8 }).withMessage('Category icon must be a single emoji'),
+    ] as ValidationChain[],
+
+    update: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('categoryId')
+            .isMongoId().withMessage('Invalid category ID'),
+        body('name')
+            .optional()
+            .trim()
+            .notEmpty().withMessage('Category name cannot be empty')
+            .isLength({ max: 30 }).withMessage('Category name cannot exceed 30 characters'),
+        body('icon')
+            .optional({ values: 'null' })
+            .trim()
+            .isLength({ max: 8 }).withMessage('Category icon must be a single emoji'),
+    ] as ValidationChain[],
+
+    idParams: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('categoryId')
+            .isMongoId().withMessage('Invalid category ID'),
+    ] as ValidationChain[],
+};
+
+/**
+ * Validation rules for group invites and join requests
+ */
+export const inviteValidation = {
+    create: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('expiresInDays')
+            .optional()
+            .isInt({ min: 1, max: 30 }).withMessage('Invites can last 1-30 days')
+            .toInt(),
+        body('maxUses')
+            .optional({ values: 'null' })
+            .isInt({ min: 1, max: 1000 }).withMessage('Usage limit must be 1-1000')
+            .toInt(),
+        body('requiresApproval')
+            .optional()
+            .isBoolean().withMessage('requiresApproval must be true or false')
+            .toBoolean(),
+    ] as ValidationChain[],
+
+    idParams: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('inviteId')
+            .isMongoId().withMessage('Invalid invite ID'),
+    ] as ValidationChain[],
+
+    token: [
+        param('token')
+            .isJWT().withMessage('This invite link is invalid'),
+    ] as ValidationChain[],
+
+    requestParams: [
+        param('id')
+            .isMongoId().withMessage('Invalid group ID'),
+        param('requestId')
+            .isMongoId().withMessage('Invalid join request ID'),
     ] as ValidationChain[],
 };
 
@@ -114,6 +504,22 @@ export const expenseValidation = {
  * Validation rules for settlements
  */
 export const settlementValidation = {
+    list: [
+        query('groupId')
+            .optional()
+            .isMongoId().withMessage('Invalid group ID'),
+        query('page')
+            .optional()
+            .isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+        query('limit')
+            .optional()
+            .isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+        query('cursor')
+            .optional()
+            .isString().withMessage('Invalid cursor')
+            .isLength({ max: 500 }).withMessage('Invalid cursor'),
+    ] as ValidationChain[],
+
     create: [
         body('fromUserId')
             .notEmpty().withMessage('Payer ID is required')
@@ -131,6 +537,143 @@ export const settlementValidation = {
             .optional()
             .trim()
             .isLength({ max: 200 }).withMessage('Note cannot exceed 200 characters'),
+        body('currency')
+            .optional()
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        body('exchangeRate')
+            .optional()
+            .isFloat({ gt: 0 }).withMessage('Exchange rate must be greater than 0'),
+    ] as ValidationChain[],
+
+    dispute: [
+        body('reason')
+            .trim()
+            .notEmpty().withMessage('Reason is required')
+            .isLength({ max: 200 }).withMessage('Reason cannot exceed 200 characters'),
+    ] as ValidationChain[],
+
+    batch: [
+        body('groupId')
+            .notEmpty().withMessage('Group ID is required')
+            .isMongoId().withMessage('Invalid group ID'),
+        body('planHash')
+            .notEmpty().withMessage('Plan hash is required')
+            .isString().withMessage('Plan hash must be a string'),
+        body('strategy')
+            .optional()
+            .toUpperCase()
+            .isIn(Object.values(SimplifyStrategy)).withMessage('Strategy must be GREEDY or OPTIMAL'),
+        body('settlements')
+            .isArray({ min: 1 }).withMessage('At least one settlement is required'),
+        body('settlements.*.fromUserId')
+            .isMongoId().withMessage('Invalid payer ID'),
+        body('settlements.*.toUserId')
+            .isMongoId().withMessage('Invalid receiver ID'),
+        body('settlements.*.amount')
+            .isFloat({ min: 1 }).withMessage('Amount must be at least 1')
+            .toFloat(),
+        body('note')
+            .optional()
+            .trim()
+            .isLength({ max: 200 }).withMessage('Note cannot exceed 200 characters'),
+    ] as ValidationChain[],
+
+    crossGroup: [
+        body('userId')
+            .notEmpty().withMessage('User ID is required')
+            .isMongoId().withMessage('Invalid user ID'),
+        body('note')
+            .optional()
+            .trim()
+            .isLength({ max: 200 }).withMessage('Note cannot exceed 200 characters'),
+    ] as ValidationChain[],
+
+    crossGroupBalances: [
+        query('userId')
+            .notEmpty().withMessage('User ID is required')
+            .isMongoId().withMessage('Invalid user ID'),
+    ] as ValidationChain[],
+
+    suggestions: [
+        query('groupId')
+            .notEmpty().withMessage('groupId is required')
+            .isMongoId().withMessage('Invalid group ID'),
+        query('strategy')
+            .optional()
+            .toUpperCase()
+            .isIn(Object.values(SimplifyStrategy)).withMessage('Strategy must be GREEDY or OPTIMAL'),
+    ] as ValidationChain[],
+};
+
+/**
+ * Validation rules for exchange rates
+ */
+export const rateValidation = {
+    create: [
+        body('fromCurrency')
+            .notEmpty().withMessage('From currency is required')
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        body('toCurrency')
+            .notEmpty().withMessage('To currency is required')
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency')
+            .custom((value, { req }) => value !== req.body.fromCurrency)
+            .withMessage('From and to currency must be different'),
+        body('rate')
+            .notEmpty().withMessage('Rate is required')
+            .isFloat({ gt: 0 }).withMessage('Rate must be greater than 0'),
+        body('effectiveDate')
+            .notEmpty().withMessage('Effective date is required')
+            .isISO8601().withMessage('Invalid effective date'),
+        body('groupId')
+            .notEmpty().withMessage('Group ID is required; global rates are managed by the server administrator')
+            .isMongoId().withMessage('Invalid group ID'),
+    ] as ValidationChain[],
+
+    update: [
+        param('id')
+            .isMongoId().withMessage('Invalid rate ID'),
+        body('rate')
+            .optional()
+            .isFloat({ gt: 0 }).withMessage('Rate must be greater than 0'),
+        body('effectiveDate')
+            .optional()
+            .isISO8601().withMessage('Invalid effective date'),
+    ] as ValidationChain[],
+
+    bulk: [
+        body('csv')
+            .isString().withMessage('CSV content is required')
+            .notEmpty().withMessage('CSV content is required'),
+        body('groupId')
+            .notEmpty().withMessage('Group ID is required; global rates are managed by the server administrator')
+            .isMongoId().withMessage('Invalid group ID'),
+    ] as ValidationChain[],
+
+    list: [
+        query('from')
+            .optional()
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        query('to')
+            .optional()
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        query('groupId')
+            .optional()
+            .isMongoId().withMessage('Invalid group ID'),
+    ] as ValidationChain[],
+
+    lookup: [
+        query('from')
+            .notEmpty().withMessage('From currency is required')
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        query('to')
+            .notEmpty().withMessage('To currency is required')
+            .isIn(SUPPORTED_CURRENCIES).withMessage('Unsupported currency'),
+        query('date')
+            .optional()
+            .isISO8601().withMessage('Invalid date'),
+        query('groupId')
+            .optional()
+            .isMongoId().withMessage('Invalid group ID'),
     ] as ValidationChain[],
 };
 
@@ -0,0 +1,49 @@
+import mongoose, { Schema } from 'mongoose';
+import { IBalanceDocument } from '../types';
+
+/**
+ * Materialized pairwise balances, kept in step with expenses and
+ * confirmed settlements by the ledger service. Amounts are in the
+ * group's base currency.
+ */
+const balanceSchema = new Schema<IBalanceDocument>(
+    {
+        fromUser: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        toUser: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        amount: {
+            type: Number,
+            default: 0,
+        },
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+            default: null,
+        },
+    },
+    {
+        timestamps: { createdAt: false, updatedAt: true },
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// One entry per pair of users per group
+balanceSchema.index({ group: 1, fromUser: 1, toUser: 1 }, { unique: true });
+balanceSchema.index({ fromUser: 1 });
+balanceSchema.index({ toUser: 1 });
+
+const Balance = mongoose.model<IBalanceDocument>('Balance', balanceSchema);
+
+export default Balance;
@@ -0,0 +1,69 @@
+import mongoose, { Schema } from 'mongoose';
+import { IExchangeRateDocument, ExchangeRateSource } from '../types';
+import { SUPPORTED_CURRENCIES } from '../config/currencies';
+
+const exchangeRateSchema = new Schema<IExchangeRateDocument>(
+    {
+        fromCurrency: {
+            type: String,
+            required: [true, 'From currency is required'],
+            uppercase: true,
+            enum: SUPPORTED_CURRENCIES,
+        },
+        toCurrency: {
+            type: String,
+            required: [true, 'To currency is required'],
+            uppercase: true,
+            enum: SUPPORTED_CURRENCIES,
+        },
+        rate: {
+            type: Number,
+            required: [true, 'Rate is required'],
+            min: [0, 'Rate cannot be negative'],
+        },
+        effectiveDate: {
+            type: Date,
+            required: [true, 'Effective date is required'],
+        },
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+        },
+        source: {
+            type: String,
+            enum: Object.values(ExchangeRateSource),
+            default: ExchangeRateSource.MANUAL,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// Validate: a rate converts between two different currencies
+exchangeRateSchema.pre('save', function (next) {
+    if (this.fromCurrency === this.toCurrency) {
+        return next(new Error('From and to currency must be different'));
+    }
+    next();
+});
+
+// One rate per pair, day and group; uploading the same date again overrides it
+exchangeRateSchema.index(
+    { fromCurrency: 1, toCurrency: 1, group: 1, effectiveDate: -1 },
+    { unique: true }
+);
+
+const ExchangeRate = mongoose.model<IExchangeRateDocument>('ExchangeRate', exchangeRateSchema);
+
+export default ExchangeRate;
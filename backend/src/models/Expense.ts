@@ -1,5 +1,7 @@
 import mongoose, { Schema } from 'mongoose';
 import { IExpenseDocument, SplitType } from '../types';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+import { DEFAULT_CATEGORY } from '../config/categories';
 
 const splitSchema = new Schema(
     {
@@ -18,6 +20,58 @@ const splitSchema = new Schema(
             required: true,
             min: [0, 'Share cannot be negative'],
         },
+        adjustment: {
+            type: Number,
+        },
+    },
+    { _id: false }
+);
+
+const payerSchema = new Schema(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        amount: {
+            type: Number,
+            required: true,
+            min: [1, 'Paid amount must be at least 1'],
+        },
+    },
+    { _id: false }
+);
+
+const itemSchema = new Schema(
+    {
+        name: {
+            type: String,
+            required: [true, 'Item name is required'],
+            trim: true,
+            maxlength: [100, 'Item name cannot exceed 100 characters'],
+        },
+        price: {
+            type: Number,
+            required: [true, 'Item price is required'],
+            min: [0, 'Item price cannot be negative'],
+        },
+        sharedBy: [
+            {
+                type: Schema.Types.ObjectId,
+                ref: 'User',
+                required: true,
+            },
+        ],
+    },
+    { _id: false }
+);
+
+const chargesSchema = new Schema(
+    {
+        tax: { type: Number, default: 0, min: [0, 'Tax cannot be negative'] },
+        serviceCharge: { type: Number, default: 0, min: [0, 'Service charge cannot be negative'] },
+        tip: { type: Number, default: 0, min: [0, 'Tip cannot be negative'] },
     },
     { _id: false }
 );
@@ -30,6 +84,11 @@ const expenseSchema = new Schema<IExpenseDocument>(
             trim: true,
             maxlength: [200, 'Description cannot exceed 200 characters'],
         },
+        notes: {
+            type: String,
+            trim: true,
+            maxlength: [1000, 'Notes cannot exceed 1000 characters'],
+        },
         amount: {
             type: Number,
             required: [true, 'Amount is required'],
@@ -40,10 +99,19 @@ const expenseSchema = new Schema<IExpenseDocument>(
             ref: 'User',
             required: [true, 'Payer is required'],
         },
+        payers: {
+            type: [payerSchema],
+            default: undefined,
+        },
         group: {
             type: Schema.Types.ObjectId,
             ref: 'Group',
         },
+        category: {
+            type: String,
+            trim: true,
+            default: DEFAULT_CATEGORY,
+        },
         splitType: {
             type: String,
             enum: Object.values(SplitType),
@@ -58,6 +126,41 @@ const expenseSchema = new Schema<IExpenseDocument>(
                 message: 'At least one split is required',
             },
         },
+        items: {
+            type: [itemSchema],
+            default: undefined,
+        },
+        charges: {
+            type: chargesSchema,
+        },
+        currency: {
+            type: String,
+            uppercase: true,
+            enum: SUPPORTED_CURRENCIES,
+            default: DEFAULT_CURRENCY,
+        },
+        exchangeRate: {
+            type: Number,
+            default: 1,
+            min: [0, 'Exchange rate cannot be negative'],
+        },
+        expenseDate: {
+            type: Date,
+            required: true,
+            default: Date.now,
+        },
+        recurringExpense: {
+            type: Schema.Types.ObjectId,
+            ref: 'RecurringExpense',
+        },
+        deletedAt: {
+            type: Date,
+            default: null,
+        },
+        deletedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
         createdBy: {
             type: Schema.Types.ObjectId,
             ref: 'User',
@@ -75,6 +178,14 @@ const expenseSchema = new Schema<IExpenseDocument>(
     }
 );
 
+// Primary payer mirrors the first of multiple payers
+expenseSchema.pre('validate', function (next) {
+    if (this.payers && this.payers.length > 0) {
+        this.paidBy = this.payers[0].user;
+    }
+    next();
+});
+
 // Validate splits sum up correctly
 expenseSchema.pre('save', function (next) {
     const totalShares = this.splits.reduce((sum, split) => sum + split.share, 0);
@@ -86,14 +197,29 @@ expenseSchema.pre('save', function (next) {
         );
         return next(error);
     }
+
+    // Multiple payers must cover the whole amount
+    if (this.payers && this.payers.length > 0) {
+        const totalPaid = this.payers.reduce((sum, payer) => sum + payer.amount, 0);
+        if (totalPaid !== this.amount) {
+            return next(new Error(
+                `Payer amounts (${totalPaid}) must equal total amount (${this.amount})`
+            ));
+        }
+    }
     next();
 });
 
 // Create indexes for efficient queries
-expenseSchema.index({ group: 1, createdAt: -1 });
+expenseSchema.index({ group: 1, expenseDate: -1 });
+expenseSchema.index({ group: 1, category: 1 });
 expenseSchema.index({ paidBy: 1 });
+expenseSchema.index({ 'payers.user': 1 });
 expenseSchema.index({ 'splits.user': 1 });
 expenseSchema.index({ createdAt: -1 });
+expenseSchema.index({ group: 1, deletedAt: -1 }); // Trash
+expenseSchema.index({ deletedAt: 1 }); // Purging old trash
+expenseSchema.index({ description: 'text', notes: 'text' }, { weights: { description: 3, notes: 1 } });
 
 const Expense = mongoose.model<IExpenseDocument>('Expense', expenseSchema);
 
@@ -0,0 +1,70 @@
+import mongoose, { Schema } from 'mongoose';
+import { IExpenseHistoryDocument, ExpenseHistoryAction } from '../types';
+
+const fieldChangeSchema = new Schema(
+    {
+        field: {
+            type: String,
+            required: true,
+        },
+        from: {
+            type: Schema.Types.Mixed,
+        },
+        to: {
+            type: Schema.Types.Mixed,
+        },
+    },
+    { _id: false }
+);
+
+const expenseHistorySchema = new Schema<IExpenseHistoryDocument>(
+    {
+        expense: {
+            type: Schema.Types.ObjectId,
+            ref: 'Expense',
+            required: true,
+        },
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+        },
+        version: {
+            type: Number,
+            required: true,
+            min: 1,
+        },
+        action: {
+            type: String,
+            enum: Object.values(ExpenseHistoryAction),
+            required: true,
+        },
+        changes: {
+            type: [fieldChangeSchema],
+            default: [],
+        },
+        snapshot: {
+            type: Schema.Types.Mixed,
+            required: true,
+        },
+        changedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    {
+        timestamps: { createdAt: true, updatedAt: false },
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// One entry per version of an expense
+expenseHistorySchema.index({ expense: 1, version: 1 }, { unique: true });
+
+const ExpenseHistory = mongoose.model<IExpenseHistoryDocument>('ExpenseHistory', expenseHistorySchema);
+
+export default ExpenseHistory;
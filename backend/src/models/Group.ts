@@ -1,5 +1,60 @@
 import mongoose, { Schema } from 'mongoose';
-import { IGroupDocument } from '../types';
+import { GroupRole, IGroupDocument } from '../types';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+
+const categorySchema = new Schema({
+    name: {
+        type: String,
+        required: [true, 'Category name is required'],
+        trim: true,
+        maxlength: [30, 'Category name cannot exceed 30 characters'],
+    },
+    icon: {
+        type: String,
+        trim: true,
+        maxlength: [8, 'Category icon must be a single emoji'],
+    },
+    createdBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+        required: true,
+    },
+});
+
+const memberRoleSchema = new Schema(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        role: {
+            type: String,
+            enum: Object.values(GroupRole),
+            required: true,
+        },
+    },
+    { _id: false }
+);
+
+const formerMemberSchema = new Schema(
+    {
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        leftAt: {
+            type: Date,
+            default: Date.now,
+        },
+        removedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+    },
+    { _id: false }
+);
 
 const groupSchema = new Schema<IGroupDocument>(
     {
@@ -22,6 +77,33 @@ const groupSchema = new Schema<IGroupDocument>(
                 required: true,
             },
         ],
+        memberRoles: {
+            type: [memberRoleSchema],
+            default: [],
+        },
+        formerMembers: {
+            type: [formerMemberSchema],
+            default: [],
+        },
+        baseCurrency: {
+            type: String,
+            uppercase: true,
+            enum: SUPPORTED_CURRENCIES,
+            default: DEFAULT_CURRENCY,
+        },
+        simplifyDebts: {
+            type: Boolean,
+            default: true,
+        },
+        autoConfirmDays: {
+            type: Number,
+            min: [1, 'Auto-confirm window must be at least 1 day'],
+            max: [90, 'Auto-confirm window cannot exceed 90 days'],
+        },
+        categories: {
+            type: [categorySchema],
+            default: [],
+        },
         createdBy: {
             type: Schema.Types.ObjectId,
             ref: 'User',
@@ -39,10 +121,31 @@ const groupSchema = new Schema<IGroupDocument>(
     }
 );
 
-// Ensure creator is always a member
+// New groups start with their creator as a member and the owner, and
+// everyone else as a plain member unless given a role
+groupSchema.pre('save', function (next) {
+    if (this.isNew) {
+        if (!this.members.some((m) => m.equals(this.createdBy))) {
+            this.members.push(this.createdBy);
+        }
+        const roles = this.memberRoles.filter((r) => !r.user.equals(this.createdBy));
+        roles.push({ user: this.createdBy, role: GroupRole.OWNER });
+        for (const member of this.members) {
+            if (!roles.some((r) => r.user.equals(member))) {
+                roles.push({ user: member, role: GroupRole.MEMBER });
+            }
+        }
+        this.memberRoles = roles;
+    }
+    next();
+});
+
+// Someone who rejoins is no longer a former member
 groupSchema.pre('save', function (next) {
-    if (!this.members.some((m) => m.equals(this.createdBy))) {
-        this.members.push(this.createdBy);
+    if (this.formerMembers?.length) {
+        this.formerMembers = this.formerMembers.filter(
+            (former) => !this.members.some((m) => m.equals(former.user))
+        );
     }
     next();
 });
@@ -0,0 +1,54 @@
+import mongoose, { Schema } from 'mongoose';
+import { IGroupInviteDocument } from '../types';
+
+const groupInviteSchema = new Schema<IGroupInviteDocument>(
+    {
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+            required: true,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        expiresAt: {
+            type: Date,
+            required: true,
+        },
+        maxUses: {
+            type: Number,
+            min: [1, 'An invite must allow at least one use'],
+            default: null,
+        },
+        uses: {
+            type: Number,
+            default: 0,
+        },
+        requiresApproval: {
+            type: Boolean,
+            default: false,
+        },
+        revokedAt: {
+            type: Date,
+            default: null,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// Active invites of a group
+groupInviteSchema.index({ group: 1, revokedAt: 1, expiresAt: -1 });
+
+const GroupInvite = mongoose.model<IGroupInviteDocument>('GroupInvite', groupInviteSchema);
+
+export default GroupInvite;
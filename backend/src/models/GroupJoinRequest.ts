@@ -0,0 +1,53 @@
+import mongoose, { Schema } from 'mongoose';
+import { IGroupJoinRequestDocument, JoinRequestStatus } from '../types';
+
+const groupJoinRequestSchema = new Schema<IGroupJoinRequestDocument>(
+    {
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+            required: true,
+        },
+        invite: {
+            type: Schema.Types.ObjectId,
+            ref: 'GroupInvite',
+            required: true,
+        },
+        user: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+        status: {
+            type: String,
+            enum: Object.values(JoinRequestStatus),
+            default: JoinRequestStatus.PENDING,
+        },
+        decidedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        decidedAt: {
+            type: Date,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// At most one open request per person and group
+groupJoinRequestSchema.index(
+    { group: 1, user: 1 },
+    { unique: true, partialFilterExpression: { status: JoinRequestStatus.PENDING } }
+);
+
+const GroupJoinRequest = mongoose.model<IGroupJoinRequestDocument>('GroupJoinRequest', groupJoinRequestSchema);
+
+export default GroupJoinRequest;
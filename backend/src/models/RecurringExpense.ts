@@ -0,0 +1,86 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRecurringExpenseDocument, RecurrenceFrequency } from '../types';
+import { isValidCronRule } from '../utils/recurrence';
+
+const recurringExpenseSchema = new Schema<IRecurringExpenseDocument>(
+    {
+        group: {
+            type: Schema.Types.ObjectId,
+            ref: 'Group',
+            required: [true, 'Group is required'],
+        },
+        frequency: {
+            type: String,
+            enum: Object.values(RecurrenceFrequency),
+            required: [true, 'Frequency is required'],
+        },
+        interval: {
+            type: Number,
+            default: 1,
+            min: [1, 'Interval must be at least 1'],
+        },
+        cron: {
+            type: String,
+            trim: true,
+            validate: {
+                validator: isValidCronRule,
+                message: 'Invalid cron rule',
+            },
+        },
+        startDate: {
+            type: Date,
+            required: [true, 'Start date is required'],
+        },
+        endDate: {
+            type: Date,
+        },
+        nextRunAt: {
+            type: Date,
+        },
+        paused: {
+            type: Boolean,
+            default: false,
+        },
+        // Validated against the expense rules when saved through the API
+        template: {
+            type: Schema.Types.Mixed,
+            required: [true, 'Expense template is required'],
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+            required: true,
+        },
+    },
+    {
+        timestamps: true,
+        toJSON: {
+            transform: (_doc, ret) => {
+                delete ret.__v;
+                return ret;
+            },
+        },
+    }
+);
+
+// Validate: custom schedules need a rule, and the end can't precede the start
+recurringExpenseSchema.pre('save', function (next) {
+    if (this.frequency === RecurrenceFrequency.CUSTOM && !this.cron) {
+        return next(new Error('A cron rule is required for custom schedules'));
+    }
+    if (this.endDate && this.endDate < this.startDate) {
+        return next(new Error('End date cannot be before start date'));
+    }
+    next();
+});
+
+// Create indexes
+recurringExpenseSchema.index({ group: 1 });
+recurringExpenseSchema.index({ paused: 1, nextRunAt: 1 });
+
+const RecurringExpense = mongoose.model<IRecurringExpenseDocument>(
+    'RecurringExpense',
+    recurringExpenseSchema
+);
+
+export default RecurringExpense;
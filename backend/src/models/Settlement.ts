@@ -1,5 +1,35 @@
 import mongoose, { Schema } from 'mongoose';
-import { ISettlementDocument, SettlementStatus } from '../types';
+import { ISettlementDocument, SettlementKind, SettlementStatus } from '../types';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES } from '../config/currencies';
+
+const statusChangeSchema = new Schema(
+    {
+        from: {
+            type: String,
+            enum: Object.values(SettlementStatus),
+            required: true,
+        },
+        to: {
+            type: String,
+            enum: Object.values(SettlementStatus),
+            required: true,
+        },
+        changedBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
+        reason: {
+            type: String,
+            trim: true,
+            maxlength: [200, 'Reason cannot exceed 200 characters'],
+        },
+        changedAt: {
+            type: Date,
+            default: Date.now,
+        },
+    },
+    { _id: false }
+);
 
 const settlementSchema = new Schema<ISettlementDocument>(
     {
@@ -16,7 +46,13 @@ const settlementSchema = new Schema<ISettlementDocument>(
         amount: {
             type: Number,
             required: [true, 'Settlement amount is required'],
-            min: [1, 'Amount must be at least 1'],
+            // Forgiven and transferred debts can be any leftover balance
+            validate: {
+                validator: function (this: ISettlementDocument, amount: number) {
+                    return amount >= (this.kind === SettlementKind.PAYMENT ? 1 : 0.01);
+                },
+                message: 'Amount must be at least 1',
+            },
         },
         group: {
             type: Schema.Types.ObjectId,
@@ -27,14 +63,41 @@ const settlementSchema = new Schema<ISettlementDocument>(
             trim: true,
             maxlength: [200, 'Note cannot exceed 200 characters'],
         },
+        currency: {
+            type: String,
+            uppercase: true,
+            enum: SUPPORTED_CURRENCIES,
+            default: DEFAULT_CURRENCY,
+        },
+        exchangeRate: {
+            type: Number,
+            default: 1,
+            min: [0, 'Exchange rate cannot be negative'],
+        },
         status: {
             type: String,
             enum: Object.values(SettlementStatus),
             default: SettlementStatus.PENDING,
         },
+        kind: {
+            type: String,
+            enum: Object.values(SettlementKind),
+            default: SettlementKind.PAYMENT,
+        },
         confirmedAt: {
             type: Date,
         },
+        statusHistory: {
+            type: [statusChangeSchema],
+            default: [],
+        },
+        linkId: {
+            type: Schema.Types.ObjectId,
+        },
+        createdBy: {
+            type: Schema.Types.ObjectId,
+            ref: 'User',
+        },
     },
     {
         timestamps: true,
@@ -58,7 +121,9 @@ settlementSchema.pre('save', function (next) {
 // Create indexes
 settlementSchema.index({ fromUser: 1, toUser: 1 });
 settlementSchema.index({ group: 1 });
+settlementSchema.index({ linkId: 1 }, { sparse: true });
 settlementSchema.index({ createdAt: -1 });
+settlementSchema.index({ group: 1, status: 1, createdAt: 1 });
 
 const Settlement = mongoose.model<ISettlementDocument>('Settlement', settlementSchema);
 
@@ -13,15 +13,14 @@ const userSchema = new Schema<IUserDocument>(
         },
         email: {
             type: String,
-            required: [true, 'Email is required'],
-            unique: true,
+            required: [function (this: IUserDocument) { return !this.isPlaceholder; }, 'Email is required'],
             lowercase: true,
             trim: true,
             match: [/^\S+@\S+\.\S+$/, 'Please enter a valid email'],
         },
         password: {
             type: String,
-            required: [true, 'Password is required'],
+            required: [function (this: IUserDocument) { return !this.isPlaceholder; }, 'Password is required'],
             minlength: [6, 'Password must be at least 6 characters'],
             select: false, // Don't include password in queries by default
         },
@@ -30,6 +29,14 @@ const userSchema = new Schema<IUserDocument>(
             trim: true,
             match: [/^[0-9]{10}$/, 'Please enter a valid 10-digit phone number'],
         },
+        isPlaceholder: {
+            type: Boolean,
+            default: false,
+        },
+        autoConfirmSettlements: {
+            type: Boolean,
+            default: true,
+        },
     },
     {
         timestamps: true,
@@ -45,7 +52,7 @@ const userSchema = new Schema<IUserDocument>(
 
 // Hash password before saving
 userSchema.pre('save', async function (next) {
-    if (!this.isModified('password')) return next();
+    if (!this.isModified('password') || !this.password) return next();
 
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
@@ -56,11 +63,13 @@ userSchema.pre('save', async function (next) {
 userSchema.methods.comparePassword = async function (
     candidatePassword: string
 ): Promise<boolean> {
+    // Placeholders have no password to sign in with
+    if (!this.password) return false;
     return bcrypt.compare(candidatePassword, this.password);
 };
 
-// Create indexes for better query performance
-userSchema.index({ email: 1 });
+// Create indexes for better query performance (placeholders may have no email)
+userSchema.index({ email: 1 }, { unique: true, sparse: true });
 
 const User = mongoose.model<IUserDocument>('User', userSchema);
 
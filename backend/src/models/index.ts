@@ -2,3 +2,9 @@ export { default as User } from './User';
 export { default as Group } from './Group';
 export { default as Expense } from './Expense';
 export { default as Settlement } from './Settlement';
+export { default as ExchangeRate } from './ExchangeRate';
+export { default as Balance } from './Balance';
+export { default as RecurringExpense } from './RecurringExpense';
+export { default as ExpenseHistory } from './ExpenseHistory';
+export { default as GroupInvite } from './GroupInvite';
+export { default as GroupJoinRequest } from './GroupJoinRequest';
@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { register, login, getMe } from '../controllers';
+import { register, login, getMe, updateMe } from '../controllers';
 import { authenticate, authValidation, handleValidation } from '../middleware';
 
 const router = Router();
@@ -70,4 +70,28 @@ router.post('/login', authValidation.login, handleValidation, login);
  */
 router.get('/me', authenticate, getMe);
 
+/**
+ * @swagger
+ * /api/auth/me:
+ *   patch:
+ *     summary: Update current user preferences
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               autoConfirmSettlements:
+ *                 type: boolean
+ *                 description: When false, payments to you are never auto-confirmed
+ *     responses:
+ *       200:
+ *         description: Updated user data
+ */
+router.patch('/me', authenticate, authValidation.updateMe, handleValidation, updateMe);
+
 export default router;
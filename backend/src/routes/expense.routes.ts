@@ -3,8 +3,10 @@ import {
     createExpense,
     getExpenses,
     getExpenseById,
+    getExpenseHistory,
     updateExpense,
     deleteExpense,
+    restoreExpense,
 } from '../controllers';
 import {
     authenticate,
@@ -32,19 +34,45 @@ router.use(authenticate);
  *         application/json:
  *           schema:
  *             type: object
- *             required: [description, amount, paidBy, splitType, splits]
+ *             required: [description, amount, splitType, splits]
  *             properties:
  *               description:
  *                 type: string
+ *               notes:
+ *                 type: string
  *               amount:
  *                 type: number
  *               paidBy:
  *                 type: string
+ *                 description: Single payer (required unless payers is given)
+ *               payers:
+ *                 type: array
+ *                 description: Several payers whose amounts add up to amount
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     userId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
  *               groupId:
  *                 type: string
+ *               expenseDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: When the expense happened (defaults to now)
+ *               category:
+ *                 type: string
+ *                 description: Built-in or group category (defaults to Other)
+ *               currency:
+ *                 type: string
+ *                 description: Currency of the amounts (defaults to the group's base currency)
+ *               exchangeRate:
+ *                 type: number
+ *                 description: Rate to the group's base currency (defaults to the local rates table)
  *               splitType:
  *                 type: string
- *                 enum: [EQUAL, EXACT, PERCENTAGE]
+ *                 enum: [EQUAL, EXACT, PERCENTAGE, SHARES, ADJUSTMENT, ITEMIZED]
  *               splits:
  *                 type: array
  *                 items:
@@ -54,6 +82,33 @@ router.use(authenticate);
  *                       type: string
  *                     amount:
  *                       type: number
+ *                     adjustment:
+ *                       type: integer
+ *                       description: Signed delta on top of the equal share (ADJUSTMENT only)
+ *               items:
+ *                 type: array
+ *                 description: Receipt line items (ITEMIZED only)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     name:
+ *                       type: string
+ *                     price:
+ *                       type: number
+ *                     sharedBy:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *               charges:
+ *                 type: object
+ *                 description: Spread by item subtotal (ITEMIZED only)
+ *                 properties:
+ *                   tax:
+ *                     type: number
+ *                   serviceCharge:
+ *                     type: number
+ *                   tip:
+ *                     type: number
  *     responses:
  *       201:
  *         description: Expense created
@@ -75,6 +130,63 @@ router.post('/', expenseValidation.create, handleValidation, createExpense);
  *           type: string
  *         description: Filter by group
  *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Text search on description and notes
+ *       - in: query
+ *         name: category
+ *         schema:
+ *           type: string
+ *         description: Filter by category name, ignoring case
+ *       - in: query
+ *         name: splitType
+ *         schema:
+ *           type: string
+ *           enum: [EQUAL, EXACT, PERCENTAGE, SHARES, ADJUSTMENT, ITEMIZED]
+ *       - in: query
+ *         name: payer
+ *         schema:
+ *           type: string
+ *         description: Only expenses this user paid (or helped pay) for
+ *       - in: query
+ *         name: participant
+ *         schema:
+ *           type: string
+ *         description: Only expenses this user has a share of
+ *       - in: query
+ *         name: minAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: maxAmount
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only expenses dated on or after this
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only expenses dated on or before this
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [expenseDate, amount, createdAt, relevance]
+ *         description: Defaults to expenseDate; relevance needs q
+ *       - in: query
+ *         name: order
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *         description: Defaults to desc
+ *       - in: query
  *         name: page
  *         schema:
  *           type: integer
@@ -84,9 +196,14 @@ router.post('/', expenseValidation.create, handleValidation, createExpense);
  *         schema:
  *           type: integer
  *         description: Items per page
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous response (page is ignored; not with relevance sort)
  *     responses:
  *       200:
- *         description: List of expenses
+ *         description: List of expenses with nextCursor (null on the last page)
  */
 router.get('/', expenseValidation.list, handleValidation, getExpenses);
 
@@ -110,6 +227,29 @@ router.get('/', expenseValidation.list, handleValidation, getExpenses);
  */
 router.get('/:id', commonValidation.mongoId, handleValidation, getExpenseById);
 
+/**
+ * @swagger
+ * /api/expenses/{id}/history:
+ *   get:
+ *     summary: Get an expense's change history, oldest first
+ *     description: Each entry has a version, the action (CREATED, UPDATED or DELETED), who made it (absent for recurring expenses), the changed fields and a snapshot. Deleted expenses keep their history.
+ *     tags: [Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: History entries
+ *       404:
+ *         description: Expense not found
+ */
+router.get('/:id/history', commonValidation.mongoId, handleValidation, getExpenseHistory);
+
 /**
  * @swagger
  * /api/expenses/{id}:
@@ -132,10 +272,24 @@ router.get('/:id', commonValidation.mongoId, handleValidation, getExpenseById);
  *             properties:
  *               description:
  *                 type: string
+ *               notes:
+ *                 type: string
  *               amount:
  *                 type: number
  *               paidBy:
  *                 type: string
+ *               payers:
+ *                 type: array
+ *                 description: Required again when changing the amount of an expense with several payers
+ *               expenseDate:
+ *                 type: string
+ *                 format: date-time
+ *               category:
+ *                 type: string
+ *               currency:
+ *                 type: string
+ *               exchangeRate:
+ *                 type: number
  *               splitType:
  *                 type: string
  *               splits:
@@ -143,14 +297,17 @@ router.get('/:id', commonValidation.mongoId, handleValidation, getExpenseById);
  *     responses:
  *       200:
  *         description: Expense updated
+ *       400:
+ *         description: Payers don't add up to the amount or aren't in the group
  */
-router.put('/:id', commonValidation.mongoId, handleValidation, updateExpense);
+router.put('/:id', commonValidation.mongoId, expenseValidation.update, handleValidation, updateExpense);
 
 /**
  * @swagger
  * /api/expenses/{id}:
  *   delete:
- *     summary: Delete expense
+ *     summary: Move an expense to the trash
+ *     description: It stops counting towards balances, can be restored and is purged after the retention period.
  *     tags: [Expenses]
  *     security:
  *       - bearerAuth: []
@@ -162,8 +319,32 @@ router.put('/:id', commonValidation.mongoId, handleValidation, updateExpense);
  *           type: string
  *     responses:
  *       200:
- *         description: Expense deleted
+ *         description: Expense moved to trash
  */
 router.delete('/:id', commonValidation.mongoId, handleValidation, deleteExpense);
 
+/**
+ * @swagger
+ * /api/expenses/{id}/restore:
+ *   post:
+ *     summary: Restore an expense from the trash
+ *     tags: [Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Expense restored
+ *       400:
+ *         description: Someone on the expense has left its group
+ *       404:
+ *         description: Expense not found in trash
+ */
+router.post('/:id/restore', commonValidation.mongoId, handleValidation, restoreExpense);
+
 export default router;
@@ -3,17 +3,96 @@ import {
     createGroup,
     getGroups,
     getGroupById,
+    updateGroup,
     addMember,
     removeMember,
+    leaveGroup,
+    updateMemberRole,
+    transferOwnership,
+    addPlaceholder,
+    updatePlaceholderMember,
     getGroupBalanceSummary,
+    getRecurringExpenses,
+    createRecurringExpense,
+    updateRecurringExpense,
+    deleteRecurringExpense,
+    skipRecurringExpense,
+    pauseRecurringExpense,
+    resumeRecurringExpense,
+    getGroupCategories,
+    createGroupCategory,
+    updateGroupCategory,
+    deleteGroupCategory,
+    getGroupTrash,
+    createGroupInvite,
+    getGroupInvites,
+    revokeGroupInvite,
+    getInvitePreview,
+    joinGroup,
+    getJoinRequests,
+    approveJoinRequest,
+    rejectJoinRequest,
 } from '../controllers';
-import { authenticate, groupValidation, handleValidation } from '../middleware';
+import {
+    authenticate,
+    groupValidation,
+    recurringValidation,
+    categoryValidation,
+    inviteValidation,
+    handleValidation,
+    requireGroupPermission,
+} from '../middleware';
+import { GroupPermission } from '../types';
 
 const router = Router();
 
-// All routes require authentication
+/**
+ * @swagger
+ * /api/groups/join/{token}:
+ *   get:
+ *     summary: Preview the group an invite link is for (no sign-in needed)
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group name, member count, who invited and whether joining needs approval
+ *       400:
+ *         description: Link is invalid, expired, revoked or used up
+ */
+router.get('/join/:token', inviteValidation.token, handleValidation, getInvitePreview);
+
+// All other routes require authentication
 router.use(authenticate);
 
+/**
+ * @swagger
+ * /api/groups/join/{token}:
+ *   post:
+ *     summary: Join a group through an invite link
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Joined (status JOINED) or already a member (status ALREADY_MEMBER)
+ *       202:
+ *         description: The invite needs approval; a join request was sent to the group admins (status PENDING)
+ *       400:
+ *         description: Link is invalid, expired, revoked or used up
+ */
+router.post('/join/:token', inviteValidation.token, handleValidation, joinGroup);
+
 /**
  * @swagger
  * /api/groups:
@@ -34,6 +113,12 @@ router.use(authenticate);
  *                 type: string
  *               description:
  *                 type: string
+ *               baseCurrency:
+ *                 type: string
+ *                 description: Currency balances are computed in (defaults to INR)
+ *               simplifyDebts:
+ *                 type: boolean
+ *                 description: Simplify debts across the group (defaults to true)
  *               memberIds:
  *                 type: array
  *                 items:
@@ -78,11 +163,57 @@ router.get('/', getGroups);
  */
 router.get('/:id', groupValidation.idParam, handleValidation, getGroupById);
 
+/**
+ * @swagger
+ * /api/groups/{id}:
+ *   patch:
+ *     summary: Update group details and settings (owner and admins)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               simplifyDebts:
+ *                 type: boolean
+ *                 description: When false, only suggest payments between people who owe each other directly
+ *               autoConfirmDays:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Confirm pending settlements automatically after this many days (null disables)
+ *     responses:
+ *       200:
+ *         description: Group updated
+ *       403:
+ *         description: Only the owner and admins can update the group
+ */
+router.patch(
+    '/:id',
+    groupValidation.update,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_SETTINGS),
+    updateGroup
+);
+
 /**
  * @swagger
  * /api/groups/{id}/members:
  *   post:
- *     summary: Add member to group
+ *     summary: Add member to group (owner and admins)
+ *     description: Admins can add members and viewers; only the owner can add admins.
  *     tags: [Groups]
  *     security:
  *       - bearerAuth: []
@@ -102,15 +233,22 @@ router.get('/:id', groupValidation.idParam, handleValidation, getGroupById);
  *             properties:
  *               userId:
  *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MEMBER, VIEWER]
+ *                 default: MEMBER
  *     responses:
  *       200:
  *         description: Member added
+ *       403:
+ *         description: Not allowed to add members, or with this role
  */
 router.post(
     '/:id/members',
     groupValidation.idParam,
     groupValidation.addMember,
     handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
     addMember
 );
 
@@ -118,7 +256,95 @@ router.post(
  * @swagger
  * /api/groups/{id}/members/{userId}:
  *   delete:
- *     summary: Remove member from group
+ *     summary: Remove member from group (owner and admins, only members ranked below them)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: resolution
+ *         description: How to clear the member's balance in the group, if they have one
+ *         schema:
+ *           type: string
+ *           enum: [FORGIVE, TRANSFER]
+ *       - in: query
+ *         name: transferTo
+ *         description: Member who takes over the balance, for TRANSFER
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Member removed, with any settlements recorded to clear their balance
+ *       400:
+ *         description: The owner cannot be removed
+ *       409:
+ *         description: The member has a balance or unconfirmed payments in the group
+ */
+router.delete(
+    '/:id/members/:userId',
+    groupValidation.removeMember,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    removeMember
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/leave:
+ *   post:
+ *     summary: Leave a group (anyone but the owner)
+ *     description: Blocked while you have a balance in the group. FORGIVE writes off what others owe you; TRANSFER hands your balance to another member. Only admins can forgive or transfer what they owe.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               resolution:
+ *                 type: string
+ *                 enum: [FORGIVE, TRANSFER]
+ *               transferTo:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Left the group, with any settlements recorded to clear the balance
+ *       400:
+ *         description: The owner cannot leave
+ *       409:
+ *         description: You have a balance or unconfirmed payments in the group
+ */
+router.post(
+    '/:id/leave',
+    groupValidation.leave,
+    handleValidation,
+    leaveGroup
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/members/{userId}:
+ *   patch:
+ *     summary: Change a member's role (owner only)
+ *     description: Admins can manage members, settings and everyone's expenses; members add expenses and record their own payments; viewers can only look.
  *     tags: [Groups]
  *     security:
  *       - bearerAuth: []
@@ -133,17 +359,189 @@ router.post(
  *         required: true
  *         schema:
  *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [role]
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [ADMIN, MEMBER, VIEWER]
  *     responses:
  *       200:
- *         description: Member removed
+ *         description: Role changed
  */
-router.delete('/:id/members/:userId', groupValidation.idParam, handleValidation, removeMember);
+router.patch(
+    '/:id/members/:userId',
+    groupValidation.updateRole,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_ROLES),
+    updateMemberRole
+);
 
 /**
  * @swagger
- * /api/groups/{id}/balances:
+ * /api/groups/{id}/transfer-ownership:
+ *   post:
+ *     summary: Make another member the owner (owner only); the previous owner becomes an admin
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Ownership transferred
+ */
+router.post(
+    '/:id/transfer-ownership',
+    groupValidation.transferOwnership,
+    handleValidation,
+    requireGroupPermission(GroupPermission.TRANSFER_OWNERSHIP),
+    transferOwnership
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/placeholders:
+ *   post:
+ *     summary: Add someone who hasn't signed up as a placeholder member (owner and admins)
+ *     description: Placeholders can be in splits and settlements. When someone registers with a placeholder's email, it becomes their account. Each placeholder belongs only to the group that added it, so an email already in use is refused.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Placeholder and the updated group
+ *       409:
+ *         description: The email belongs to a registered user or another group's placeholder
+ */
+router.post(
+    '/:id/placeholders',
+    groupValidation.addPlaceholder,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    addPlaceholder
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/placeholders/{userId}:
+ *   patch:
+ *     summary: Change a placeholder member's name, email or phone (owner and admins)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               email:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Placeholder updated
+ *       403:
+ *         description: The placeholder is also in other groups
+ */
+router.patch(
+    '/:id/placeholders/:userId',
+    groupValidation.updatePlaceholder,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    updatePlaceholderMember
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/invites:
+ *   post:
+ *     summary: Create an invite link (any member but viewers)
+ *     description: Invites from members who can't add people themselves always need an admin's approval.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               expiresInDays:
+ *                 type: integer
+ *                 description: 1-30 days (defaults to 7)
+ *               maxUses:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: How many people can use it (no limit when omitted)
+ *               requiresApproval:
+ *                 type: boolean
+ *                 description: Joining creates a request for an admin to approve
+ *     responses:
+ *       201:
+ *         description: Invite with the token for its link
  *   get:
- *     summary: Get group balances with settlement suggestions
+ *     summary: List active invites (admins see all, others their own)
  *     tags: [Groups]
  *     security:
  *       - bearerAuth: []
@@ -155,8 +553,474 @@ router.delete('/:id/members/:userId', groupValidation.idParam, handleValidation,
  *           type: string
  *     responses:
  *       200:
- *         description: Group balance summary
+ *         description: Invites with their tokens
  */
-router.get('/:id/balances', groupValidation.idParam, handleValidation, getGroupBalanceSummary);
+router.post(
+    '/:id/invites',
+    inviteValidation.create,
+    handleValidation,
+    requireGroupPermission(GroupPermission.INVITE_MEMBERS),
+    createGroupInvite
+);
+router.get(
+    '/:id/invites',
+    groupValidation.idParam,
+    handleValidation,
+    requireGroupPermission(GroupPermission.INVITE_MEMBERS),
+    getGroupInvites
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/invites/{inviteId}:
+ *   delete:
+ *     summary: Revoke an invite (its creator or an admin)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: inviteId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invite revoked
+ */
+router.delete(
+    '/:id/invites/:inviteId',
+    inviteValidation.idParams,
+    handleValidation,
+    requireGroupPermission(GroupPermission.INVITE_MEMBERS),
+    revokeGroupInvite
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/join-requests:
+ *   get:
+ *     summary: List open join requests (owner and admins)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pending join requests
+ */
+router.get(
+    '/:id/join-requests',
+    groupValidation.idParam,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    getJoinRequests
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/join-requests/{requestId}/approve:
+ *   post:
+ *     summary: Approve a join request, adding the person as a member (owner and admins)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request approved
+ */
+router.post(
+    '/:id/join-requests/:requestId/approve',
+    inviteValidation.requestParams,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    approveJoinRequest
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/join-requests/{requestId}/reject:
+ *   post:
+ *     summary: Reject a join request (owner and admins)
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: requestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Request rejected
+ */
+router.post(
+    '/:id/join-requests/:requestId/reject',
+    inviteValidation.requestParams,
+    handleValidation,
+    requireGroupPermission(GroupPermission.MANAGE_MEMBERS),
+    rejectJoinRequest
+);
+
+/**
+ * @swagger
+ * /api/groups/{id}/balances:
+ *   get:
+ *     summary: Get group balances with settlement suggestions
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Group balance summary
+ */
+router.get('/:id/balances', groupValidation.idParam, handleValidation, getGroupBalanceSummary);
+
+/**
+ * @swagger
+ * /api/groups/{id}/trash:
+ *   get:
+ *     summary: Get the group's deleted expenses, most recently deleted first
+ *     description: Deleted expenses don't count towards balances and are purged after `retentionDays` days. Restore them with POST /api/expenses/{id}/restore.
+ *     tags: [Groups]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Deleted expenses and the retention period in days
+ */
+router.get('/:id/trash', groupValidation.idParam, handleValidation, getGroupTrash);
+
+/**
+ * @swagger
+ * /api/groups/{id}/recurring:
+ *   get:
+ *     summary: List the group's recurring expenses
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring expenses, soonest due first
+ *   post:
+ *     summary: Create a recurring expense (e.g. monthly rent)
+ *     description: Expenses are generated from the template by a background job when they fall due.
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [frequency, template]
+ *             properties:
+ *               frequency:
+ *                 type: string
+ *                 enum: [DAILY, WEEKLY, MONTHLY, CUSTOM]
+ *               interval:
+ *                 type: integer
+ *                 description: Every n days/weeks/months (defaults to 1)
+ *               cron:
+ *                 type: string
+ *                 description: "Required for CUSTOM: minute hour day-of-month month day-of-week, in UTC (e.g. '0 9 1 * *')"
+ *               startDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: First occurrence (defaults to now)
+ *               endDate:
+ *                 type: string
+ *                 format: date-time
+ *               template:
+ *                 type: object
+ *                 description: The fields of POST /api/expenses (groupId and exchangeRate are ignored)
+ *     responses:
+ *       201:
+ *         description: Recurring expense created
+ */
+router.get('/:id/recurring', groupValidation.idParam, handleValidation, getRecurringExpenses);
+router.post('/:id/recurring', recurringValidation.create, handleValidation, createRecurringExpense);
+
+/**
+ * @swagger
+ * /api/groups/{id}/recurring/{recurringId}:
+ *   put:
+ *     summary: Update a recurring expense's schedule or template
+ *     description: Changing the schedule reschedules it from now on; missed occurrences are not backfilled.
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recurringId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring expense updated
+ *       403:
+ *         description: Only its creator or a group admin can change it
+ *   delete:
+ *     summary: Delete a recurring expense (generated expenses are kept)
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recurringId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring expense deleted
+ */
+router.put('/:id/recurring/:recurringId', recurringValidation.update, handleValidation, updateRecurringExpense);
+router.delete('/:id/recurring/:recurringId', recurringValidation.idParams, handleValidation, deleteRecurringExpense);
+
+/**
+ * @swagger
+ * /api/groups/{id}/recurring/{recurringId}/skip:
+ *   post:
+ *     summary: Skip the next occurrence
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recurringId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Next occurrence moved on by one
+ */
+router.post('/:id/recurring/:recurringId/skip', recurringValidation.idParams, handleValidation, skipRecurringExpense);
+
+/**
+ * @swagger
+ * /api/groups/{id}/recurring/{recurringId}/pause:
+ *   post:
+ *     summary: Pause a recurring expense
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recurringId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring expense paused
+ */
+router.post('/:id/recurring/:recurringId/pause', recurringValidation.idParams, handleValidation, pauseRecurringExpense);
+
+/**
+ * @swagger
+ * /api/groups/{id}/recurring/{recurringId}/resume:
+ *   post:
+ *     summary: Resume a paused recurring expense (occurrences missed while paused are skipped)
+ *     tags: [Recurring Expenses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: recurringId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Recurring expense resumed
+ *       400:
+ *         description: Whoever set it up has left the group
+ */
+router.post('/:id/recurring/:recurringId/resume', recurringValidation.idParams, handleValidation, resumeRecurringExpense);
+
+/**
+ * @swagger
+ * /api/groups/{id}/categories:
+ *   get:
+ *     summary: Get the categories a group's expenses can use (built-in and custom)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Categories, built-in first
+ *   post:
+ *     summary: Add a custom category to a group
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               icon:
+ *                 type: string
+ *                 description: Emoji shown next to the name
+ *     responses:
+ *       201:
+ *         description: Category added
+ *       400:
+ *         description: A category with this name already exists
+ */
+router.get('/:id/categories', groupValidation.idParam, handleValidation, getGroupCategories);
+router.post('/:id/categories', categoryValidation.create, handleValidation, createGroupCategory);
+
+/**
+ * @swagger
+ * /api/groups/{id}/categories/{categoryId}:
+ *   patch:
+ *     summary: Rename a custom category or change its icon (expenses follow the new name)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               icon:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Category updated
+ *   delete:
+ *     summary: Delete a custom category (its expenses move to Other)
+ *     tags: [Categories]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: categoryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Category deleted
+ */
+router.patch('/:id/categories/:categoryId', categoryValidation.update, handleValidation, updateGroupCategory);
+router.delete('/:id/categories/:categoryId', categoryValidation.idParams, handleValidation, deleteGroupCategory);
 
 export default router;
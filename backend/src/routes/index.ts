@@ -3,3 +3,4 @@ export { default as userRoutes } from './user.routes';
 export { default as groupRoutes } from './group.routes';
 export { default as expenseRoutes } from './expense.routes';
 export { default as settlementRoutes } from './settlement.routes';
+export { default as rateRoutes } from './rate.routes';
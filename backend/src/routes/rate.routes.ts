@@ -0,0 +1,200 @@
+import { Router } from 'express';
+import {
+    getRates,
+    lookupRate,
+    createRate,
+    uploadRates,
+    updateRate,
+    deleteRate
+} from '../controllers';
+import { authenticate, rateValidation, commonValidation, handleValidation } from '../middleware';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/rates:
+ *   get:
+ *     summary: Get exchange rate history (newest first)
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: string
+ *         description: List rates pinned to this group instead of global rates
+ *     responses:
+ *       200:
+ *         description: List of exchange rates
+ */
+router.get('/', rateValidation.list, handleValidation, getRates);
+
+/**
+ * @swagger
+ * /api/rates/lookup:
+ *   get:
+ *     summary: Get the rate valid on a date (group rate, then latest dated rate, then fallback table)
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: to
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: date
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Defaults to today
+ *       - in: query
+ *         name: groupId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate
+ */
+router.get('/lookup', rateValidation.lookup, handleValidation, lookupRate);
+
+/**
+ * @swagger
+ * /api/rates:
+ *   post:
+ *     summary: Pin a dated exchange rate to a group (replaces any rate for the same pair and day)
+ *     description: Global rates are loaded by the server administrator with `npm run rates:import`.
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fromCurrency, toCurrency, rate, effectiveDate, groupId]
+ *             properties:
+ *               fromCurrency:
+ *                 type: string
+ *               toCurrency:
+ *                 type: string
+ *               rate:
+ *                 type: number
+ *                 description: Units of toCurrency per 1 unit of fromCurrency
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date
+ *               groupId:
+ *                 type: string
+ *                 description: The group to pin the rate to (owner and admins)
+ *     responses:
+ *       201:
+ *         description: Exchange rate saved
+ */
+router.post('/', rateValidation.create, handleValidation, createRate);
+
+/**
+ * @swagger
+ * /api/rates/bulk:
+ *   post:
+ *     summary: Pin exchange rates to a group from CSV
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [csv, groupId]
+ *             properties:
+ *               csv:
+ *                 type: string
+ *                 example: "date,from,to,rate\n2024-03-01,USD,INR,83.12"
+ *               groupId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Rates saved
+ *       400:
+ *         description: Invalid CSV (nothing is saved)
+ */
+router.post('/bulk', rateValidation.bulk, handleValidation, uploadRates);
+
+/**
+ * @swagger
+ * /api/rates/{id}:
+ *   put:
+ *     summary: Override a stored exchange rate
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               rate:
+ *                 type: number
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Exchange rate updated
+ *       403:
+ *         description: Global rates can't be changed through the API
+ */
+router.put('/:id', rateValidation.update, handleValidation, updateRate);
+
+/**
+ * @swagger
+ * /api/rates/{id}:
+ *   delete:
+ *     summary: Delete a stored exchange rate
+ *     tags: [Exchange Rates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exchange rate deleted
+ *       403:
+ *         description: Global rates can't be changed through the API
+ */
+router.delete('/:id', commonValidation.mongoId, handleValidation, deleteRate);
+
+export default router;
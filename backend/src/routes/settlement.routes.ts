@@ -5,7 +5,12 @@ import {
     getSuggestions,
     confirmSettlement,
     rejectSettlement,
-    getPendingSettlements
+    getPendingSettlements,
+    getCrossGroupBalances,
+    settleCrossGroup,
+    createBatchSettlements,
+    cancelSettlement,
+    disputeSettlement
 } from '../controllers';
 import { authenticate, settlementValidation, handleValidation } from '../middleware';
 
@@ -40,6 +45,11 @@ router.use(authenticate);
  *                 type: string
  *               note:
  *                 type: string
+ *               currency:
+ *                 type: string
+ *                 description: Currency of the payment (defaults to the group's base currency)
+ *               exchangeRate:
+ *                 type: number
  *     responses:
  *       201:
  *         description: Settlement recorded (pending confirmation)
@@ -68,11 +78,16 @@ router.post('/', settlementValidation.create, handleValidation, createSettlement
  *         name: limit
  *         schema:
  *           type: integer
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor from the previous response (page is ignored)
  *     responses:
  *       200:
- *         description: List of settlements
+ *         description: List of settlements, newest first, with nextCursor (null on the last page)
  */
-router.get('/', getSettlements);
+router.get('/', settlementValidation.list, handleValidation, getSettlements);
 
 /**
  * @swagger
@@ -103,11 +118,118 @@ router.get('/pending', getPendingSettlements);
  *         schema:
  *           type: string
  *         description: Group ID to get suggestions for
+ *       - in: query
+ *         name: strategy
+ *         schema:
+ *           type: string
+ *           enum: [GREEDY, OPTIMAL]
+ *           default: OPTIMAL
+ *         description: OPTIMAL finds the fewest transfers (greedy above 15 people); GREEDY is faster
  *     responses:
  *       200:
  *         description: Optimized settlement suggestions
  */
-router.get('/suggestions', getSuggestions);
+router.get('/suggestions', settlementValidation.suggestions, handleValidation, getSuggestions);
+
+/**
+ * @swagger
+ * /api/settlements/batch:
+ *   post:
+ *     summary: Record several suggested settlements at once (all or nothing)
+ *     description: Transfers must come from the current suggestion plan (a subset, and at most the suggested amounts). The plan is rejected if the group's balances changed since it was computed.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [groupId, planHash, settlements]
+ *             properties:
+ *               groupId:
+ *                 type: string
+ *               planHash:
+ *                 type: string
+ *                 description: planHash returned with the suggestions
+ *               strategy:
+ *                 type: string
+ *                 enum: [GREEDY, OPTIMAL]
+ *                 description: Strategy the suggestions were computed with
+ *               settlements:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [fromUserId, toUserId, amount]
+ *                   properties:
+ *                     fromUserId:
+ *                       type: string
+ *                     toUserId:
+ *                       type: string
+ *                     amount:
+ *                       type: number
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Settlements recorded (pending confirmation)
+ *       400:
+ *         description: A transfer is not part of the plan
+ *       409:
+ *         description: Balances changed since the plan was computed
+ */
+router.post('/batch', settlementValidation.batch, handleValidation, createBatchSettlements);
+
+/**
+ * @swagger
+ * /api/settlements/cross-group:
+ *   get:
+ *     summary: Per-group breakdown of what you and another user owe each other
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The other user
+ *     responses:
+ *       200:
+ *         description: Per-group balances (positive = they owe you) and the net in the default currency
+ */
+router.get('/cross-group', settlementValidation.crossGroupBalances, handleValidation, getCrossGroupBalances);
+
+/**
+ * @swagger
+ * /api/settlements/cross-group:
+ *   post:
+ *     summary: Settle up with another user across all shared groups
+ *     description: Records one linked settlement per group in a single transaction. The other user confirms or rejects them together.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [userId]
+ *             properties:
+ *               userId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Linked settlements recorded (pending confirmation)
+ *       400:
+ *         description: Nothing to settle
+ */
+router.post('/cross-group', settlementValidation.crossGroup, handleValidation, settleCrossGroup);
 
 /**
  * @swagger
@@ -155,5 +277,66 @@ router.patch('/:id/confirm', confirmSettlement);
  */
 router.patch('/:id/reject', rejectSettlement);
 
+/**
+ * @swagger
+ * /api/settlements/{id}/cancel:
+ *   patch:
+ *     summary: Cancel a settlement recorded by mistake (payer only, while pending or disputed)
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Settlement ID
+ *     responses:
+ *       200:
+ *         description: Settlement cancelled
+ *       400:
+ *         description: Settlement can no longer be cancelled
+ *       403:
+ *         description: Only the payer can cancel
+ */
+router.patch('/:id/cancel', cancelSettlement);
+
+/**
+ * @swagger
+ * /api/settlements/{id}/dispute:
+ *   patch:
+ *     summary: Dispute a pending or confirmed settlement (either party)
+ *     description: Disputing a confirmed settlement removes it from balances until the receiver confirms it again.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Settlement ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Settlement disputed
+ *       400:
+ *         description: Settlement can no longer be disputed
+ *       403:
+ *         description: Only the payer or receiver can dispute
+ */
+router.patch('/:id/dispute', settlementValidation.dispute, handleValidation, disputeSettlement);
+
 export default router;
 
@@ -0,0 +1,26 @@
+/**
+ * Expense Date Migration
+ *
+ * Usage:
+ *   npm run migrate:expense-dates  - backfill expenseDate from createdAt
+ *
+ * Expenses entered before `expenseDate` existed are dated when they were
+ * created. Already migrated expenses are left alone, so it can be re-run.
+ */
+
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import { backfillExpenseDates } from '../services/expense.service';
+
+connectDB()
+    .then(() => backfillExpenseDates())
+    .then(async (count) => {
+        console.log(`✅ Backfilled expenseDate on ${count} expense${count === 1 ? '' : 's'}`);
+        await mongoose.connection.close();
+        process.exit(0);
+    })
+    .catch(async (error) => {
+        console.error('❌ Expense date migration failed:', error);
+        await mongoose.connection.close();
+        process.exit(1);
+    });
@@ -0,0 +1,27 @@
+/**
+ * Group Role Migration
+ *
+ * Usage:
+ *   npm run migrate:group-roles  - give members of existing groups a role
+ *
+ * Groups created before roles existed have no role entries; their creator
+ * becomes the owner and everyone else a member. Groups that already have
+ * a role for every member are left alone, so it can be re-run.
+ */
+
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import { backfillGroupRoles } from '../services/group.service';
+
+connectDB()
+    .then(() => backfillGroupRoles())
+    .then(async (count) => {
+        console.log(`✅ Backfilled member roles on ${count} group${count === 1 ? '' : 's'}`);
+        await mongoose.connection.close();
+        process.exit(0);
+    })
+    .catch(async (error) => {
+        console.error('❌ Group role migration failed:', error);
+        await mongoose.connection.close();
+        process.exit(1);
+    });
@@ -0,0 +1,54 @@
+/**
+ * Balance Ledger Maintenance
+ *
+ * Usage:
+ *   npm run ledger:verify   - compare the stored ledger with a full recomputation
+ *   npm run ledger:rebuild  - replace the stored ledger with a full recomputation
+ *
+ * verify exits with code 1 when any pair is out of step.
+ */
+
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import { verifyLedger, rebuildLedger } from '../services/ledger.service';
+
+const run = async (command: string | undefined): Promise<number> => {
+    if (command === 'verify') {
+        const mismatches = await verifyLedger();
+
+        if (mismatches.length === 0) {
+            console.log('✅ Ledger matches a full recomputation');
+            return 0;
+        }
+
+        console.error(`❌ ${mismatches.length} ledger entr${mismatches.length === 1 ? 'y' : 'ies'} out of step:`);
+        for (const mismatch of mismatches) {
+            console.error(
+                `  group=${mismatch.group ?? '-'} ${mismatch.fromUser} -> ${mismatch.toUser}: ` +
+                `stored ${mismatch.amount}, expected ${mismatch.expected}`
+            );
+        }
+        return 1;
+    }
+
+    if (command === 'rebuild') {
+        const count = await rebuildLedger();
+        console.log(`✅ Ledger rebuilt with ${count} entries`);
+        return 0;
+    }
+
+    console.error('Usage: ledger <verify|rebuild>');
+    return 2;
+};
+
+connectDB()
+    .then(() => run(process.argv[2]))
+    .then(async (code) => {
+        await mongoose.connection.close();
+        process.exit(code);
+    })
+    .catch(async (error) => {
+        console.error('❌ Ledger command failed:', error);
+        await mongoose.connection.close();
+        process.exit(1);
+    });
@@ -0,0 +1,42 @@
+/**
+ * Global Exchange Rate Import
+ *
+ * Usage:
+ *   npm run rates:import -- <file.csv>  - load global rates (date,from,to,rate)
+ *
+ * Global rates convert expenses in every group, so they are only loaded
+ * here by whoever runs the server, never through the API. A rate for a
+ * pair and day that is already stored is replaced, so it can be re-run.
+ */
+
+import { readFileSync } from 'fs';
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import { importRates } from '../services/exchangeRate.service';
+import { parseRatesCsv } from '../utils/rateCsv';
+
+const file = process.argv[2];
+if (!file) {
+    console.error('Usage: npm run rates:import -- <file.csv>');
+    process.exit(1);
+}
+
+const { rates, errors } = parseRatesCsv(readFileSync(file, 'utf8'));
+if (errors.length > 0 || rates.length === 0) {
+    console.error('❌ Invalid CSV:');
+    (errors.length > 0 ? errors : ['CSV has no rate rows']).forEach((error) => console.error(`   ${error}`));
+    process.exit(1);
+}
+
+connectDB()
+    .then(() => importRates(rates, null))
+    .then(async ({ created, updated }) => {
+        console.log(`✅ Imported ${rates.length} global rate${rates.length === 1 ? '' : 's'} (${created} new, ${updated} replaced)`);
+        await mongoose.connection.close();
+        process.exit(0);
+    })
+    .catch(async (error) => {
+        console.error('❌ Rate import failed:', error);
+        await mongoose.connection.close();
+        process.exit(1);
+    });
@@ -0,0 +1,27 @@
+/**
+ * User Index Migration
+ *
+ * Usage:
+ *   npm run migrate:user-indexes  - rebuild the user email index as sparse
+ *
+ * Placeholder members may have no email, which the old unique email index
+ * doesn't allow more than once. This swaps it for a sparse one. Safe to
+ * re-run.
+ */
+
+import mongoose from 'mongoose';
+import { connectDB } from '../config/db';
+import { User } from '../models';
+
+connectDB()
+    .then(() => User.syncIndexes())
+    .then(async (dropped) => {
+        console.log(`✅ User indexes in sync${dropped.length ? ` (replaced ${dropped.join(', ')})` : ''}`);
+        await mongoose.connection.close();
+        process.exit(0);
+    })
+    .catch(async (error) => {
+        console.error('❌ User index migration failed:', error);
+        await mongoose.connection.close();
+        process.exit(1);
+    });
@@ -2,11 +2,28 @@
  * Balance Service
  * 
  * Handles computation and tracking of balances between users.
+ * Reads come from the materialized ledger (see ledger.service);
+ * buildBalanceRecords is the full computation the ledger is built from.
  */
 
-import { Expense, Settlement, User } from '../models';
+import { createHash } from 'crypto';
+import { Balance, Group, Settlement } from '../models';
 import { Types } from 'mongoose';
-import { getSimplifiedSettlements, OptimizedSettlement } from '../utils/balanceSimplifier';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+import { getExchangeRate } from './exchangeRate.service';
+import {
+    getSimplifiedSettlements,
+    getPairwiseSettlements,
+    OptimizedSettlement,
+    BalanceRecord,
+    SimplifyStrategy,
+} from '../utils/balanceSimplifier';
+import {
+    IBalanceDocument,
+    IExpenseDocument,
+    ISettlementDocument,
+    SettlementStatus,
+} from '../types';
 
 export interface UserBalance {
     userId: string;
@@ -15,101 +32,198 @@ export interface UserBalance {
 }
 
 export interface BalanceSummary {
+    currency: string;     // Currency all amounts below are in
     totalOwed: number;    // What others owe you
     totalOwing: number;   // What you owe others
     netBalance: number;   // Net (positive = you're owed, negative = you owe)
+    pendingIncoming: number; // Payments to you awaiting your confirmation
+    pendingOutgoing: number; // Your payments awaiting the receiver's confirmation
     balances: UserBalance[];
 }
 
-/**
- * Calculate balances for a user across all groups or a specific group
- */
-export async function getUserBalances(
-    userId: string,
-    groupId?: string
-): Promise<BalanceSummary> {
-    const userObjectId = new Types.ObjectId(userId);
+export interface GroupPairBalance {
+    groupId: string | null;  // null for expenses outside any group
+    groupName: string;
+    currency: string;        // The group's base currency
+    amount: number;          // Positive = they owe you, in the group's currency
+    convertedAmount: number; // Same amount in the default currency
+}
 
-    // Build match query
-    const matchQuery: any = {
-        $or: [
-            { paidBy: userObjectId },
-            { 'splits.user': userObjectId },
-        ],
-    };
+export interface PairBalanceSummary {
+    currency: string;        // Currency of netAmount
+    netAmount: number;       // Positive = they owe you overall
+    groups: GroupPairBalance[];
+}
 
-    if (groupId) {
-        matchQuery.group = new Types.ObjectId(groupId);
-    }
+export interface SuggestionOptions {
+    strategy?: SimplifyStrategy; // Defaults to OPTIMAL
+}
 
-    // Get all relevant expenses
-    const expenses = await Expense.find(matchQuery)
-        .populate('paidBy', 'name')
-        .populate('splits.user', 'name');
+type PopulatedUser = { _id: Types.ObjectId; name: string };
 
-    // Get all settlements
-    const settlementMatch: any = {
-        $or: [
-            { fromUser: userObjectId },
-            { toUser: userObjectId },
-        ],
-    };
-
-    if (groupId) {
-        settlementMatch.group = new Types.ObjectId(groupId);
+/**
+ * Get everyone who paid for an expense.
+ * Single-payer expenses (no payers array) are paid in full by paidBy.
+ */
+function getExpensePayers(
+    expense: IExpenseDocument
+): Array<{ user: PopulatedUser; amount: number }> {
+    if (expense.payers && expense.payers.length > 0) {
+        return expense.payers.map((payer) => ({
+            user: payer.user as unknown as PopulatedUser,
+            amount: payer.amount,
+        }));
     }
+    return [{ user: expense.paidBy as unknown as PopulatedUser, amount: expense.amount }];
+}
 
-    const settlements = await Settlement.find(settlementMatch)
-        .populate('fromUser', 'name')
-        .populate('toUser', 'name');
-
-    // Calculate balance with each user
-    const balanceMap = new Map<string, { name: string; amount: number }>();
+/**
+ * Turn expenses and settlements into "who owes whom" records.
+ * With several payers, each split is owed to the payers in proportion
+ * to how much of the total they paid. Works on unpopulated documents too
+ * (user names are then undefined), which is how the ledger uses it.
+ *
+ * Amounts are converted to the group's base currency with the rate stored
+ * at entry time. `groupRates` optionally converts a group's base currency
+ * further, for summaries that span several groups.
+ */
+export function buildBalanceRecords(
+    expenses: IExpenseDocument[],
+    settlements: ISettlementDocument[],
+    groupRates: Map<string, number> = new Map()
+): BalanceRecord[] {
+    const records: BalanceRecord[] = [];
+    const groupRate = (group?: Types.ObjectId) =>
+        (group && groupRates.get(group.toString())) || 1;
 
     // Process expenses
     for (const expense of expenses) {
-        const payerId = (expense.paidBy as any)._id.toString();
-        const payerName = (expense.paidBy as any).name;
+        const payers = getExpensePayers(expense);
+        const rate = expense.exchangeRate * groupRate(expense.group);
 
         for (const split of expense.splits) {
-            const splitUserId = (split.user as any)._id.toString();
-            const splitUserName = (split.user as any).name;
-
-            if (payerId === userId && splitUserId !== userId) {
-                // I paid, they owe me
-                if (!balanceMap.has(splitUserId)) {
-                    balanceMap.set(splitUserId, { name: splitUserName, amount: 0 });
-                }
-                balanceMap.get(splitUserId)!.amount += split.share;
-            } else if (splitUserId === userId && payerId !== userId) {
-                // They paid, I owe them
-                if (!balanceMap.has(payerId)) {
-                    balanceMap.set(payerId, { name: payerName, amount: 0 });
-                }
-                balanceMap.get(payerId)!.amount -= split.share;
+            const splitUser = split.user as unknown as PopulatedUser;
+
+            for (const payer of payers) {
+                if (payer.user._id.equals(splitUser._id)) continue;
+
+                records.push({
+                    fromUser: { _id: splitUser._id, name: splitUser.name },
+                    toUser: { _id: payer.user._id, name: payer.user.name },
+                    amount: ((split.share * payer.amount) / expense.amount) * rate,
+                });
             }
         }
     }
 
-    // Process settlements
+    // Process settlements (only confirmed payments reduce debts)
     for (const settlement of settlements) {
-        const fromId = (settlement.fromUser as any)._id.toString();
-        const toId = (settlement.toUser as any)._id.toString();
-        const fromName = (settlement.fromUser as any).name;
-        const toName = (settlement.toUser as any).name;
+        if (settlement.status !== SettlementStatus.CONFIRMED) continue;
 
-        if (fromId === userId) {
-            // I paid someone (reduced what I owe them)
-            if (!balanceMap.has(toId)) {
-                balanceMap.set(toId, { name: toName, amount: 0 });
+        const fromUser = settlement.fromUser as unknown as PopulatedUser;
+        const toUser = settlement.toUser as unknown as PopulatedUser;
+
+        records.push({
+            fromUser: { _id: toUser._id, name: toUser.name },
+            toUser: { _id: fromUser._id, name: fromUser.name },
+            amount: settlement.amount * settlement.exchangeRate * groupRate(settlement.group),
+        });
+    }
+
+    return records;
+}
+
+/**
+ * Rates from each group's base currency to the default currency,
+ * for groups that don't already use it
+ */
+async function getGroupRates(groupIds: Types.ObjectId[]): Promise<Map<string, number>> {
+    const groups = await Group.find({
+        _id: { $in: groupIds },
+        baseCurrency: { $ne: DEFAULT_CURRENCY },
+    }).select('baseCurrency');
+
+    const rates = await Promise.all(
+        groups.map((group) => getExchangeRate(group.baseCurrency, DEFAULT_CURRENCY))
+    );
+
+    return new Map(groups.map((group, i) => [group._id.toString(), rates[i]]));
+}
+
+/**
+ * Turn populated ledger entries into "who owes whom" records
+ */
+function buildLedgerRecords(
+    entries: IBalanceDocument[],
+    groupRates: Map<string, number> = new Map()
+): BalanceRecord[] {
+    const records: BalanceRecord[] = [];
+
+    for (const entry of entries) {
+        const fromUser = entry.fromUser as unknown as PopulatedUser;
+        const toUser = entry.toUser as unknown as PopulatedUser;
+        const amount = entry.amount * ((entry.group && groupRates.get(entry.group.toString())) || 1);
+
+        // Skip settled pairs
+        if (Math.abs(amount) < 0.01) continue;
+
+        // Positive entries mean fromUser owes toUser
+        records.push(amount > 0
+            ? {
+                fromUser: { _id: fromUser._id, name: fromUser.name },
+                toUser: { _id: toUser._id, name: toUser.name },
+                amount,
             }
-            balanceMap.get(toId)!.amount += settlement.amount;
-        } else if (toId === userId) {
-            // Someone paid me (reduced what they owe me)
+            : {
+                fromUser: { _id: toUser._id, name: toUser.name },
+                toUser: { _id: fromUser._id, name: fromUser.name },
+                amount: -amount,
+            });
+    }
+
+    return records;
+}
+
+/**
+ * Load a group's ledger as "who owes whom" records
+ */
+async function getGroupBalanceRecords(groupId: string): Promise<BalanceRecord[]> {
+    const ledger = await Balance.find({ group: new Types.ObjectId(groupId) })
+        .populate('fromUser', 'name')
+        .populate('toUser', 'name');
+
+    return buildLedgerRecords(ledger);
+}
+
+/**
+ * Summarize a user's balances from ledger records and pending settlements
+ */
+function summarizeBalances(
+    userId: string,
+    records: BalanceRecord[],
+    pendingSettlements: ISettlementDocument[],
+    groupRates: Map<string, number>,
+    currency: string
+): BalanceSummary {
+    // Calculate balance with each user
+    const balanceMap = new Map<string, { name: string; amount: number }>();
+
+    for (const record of records) {
+        const fromId = record.fromUser._id.toString();
+        const toId = record.toUser._id.toString();
+
+        if (toId === userId) {
+            // They owe me
             if (!balanceMap.has(fromId)) {
-                balanceMap.set(fromId, { name: fromName, amount: 0 });
+                balanceMap.set(fromId, { name: record.fromUser.name, amount: 0 });
+            }
+            balanceMap.get(fromId)!.amount += record.amount;
+        } else if (fromId === userId) {
+            // I owe them
+            if (!balanceMap.has(toId)) {
+                balanceMap.set(toId, { name: record.toUser.name, amount: 0 });
             }
-            balanceMap.get(fromId)!.amount -= settlement.amount;
+            balanceMap.get(toId)!.amount -= record.amount;
         }
     }
 
@@ -138,137 +252,176 @@ export async function getUserBalances(
     // Sort by absolute amount (largest first)
     balances.sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
 
+    // Pending payments are reported separately until the receiver confirms them
+    let pendingIncoming = 0;
+    let pendingOutgoing = 0;
+    for (const settlement of pendingSettlements) {
+        const groupRate = (settlement.group && groupRates.get(settlement.group.toString())) || 1;
+        const amount = settlement.amount * settlement.exchangeRate * groupRate;
+
+        if (settlement.toUser.toString() === userId) {
+            pendingIncoming += amount;
+        } else if (settlement.fromUser.toString() === userId) {
+            pendingOutgoing += amount;
+        }
+    }
+
     return {
+        currency,
         totalOwed: Math.round(totalOwed * 100) / 100,
         totalOwing: Math.round(totalOwing * 100) / 100,
         netBalance: Math.round((totalOwed - totalOwing) * 100) / 100,
+        pendingIncoming: Math.round(pendingIncoming * 100) / 100,
+        pendingOutgoing: Math.round(pendingOutgoing * 100) / 100,
         balances,
     };
 }
 
 /**
- * Get group balances for all members
+ * Break down what two users owe each other in every group they share
  */
-export async function getGroupBalances(
-    groupId: string
-): Promise<Map<string, BalanceSummary>> {
-    const groupObjectId = new Types.ObjectId(groupId);
-
-    // Get all expenses in the group
-    const expenses = await Expense.find({ group: groupObjectId })
-        .populate('paidBy', 'name')
-        .populate('splits.user', 'name');
-
-    // Get all settlements in the group
-    const settlements = await Settlement.find({ group: groupObjectId })
-        .populate('fromUser', 'name')
-        .populate('toUser', 'name');
+export async function getPairBalances(
+    userId: string,
+    otherUserId: string
+): Promise<PairBalanceSummary> {
+    // Ledger pairs are stored with the lower user ID first
+    const [low, high] = [userId, otherUserId].sort();
+    const entries = await Balance.find({
+        fromUser: new Types.ObjectId(low),
+        toUser: new Types.ObjectId(high),
+    }).populate('group', 'name baseCurrency');
+
+    const groups: GroupPairBalance[] = [];
+
+    for (const entry of entries) {
+        // Positive entries mean the lower ID owes the higher one
+        const amount = userId === high ? entry.amount : -entry.amount;
+        if (Math.abs(amount) < 0.01) continue;
+
+        const group = entry.group as unknown as
+            { _id: Types.ObjectId; name: string; baseCurrency: string } | null;
+        const currency = group?.baseCurrency || DEFAULT_CURRENCY;
+        const rate = await getExchangeRate(currency, DEFAULT_CURRENCY);
+
+        groups.push({
+            groupId: group ? group._id.toString() : null,
+            groupName: group ? group.name : 'Non-group expenses',
+            currency,
+            amount: Math.round(amount * 100) / 100,
+            convertedAmount: Math.round(amount * rate * 100) / 100,
+        });
+    }
 
-    // Build balance records for simplification
-    const balanceRecords: Array<{
-        fromUser: { _id: Types.ObjectId; name: string };
-        toUser: { _id: Types.ObjectId; name: string };
-        amount: number;
-    }> = [];
+    // Largest balances first
+    groups.sort((a, b) => Math.abs(b.convertedAmount) - Math.abs(a.convertedAmount));
 
-    // Process expenses
-    for (const expense of expenses) {
-        const payer = expense.paidBy as any;
+    return {
+        currency: DEFAULT_CURRENCY,
+        netAmount: Math.round(groups.reduce((sum, g) => sum + g.convertedAmount, 0) * 100) / 100,
+        groups,
+    };
+}
 
-        for (const split of expense.splits) {
-            const splitUser = split.user as any;
+/**
+ * Calculate balances for a user across all groups or a specific group
+ */
+export async function getUserBalances(
+    userId: string,
+    groupId?: string
+): Promise<BalanceSummary> {
+    const userObjectId = new Types.ObjectId(userId);
 
-            if (!payer._id.equals(splitUser._id)) {
-                balanceRecords.push({
-                    fromUser: { _id: splitUser._id, name: splitUser.name },
-                    toUser: { _id: payer._id, name: payer.name },
-                    amount: split.share,
-                });
-            }
-        }
-    }
+    // Ledger entries and pending settlements involving the user
+    const ledgerMatch: any = {
+        $or: [
+            { fromUser: userObjectId },
+            { toUser: userObjectId },
+        ],
+    };
+    const pendingMatch: any = {
+        $or: [
+            { fromUser: userObjectId },
+            { toUser: userObjectId },
+        ],
+        status: SettlementStatus.PENDING,
+    };
 
-    // Process settlements (they reduce debts)
-    for (const settlement of settlements) {
-        balanceRecords.push({
-            fromUser: { _id: (settlement.toUser as any)._id, name: (settlement.toUser as any).name },
-            toUser: { _id: (settlement.fromUser as any)._id, name: (settlement.fromUser as any).name },
-            amount: settlement.amount,
-        });
+    if (groupId) {
+        ledgerMatch.group = new Types.ObjectId(groupId);
+        pendingMatch.group = new Types.ObjectId(groupId);
     }
 
-    // For now, return individual balances
-    // The simplification happens in getSettlementSuggestions
-    const memberBalances = new Map<string, BalanceSummary>();
-
-    // Get unique members
-    const memberIds = new Set<string>();
-    for (const expense of expenses) {
-        memberIds.add((expense.paidBy as any)._id.toString());
-        for (const split of expense.splits) {
-            memberIds.add((split.user as any)._id.toString());
-        }
-    }
+    const [ledger, pendingSettlements] = await Promise.all([
+        Balance.find(ledgerMatch)
+            .populate('fromUser', 'name')
+            .populate('toUser', 'name'),
+        Settlement.find(pendingMatch),
+    ]);
 
-    // Calculate balances for each member
-    for (const memberId of memberIds) {
-        memberBalances.set(memberId, await getUserBalances(memberId, groupId));
+    // A single group uses its base currency; across groups, convert to the default
+    let currency = DEFAULT_CURRENCY;
+    let groupRates = new Map<string, number>();
+    if (groupId) {
+        const group = await Group.findById(groupId).select('baseCurrency');
+        currency = group?.baseCurrency || DEFAULT_CURRENCY;
+    } else {
+        const groupIds = [...ledger, ...pendingSettlements]
+            .map((doc) => doc.group)
+            .filter((group): group is Types.ObjectId => !!group);
+        groupRates = await getGroupRates(groupIds);
     }
 
-    return memberBalances;
+    return summarizeBalances(
+        userId,
+        buildLedgerRecords(ledger, groupRates),
+        pendingSettlements,
+        groupRates,
+        currency
+    );
 }
 
 /**
- * Get optimized settlement suggestions for a group
+ * Fingerprint of everything a settlement plan for the group is based on:
+ * the group's ledger and its pending settlements. Any expense, settlement
+ * or confirmation in the group changes it.
  */
-export async function getSettlementSuggestions(
-    groupId: string
-): Promise<OptimizedSettlement[]> {
+export async function getGroupPlanHash(groupId: string): Promise<string> {
     const groupObjectId = new Types.ObjectId(groupId);
 
-    // Get all expenses in the group
-    const expenses = await Expense.find({ group: groupObjectId })
-        .populate('paidBy', 'name')
-        .populate('splits.user', 'name');
-
-    // Get all settlements in the group
-    const settlements = await Settlement.find({ group: groupObjectId })
-        .populate('fromUser', 'name')
-        .populate('toUser', 'name');
-
-    // Build balance records
-    const balanceRecords: Array<{
-        fromUser: { _id: Types.ObjectId; name: string };
-        toUser: { _id: Types.ObjectId; name: string };
-        amount: number;
-    }> = [];
+    const [ledger, pendingSettlements] = await Promise.all([
+        Balance.find({ group: groupObjectId }).select('fromUser toUser amount'),
+        Settlement.find({ group: groupObjectId, status: SettlementStatus.PENDING }).select('_id'),
+    ]);
 
-    // Process expenses
-    for (const expense of expenses) {
-        const payer = expense.paidBy as any;
-
-        for (const split of expense.splits) {
-            const splitUser = split.user as any;
+    const balances = ledger
+        .filter((entry) => Math.abs(entry.amount) >= 0.01)
+        .map((entry) => `${entry.fromUser}:${entry.toUser}:${entry.amount.toFixed(2)}`)
+        .sort();
+    const pending = pendingSettlements.map((settlement) => settlement._id.toString()).sort();
 
-            if (!payer._id.equals(splitUser._id)) {
-                balanceRecords.push({
-                    fromUser: { _id: splitUser._id, name: splitUser.name },
-                    toUser: { _id: payer._id, name: payer.name },
-                    amount: split.share,
-                });
-            }
-        }
-    }
+    return createHash('sha256')
+        .update(JSON.stringify({ balances, pending }))
+        .digest('hex');
+}
 
-    // Process settlements (they reduce debts)
-    for (const settlement of settlements) {
-        balanceRecords.push({
-            fromUser: { _id: (settlement.toUser as any)._id, name: (settlement.toUser as any).name },
-            toUser: { _id: (settlement.fromUser as any)._id, name: (settlement.fromUser as any).name },
-            amount: settlement.amount,
-        });
+/**
+ * Get optimized settlement suggestions for a group
+ * (amounts are in the group's base currency)
+ */
+export async function getSettlementSuggestions(
+    groupId: string,
+    options: SuggestionOptions = {}
+): Promise<OptimizedSettlement[]> {
+    const [balanceRecords, group] = await Promise.all([
+        getGroupBalanceRecords(groupId),
+        Group.findById(groupId).select('simplifyDebts'),
+    ]);
+
+    // Groups that opted out only settle along existing debts
+    if (group?.simplifyDebts === false) {
+        return getPairwiseSettlements(balanceRecords);
     }
 
     // Use simplification algorithm
-    return getSimplifiedSettlements(balanceRecords);
+    return getSimplifiedSettlements(balanceRecords, options.strategy);
 }
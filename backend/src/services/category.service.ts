@@ -0,0 +1,64 @@
+/**
+ * Category Service
+ *
+ * Expenses are tagged with one of the built-in categories or one of their
+ * group's custom categories. Names match case-insensitively and are
+ * stored as written in the category list.
+ */
+
+import { Types } from 'mongoose';
+import { AppError } from '../middleware';
+import { DEFAULT_CATEGORIES, DEFAULT_CATEGORY } from '../config/categories';
+import { IGroupDocument } from '../types';
+
+export interface CategoryOption {
+    _id?: Types.ObjectId; // Custom categories only
+    name: string;
+    icon?: string;
+    custom: boolean;
+}
+
+/**
+ * Categories available to expenses in `group` (built-in ones for personal expenses)
+ */
+export function getCategories(group?: Pick<IGroupDocument, 'categories'> | null): CategoryOption[] {
+    return [
+        ...DEFAULT_CATEGORIES.map((name) => ({ name, custom: false })),
+        ...(group?.categories || []).map((category) => ({
+            _id: category._id,
+            name: category.name,
+            icon: category.icon,
+            custom: true,
+        })),
+    ];
+}
+
+/**
+ * Find a category by name, ignoring case
+ */
+export function findCategory(
+    name: string,
+    group?: Pick<IGroupDocument, 'categories'> | null
+): CategoryOption | undefined {
+    const wanted = name.trim().toLowerCase();
+    return getCategories(group).find((category) => category.name.toLowerCase() === wanted);
+}
+
+/**
+ * The stored name for an expense's category. Throws a 400 for a category
+ * the group doesn't have; no category means the default.
+ */
+export function resolveCategory(
+    name: string | undefined,
+    group?: Pick<IGroupDocument, 'categories'> | null
+): string {
+    if (!name) {
+        return DEFAULT_CATEGORY;
+    }
+
+    const category = findCategory(name, group);
+    if (!category) {
+        throw new AppError(`Unknown category "${name}"`, 400);
+    }
+    return category.name;
+}
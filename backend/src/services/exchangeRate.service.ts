@@ -0,0 +1,118 @@
+/**
+ * Exchange Rate Service
+ *
+ * Looks up the rate valid on a given date from the managed rate history.
+ * Lookup order:
+ *   1. A rate pinned to the group (e.g. the rate actually paid on a trip)
+ *   2. The latest global rate effective on or before the date
+ *   3. The local fallback table in config/currencies
+ *
+ * Rates for the reverse pair are used (inverted) when the direct pair
+ * has no entry.
+ *
+ * Global rates affect every group, so they are only written by the
+ * rates:import script; the API only pins rates to groups.
+ */
+
+import { Types } from 'mongoose';
+import { ExchangeRate } from '../models';
+import { getLocalExchangeRate } from '../utils/currency';
+import { ParsedRate } from '../utils/rateCsv';
+import { ExchangeRateSource } from '../types';
+
+/**
+ * Rates are stored per day, so an upload for the same day overrides it
+ */
+export const toRateDay = (value: string | Date): Date => {
+    const date = new Date(value);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+};
+
+/**
+ * Find the latest stored rate for a pair effective on or before `date`
+ */
+async function findStoredRate(
+    from: string,
+    to: string,
+    date: Date,
+    groupId: Types.ObjectId | null
+): Promise<number | null> {
+    const candidates = await ExchangeRate.find({
+        $or: [
+            { fromCurrency: from, toCurrency: to },
+            { fromCurrency: to, toCurrency: from },
+        ],
+        group: groupId,
+        effectiveDate: { $lte: date },
+    })
+        .sort({ effectiveDate: -1 })
+        .limit(2);
+
+    if (candidates.length === 0) return null;
+
+    // Prefer the direct pair when both directions exist for the same date
+    const latest = candidates.find(
+        (rate) =>
+            rate.fromCurrency === from &&
+            rate.effectiveDate.getTime() === candidates[0].effectiveDate.getTime()
+    ) || candidates[0];
+
+    const rate = latest.fromCurrency === from ? latest.rate : 1 / latest.rate;
+    return Math.round(rate * 1e6) / 1e6;
+}
+
+/**
+ * Add or replace rates from a CSV upload, pinned to `group` or global when
+ * it is null. `createdBy` is left out for rates the rates:import script loads.
+ */
+export async function importRates(
+    rates: ParsedRate[],
+    group: Types.ObjectId | null,
+    createdBy?: Types.ObjectId
+): Promise<{ created: number; updated: number }> {
+    const result = await ExchangeRate.bulkWrite(
+        rates.map((rate) => ({
+            updateOne: {
+                filter: {
+                    fromCurrency: rate.fromCurrency,
+                    toCurrency: rate.toCurrency,
+                    // Global rates have no group; match them with null like the single create
+                    group: group as any,
+                    effectiveDate: toRateDay(rate.effectiveDate),
+                },
+                update: {
+                    $set: {
+                        rate: rate.rate,
+                        source: ExchangeRateSource.CSV,
+                        ...(createdBy ? { createdBy } : {}),
+                    },
+                },
+                upsert: true,
+            },
+        }))
+    );
+
+    return { created: result.upsertedCount, updated: result.modifiedCount };
+}
+
+/**
+ * Get the rate to convert 1 unit of `from` into `to` on `date`
+ */
+export async function getExchangeRate(
+    from: string,
+    to: string,
+    date: Date = new Date(),
+    groupId?: string | Types.ObjectId
+): Promise<number> {
+    if (from === to) return 1;
+
+    if (groupId) {
+        const pinned = await findStoredRate(from, to, date, new Types.ObjectId(groupId));
+        if (pinned !== null) return pinned;
+    }
+
+    const stored = await findStoredRate(from, to, date, null);
+    if (stored !== null) return stored;
+
+    return getLocalExchangeRate(from, to);
+}
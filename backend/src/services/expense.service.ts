@@ -0,0 +1,260 @@
+/**
+ * Expense Service
+ *
+ * Builds expense documents from request-shaped input, so expenses entered
+ * through the API and those generated from recurring schedules go through
+ * the same validation, currency conversion and split calculation.
+ */
+
+import { Types } from 'mongoose';
+import { Expense, Group, User } from '../models';
+import { calculateSplits, CalculatedSplit, ItemizedInput, SplitInput } from '../utils';
+import { getExchangeRate } from './exchangeRate.service';
+import { resolveCategory } from './category.service';
+import { DEFAULT_CURRENCY } from '../config/currencies';
+import { AppError, assertGroupPermission } from '../middleware';
+import {
+    CreateExpenseRequest,
+    GroupPermission,
+    IExpenseDocument,
+    IGroupDocument,
+    SplitType,
+} from '../types';
+
+/**
+ * Build the itemized calculator input from request (or stored) items and charges
+ */
+export const buildItemizedInput = (items: any[] = [], charges: any = {}): ItemizedInput => ({
+    items: items.map((item) => ({
+        name: item.name,
+        price: item.price,
+        sharedBy: item.sharedBy.map((userId: any) => userId.toString()),
+    })),
+    tax: charges?.tax || 0,
+    serviceCharge: charges?.serviceCharge || 0,
+    tip: charges?.tip || 0,
+});
+
+/**
+ * Who paid according to request input: several payers, or a single paidBy
+ */
+export const getInputPayerIds = (input: Pick<CreateExpenseRequest, 'payers' | 'paidBy'>): string[] =>
+    input.payers?.length
+        ? input.payers.map((p) => p.userId)
+        : [input.paidBy as string];
+
+/**
+ * Check a member may record an expense with these payers in a group.
+ * Viewers can't add expenses, and only admins can say someone else paid.
+ */
+export function assertCanRecordExpense(
+    group: IGroupDocument,
+    userId: Types.ObjectId,
+    payerIds: string[]
+): void {
+    assertGroupPermission(group, userId, GroupPermission.ADD_EXPENSES);
+    if (payerIds.some((payerId) => !userId.equals(payerId))) {
+        assertGroupPermission(group, userId, GroupPermission.RECORD_FOR_OTHERS);
+    }
+}
+
+/**
+ * Calculate an expense's splits, reporting splits that don't work out
+ * (say shares that don't add up) as a 400 rather than a server error
+ */
+export function calculateExpenseSplits(
+    amount: number,
+    splitType: SplitType,
+    splits: SplitInput[],
+    itemized?: ItemizedInput
+): CalculatedSplit[] {
+    try {
+        return calculateSplits(amount, splitType, splits, itemized);
+    } catch (error) {
+        throw new AppError((error as Error).message, 400);
+    }
+}
+
+/**
+ * Check everyone sharing a group expense is a member of the group
+ */
+export function assertSplitMembers(
+    splits: Pick<SplitInput, 'userId'>[],
+    group: Pick<IGroupDocument, 'members'>
+): void {
+    for (const split of splits) {
+        if (!group.members.some((m) => m.equals(new Types.ObjectId(split.userId)))) {
+            throw new AppError(
+                `User ${split.userId} is not a member of this group`,
+                400
+            );
+        }
+    }
+}
+
+/**
+ * Check the payers in request input: several payers must add up to the
+ * amount, and everyone who paid must exist and, for group expenses, be a
+ * member of the group.
+ */
+export async function assertValidPayers(
+    input: Pick<CreateExpenseRequest, 'payers' | 'paidBy'>,
+    amount: number,
+    group: IGroupDocument | null
+): Promise<void> {
+    const payerIds = getInputPayerIds(input);
+
+    if (input.payers?.length) {
+        const totalPaid = input.payers.reduce((sum, p) => sum + p.amount, 0);
+        if (totalPaid !== amount) {
+            throw new AppError(
+                `Payer amounts (${totalPaid}) must equal total amount (${amount})`,
+                400
+            );
+        }
+    }
+
+    const payerCount = await User.countDocuments({ _id: { $in: payerIds } });
+    if (payerCount !== new Set(payerIds).size) {
+        throw new AppError('Payer not found', 404);
+    }
+
+    if (group) {
+        for (const payerId of payerIds) {
+            if (!group.members.some((m) => m.equals(new Types.ObjectId(payerId)))) {
+                throw new AppError('Payer must be a member of the group', 400);
+            }
+        }
+    }
+}
+
+/**
+ * Validate the input and build an (unsaved) expense. The exchange rate,
+ * when none is given, is looked up for the expense date.
+ */
+export async function buildExpense(
+    input: CreateExpenseRequest,
+    createdBy: Types.ObjectId
+): Promise<IExpenseDocument> {
+    const {
+        description,
+        amount,
+        groupId,
+        splitType,
+        splits,
+        items,
+        charges,
+        payers,
+        currency,
+        exchangeRate,
+    } = input;
+    const expenseDate = input.expenseDate || new Date();
+
+    // Several payers, or a single paidBy covering the whole amount
+    const paidBy = getInputPayerIds(input)[0];
+
+    // If group expense, validate group and membership
+    let baseCurrency = DEFAULT_CURRENCY;
+    const group = groupId ? await Group.findById(groupId) : null;
+    if (groupId && !group) {
+        throw new AppError('Group not found', 404);
+    }
+    if (group) {
+        baseCurrency = group.baseCurrency;
+
+        // Check all split users are group members
+        assertSplitMembers(splits, group);
+    }
+
+    // Payers add up, exist and belong to the group
+    await assertValidPayers(input, amount, group);
+
+    // Built-in categories, plus the group's own for group expenses
+    const category = resolveCategory(input.category, group);
+
+    // Amounts are entered in `currency` and converted to the group's base currency
+    const expenseCurrency = currency || baseCurrency;
+    const rate = exchangeRate
+        ?? await getExchangeRate(expenseCurrency, baseCurrency, expenseDate, groupId);
+
+    // Calculate splits based on type
+    const itemized = splitType === SplitType.ITEMIZED
+        ? buildItemizedInput(items, charges)
+        : undefined;
+    const calculatedSplits = calculateExpenseSplits(
+        amount,
+        splitType,
+        splits.map((s) => ({
+            userId: s.userId,
+            amount: s.amount,
+            adjustment: s.adjustment,
+        })),
+        itemized
+    );
+
+    return new Expense({
+        description,
+        notes: input.notes || undefined,
+        amount,
+        paidBy,
+        payers: payers?.length
+            ? payers.map((p) => ({ user: p.userId, amount: p.amount }))
+            : undefined,
+        group: groupId || undefined,
+        currency: expenseCurrency,
+        exchangeRate: rate,
+        expenseDate,
+        category,
+        splitType,
+        splits: calculatedSplits,
+        items: itemized?.items,
+        charges: itemized && {
+            tax: itemized.tax,
+            serviceCharge: itemized.serviceCharge,
+            tip: itemized.tip,
+        },
+        createdBy,
+    });
+}
+
+// Index on createdAt that expenseDate replaced
+const LEGACY_GROUP_INDEX = 'group_1_createdAt_-1';
+
+/**
+ * Give expenses saved before `expenseDate` existed their creation time as
+ * the expense date, and swap the old group/createdAt index for the new one.
+ * Safe to run more than once. Returns how many expenses were updated.
+ */
+export async function backfillExpenseDates(): Promise<number> {
+    const result = await Expense.updateMany(
+        { expenseDate: { $exists: false } },
+        [{ $set: { expenseDate: '$createdAt' } }]
+    );
+
+    if (await Expense.collection.indexExists(LEGACY_GROUP_INDEX)) {
+        await Expense.collection.dropIndex(LEGACY_GROUP_INDEX);
+    }
+    await Expense.createIndexes();
+
+    return result.modifiedCount;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How long deleted expenses stay in the trash before they are purged
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * Permanently remove expenses that have been in the trash longer than the
+ * retention period. Their ledger entries were already reversed when they
+ * were deleted, and their history is kept. Returns how many were purged.
+ */
+export async function purgeDeletedExpenses(
+    now: Date = new Date(),
+    retentionDays: number = TRASH_RETENTION_DAYS
+): Promise<number> {
+    const result = await Expense.deleteMany({
+        deletedAt: { $lte: new Date(now.getTime() - retentionDays * DAY_MS) },
+    });
+    return result.deletedCount;
+}
@@ -0,0 +1,80 @@
+/**
+ * Expense History Service
+ *
+ * Keeps a versioned audit trail of every expense: one entry when it is
+ * created, one per change (with a field-level diff) and one when it is
+ * deleted. Entries are written in the same transaction as the change, so
+ * the trail never disagrees with the expense or the ledger.
+ */
+
+import { ClientSession, Types } from 'mongoose';
+import { ExpenseHistory } from '../models';
+import { diffExpenseSnapshots, ExpenseSnapshot, toExpenseSnapshot } from '../utils';
+import { ExpenseHistoryAction, IExpenseHistoryDocument } from '../types';
+
+export interface ExpenseHistoryInput {
+    expense: { _id: Types.ObjectId } & Record<string, any>; // State after the change (before it, for DELETED)
+    action: ExpenseHistoryAction;
+    before?: ExpenseSnapshot; // Required for UPDATED
+    changedBy?: Types.ObjectId;
+}
+
+/**
+ * Record changes to one or more expenses. Updates that changed no
+ * tracked field are skipped. Returns how many entries were written.
+ */
+export async function recordExpenseHistory(
+    inputs: ExpenseHistoryInput[],
+    session?: ClientSession
+): Promise<number> {
+    const entries = inputs
+        .map((input) => {
+            const snapshot = toExpenseSnapshot(input.expense);
+            const changes = input.action === ExpenseHistoryAction.UPDATED
+                ? diffExpenseSnapshots(input.before || {}, snapshot)
+                : [];
+            return { input, snapshot, changes };
+        })
+        .filter(({ input, changes }) => input.action !== ExpenseHistoryAction.UPDATED || changes.length > 0);
+
+    if (entries.length === 0) {
+        return 0;
+    }
+
+    // Continue each expense's version numbering
+    const latest: { _id: Types.ObjectId; version: number }[] = await ExpenseHistory.aggregate([
+        { $match: { expense: { $in: entries.map(({ input }) => input.expense._id) } } },
+        { $group: { _id: '$expense', version: { $max: '$version' } } },
+    ]).session(session ?? null);
+    const versions = new Map(latest.map((entry) => [entry._id.toString(), entry.version]));
+
+    await ExpenseHistory.insertMany(
+        entries.map(({ input, snapshot, changes }) => {
+            const id = input.expense._id.toString();
+            const version = (versions.get(id) ?? 0) + 1;
+            versions.set(id, version);
+
+            return {
+                expense: input.expense._id,
+                group: input.expense.group?._id ?? input.expense.group,
+                version,
+                action: input.action,
+                changes,
+                snapshot,
+                changedBy: input.changedBy,
+            };
+        }),
+        { session }
+    );
+
+    return entries.length;
+}
+
+/**
+ * An expense's history, oldest first
+ */
+export async function findExpenseHistory(expenseId: Types.ObjectId | string): Promise<IExpenseHistoryDocument[]> {
+    return ExpenseHistory.find({ expense: expenseId })
+        .populate('changedBy', 'name email')
+        .sort({ version: 1 });
+}
@@ -0,0 +1,64 @@
+/**
+ * Group Service
+ *
+ * Group lookups shared by the controllers that manage things inside a
+ * group (recurring expenses, categories, members), and members' roles.
+ */
+
+import { Types } from 'mongoose';
+import { Group } from '../models';
+import { AppError, assertGroupPermission, getMemberRole } from '../middleware';
+import { GroupPermission, GroupRole, IGroupDocument, IGroupMemberRole } from '../types';
+
+/**
+ * Load a group the user belongs to, optionally checking a permission
+ */
+export async function getMemberGroup(
+    groupId: string,
+    userId: Types.ObjectId,
+    permission?: GroupPermission
+): Promise<IGroupDocument> {
+    const group = await Group.findById(groupId);
+    if (!group) {
+        throw new AppError('Group not found', 404);
+    }
+    if (!group.members.some((m) => m.equals(userId))) {
+        throw new AppError('You are not a member of this group', 403);
+    }
+    if (permission) {
+        assertGroupPermission(group, userId, permission);
+    }
+    return group;
+}
+
+/**
+ * Give a member a role (replacing any they had). Doesn't save the group.
+ */
+export function setMemberRole(group: IGroupDocument, userId: Types.ObjectId, role: GroupRole): void {
+    group.memberRoles = [
+        ...(group.memberRoles || []).filter((r) => !r.user.equals(userId)),
+        { user: userId, role } as IGroupMemberRole,
+    ];
+}
+
+/**
+ * Give every member of groups from before roles existed an explicit role
+ * (their creator becomes the owner). Safe to run more than once. Returns
+ * how many groups were updated.
+ */
+export async function backfillGroupRoles(): Promise<number> {
+    let updated = 0;
+
+    for await (const group of Group.find().cursor()) {
+        const missing = group.members.filter(
+            (member) => !(group.memberRoles || []).some((r) => r.user.equals(member))
+        );
+        if (missing.length === 0) continue;
+
+        missing.forEach((member) => setMemberRole(group, member, getMemberRole(group, member)!));
+        await group.save();
+        updated++;
+    }
+
+    return updated;
+}
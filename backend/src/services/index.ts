@@ -1 +1,50 @@
-export { getUserBalances, getGroupBalances, getSettlementSuggestions } from './balance.service';
+export {
+    getUserBalances,
+    getPairBalances,
+    getSettlementSuggestions,
+    getGroupPlanHash,
+} from './balance.service';
+export { getExchangeRate, importRates, toRateDay } from './exchangeRate.service';
+export {
+    buildExpense,
+    buildItemizedInput,
+    getInputPayerIds,
+    assertCanRecordExpense,
+    assertValidPayers,
+    assertSplitMembers,
+    calculateExpenseSplits,
+    backfillExpenseDates,
+    purgeDeletedExpenses,
+    TRASH_RETENTION_DAYS,
+} from './expense.service';
+export { getCategories, findCategory, resolveCategory } from './category.service';
+export { getMemberGroup, setMemberRole, backfillGroupRoles } from './group.service';
+export { recordExpenseHistory, findExpenseHistory } from './expenseHistory.service';
+export {
+    getNextDueDate,
+    materializeRecurringExpense,
+    runDueRecurringExpenses,
+} from './recurring.service';
+export {
+    getExpenseLedgerEntries,
+    getSettlementLedgerEntries,
+    applyLedgerEntries,
+    runInTransaction,
+    verifyLedger,
+    rebuildLedger,
+} from './ledger.service';
+export {
+    updateSettlementStatus,
+    autoConfirmSettlements,
+    confirmPaymentsToPlaceholders,
+} from './settlement.service';
+export {
+    createInvite,
+    getInviteToken,
+    findActiveInvite,
+    redeemInvite,
+    decideJoinRequest,
+    DEFAULT_INVITE_DAYS,
+} from './invite.service';
+export { addPlaceholderMember, updatePlaceholder, claimPlaceholder } from './placeholder.service';
+export { removeFromGroup } from './membership.service';
@@ -0,0 +1,180 @@
+/**
+ * Invite Service
+ *
+ * Invite links for groups. The link carries a signed, expiring token that
+ * points at a stored invite, which counts its uses and can be revoked.
+ * Joining through an invite that needs approval leaves a request for a
+ * group admin instead of adding the member straight away.
+ */
+
+import { Types } from 'mongoose';
+import { Group, GroupInvite, GroupJoinRequest } from '../models';
+import { AppError, generateInviteToken, hasGroupPermission, verifyInviteToken } from '../middleware';
+import { DEFAULT_GROUP_ROLE } from '../config/permissions';
+import { setMemberRole } from './group.service';
+import {
+    GroupPermission,
+    IGroupDocument,
+    IGroupInviteDocument,
+    IGroupJoinRequestDocument,
+    JoinRequestStatus,
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_INVITE_DAYS = 7;
+
+export interface InviteOptions {
+    expiresInDays?: number;
+    maxUses?: number | null;
+    requiresApproval?: boolean;
+}
+
+export interface JoinResult {
+    status: 'JOINED' | 'ALREADY_MEMBER' | 'PENDING';
+    group: IGroupDocument;
+    request?: IGroupJoinRequestDocument;
+}
+
+/**
+ * Create an invite for a group. Invites from members who can't add people
+ * themselves always need an admin's approval.
+ */
+export async function createInvite(
+    group: IGroupDocument,
+    userId: Types.ObjectId,
+    { expiresInDays = DEFAULT_INVITE_DAYS, maxUses = null, requiresApproval = false }: InviteOptions,
+    now: Date = new Date()
+): Promise<IGroupInviteDocument> {
+    return GroupInvite.create({
+        group: group._id,
+        createdBy: userId,
+        expiresAt: new Date(now.getTime() + expiresInDays * DAY_MS),
+        maxUses,
+        requiresApproval: requiresApproval || !hasGroupPermission(group, userId, GroupPermission.MANAGE_MEMBERS),
+    });
+}
+
+/**
+ * The token for an invite's link
+ */
+export const getInviteToken = (invite: IGroupInviteDocument): string =>
+    generateInviteToken(invite._id.toString(), invite.group.toString(), invite.expiresAt);
+
+/**
+ * Load the invite and group behind a link, if it can still be used
+ */
+export async function findActiveInvite(
+    token: string,
+    now: Date = new Date()
+): Promise<{ invite: IGroupInviteDocument; group: IGroupDocument }> {
+    const { inviteId, groupId } = verifyInviteToken(token);
+
+    const invite = await GroupInvite.findById(inviteId);
+    if (!invite || !invite.group.equals(groupId)) {
+        throw new AppError('This invite link is invalid', 400);
+    }
+    if (invite.revokedAt) {
+        throw new AppError('This invite link has been revoked', 400);
+    }
+    if (invite.expiresAt <= now) {
+        throw new AppError('This invite link has expired', 400);
+    }
+    if (invite.maxUses != null && invite.uses >= invite.maxUses) {
+        throw new AppError('This invite link has been used up', 400);
+    }
+
+    const group = await Group.findById(invite.group);
+    if (!group) {
+        throw new AppError('Group not found', 404);
+    }
+    return { invite, group };
+}
+
+/**
+ * Add a user to a group with the default role
+ */
+async function addInvitedMember(group: IGroupDocument, userId: Types.ObjectId): Promise<void> {
+    group.members.push(userId);
+    setMemberRole(group, userId, DEFAULT_GROUP_ROLE);
+    await group.save();
+}
+
+/**
+ * Join a group through an invite link, or ask to when the invite needs
+ * approval. Each join or request uses the invite once; asking again while
+ * a request is open doesn't.
+ */
+export async function redeemInvite(token: string, userId: Types.ObjectId): Promise<JoinResult> {
+    const { invite, group } = await findActiveInvite(token);
+
+    if (group.members.some((m) => m.equals(userId))) {
+        return { status: 'ALREADY_MEMBER', group };
+    }
+    if (invite.requiresApproval) {
+        const open = await GroupJoinRequest.findOne({
+            group: group._id,
+            user: userId,
+            status: JoinRequestStatus.PENDING,
+        });
+        if (open) {
+            return { status: 'PENDING', group, request: open };
+        }
+    }
+
+    // Claim a use atomically so concurrent joins can't go over the limit
+    const claimed = await GroupInvite.findOneAndUpdate(
+        {
+            _id: invite._id,
+            revokedAt: null,
+            $or: [{ maxUses: null }, { $expr: { $lt: ['$uses', '$maxUses'] } }],
+        },
+        { $inc: { uses: 1 } },
+        { new: true }
+    );
+    if (!claimed) {
+        throw new AppError('This invite link has been used up', 400);
+    }
+
+    if (invite.requiresApproval) {
+        const request = await GroupJoinRequest.create({
+            group: group._id,
+            invite: invite._id,
+            user: userId,
+        });
+        return { status: 'PENDING', group, request };
+    }
+
+    await addInvitedMember(group, userId);
+    return { status: 'JOINED', group };
+}
+
+/**
+ * Approve or reject an open join request
+ */
+export async function decideJoinRequest(
+    group: IGroupDocument,
+    requestId: string,
+    deciderId: Types.ObjectId,
+    approve: boolean
+): Promise<IGroupJoinRequestDocument> {
+    const request = await GroupJoinRequest.findOne({
+        _id: requestId,
+        group: group._id,
+        status: JoinRequestStatus.PENDING,
+    });
+    if (!request) {
+        throw new AppError('Join request not found', 404);
+    }
+
+    if (approve && !group.members.some((m) => m.equals(request.user))) {
+        await addInvitedMember(group, request.user);
+    }
+
+    request.status = approve ? JoinRequestStatus.APPROVED : JoinRequestStatus.REJECTED;
+    request.decidedBy = deciderId;
+    request.decidedAt = new Date();
+    await request.save();
+
+    return request;
+}
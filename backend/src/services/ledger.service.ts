@@ -0,0 +1,183 @@
+/**
+ * Ledger Service
+ *
+ * Keeps the materialized pairwise Balance collection in step with
+ * expenses and confirmed settlements, so balances can be read without
+ * replaying every expense. Writes happen inside the same transaction
+ * as the change that causes them.
+ *
+ * Each pair of users has one entry per group, stored with the lower user
+ * ID as fromUser; a positive amount means fromUser owes toUser.
+ */
+
+import mongoose, { ClientSession, Types } from 'mongoose';
+import { Balance, Expense, Settlement } from '../models';
+import { buildBalanceRecords } from './balance.service';
+import { BalanceRecord } from '../utils/balanceSimplifier';
+import { IExpenseDocument, ISettlementDocument, SettlementStatus } from '../types';
+
+export interface LedgerEntry {
+    group: Types.ObjectId | null;
+    fromUser: Types.ObjectId;
+    toUser: Types.ObjectId;
+    amount: number;
+}
+
+export interface LedgerMismatch extends LedgerEntry {
+    expected: number;
+}
+
+// Differences below this are floating point noise, not drift
+const TOLERANCE = 0.01;
+
+const entryKey = (entry: Pick<LedgerEntry, 'group' | 'fromUser' | 'toUser'>): string =>
+    `${entry.group ?? ''}:${entry.fromUser}:${entry.toUser}`;
+
+/**
+ * Fold "who owes whom" records into one normalized entry per pair
+ */
+export function toLedgerEntries(
+    records: BalanceRecord[],
+    group: Types.ObjectId | null = null,
+    into: Map<string, LedgerEntry> = new Map()
+): Map<string, LedgerEntry> {
+    for (const record of records) {
+        const debtor = record.fromUser._id;
+        const creditor = record.toUser._id;
+        const ordered = debtor.toString() < creditor.toString();
+
+        const entry: LedgerEntry = {
+            group,
+            fromUser: ordered ? debtor : creditor,
+            toUser: ordered ? creditor : debtor,
+            amount: 0,
+        };
+        const key = entryKey(entry);
+        const existing = into.get(key) || entry;
+
+        existing.amount += ordered ? record.amount : -record.amount;
+        into.set(key, existing);
+    }
+
+    return into;
+}
+
+/**
+ * Ledger entries contributed by an expense
+ */
+export function getExpenseLedgerEntries(expense: IExpenseDocument): LedgerEntry[] {
+    const records = buildBalanceRecords([expense], []);
+    return [...toLedgerEntries(records, expense.group || null).values()];
+}
+
+/**
+ * Ledger entries contributed by a settlement (only confirmed ones count)
+ */
+export function getSettlementLedgerEntries(settlement: ISettlementDocument): LedgerEntry[] {
+    const records = buildBalanceRecords([], [settlement]);
+    return [...toLedgerEntries(records, settlement.group || null).values()];
+}
+
+/**
+ * Add (direction 1) or remove (direction -1) entries from the ledger
+ */
+export async function applyLedgerEntries(
+    entries: LedgerEntry[],
+    session: ClientSession,
+    direction: 1 | -1 = 1
+): Promise<void> {
+    for (const entry of entries) {
+        if (entry.amount === 0) continue;
+
+        await Balance.updateOne(
+            { group: entry.group, fromUser: entry.fromUser, toUser: entry.toUser },
+            { $inc: { amount: entry.amount * direction } },
+            { upsert: true, session }
+        );
+    }
+}
+
+/**
+ * Run `fn` inside a MongoDB transaction (requires a replica set)
+ */
+export async function runInTransaction<T>(
+    fn: (session: ClientSession) => Promise<T>
+): Promise<T> {
+    const session = await mongoose.startSession();
+    try {
+        let result!: T;
+        await session.withTransaction(async () => {
+            result = await fn(session);
+        });
+        return result;
+    } finally {
+        await session.endSession();
+    }
+}
+
+/**
+ * Recompute the whole ledger from expenses (outside the trash) and
+ * confirmed settlements
+ */
+export async function computeLedger(): Promise<Map<string, LedgerEntry>> {
+    const ledger = new Map<string, LedgerEntry>();
+
+    for await (const expense of Expense.find({ deletedAt: null }).cursor()) {
+        toLedgerEntries(buildBalanceRecords([expense], []), expense.group || null, ledger);
+    }
+
+    const settlements = Settlement.find({ status: SettlementStatus.CONFIRMED }).cursor();
+    for await (const settlement of settlements) {
+        toLedgerEntries(buildBalanceRecords([], [settlement]), settlement.group || null, ledger);
+    }
+
+    return ledger;
+}
+
+/**
+ * Compare the stored ledger with a full recomputation
+ */
+export async function verifyLedger(): Promise<LedgerMismatch[]> {
+    const expected = await computeLedger();
+    const mismatches: LedgerMismatch[] = [];
+
+    for (const stored of await Balance.find()) {
+        const entry: LedgerEntry = {
+            group: stored.group || null,
+            fromUser: stored.fromUser,
+            toUser: stored.toUser,
+            amount: stored.amount,
+        };
+        const key = entryKey(entry);
+        const expectedAmount = expected.get(key)?.amount ?? 0;
+        expected.delete(key);
+
+        if (Math.abs(entry.amount - expectedAmount) >= TOLERANCE) {
+            mismatches.push({ ...entry, expected: expectedAmount });
+        }
+    }
+
+    // Pairs that should exist but have no stored entry
+    for (const entry of expected.values()) {
+        if (Math.abs(entry.amount) >= TOLERANCE) {
+            mismatches.push({ ...entry, amount: 0, expected: entry.amount });
+        }
+    }
+
+    return mismatches;
+}
+
+/**
+ * Replace the stored ledger with a full recomputation
+ */
+export async function rebuildLedger(): Promise<number> {
+    const entries = [...(await computeLedger()).values()]
+        .filter((entry) => Math.abs(entry.amount) >= TOLERANCE);
+
+    await runInTransaction(async (session) => {
+        await Balance.deleteMany({}, { session });
+        await Balance.insertMany(entries, { session });
+    });
+
+    return entries.length;
+}
@@ -0,0 +1,148 @@
+/**
+ * Membership Service
+ *
+ * Taking people out of a group, by themselves or by an admin. Nobody
+ * leaves with money outstanding: their balance in the group has to be
+ * settled first, or cleared on the way out by forgiving it or handing it
+ * to another member. Either is recorded as confirmed settlements, so the
+ * balance math and the group's history stay complete. Recurring expenses
+ * the member set up are paused, for an admin to take over or delete.
+ */
+
+import { Types } from 'mongoose';
+import { RecurringExpense, Settlement } from '../models';
+import { AppError, hasGroupPermission } from '../middleware';
+import { getUserBalances } from './balance.service';
+import { getSettlementLedgerEntries, applyLedgerEntries, runInTransaction } from './ledger.service';
+import {
+    DebtResolution,
+    GroupPermission,
+    IGroupDocument,
+    IGroupFormerMember,
+    ISettlement,
+    ISettlementDocument,
+    SettlementKind,
+    SettlementStatus,
+} from '../types';
+
+export interface LeaveOptions {
+    resolution?: DebtResolution;
+    transferTo?: Types.ObjectId; // Who takes over the balance, for TRANSFER
+}
+
+type SettlementInput = Pick<ISettlement, 'fromUser' | 'toUser' | 'amount'>;
+
+/**
+ * Take `userId` out of a group, clearing their balance with `resolution`
+ * if they have one. `actorId` is whoever asked: the member themselves, or
+ * an admin removing them. Members can only give up what they are owed;
+ * writing off or handing over what they owe takes a group admin. Returns
+ * the settlements recorded to clear the balance.
+ */
+export async function removeFromGroup(
+    group: IGroupDocument,
+    userId: Types.ObjectId,
+    actorId: Types.ObjectId,
+    { resolution, transferTo }: LeaveOptions = {}
+): Promise<ISettlementDocument[]> {
+    const isSelf = userId.equals(actorId);
+    const who = isSelf ? 'You' : 'This member';
+
+    const pending = await Settlement.exists({
+        group: group._id,
+        status: { $in: [SettlementStatus.PENDING, SettlementStatus.DISPUTED] },
+        $or: [{ fromUser: userId }, { toUser: userId }],
+    });
+    if (pending) {
+        throw new AppError(`${who} still ${isSelf ? 'have' : 'has'} payments waiting to be confirmed in this group`, 409);
+    }
+
+    const { balances, netBalance, currency } = await getUserBalances(userId.toString(), group._id.toString());
+
+    let settlements: SettlementInput[] = [];
+    if (balances.length > 0) {
+        if (!resolution) {
+            const owes = netBalance < 0 ? `${isSelf ? 'owe' : 'owes'} ${currency} ${-netBalance}`
+                : netBalance > 0 ? `${isSelf ? 'are' : 'is'} owed ${currency} ${netBalance}`
+                : `${isSelf ? 'have' : 'has'} unsettled balances`;
+            throw new AppError(
+                `${who} ${owes} in this group. Settle up first, or forgive or transfer the balance`,
+                409
+            );
+        }
+        if (balances.some((b) => b.amount < 0) && !hasGroupPermission(group, actorId, GroupPermission.MANAGE_MEMBERS)) {
+            throw new AppError('Only a group admin can forgive or transfer what you owe. Settle up first', 403);
+        }
+
+        // Each balance cleared between the member and the other person
+        const cleared: SettlementInput[] = balances.map((b) => {
+            const other = new Types.ObjectId(b.userId);
+            return b.amount > 0
+                ? { fromUser: other, toUser: userId, amount: b.amount }
+                : { fromUser: userId, toUser: other, amount: -b.amount };
+        });
+
+        if (resolution === DebtResolution.FORGIVE) {
+            settlements = cleared;
+        } else {
+            if (!transferTo) {
+                throw new AppError('Choose a member to transfer the balance to', 400);
+            }
+            if (transferTo.equals(userId) || !group.members.some((m) => m.equals(transferTo))) {
+                throw new AppError('The balance can only be transferred to another member of the group', 400);
+            }
+
+            // The same debt, now between the other person and `transferTo`.
+            // A payment the other way round creates it, as a payment from
+            // P to R leaves R owing P.
+            for (const settlement of cleared) {
+                settlements.push(settlement);
+                const other = settlement.fromUser.equals(userId) ? settlement.toUser : settlement.fromUser;
+                if (other.equals(transferTo)) continue;
+
+                settlements.push(settlement.fromUser.equals(userId)
+                    ? { fromUser: other, toUser: transferTo, amount: settlement.amount }
+                    : { fromUser: transferTo, toUser: other, amount: settlement.amount });
+            }
+        }
+    }
+
+    group.members = group.members.filter((m) => !m.equals(userId));
+    group.memberRoles = group.memberRoles.filter((r) => !r.user.equals(userId));
+    group.formerMembers = [
+        ...(group.formerMembers || []).filter((f) => !f.user.equals(userId)),
+        { user: userId, leftAt: new Date(), removedBy: isSelf ? undefined : actorId } as IGroupFormerMember,
+    ];
+
+    const kind = resolution === DebtResolution.TRANSFER ? SettlementKind.TRANSFER : SettlementKind.FORGIVENESS;
+    const note = `${kind === SettlementKind.TRANSFER ? 'Transferred' : 'Forgiven'} when ${isSelf ? 'leaving' : 'removed from'} the group`;
+    const now = new Date();
+
+    return runInTransaction(async (session) => {
+        const created = settlements.length === 0 ? [] : await Settlement.create(
+            settlements.map((settlement) => ({
+                ...settlement,
+                group: group._id,
+                note,
+                currency: group.baseCurrency,
+                exchangeRate: 1,
+                status: SettlementStatus.CONFIRMED,
+                kind,
+                confirmedAt: now,
+                createdBy: actorId,
+            })),
+            { session, ordered: true }
+        );
+        await applyLedgerEntries(created.flatMap(getSettlementLedgerEntries), session);
+        await group.save({ session });
+
+        // Their schedules would keep adding expenses in their name
+        await RecurringExpense.updateMany(
+            { group: group._id, createdBy: userId, paused: false },
+            { paused: true },
+            { session }
+        );
+
+        return created;
+    });
+}
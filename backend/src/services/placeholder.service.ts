@@ -0,0 +1,89 @@
+/**
+ * Placeholder Service
+ *
+ * Placeholder members are people added to a group by name who haven't
+ * signed up. They are ordinary users with `isPlaceholder` set, so they
+ * appear in splits, balances and settlements like anyone else. When
+ * someone registers with a placeholder's email the placeholder becomes
+ * their account, keeping everything recorded against it.
+ */
+
+import { Group, User } from '../models';
+import { AppError } from '../middleware';
+import { DEFAULT_GROUP_ROLE } from '../config/permissions';
+import { setMemberRole } from './group.service';
+import { IGroupDocument, IUserDocument } from '../types';
+
+export interface PlaceholderInput {
+    name: string;
+    email?: string;
+    phone?: string;
+}
+
+/**
+ * Add a placeholder member to a group. Each placeholder belongs to the
+ * group that added it and is never shared, so admins of other groups
+ * can't change who gets to claim it.
+ */
+export async function addPlaceholderMember(
+    group: IGroupDocument,
+    { name, email, phone }: PlaceholderInput
+): Promise<IUserDocument> {
+    if (email && await User.exists({ email })) {
+        throw new AppError('Someone with this email has already signed up or been added to another group. Invite them instead', 409);
+    }
+
+    const placeholder = await User.create({ name, email, phone, isPlaceholder: true });
+
+    group.members.push(placeholder._id);
+    setMemberRole(group, placeholder._id, DEFAULT_GROUP_ROLE);
+    await group.save();
+
+    return placeholder;
+}
+
+/**
+ * Change a placeholder's details on behalf of `group` (adding an email
+ * lets them claim it). Only allowed while `group` is the placeholder's
+ * only group, so no group can rename or redirect someone another group
+ * relies on.
+ */
+export async function updatePlaceholder(
+    group: IGroupDocument,
+    placeholder: IUserDocument,
+    { name, email, phone }: Partial<PlaceholderInput>
+): Promise<IUserDocument> {
+    if (!placeholder.isPlaceholder) {
+        throw new AppError('Only members who haven\'t signed up can be edited', 400);
+    }
+    if (await Group.exists({ _id: { $ne: group._id }, members: placeholder._id })) {
+        throw new AppError('This person is also in other groups, so their details can\'t be changed here', 403);
+    }
+    if (email && email !== placeholder.email && await User.exists({ email })) {
+        throw new AppError('This email is already in use', 409);
+    }
+
+    if (name !== undefined) placeholder.name = name;
+    if (email !== undefined) placeholder.email = email || undefined;
+    if (phone !== undefined) placeholder.phone = phone || undefined;
+    await placeholder.save();
+
+    return placeholder;
+}
+
+/**
+ * Turn a placeholder into the account of the person registering with its
+ * email. Its id is kept, so their groups, expenses and balances come along.
+ */
+export async function claimPlaceholder(
+    placeholder: IUserDocument,
+    { name, password, phone }: { name: string; password: string; phone?: string }
+): Promise<IUserDocument> {
+    placeholder.name = name;
+    placeholder.password = password;
+    if (phone) placeholder.phone = phone;
+    placeholder.isPlaceholder = false;
+    await placeholder.save();
+
+    return placeholder;
+}
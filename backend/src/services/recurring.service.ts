@@ -0,0 +1,91 @@
+/**
+ * Recurring Expense Service
+ *
+ * Works out when recurring expenses are due and turns due occurrences
+ * into real expenses. Each generated expense is saved in the same
+ * transaction as its ledger entries and the schedule's next due date,
+ * so an occurrence is never generated twice.
+ */
+
+import { RecurringExpense } from '../models';
+import { getNextOccurrence } from '../utils/recurrence';
+import { ExpenseHistoryAction, IRecurringExpenseDocument } from '../types';
+import { AppError } from '../middleware';
+import { buildExpense } from './expense.service';
+import { getExpenseLedgerEntries, applyLedgerEntries, runInTransaction } from './ledger.service';
+import { recordExpenseHistory } from './expenseHistory.service';
+
+// Most occurrences generated for one schedule in a single run (e.g. after downtime)
+const MAX_CATCH_UP = 31;
+
+/**
+ * Next due date strictly after `after`, or undefined once past the end date
+ */
+export function getNextDueDate(
+    recurring: Pick<IRecurringExpenseDocument, 'frequency' | 'interval' | 'cron' | 'startDate' | 'endDate'>,
+    after: Date
+): Date | undefined {
+    const next = getNextOccurrence(recurring, after);
+    if (!next || (recurring.endDate && next > recurring.endDate)) {
+        return undefined;
+    }
+    return next;
+}
+
+/**
+ * Generate the expenses a schedule owes up to `now`. Returns how many were created.
+ */
+export async function materializeRecurringExpense(
+    recurring: IRecurringExpenseDocument,
+    now: Date = new Date()
+): Promise<number> {
+    let created = 0;
+
+    while (recurring.nextRunAt && recurring.nextRunAt <= now && created < MAX_CATCH_UP) {
+        const dueAt = recurring.nextRunAt;
+        const expense = await buildExpense(
+            { ...recurring.template, groupId: recurring.group.toString(), expenseDate: dueAt },
+            recurring.createdBy
+        );
+        expense.recurringExpense = recurring._id;
+        recurring.nextRunAt = getNextDueDate(recurring, dueAt);
+
+        await runInTransaction(async (session) => {
+            await expense.save({ session });
+            await applyLedgerEntries(getExpenseLedgerEntries(expense), session);
+            await recordExpenseHistory([{ expense, action: ExpenseHistoryAction.CREATED }], session);
+            await recurring.save({ session });
+        });
+        created++;
+    }
+
+    return created;
+}
+
+/**
+ * Generate expenses for every active schedule that has fallen due.
+ * A schedule whose template no longer fits the group (say a member left)
+ * is paused rather than retried forever. Returns how many expenses were created.
+ */
+export async function runDueRecurringExpenses(now: Date = new Date()): Promise<number> {
+    const due = await RecurringExpense.find({
+        paused: false,
+        nextRunAt: { $lte: now },
+    });
+
+    let created = 0;
+    for (const recurring of due) {
+        try {
+            created += await materializeRecurringExpense(recurring, now);
+        } catch (error) {
+            if (error instanceof AppError) {
+                console.warn(`⚠️ Pausing recurring expense ${recurring._id}: ${error.message}`);
+                await RecurringExpense.updateOne({ _id: recurring._id }, { paused: true });
+            } else {
+                console.error(`❌ Failed to generate recurring expense ${recurring._id}:`, error);
+            }
+        }
+    }
+
+    return created;
+}
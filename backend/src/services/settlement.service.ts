@@ -0,0 +1,124 @@
+/**
+ * Settlement Service
+ *
+ * Status changes for settlements, kept in step with the balance ledger,
+ * and the automatic confirmation of settlements left pending too long or
+ * paid to placeholder members.
+ */
+
+import { Types } from 'mongoose';
+import { Group, Settlement, User } from '../models';
+import { ISettlementDocument, SettlementStatus } from '../types';
+import { getSettlementLedgerEntries, applyLedgerEntries, runInTransaction } from './ledger.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Change settlements' status and move their balance ledger entries with them,
+ * all in one transaction. Only confirmed settlements are in the ledger, so this
+ * is a no-op for the ledger unless a settlement enters or leaves CONFIRMED.
+ * `changedBy` is left out for automatic changes.
+ */
+export async function updateSettlementStatus(
+    settlements: ISettlementDocument[],
+    status: SettlementStatus,
+    changedBy?: Types.ObjectId,
+    reason?: string
+): Promise<void> {
+    const previousEntries = settlements.flatMap(getSettlementLedgerEntries);
+    const changedAt = new Date();
+    settlements.forEach((settlement) => {
+        settlement.statusHistory.push({
+            from: settlement.status,
+            to: status,
+            changedBy,
+            reason,
+            changedAt,
+        });
+        settlement.status = status;
+    });
+
+    await runInTransaction(async (session) => {
+        for (const settlement of settlements) {
+            await settlement.save({ session });
+        }
+        await applyLedgerEntries(previousEntries, session, -1);
+        await applyLedgerEntries(settlements.flatMap(getSettlementLedgerEntries), session);
+    });
+}
+
+/**
+ * Confirm payments to placeholder members as soon as they are recorded.
+ * Placeholders can't confirm anything, so whoever records the payment
+ * vouches for it.
+ */
+export async function confirmPaymentsToPlaceholders(
+    settlements: ISettlementDocument[],
+    recordedBy: Types.ObjectId
+): Promise<void> {
+    const placeholders = await User.find({
+        _id: { $in: settlements.map((settlement) => settlement.toUser) },
+        isPlaceholder: true,
+    }).select('_id');
+    const placeholderIds = new Set(placeholders.map((user) => user._id.toString()));
+
+    const toConfirm = settlements.filter((settlement) => placeholderIds.has(settlement.toUser.toString()));
+    if (toConfirm.length === 0) return;
+
+    const confirmedAt = new Date();
+    toConfirm.forEach((settlement) => {
+        settlement.confirmedAt = confirmedAt;
+    });
+    await updateSettlementStatus(toConfirm, SettlementStatus.CONFIRMED, recordedBy, 'Receiver has not signed up');
+}
+
+/**
+ * Confirm pending settlements older than their group's auto-confirm window.
+ * Receivers who opted out are skipped, and so are cross-group settle-ups,
+ * whose linked settlements must be confirmed together by the other party.
+ * Returns the number of settlements confirmed.
+ */
+export async function autoConfirmSettlements(now: Date = new Date()): Promise<number> {
+    const groups = await Group.find({ autoConfirmDays: { $gte: 1 } }).select('autoConfirmDays');
+
+    const stale: { settlement: ISettlementDocument; days: number }[] = [];
+    for (const group of groups) {
+        const days = group.autoConfirmDays!;
+        const settlements = await Settlement.find({
+            group: group._id,
+            status: SettlementStatus.PENDING,
+            linkId: { $exists: false },
+            createdAt: { $lte: new Date(now.getTime() - days * DAY_MS) },
+        });
+        settlements.forEach((settlement) => stale.push({ settlement, days }));
+    }
+
+    if (stale.length === 0) return 0;
+
+    const optedOut = await User.find({
+        _id: { $in: stale.map(({ settlement }) => settlement.toUser) },
+        autoConfirmSettlements: false,
+    }).select('_id');
+    const optedOutIds = new Set(optedOut.map((user) => user._id.toString()));
+
+    let confirmed = 0;
+    for (const { settlement, days } of stale) {
+        if (optedOutIds.has(settlement.toUser.toString())) continue;
+
+        // One transaction per settlement so a single failure doesn't hold up the rest
+        try {
+            settlement.confirmedAt = now;
+            await updateSettlementStatus(
+                [settlement],
+                SettlementStatus.CONFIRMED,
+                undefined,
+                `Auto-confirmed after ${days} day${days === 1 ? '' : 's'}`
+            );
+            confirmed++;
+        } catch (error) {
+            console.error(`❌ Failed to auto-confirm settlement ${settlement._id}:`, error);
+        }
+    }
+
+    return confirmed;
+}
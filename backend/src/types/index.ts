@@ -6,7 +6,10 @@ import { Document, Types } from 'mongoose';
 export enum SplitType {
     EQUAL = 'EQUAL',
     EXACT = 'EXACT',
-    PERCENTAGE = 'PERCENTAGE'
+    PERCENTAGE = 'PERCENTAGE',
+    SHARES = 'SHARES',
+    ADJUSTMENT = 'ADJUSTMENT',
+    ITEMIZED = 'ITEMIZED'
 }
 
 export enum TransactionType {
@@ -17,15 +20,31 @@ export enum TransactionType {
 export enum SettlementStatus {
     PENDING = 'PENDING',
     CONFIRMED = 'CONFIRMED',
-    REJECTED = 'REJECTED'
+    REJECTED = 'REJECTED',
+    CANCELLED = 'CANCELLED',
+    DISPUTED = 'DISPUTED'
+}
+
+export enum SettlementKind {
+    PAYMENT = 'PAYMENT',
+    FORGIVENESS = 'FORGIVENESS', // A debt written off when a member left the group
+    TRANSFER = 'TRANSFER'        // A debt handed to another member when a member left the group
+}
+
+// How a leaving member's outstanding balance is cleared
+export enum DebtResolution {
+    FORGIVE = 'FORGIVE',
+    TRANSFER = 'TRANSFER'
 }
 
 // ============ User Types ============
 export interface IUser {
     name: string;
-    email: string;
-    password: string;
+    email?: string;    // Required unless a placeholder
+    password?: string; // Required unless a placeholder
     phone?: string;
+    isPlaceholder: boolean; // Added to a group by name, hasn't signed up; registering with the email claims it
+    autoConfirmSettlements: boolean; // false = payments to this user always wait for a manual confirm
     createdAt: Date;
     updatedAt: Date;
 }
@@ -38,15 +57,58 @@ export interface IUserDocument extends IUser, Document {
 export interface IUserResponse {
     _id: string;
     name: string;
-    email: string;
+    email?: string;
     phone?: string;
+    isPlaceholder?: boolean;
 }
 
 // ============ Group Types ============
+export enum GroupRole {
+    OWNER = 'OWNER',   // Exactly one per group
+    ADMIN = 'ADMIN',
+    MEMBER = 'MEMBER',
+    VIEWER = 'VIEWER'  // Read-only
+}
+
+export enum GroupPermission {
+    ADD_EXPENSES = 'ADD_EXPENSES',             // Add expenses, schedules and categories; record own payments
+    EDIT_ANY_EXPENSE = 'EDIT_ANY_EXPENSE',     // Edit, delete and restore what others added
+    RECORD_FOR_OTHERS = 'RECORD_FOR_OTHERS',   // Expenses paid by, and payments between, other members
+    INVITE_MEMBERS = 'INVITE_MEMBERS',         // Create invite links (admins' links can skip approval)
+    MANAGE_MEMBERS = 'MANAGE_MEMBERS',         // Add members, remove those ranked below you, approve join requests
+    MANAGE_SETTINGS = 'MANAGE_SETTINGS',       // Group details, debt simplification, auto-confirm, categories
+    MANAGE_ROLES = 'MANAGE_ROLES',
+    TRANSFER_OWNERSHIP = 'TRANSFER_OWNERSHIP'
+}
+
+export interface IGroupMemberRole {
+    user: Types.ObjectId;
+    role: GroupRole;
+}
+
+export interface IGroupFormerMember {
+    user: Types.ObjectId;
+    leftAt: Date;
+    removedBy?: Types.ObjectId; // Absent when they left by themselves
+}
+
+export interface IGroupCategory {
+    _id: Types.ObjectId;
+    name: string;
+    icon?: string; // Emoji shown next to the name
+    createdBy: Types.ObjectId;
+}
+
 export interface IGroup {
     name: string;
     description?: string;
     members: Types.ObjectId[];
+    memberRoles: IGroupMemberRole[]; // One per member
+    formerMembers: IGroupFormerMember[]; // People who left or were removed, still named in the group's history
+    baseCurrency: string; // Balances in this group are computed in this currency
+    simplifyDebts: boolean; // false = only suggest payments between people who owe each other
+    autoConfirmDays?: number; // Pending settlements older than this are confirmed automatically
+    categories: IGroupCategory[]; // Custom categories on top of the built-in ones
     createdBy: Types.ObjectId;
     createdAt: Date;
     updatedAt: Date;
@@ -56,20 +118,87 @@ export interface IGroupDocument extends IGroup, Document {
     _id: Types.ObjectId;
 }
 
+// ============ Group Invite Types ============
+export enum JoinRequestStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    REJECTED = 'REJECTED'
+}
+
+export interface IGroupInvite {
+    group: Types.ObjectId;
+    createdBy: Types.ObjectId;
+    expiresAt: Date;
+    maxUses?: number | null; // No limit when unset
+    uses: number;            // Joins and join requests made with it
+    requiresApproval: boolean; // Joining creates a request for an admin to approve
+    revokedAt?: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IGroupInviteDocument extends IGroupInvite, Document {
+    _id: Types.ObjectId;
+}
+
+export interface IGroupJoinRequest {
+    group: Types.ObjectId;
+    invite: Types.ObjectId;
+    user: Types.ObjectId;
+    status: JoinRequestStatus;
+    decidedBy?: Types.ObjectId;
+    decidedAt?: Date;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IGroupJoinRequestDocument extends IGroupJoinRequest, Document {
+    _id: Types.ObjectId;
+}
+
 // ============ Expense Types ============
 export interface ISplit {
     user: Types.ObjectId;
-    amount: number; // For EXACT: actual amount, For PERCENTAGE: percentage value
+    amount: number; // For EXACT: actual amount, For PERCENTAGE: percentage value, For SHARES: weight
     share: number;  // Calculated share in currency (paise/cents)
+    adjustment?: number; // For ADJUSTMENT: signed delta on top of the equal share
+}
+
+export interface IExpenseItem {
+    name: string;
+    price: number; // In smallest unit (paise/cents)
+    sharedBy: Types.ObjectId[];
+}
+
+export interface IExpenseCharges {
+    tax: number;
+    serviceCharge: number;
+    tip: number;
+}
+
+export interface IPayer {
+    user: Types.ObjectId;
+    amount: number; // Portion of the total this user paid
 }
 
 export interface IExpense {
     description: string;
+    notes?: string;
     amount: number; // Total amount in smallest unit (paise/cents)
-    paidBy: Types.ObjectId;
+    paidBy: Types.ObjectId; // Primary payer (first entry of payers when there are several)
+    payers?: IPayer[];      // Set when more than one person paid
     group?: Types.ObjectId;
+    category: string;
     splitType: SplitType;
     splits: ISplit[];
+    items?: IExpenseItem[];     // For ITEMIZED: receipt line items
+    charges?: IExpenseCharges;  // For ITEMIZED: spread by item subtotal
+    currency: string;           // Currency the amounts were entered in
+    exchangeRate: number;       // Rate to the group's base currency on the expense date
+    expenseDate: Date;          // When the expense happened (createdAt is when it was entered)
+    recurringExpense?: Types.ObjectId; // Schedule this expense was generated from
+    deletedAt?: Date | null;    // Set while the expense is in the trash
+    deletedBy?: Types.ObjectId;
     createdBy: Types.ObjectId;
     createdAt: Date;
     updatedAt: Date;
@@ -81,10 +210,10 @@ export interface IExpenseDocument extends IExpense, Document {
 
 // ============ Balance Types ============
 export interface IBalance {
-    fromUser: Types.ObjectId;
+    fromUser: Types.ObjectId; // Lower of the two user IDs, so each pair has one entry
     toUser: Types.ObjectId;
-    amount: number; // Net amount owed (can be negative)
-    group?: Types.ObjectId;
+    amount: number; // Net amount fromUser owes toUser (negative = toUser owes fromUser)
+    group?: Types.ObjectId; // Unset for expenses outside a group
     updatedAt: Date;
 }
 
@@ -93,14 +222,28 @@ export interface IBalanceDocument extends IBalance, Document {
 }
 
 // ============ Settlement Types ============
+export interface ISettlementStatusChange {
+    from: SettlementStatus;
+    to: SettlementStatus;
+    changedBy?: Types.ObjectId; // Absent for automatic changes
+    reason?: string;
+    changedAt: Date;
+}
+
 export interface ISettlement {
     fromUser: Types.ObjectId;
     toUser: Types.ObjectId;
     amount: number;
     group?: Types.ObjectId;
     note?: string;
+    currency: string;
+    exchangeRate: number; // Rate to the group's base currency at entry time
     status: SettlementStatus;
+    kind: SettlementKind;
     confirmedAt?: Date;
+    statusHistory: ISettlementStatusChange[];
+    linkId?: Types.ObjectId; // Shared by settlements recorded together by a cross-group settle-up
+    createdBy?: Types.ObjectId;
     createdAt: Date;
 }
 
@@ -108,22 +251,133 @@ export interface ISettlementDocument extends ISettlement, Document {
     _id: Types.ObjectId;
 }
 
+// ============ Expense History Types ============
+export enum ExpenseHistoryAction {
+    CREATED = 'CREATED',
+    UPDATED = 'UPDATED',
+    DELETED = 'DELETED',
+    RESTORED = 'RESTORED'
+}
+
+export interface IExpenseFieldChange {
+    field: string;
+    from?: unknown; // Plain JSON (ids as strings, dates as ISO strings)
+    to?: unknown;
+}
+
+export interface IExpenseHistory {
+    expense: Types.ObjectId; // The expense may no longer exist
+    group?: Types.ObjectId;
+    version: number; // 1 for the creation, then one per change
+    action: ExpenseHistoryAction;
+    changes: IExpenseFieldChange[]; // Only set for UPDATED
+    snapshot: Record<string, unknown>; // Tracked fields after the change (before it, for DELETED)
+    changedBy?: Types.ObjectId; // Unset for changes the system made on its own
+    createdAt: Date;
+}
+
+export interface IExpenseHistoryDocument extends IExpenseHistory, Document {
+    _id: Types.ObjectId;
+}
+
+// ============ Exchange Rate Types ============
+export enum ExchangeRateSource {
+    MANUAL = 'MANUAL',
+    CSV = 'CSV'
+}
+
+export interface IExchangeRate {
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;          // 1 unit of fromCurrency in toCurrency
+    effectiveDate: Date;   // Valid from this date until a newer rate exists
+    group?: Types.ObjectId; // Set when pinned to a group (e.g. a trip)
+    source: ExchangeRateSource;
+    createdBy?: Types.ObjectId; // Unset for global rates loaded by the rates:import script
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IExchangeRateDocument extends IExchangeRate, Document {
+    _id: Types.ObjectId;
+}
+
 // ============ API Request Types ============
 export interface CreateExpenseRequest {
     description: string;
+    notes?: string;
     amount: number;
-    paidBy: string;
+    paidBy?: string; // Either paidBy or payers is required
+    payers?: {
+        userId: string;
+        amount: number;
+    }[];
     groupId?: string;
+    expenseDate?: Date;    // When the expense happened; defaults to now
+    category?: string;     // Built-in or group category; defaults to Other
+    currency?: string;     // Defaults to the group's base currency
+    exchangeRate?: number; // Defaults to the local rates table
     splitType: SplitType;
     splits: {
         userId: string;
-        amount?: number; // For EXACT or PERCENTAGE
+        amount?: number; // For EXACT, PERCENTAGE or SHARES
+        adjustment?: number; // For ADJUSTMENT
+    }[];
+    items?: {
+        name: string;
+        price: number;
+        sharedBy: string[];
     }[];
+    charges?: {
+        tax?: number;
+        serviceCharge?: number;
+        tip?: number;
+    };
+}
+
+// ============ Recurring Expense Types ============
+export enum RecurrenceFrequency {
+    DAILY = 'DAILY',
+    WEEKLY = 'WEEKLY',
+    MONTHLY = 'MONTHLY',
+    CUSTOM = 'CUSTOM'
+}
+
+// Expense fields copied into every generated expense
+export type RecurringExpenseTemplate = Omit<CreateExpenseRequest, 'groupId' | 'exchangeRate' | 'expenseDate'>;
+
+export interface IRecurringExpense {
+    group: Types.ObjectId;
+    frequency: RecurrenceFrequency;
+    interval: number; // Every n days/weeks/months
+    cron?: string; // Five-field rule for CUSTOM schedules (UTC)
+    startDate: Date;
+    endDate?: Date;
+    nextRunAt?: Date; // Unset once the schedule has ended
+    paused: boolean;
+    template: RecurringExpenseTemplate;
+    createdBy: Types.ObjectId;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+export interface IRecurringExpenseDocument extends IRecurringExpense, Document {
+    _id: Types.ObjectId;
+}
+
+export interface CreateRecurringExpenseRequest {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    cron?: string;
+    startDate?: string; // Defaults to now
+    endDate?: string;
+    template: RecurringExpenseTemplate;
 }
 
 export interface CreateGroupRequest {
     name: string;
     description?: string;
+    baseCurrency?: string;
     memberIds: string[];
 }
 
@@ -133,6 +387,21 @@ export interface CreateSettlementRequest {
     amount: number;
     groupId?: string;
     note?: string;
+    currency?: string;
+    exchangeRate?: number;
+}
+
+export interface CrossGroupSettlementRequest {
+    userId: string; // The other person
+    note?: string;
+}
+
+export interface CreateExchangeRateRequest {
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    effectiveDate: string;
+    groupId?: string;
 }
 
 // ============ API Response Types ============
@@ -142,6 +411,8 @@ export interface BalanceSummary {
     totalOwed: number;    // What others owe this user
     totalOwing: number;   // What this user owes others
     netBalance: number;   // Positive = others owe, Negative = user owes
+    pendingIncoming: number; // Payments to this user awaiting confirmation
+    pendingOutgoing: number; // Payments by this user awaiting confirmation
 }
 
 export interface DetailedBalance {
@@ -161,11 +432,17 @@ export interface JWTPayload {
     email: string;
 }
 
+export interface InviteTokenPayload {
+    inviteId: string;
+    groupId: string;
+}
+
 // ============ Express Extensions ============
 declare global {
     namespace Express {
         interface Request {
             user?: IUserDocument;
+            group?: IGroupDocument; // Set by requireGroupPermission
         }
     }
 }
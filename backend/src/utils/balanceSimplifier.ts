@@ -2,7 +2,9 @@
  * Balance Simplification Algorithm
  * 
  * This is an advanced feature that minimizes the number of transactions
- * needed to settle all debts. Uses a greedy approach.
+ * needed to settle all debts. Two strategies are available:
+ *   - GREEDY: match the largest debtor with the largest creditor
+ *   - OPTIMAL: exact minimum for small groups (falls back to GREEDY)
  * 
  * Example:
  *   Before: A→B $10, B→C $5, C→A $3
@@ -12,12 +14,26 @@
 
 import { Types } from 'mongoose';
 
+export enum SimplifyStrategy {
+    GREEDY = 'GREEDY',
+    OPTIMAL = 'OPTIMAL'
+}
+
+// Above this many non-zero balances the exact solver (O(2^n * n)) is too slow
+export const EXACT_SOLVER_LIMIT = 15;
+
 export interface NetBalance {
     userId: Types.ObjectId;
     userName: string;
     balance: number; // Positive = owed money, Negative = owes money
 }
 
+export interface BalanceRecord {
+    fromUser: { _id: Types.ObjectId; name: string };
+    toUser: { _id: Types.ObjectId; name: string };
+    amount: number; // fromUser owes toUser this much
+}
+
 export interface OptimizedSettlement {
     from: {
         userId: Types.ObjectId;
@@ -34,11 +50,7 @@ export interface OptimizedSettlement {
  * Calculate net balances from raw balance data
  */
 export function calculateNetBalances(
-    balances: Array<{
-        fromUser: { _id: Types.ObjectId; name: string };
-        toUser: { _id: Types.ObjectId; name: string };
-        amount: number;
-    }>
+    balances: BalanceRecord[]
 ): Map<string, NetBalance> {
     const netBalances = new Map<string, NetBalance>();
 
@@ -137,16 +149,150 @@ export function simplifySettlements(
     return settlements;
 }
 
+/**
+ * Simplify settlements with the fewest possible transactions
+ *
+ * A group of n people whose balances sum to zero can always settle in
+ * n - 1 transfers, so the minimum is (people) - (most disjoint zero-sum
+ * groups they can be split into). A bitmask DP over subsets finds that
+ * split; each zero-sum group is then settled greedily.
+ *
+ * Falls back to the greedy algorithm above EXACT_SOLVER_LIMIT people.
+ */
+export function simplifySettlementsOptimal(
+    netBalances: Map<string, NetBalance>
+): OptimizedSettlement[] {
+    // Work in whole cents so subset sums are exactly zero
+    const people = [...netBalances.values()]
+        .map((balance) => ({ ...balance, cents: Math.round(balance.balance * 100) }))
+        .filter((balance) => Math.abs(balance.cents) > 1);
+
+    if (people.length === 0) return [];
+    if (people.length > EXACT_SOLVER_LIMIT) {
+        return simplifySettlements(netBalances);
+    }
+
+    // Absorb rounding drift so the whole set sums to zero
+    const drift = people.reduce((sum, p) => sum + p.cents, 0);
+    if (drift !== 0) {
+        const largest = people.reduce((a, b) => (Math.abs(b.cents) > Math.abs(a.cents) ? b : a));
+        largest.cents -= drift;
+    }
+
+    const n = people.length;
+    const full = (1 << n) - 1;
+    const sums = new Array<number>(full + 1).fill(0);
+    const groups = new Array<number>(full + 1).fill(0); // Most zero-sum groups within mask
+
+    for (let mask = 1; mask <= full; mask++) {
+        const low = mask & -mask;
+        const index = 31 - Math.clz32(low);
+        sums[mask] = sums[mask ^ low] + people[index].cents;
+
+        let best = 0;
+        for (let i = 0; i < n; i++) {
+            if (mask & (1 << i)) {
+                best = Math.max(best, groups[mask ^ (1 << i)]);
+            }
+        }
+        groups[mask] = best + (sums[mask] === 0 ? 1 : 0);
+    }
+
+    // Walk back from the full set to recover the order people were added in
+    const order: number[] = [];
+    let mask = full;
+    while (mask) {
+        const target = groups[mask] - (sums[mask] === 0 ? 1 : 0);
+        for (let i = 0; i < n; i++) {
+            if (mask & (1 << i) && groups[mask ^ (1 << i)] === target) {
+                order.unshift(i);
+                mask ^= 1 << i;
+                break;
+            }
+        }
+    }
+
+    // Every time the running set sums to zero, a group is complete
+    const settlements: OptimizedSettlement[] = [];
+    let group = new Map<string, NetBalance>();
+    mask = 0;
+    for (const i of order) {
+        const person = people[i];
+        mask |= 1 << i;
+        group.set(person.userId.toString(), {
+            userId: person.userId,
+            userName: person.userName,
+            balance: person.cents / 100,
+        });
+
+        if (sums[mask] === 0) {
+            settlements.push(...simplifySettlements(group));
+            group = new Map();
+        }
+    }
+
+    return settlements;
+}
+
+/**
+ * Settle along existing debts only, for groups that don't simplify debts
+ *
+ * Nobody is asked to pay someone they don't owe directly; the only
+ * simplification is cancelling mutual debts between the same two people.
+ */
+export function getPairwiseSettlements(
+    balances: BalanceRecord[]
+): OptimizedSettlement[] {
+    const pairs = new Map<string, BalanceRecord>();
+
+    for (const balance of balances) {
+        const fromId = balance.fromUser._id.toString();
+        const toId = balance.toUser._id.toString();
+        const forward = `${fromId}:${toId}`;
+        const reverse = `${toId}:${fromId}`;
+
+        if (pairs.has(reverse)) {
+            // Opposite direction: cancel against the existing debt
+            pairs.get(reverse)!.amount -= balance.amount;
+        } else if (pairs.has(forward)) {
+            pairs.get(forward)!.amount += balance.amount;
+        } else {
+            pairs.set(forward, { ...balance });
+        }
+    }
+
+    const settlements: OptimizedSettlement[] = [];
+
+    for (const pair of pairs.values()) {
+        if (Math.abs(pair.amount) < 0.01) continue;
+
+        // A negative amount means the debt now runs the other way
+        const [debtor, creditor] = pair.amount > 0
+            ? [pair.fromUser, pair.toUser]
+            : [pair.toUser, pair.fromUser];
+
+        settlements.push({
+            from: { userId: debtor._id, userName: debtor.name },
+            to: { userId: creditor._id, userName: creditor.name },
+            amount: Math.round(Math.abs(pair.amount)),
+        });
+    }
+
+    // Largest debts first
+    settlements.sort((a, b) => b.amount - a.amount);
+
+    return settlements;
+}
+
 /**
  * Full simplification from raw balance records
  */
 export function getSimplifiedSettlements(
-    balances: Array<{
-        fromUser: { _id: Types.ObjectId; name: string };
-        toUser: { _id: Types.ObjectId; name: string };
-        amount: number;
-    }>
+    balances: BalanceRecord[],
+    strategy: SimplifyStrategy = SimplifyStrategy.OPTIMAL
 ): OptimizedSettlement[] {
     const netBalances = calculateNetBalances(balances);
-    return simplifySettlements(netBalances);
+    return strategy === SimplifyStrategy.GREEDY
+        ? simplifySettlements(netBalances)
+        : simplifySettlementsOptimal(netBalances);
 }
@@ -0,0 +1,29 @@
+/**
+ * Currency Utility
+ *
+ * Exchange rates from the local exchange rate table.
+ * Expenses store the rate used at entry time, so balances never
+ * shift when the table is updated later.
+ */
+
+import { EXCHANGE_RATES } from '../config/currencies';
+
+/**
+ * Get the rate to convert 1 unit of `from` into `to` using the local table
+ */
+export function getLocalExchangeRate(from: string, to: string): number {
+    if (from === to) return 1;
+
+    const fromRate = EXCHANGE_RATES[from];
+    const toRate = EXCHANGE_RATES[to];
+
+    if (fromRate === undefined) {
+        throw new Error(`Unsupported currency: ${from}`);
+    }
+    if (toRate === undefined) {
+        throw new Error(`Unsupported currency: ${to}`);
+    }
+
+    // Keep 6 decimal places to avoid floating point noise
+    return Math.round((fromRate / toRate) * 1e6) / 1e6;
+}
@@ -0,0 +1,68 @@
+/**
+ * Expense Diffs
+ *
+ * Snapshots of the fields that matter to an expense's meaning (who paid
+ * what, how it's split, when and in which currency) as plain JSON, and
+ * the field-by-field differences between two snapshots. Ids become
+ * strings and dates ISO strings, so snapshots can be stored and compared
+ * as they are.
+ */
+
+import { IExpenseFieldChange } from '../types';
+
+export const TRACKED_EXPENSE_FIELDS = [
+    'description',
+    'notes',
+    'amount',
+    'currency',
+    'exchangeRate',
+    'expenseDate',
+    'category',
+    'paidBy',
+    'payers',
+    'splitType',
+    'splits',
+    'items',
+    'charges',
+] as const;
+
+export type ExpenseSnapshot = Partial<Record<typeof TRACKED_EXPENSE_FIELDS[number] | 'group', unknown>>;
+
+const toJson = (value: unknown): unknown =>
+    value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+/**
+ * Plain JSON copy of an expense's tracked fields (and its group).
+ * Populated references are stored as their ids.
+ */
+export function toExpenseSnapshot(expense: any): ExpenseSnapshot {
+    const source = typeof expense?.toObject === 'function'
+        ? expense.toObject({ depopulate: true })
+        : expense;
+
+    const snapshot: ExpenseSnapshot = {};
+    for (const field of [...TRACKED_EXPENSE_FIELDS, 'group'] as const) {
+        const value = toJson(source[field]);
+        // Empty optional arrays (e.g. no items) mean the same as none
+        if (value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0)) {
+            snapshot[field] = value;
+        }
+    }
+    return snapshot;
+}
+
+/**
+ * Fields whose value differs between two snapshots, in tracked-field order
+ */
+export function diffExpenseSnapshots(before: ExpenseSnapshot, after: ExpenseSnapshot): IExpenseFieldChange[] {
+    const changes: IExpenseFieldChange[] = [];
+
+    for (const field of TRACKED_EXPENSE_FIELDS) {
+        const from = before[field];
+        const to = after[field];
+        if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes.push({ field, from, to });
+        }
+    }
+    return changes;
+}
@@ -0,0 +1,113 @@
+/**
+ * Expense List Queries
+ *
+ * Turns the filters accepted by GET /api/expenses into a MongoDB filter
+ * and sort. Users only ever see expenses they paid, share in or created
+ * that aren't in the trash; every other filter narrows that set further.
+ */
+
+import { Types } from 'mongoose';
+import { SplitType } from '../types';
+
+export const EXPENSE_SORT_FIELDS = ['expenseDate', 'amount', 'createdAt', 'relevance'] as const;
+
+export type ExpenseSortField = typeof EXPENSE_SORT_FIELDS[number];
+
+export interface ExpenseListFilters {
+    groupId?: string;
+    q?: string; // Text search on description and notes
+    category?: string;
+    splitType?: SplitType;
+    payer?: string; // Paid (or helped pay) for the expense
+    participant?: string; // Has a share of the expense
+    minAmount?: number;
+    maxAmount?: number;
+    from?: Date; // Expense date range, inclusive
+    to?: Date;
+    sortBy?: ExpenseSortField; // relevance needs q
+    order?: 'asc' | 'desc';
+}
+
+export interface ExpenseListQuery {
+    filter: Record<string, any>;
+    sort: Record<string, 1 | -1 | { $meta: 'textScore' }>;
+}
+
+// Match `text` literally inside a regular expression
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Build the filter and sort for a user's expense list. Ties are broken
+ * by _id so pages never overlap, and every sort but relevance can be
+ * paged with a cursor.
+ */
+export function buildExpenseListQuery(
+    userId: Types.ObjectId,
+    filters: ExpenseListFilters = {}
+): ExpenseListQuery {
+    const conditions: Record<string, any>[] = [
+        {
+            deletedAt: null,
+            $or: [
+                { paidBy: userId },
+                { 'payers.user': userId },
+                { 'splits.user': userId },
+                { createdBy: userId },
+            ],
+        },
+    ];
+
+    if (filters.groupId) {
+        conditions.push({ group: new Types.ObjectId(filters.groupId) });
+    }
+    if (filters.category) {
+        // Category names are matched ignoring case, as when adding expenses
+        conditions.push({ category: { $regex: `^${escapeRegExp(filters.category.trim())}$`, $options: 'i' } });
+    }
+    if (filters.splitType) {
+        conditions.push({ splitType: filters.splitType });
+    }
+    if (filters.payer) {
+        const payer = new Types.ObjectId(filters.payer);
+        conditions.push({ $or: [{ paidBy: payer }, { 'payers.user': payer }] });
+    }
+    if (filters.participant) {
+        conditions.push({ 'splits.user': new Types.ObjectId(filters.participant) });
+    }
+
+    if (filters.minAmount !== undefined || filters.maxAmount !== undefined) {
+        const amount: Record<string, number> = {};
+        if (filters.minAmount !== undefined) amount.$gte = filters.minAmount;
+        if (filters.maxAmount !== undefined) amount.$lte = filters.maxAmount;
+        conditions.push({ amount });
+    }
+
+    if (filters.from || filters.to) {
+        const expenseDate: Record<string, Date> = {};
+        if (filters.from) expenseDate.$gte = filters.from;
+        if (filters.to) expenseDate.$lte = filters.to;
+        conditions.push({ expenseDate });
+    }
+
+    // $text has to sit at the top level of the filter
+    const filter: Record<string, any> = conditions.length === 1 ? conditions[0] : { $and: conditions };
+    if (filters.q) {
+        filter.$text = { $search: filters.q };
+    }
+
+    const direction = filters.order === 'asc' ? 1 : -1;
+    const sortBy = filters.sortBy || 'expenseDate';
+
+    if (sortBy === 'relevance' && filters.q) {
+        return {
+            filter,
+            sort: { score: { $meta: 'textScore' }, expenseDate: -1, _id: -1 },
+        };
+    }
+
+    const field = sortBy === 'relevance' ? 'expenseDate' : sortBy;
+    return {
+        filter,
+        sort: { [field]: direction, _id: direction },
+    };
+}
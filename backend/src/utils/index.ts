@@ -1,6 +1,24 @@
 export { calculateSplits, validatePayerIncluded, getSplitSummary } from './splitCalculator';
+export type { SplitInput, ItemizedInput, CalculatedSplit } from './splitCalculator';
 export {
     calculateNetBalances,
     simplifySettlements,
+    simplifySettlementsOptimal,
     getSimplifiedSettlements,
+    getPairwiseSettlements,
+    SimplifyStrategy,
 } from './balanceSimplifier';
+export type { BalanceRecord, NetBalance, OptimizedSettlement } from './balanceSimplifier';
+export { getLocalExchangeRate } from './currency';
+export { parseRatesCsv } from './rateCsv';
+export { checkTransition, SettlementActor } from './settlementStateMachine';
+export type { TransitionCheck } from './settlementStateMachine';
+export type { ParsedRate, RateCsvResult } from './rateCsv';
+export { parseCronRule, isValidCronRule, getNextOccurrence } from './recurrence';
+export type { RecurrenceSchedule, CronRule } from './recurrence';
+export { buildExpenseListQuery, EXPENSE_SORT_FIELDS } from './expenseQuery';
+export type { ExpenseListFilters, ExpenseSortField, ExpenseListQuery } from './expenseQuery';
+export { getCursorKey, encodeCursor, decodeCursor, applyCursor } from './pagination';
+export type { CursorSort, CursorPosition } from './pagination';
+export { toExpenseSnapshot, diffExpenseSnapshots, TRACKED_EXPENSE_FIELDS } from './expenseDiff';
+export type { ExpenseSnapshot } from './expenseDiff';
@@ -0,0 +1,141 @@
+/**
+ * Cursor Pagination
+ *
+ * Lists sorted on one field plus _id (e.g. newest first) can be paged by
+ * remembering where the last page ended instead of counting rows to skip.
+ * Rows added while someone pages don't shift later pages, and no count
+ * query is needed.
+ *
+ * A cursor is an opaque base64url string holding the sort field and
+ * direction, plus the sort value and _id of the last row it follows.
+ * A cursor only works with the sort it was made for.
+ */
+
+import { Types } from 'mongoose';
+
+export type CursorSort = Record<string, 1 | -1 | { $meta: 'textScore' }>;
+
+interface CursorPayload {
+    f: string; // Sort field
+    d: 1 | -1; // Sort direction
+    v: string | number | null; // Sort value of the last row (dates as ISO strings)
+    t: 'date' | 'number' | 'string' | 'null';
+    id: string; // _id of the last row
+}
+
+export interface CursorPosition {
+    field: string;
+    direction: 1 | -1;
+    value: Date | number | string | null;
+    id: Types.ObjectId;
+}
+
+/**
+ * The field and direction a sort pages on, or null when it can't be used
+ * with cursors (it has to be one field plus _id in the same direction)
+ */
+export function getCursorKey(sort: CursorSort): { field: string; direction: 1 | -1 } | null {
+    const keys = Object.keys(sort);
+    if (keys.length !== 2 || keys[1] !== '_id') {
+        return null;
+    }
+
+    const [field] = keys;
+    const direction = sort[field];
+    if (typeof direction !== 'number' || sort._id !== direction) {
+        return null;
+    }
+    return { field, direction };
+}
+
+/**
+ * Cursor pointing just after `row` in a list sorted by `sort`
+ */
+export function encodeCursor(sort: CursorSort, row: Record<string, any>): string | null {
+    const key = getCursorKey(sort);
+    if (!key) {
+        return null;
+    }
+
+    const raw = row[key.field];
+    const payload: CursorPayload = {
+        f: key.field,
+        d: key.direction,
+        id: row._id.toString(),
+        ...(raw instanceof Date
+            ? { v: raw.toISOString(), t: 'date' as const }
+            : typeof raw === 'number'
+                ? { v: raw, t: 'number' as const }
+                : raw === undefined || raw === null
+                    ? { v: null, t: 'null' as const }
+                    : { v: String(raw), t: 'string' as const }),
+    };
+
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Read a cursor made for `sort`. Returns null if it is malformed or was
+ * made for a different sort.
+ */
+export function decodeCursor(cursor: string, sort: CursorSort): CursorPosition | null {
+    const key = getCursorKey(sort);
+    if (!key) {
+        return null;
+    }
+
+    let payload: CursorPayload;
+    try {
+        payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+        return null;
+    }
+
+    if (
+        !payload || payload.f !== key.field || payload.d !== key.direction ||
+        typeof payload.id !== 'string' || !Types.ObjectId.isValid(payload.id)
+    ) {
+        return null;
+    }
+
+    let value: CursorPosition['value'];
+    if (payload.t === 'date' && typeof payload.v === 'string') {
+        value = new Date(payload.v);
+        if (isNaN(value.getTime())) return null;
+    } else if (payload.t === 'number' && typeof payload.v === 'number') {
+        value = payload.v;
+    } else if (payload.t === 'string' && typeof payload.v === 'string') {
+        value = payload.v;
+    } else if (payload.t === 'null' && payload.v === null) {
+        value = null;
+    } else {
+        return null;
+    }
+
+    return {
+        field: key.field,
+        direction: key.direction,
+        value,
+        id: new Types.ObjectId(payload.id),
+    };
+}
+
+/**
+ * Narrow `filter` to the rows that come after the cursor position
+ */
+export function applyCursor(filter: Record<string, any>, position: CursorPosition): Record<string, any> {
+    const op = position.direction === -1 ? '$lt' : '$gt';
+    const after = {
+        $or: [
+            { [position.field]: { [op]: position.value } },
+            { [position.field]: position.value, _id: { [op]: position.id } },
+        ],
+    };
+
+    // $text has to stay at the top level of the filter
+    const { $text, ...rest } = filter;
+    return {
+        $and: [rest, after],
+        ...($text && { $text }),
+    };
+}
@@ -0,0 +1,85 @@
+/**
+ * Exchange Rate CSV Parser
+ *
+ * Parses bulk rate uploads in the form:
+ *   date,from,to,rate
+ *   2024-03-01,USD,INR,83.12
+ *
+ * Columns may appear in any order as long as the header names them.
+ * All rows are validated up front so an upload is applied all or nothing.
+ */
+
+import { SUPPORTED_CURRENCIES } from '../config/currencies';
+
+export interface ParsedRate {
+    effectiveDate: Date;
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+}
+
+export interface RateCsvResult {
+    rates: ParsedRate[];
+    errors: string[];
+}
+
+const REQUIRED_COLUMNS = ['date', 'from', 'to', 'rate'];
+
+/**
+ * Parse a CSV string into rate rows, collecting an error per bad line
+ */
+export function parseRatesCsv(csv: string): RateCsvResult {
+    const lines = csv
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0 && !line.startsWith('#'));
+
+    if (lines.length === 0) {
+        return { rates: [], errors: ['CSV is empty'] };
+    }
+
+    const header = lines[0].split(',').map((col) => col.trim().toLowerCase());
+    const missing = REQUIRED_COLUMNS.filter((col) => !header.includes(col));
+    if (missing.length > 0) {
+        return { rates: [], errors: [`Missing column(s): ${missing.join(', ')}`] };
+    }
+
+    const index = Object.fromEntries(REQUIRED_COLUMNS.map((col) => [col, header.indexOf(col)]));
+    const rates: ParsedRate[] = [];
+    const errors: string[] = [];
+
+    lines.slice(1).forEach((line, i) => {
+        const lineNo = i + 2;
+        const cells = line.split(',').map((cell) => cell.trim());
+
+        const fromCurrency = (cells[index.from] || '').toUpperCase();
+        const toCurrency = (cells[index.to] || '').toUpperCase();
+        const rate = Number(cells[index.rate]);
+        const effectiveDate = new Date(cells[index.date] || '');
+
+        if (isNaN(effectiveDate.getTime())) {
+            errors.push(`Line ${lineNo}: invalid date "${cells[index.date] ?? ''}"`);
+            return;
+        }
+        if (!SUPPORTED_CURRENCIES.includes(fromCurrency)) {
+            errors.push(`Line ${lineNo}: unsupported currency "${fromCurrency}"`);
+            return;
+        }
+        if (!SUPPORTED_CURRENCIES.includes(toCurrency)) {
+            errors.push(`Line ${lineNo}: unsupported currency "${toCurrency}"`);
+            return;
+        }
+        if (fromCurrency === toCurrency) {
+            errors.push(`Line ${lineNo}: from and to currency must be different`);
+            return;
+        }
+        if (!Number.isFinite(rate) || rate <= 0) {
+            errors.push(`Line ${lineNo}: rate must be a positive number`);
+            return;
+        }
+
+        rates.push({ effectiveDate, fromCurrency, toCurrency, rate });
+    });
+
+    return { rates, errors };
+}
@@ -0,0 +1,205 @@
+/**
+ * Recurrence Rules
+ *
+ * Works out when a recurring expense is next due. Schedules are either a
+ * fixed frequency counted from the start date (every `interval` days,
+ * weeks or months) or a custom cron-like rule with five fields:
+ *
+ *   minute hour day-of-month month day-of-week
+ *
+ * Each field accepts `*`, numbers, lists (1,15), ranges (1-5) and steps
+ * (1-10/3; a step after `*` covers the whole range). Day-of-week is 0-6
+ * with 0 = Sunday. As in cron, when both day fields are restricted a day
+ * matching either one is due. All times are UTC.
+ */
+
+import { RecurrenceFrequency } from '../types';
+
+export interface RecurrenceSchedule {
+    frequency: RecurrenceFrequency;
+    interval?: number; // Every n days/weeks/months (defaults to 1)
+    cron?: string; // Required for CUSTOM
+    startDate: Date;
+}
+
+export interface CronRule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    daysOfWeek: Set<number>;
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Give up looking for a matching cron day after this many years
+const CRON_SEARCH_YEARS = 5;
+
+const CRON_FIELDS: { name: string; min: number; max: number }[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12 },
+    { name: 'day of week', min: 0, max: 6 },
+];
+
+/**
+ * Parse one cron field into the set of values it allows
+ */
+const parseCronField = (field: string, min: number, max: number, name: string): Set<number> => {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+        if (!match) {
+            throw new Error(`Invalid ${name} field "${field}"`);
+        }
+
+        const start = match[1] === '*' ? min : Number(match[2]);
+        const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : start;
+        const step = match[4] !== undefined ? Number(match[4]) : 1;
+        // A single value with a step ("5/15") runs to the end of the range
+        const last = match[4] !== undefined && match[3] === undefined && match[1] !== '*' ? max : end;
+
+        if (start < min || last > max || start > last || step < 1) {
+            throw new Error(`Invalid ${name} field "${field}" (allowed ${min}-${max})`);
+        }
+
+        for (let value = start; value <= last; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+};
+
+/**
+ * Parse a five-field cron rule. Throws with a readable message if invalid.
+ */
+export const parseCronRule = (rule: string): CronRule => {
+    const fields = rule.trim().split(/\s+/);
+    if (fields.length !== CRON_FIELDS.length) {
+        throw new Error('Cron rule must have 5 fields: minute hour day-of-month month day-of-week');
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+        parseCronField(field, CRON_FIELDS[i].min, CRON_FIELDS[i].max, CRON_FIELDS[i].name)
+    );
+
+    return {
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*',
+    };
+};
+
+/**
+ * Whether a cron rule is valid
+ */
+export const isValidCronRule = (rule: string): boolean => {
+    try {
+        parseCronRule(rule);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const matchesDay = (rule: CronRule, date: Date): boolean => {
+    if (!rule.months.has(date.getUTCMonth() + 1)) return false;
+
+    const dayOfMonth = rule.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = rule.daysOfWeek.has(date.getUTCDay());
+
+    if (rule.anyDayOfMonth && rule.anyDayOfWeek) return true;
+    if (rule.anyDayOfMonth) return dayOfWeek;
+    if (rule.anyDayOfWeek) return dayOfMonth;
+    return dayOfMonth || dayOfWeek;
+};
+
+/**
+ * First time strictly after `after` matching the cron rule
+ */
+const nextCronOccurrence = (rule: CronRule, after: Date): Date | null => {
+    const minutes = [...rule.minutes].sort((a, b) => a - b);
+    const hours = [...rule.hours].sort((a, b) => a - b);
+
+    let day = Date.UTC(after.getUTCFullYear(), after.getUTCMonth(), after.getUTCDate());
+    const lastDay = day + CRON_SEARCH_YEARS * 366 * DAY_MS;
+
+    for (; day <= lastDay; day += DAY_MS) {
+        if (!matchesDay(rule, new Date(day))) continue;
+
+        for (const hour of hours) {
+            for (const minute of minutes) {
+                const time = day + (hour * 60 + minute) * 60 * 1000;
+                if (time > after.getTime()) {
+                    return new Date(time);
+                }
+            }
+        }
+    }
+
+    return null;
+};
+
+/**
+ * `start` plus `months` calendar months, clamped to the end of shorter
+ * months (Jan 31 + 1 month = Feb 28/29) without drifting afterwards
+ */
+const addMonths = (start: Date, months: number): Date => {
+    const year = start.getUTCFullYear();
+    const month = start.getUTCMonth() + months;
+    const lastDayOfMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+    return new Date(Date.UTC(
+        year,
+        month,
+        Math.min(start.getUTCDate(), lastDayOfMonth),
+        start.getUTCHours(),
+        start.getUTCMinutes(),
+        start.getUTCSeconds(),
+        start.getUTCMilliseconds()
+    ));
+};
+
+/**
+ * Next due date strictly after `after` (the start date itself counts as
+ * the first occurrence). Returns null if a cron rule never matches.
+ */
+export const getNextOccurrence = (schedule: RecurrenceSchedule, after: Date): Date | null => {
+    const { frequency, startDate } = schedule;
+    const interval = schedule.interval || 1;
+
+    if (frequency === RecurrenceFrequency.CUSTOM) {
+        const rule = parseCronRule(schedule.cron || '');
+        const from = after < startDate ? new Date(startDate.getTime() - 1) : after;
+        return nextCronOccurrence(rule, from);
+    }
+
+    if (after < startDate) {
+        return new Date(startDate);
+    }
+
+    if (frequency === RecurrenceFrequency.MONTHLY) {
+        const elapsed = (after.getUTCFullYear() - startDate.getUTCFullYear()) * 12 +
+            after.getUTCMonth() - startDate.getUTCMonth();
+        let count = Math.max(0, Math.floor(elapsed / interval));
+        let next = addMonths(startDate, count * interval);
+        while (next <= after) {
+            count++;
+            next = addMonths(startDate, count * interval);
+        }
+        return next;
+    }
+
+    const stepMs = (frequency === RecurrenceFrequency.WEEKLY ? 7 : 1) * interval * DAY_MS;
+    const count = Math.floor((after.getTime() - startDate.getTime()) / stepMs) + 1;
+    return new Date(startDate.getTime() + count * stepMs);
+};
@@ -0,0 +1,60 @@
+/**
+ * Settlement State Machine
+ *
+ * Which status changes are allowed, and who may make them:
+ *   PENDING   → CONFIRMED (receiver), REJECTED (receiver),
+ *               CANCELLED (payer), DISPUTED (either party)
+ *   CONFIRMED → DISPUTED (either party)
+ *   DISPUTED  → CONFIRMED (receiver), CANCELLED (payer)
+ *   REJECTED and CANCELLED are final.
+ */
+
+import { SettlementStatus } from '../types';
+
+export enum SettlementActor {
+    PAYER = 'PAYER',
+    RECEIVER = 'RECEIVER'
+}
+
+const { PAYER, RECEIVER } = SettlementActor;
+
+const TRANSITIONS: Record<SettlementStatus, Partial<Record<SettlementStatus, SettlementActor[]>>> = {
+    [SettlementStatus.PENDING]: {
+        [SettlementStatus.CONFIRMED]: [RECEIVER],
+        [SettlementStatus.REJECTED]: [RECEIVER],
+        [SettlementStatus.CANCELLED]: [PAYER],
+        [SettlementStatus.DISPUTED]: [PAYER, RECEIVER],
+    },
+    [SettlementStatus.CONFIRMED]: {
+        [SettlementStatus.DISPUTED]: [PAYER, RECEIVER],
+    },
+    [SettlementStatus.DISPUTED]: {
+        [SettlementStatus.CONFIRMED]: [RECEIVER],
+        [SettlementStatus.CANCELLED]: [PAYER],
+    },
+    [SettlementStatus.REJECTED]: {},
+    [SettlementStatus.CANCELLED]: {},
+};
+
+export type TransitionCheck =
+    | { allowed: true }
+    | { allowed: false; reason: 'INVALID_TRANSITION' | 'FORBIDDEN' };
+
+/**
+ * Check whether `actor` may move a settlement from `from` to `to`
+ */
+export const checkTransition = (
+    from: SettlementStatus,
+    to: SettlementStatus,
+    actor: SettlementActor | null
+): TransitionCheck => {
+    const actors = TRANSITIONS[from][to];
+
+    if (!actors) {
+        return { allowed: false, reason: 'INVALID_TRANSITION' };
+    }
+    if (!actor || !actors.includes(actor)) {
+        return { allowed: false, reason: 'FORBIDDEN' };
+    }
+    return { allowed: true };
+};
@@ -2,7 +2,7 @@
  * Split Calculator Utility
  * 
  * This is the core business logic for calculating expense splits.
- * It handles EQUAL, EXACT, and PERCENTAGE split types.
+ * It handles EQUAL, EXACT, PERCENTAGE, SHARES, ADJUSTMENT, and ITEMIZED split types.
  */
 
 import { SplitType, ISplit } from '../types';
@@ -10,13 +10,28 @@ import { Types } from 'mongoose';
 
 export interface SplitInput {
     userId: string;
-    amount?: number; // For EXACT: actual amount, For PERCENTAGE: percentage
+    amount?: number; // For EXACT: actual amount, For PERCENTAGE: percentage, For SHARES: weight
+    adjustment?: number; // For ADJUSTMENT: signed delta on top of the equal share
+}
+
+export interface ItemInput {
+    name: string;
+    price: number;
+    sharedBy: string[]; // User IDs sharing this item equally
+}
+
+export interface ItemizedInput {
+    items: ItemInput[];
+    tax?: number;
+    serviceCharge?: number;
+    tip?: number;
 }
 
 export interface CalculatedSplit {
     user: Types.ObjectId;
     amount: number;
     share: number;
+    adjustment?: number;
 }
 
 /**
@@ -25,7 +40,8 @@ export interface CalculatedSplit {
 export function calculateSplits(
     totalAmount: number,
     splitType: SplitType,
-    splits: SplitInput[]
+    splits: SplitInput[],
+    itemized?: ItemizedInput
 ): CalculatedSplit[] {
     switch (splitType) {
         case SplitType.EQUAL:
@@ -34,6 +50,12 @@ export function calculateSplits(
             return calculateExactSplit(totalAmount, splits);
         case SplitType.PERCENTAGE:
             return calculatePercentageSplit(totalAmount, splits);
+        case SplitType.SHARES:
+            return calculateSharesSplit(totalAmount, splits);
+        case SplitType.ADJUSTMENT:
+            return calculateAdjustmentSplit(totalAmount, splits);
+        case SplitType.ITEMIZED:
+            return calculateItemizedSplit(totalAmount, splits, itemized);
         default:
             throw new Error(`Invalid split type: ${splitType}`);
     }
@@ -155,6 +177,170 @@ function calculatePercentageSplit(
     return calculatedSplits;
 }
 
+/**
+ * Shares Split: Each participant pays in proportion to their weight
+ * e.g. 2 drinks vs 3 drinks. Leftover units are handed out one at a time,
+ * largest fractional part first, so nobody gets more than 1 extra unit.
+ */
+function calculateSharesSplit(
+    totalAmount: number,
+    splits: SplitInput[]
+): CalculatedSplit[] {
+    if (splits.length === 0) {
+        throw new Error('At least one participant is required');
+    }
+
+    // Check all splits have weights
+    for (const split of splits) {
+        if (split.amount === undefined || split.amount < 0) {
+            throw new Error('Each split must have a non-negative number of shares');
+        }
+    }
+
+    const totalShares = splits.reduce((acc, split) => acc + (split.amount || 0), 0);
+    if (totalShares <= 0) {
+        throw new Error('Total shares must be greater than 0');
+    }
+
+    const shares = distributeByWeight(
+        totalAmount,
+        splits.map((split) => split.amount!)
+    );
+
+    return splits.map((split, index) => ({
+        user: new Types.ObjectId(split.userId),
+        amount: split.amount!, // Store weight as amount
+        share: shares[index],
+    }));
+}
+
+/**
+ * Adjustment Split: Equal split plus per-person signed deltas
+ * e.g. split equally, but Bob pays 200 more for the wine.
+ * The adjustments come off the top and the rest is split equally.
+ */
+function calculateAdjustmentSplit(
+    totalAmount: number,
+    splits: SplitInput[]
+): CalculatedSplit[] {
+    if (splits.length === 0) {
+        throw new Error('At least one participant is required');
+    }
+
+    const totalAdjustment = splits.reduce((acc, split) => acc + (split.adjustment || 0), 0);
+
+    // Spread what is left after adjustments equally
+    const equalSplits = calculateEqualSplit(totalAmount - totalAdjustment, splits);
+
+    return equalSplits.map((equalSplit, index) => {
+        const adjustment = splits[index].adjustment || 0;
+        const share = equalSplit.share + adjustment;
+
+        if (share < 0) {
+            throw new Error(
+                `Adjustment of ${adjustment} makes a share negative (${share})`
+            );
+        }
+
+        return {
+            user: equalSplit.user,
+            amount: share, // For ADJUSTMENT, amount equals share
+            share,
+            adjustment,
+        };
+    });
+}
+
+/**
+ * Itemized Split: Each receipt line is shared equally by the people who had it.
+ * Tax, service charge and tip are spread in proportion to each person's
+ * item subtotal. Items plus charges must add up to the total amount.
+ */
+function calculateItemizedSplit(
+    totalAmount: number,
+    splits: SplitInput[],
+    itemized?: ItemizedInput
+): CalculatedSplit[] {
+    if (splits.length === 0) {
+        throw new Error('At least one participant is required');
+    }
+    if (!itemized || itemized.items.length === 0) {
+        throw new Error('At least one item is required for ITEMIZED split');
+    }
+
+    const participantIndex = new Map<string, number>();
+    splits.forEach((split, index) => participantIndex.set(split.userId, index));
+
+    // Work out each participant's item subtotal
+    const subtotals = splits.map(() => 0);
+    for (const item of itemized.items) {
+        if (item.price < 0) {
+            throw new Error(`Item "${item.name}" cannot have a negative price`);
+        }
+        if (item.sharedBy.length === 0) {
+            throw new Error(`Item "${item.name}" must be shared by at least one person`);
+        }
+
+        const portions = distributeByWeight(item.price, item.sharedBy.map(() => 1));
+        item.sharedBy.forEach((userId, index) => {
+            const participant = participantIndex.get(userId);
+            if (participant === undefined) {
+                throw new Error(`Item "${item.name}" is shared by ${userId}, who is not in the splits`);
+            }
+            subtotals[participant] += portions[index];
+        });
+    }
+
+    // Validate items plus charges equal total
+    const itemsTotal = subtotals.reduce((acc, subtotal) => acc + subtotal, 0);
+    const chargesTotal = (itemized.tax || 0) + (itemized.serviceCharge || 0) + (itemized.tip || 0);
+    if (Math.abs(itemsTotal + chargesTotal - totalAmount) > 1) {
+        throw new Error(
+            `Items (${itemsTotal}) plus charges (${chargesTotal}) must equal total amount (${totalAmount})`
+        );
+    }
+    if (itemsTotal <= 0) {
+        throw new Error('Items must add up to more than 0');
+    }
+
+    // Spread whatever is left after items (the charges) by subtotal
+    const extras = distributeByWeight(totalAmount - itemsTotal, subtotals);
+
+    return splits.map((split, index) => ({
+        user: new Types.ObjectId(split.userId),
+        amount: subtotals[index], // Store item subtotal as amount
+        share: subtotals[index] + extras[index],
+    }));
+}
+
+/**
+ * Distribute an amount proportionally to the given weights.
+ * Floors every portion, then gives 1 extra unit to the portions with the
+ * largest fractional parts (earlier entries win ties) until the total matches.
+ */
+function distributeByWeight(totalAmount: number, weights: number[]): number[] {
+    const totalWeight = weights.reduce((acc, w) => acc + w, 0);
+    if (totalWeight <= 0) {
+        return weights.map(() => 0);
+    }
+
+    const exact = weights.map((w) => (totalAmount * w) / totalWeight);
+    const portions = exact.map((value) => Math.floor(value));
+    let remainder = totalAmount - portions.reduce((acc, p) => acc + p, 0);
+
+    const order = exact
+        .map((value, index) => ({ index, fraction: value - Math.floor(value) }))
+        .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+
+    for (const { index } of order) {
+        if (remainder <= 0) break;
+        portions[index] += 1;
+        remainder--;
+    }
+
+    return portions;
+}
+
 /**
  * Validate that the payer is included in the splits
  * (Not required, but often useful)
@@ -180,6 +366,12 @@ export function getSplitSummary(
             return `Split by exact amounts`;
         case SplitType.PERCENTAGE:
             return `Split by percentage`;
+        case SplitType.SHARES:
+            return `Split by shares`;
+        case SplitType.ADJUSTMENT:
+            return `Split equally with adjustments`;
+        case SplitType.ITEMIZED:
+            return `Split by receipt items`;
         default:
             return 'Custom split';
     }
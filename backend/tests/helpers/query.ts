@@ -0,0 +1,24 @@
+/**
+ * Query Stubs
+ *
+ * Mocked models return these in place of Mongoose queries, so code that
+ * chains .populate()/.select() and then awaits the result runs without a
+ * database.
+ */
+
+export interface QueryStub<T> extends PromiseLike<T> {
+    populate: jest.Mock<QueryStub<T>, []>;
+    select: jest.Mock<QueryStub<T>, []>;
+}
+
+/**
+ * A query stub supporting .populate()/.select() chains that resolves to `result`
+ */
+export const query = <T>(result: T): QueryStub<T> => {
+    const q: QueryStub<T> = {
+        populate: jest.fn(() => q),
+        select: jest.fn(() => q),
+        then: (onFulfilled, onRejected) => Promise.resolve(result).then(onFulfilled, onRejected),
+    };
+    return q;
+};
@@ -0,0 +1,23 @@
+/**
+ * Response Stubs
+ *
+ * Stand-ins for the Express response passed to controllers, recording
+ * the status and JSON body they send.
+ */
+
+import { Response } from 'express';
+
+export type ResponseStub = Response & {
+    status: jest.Mock<ResponseStub, [number]>;
+    json: jest.Mock<ResponseStub, [unknown]>;
+};
+
+/**
+ * A response stub whose .status() and .json() calls can be chained and inspected
+ */
+export const response = (): ResponseStub => {
+    const res = {} as ResponseStub;
+    res.status = jest.fn((_code: number) => res);
+    res.json = jest.fn((_body: unknown) => res);
+    return res;
+};
@@ -0,0 +1,118 @@
+/**
+ * Unit Tests for Auto-confirming Stale Settlements
+ *
+ * Models and transactions are mocked so no database is needed.
+ */
+
+import { Types } from 'mongoose';
+import { autoConfirmSettlements } from '../../src/services/settlement.service';
+import { Balance, Group, Settlement, User } from '../../src/models';
+import { SettlementStatus } from '../../src/types';
+import { query } from '../helpers/query';
+
+jest.mock('../../src/models', () => ({
+    Balance: { updateOne: jest.fn() },
+    Group: { find: jest.fn() },
+    Settlement: { find: jest.fn() },
+    User: { find: jest.fn() },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+describe('autoConfirmSettlements', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const now = new Date('2024-06-15T12:00:00Z');
+    const group = { _id: new Types.ObjectId(), autoConfirmDays: 7 };
+    const alice = new Types.ObjectId();
+    const bob = new Types.ObjectId();
+
+    const makeSettlement = (toUser: Types.ObjectId) => ({
+        _id: new Types.ObjectId(),
+        fromUser: toUser.equals(alice) ? bob : alice,
+        toUser,
+        amount: 500,
+        exchangeRate: 1,
+        group: group._id,
+        status: SettlementStatus.PENDING,
+        statusHistory: [] as any[],
+        save: jest.fn().mockResolvedValue(undefined),
+    });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (Group.find as jest.Mock).mockReturnValue(query([group]));
+        (User.find as jest.Mock).mockReturnValue(query([]));
+    });
+
+    it('should only look at pending, unlinked settlements older than the window', async () => {
+        (Settlement.find as jest.Mock).mockResolvedValue([]);
+
+        await autoConfirmSettlements(now);
+
+        expect(Group.find).toHaveBeenCalledWith({ autoConfirmDays: { $gte: 1 } });
+        expect(Settlement.find).toHaveBeenCalledWith({
+            group: group._id,
+            status: SettlementStatus.PENDING,
+            linkId: { $exists: false },
+            createdAt: { $lte: new Date(now.getTime() - 7 * DAY) },
+        });
+    });
+
+    it('should confirm stale settlements and move them into the ledger', async () => {
+        const settlement = makeSettlement(bob);
+        (Settlement.find as jest.Mock).mockResolvedValue([settlement]);
+
+        const confirmed = await autoConfirmSettlements(now);
+
+        expect(confirmed).toBe(1);
+        expect(settlement.status).toBe(SettlementStatus.CONFIRMED);
+        expect((settlement as any).confirmedAt).toEqual(now);
+        expect(settlement.statusHistory).toEqual([
+            expect.objectContaining({
+                from: SettlementStatus.PENDING,
+                to: SettlementStatus.CONFIRMED,
+                changedBy: undefined,
+                reason: 'Auto-confirmed after 7 days',
+            }),
+        ]);
+        expect(Balance.updateOne).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip receivers who opted out', async () => {
+        const toAlice = makeSettlement(alice);
+        const toBob = makeSettlement(bob);
+        (Settlement.find as jest.Mock).mockResolvedValue([toAlice, toBob]);
+        (User.find as jest.Mock).mockReturnValue(query([{ _id: alice }]));
+
+        const confirmed = await autoConfirmSettlements(now);
+
+        expect(confirmed).toBe(1);
+        expect(toAlice.status).toBe(SettlementStatus.PENDING);
+        expect(toBob.status).toBe(SettlementStatus.CONFIRMED);
+    });
+
+    it('should carry on when one settlement fails to save', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const failing = makeSettlement(bob);
+        failing.save.mockRejectedValue(new Error('write conflict'));
+        const ok = makeSettlement(bob);
+        (Settlement.find as jest.Mock).mockResolvedValue([failing, ok]);
+
+        const confirmed = await autoConfirmSettlements(now);
+
+        expect(confirmed).toBe(1);
+        expect(ok.status).toBe(SettlementStatus.CONFIRMED);
+        error.mockRestore();
+    });
+
+    it('should do nothing when no group has a window', async () => {
+        (Group.find as jest.Mock).mockReturnValue(query([]));
+
+        expect(await autoConfirmSettlements(now)).toBe(0);
+        expect(Settlement.find).not.toHaveBeenCalled();
+        expect(User.find).not.toHaveBeenCalled();
+    });
+});
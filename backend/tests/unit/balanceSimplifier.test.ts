@@ -8,8 +8,14 @@
 import {
     calculateNetBalances,
     simplifySettlements,
+    simplifySettlementsOptimal,
     getSimplifiedSettlements,
-} from '../src/utils/balanceSimplifier';
+    getPairwiseSettlements,
+    SimplifyStrategy,
+    EXACT_SOLVER_LIMIT,
+    NetBalance,
+    OptimizedSettlement,
+} from '../../src/utils/balanceSimplifier';
 import { Types } from 'mongoose';
 
 describe('Balance Simplifier', () => {
@@ -76,6 +82,131 @@ describe('Balance Simplifier', () => {
         });
     });
 
+    describe('simplifySettlementsOptimal', () => {
+        const toNetBalances = (amounts: number[]): Map<string, NetBalance> =>
+            new Map(amounts.map((balance, i) => {
+                const userId = new Types.ObjectId();
+                return [userId.toString(), { userId, userName: `User ${i}`, balance }];
+            }));
+
+        // Apply the transfers and check everyone ends up at zero
+        const expectAllSettled = (
+            netBalances: Map<string, NetBalance>,
+            settlements: OptimizedSettlement[]
+        ) => {
+            const remaining = new Map(
+                [...netBalances].map(([id, b]) => [id, b.balance])
+            );
+            for (const s of settlements) {
+                remaining.set(s.from.userId.toString(), remaining.get(s.from.userId.toString())! + s.amount);
+                remaining.set(s.to.userId.toString(), remaining.get(s.to.userId.toString())! - s.amount);
+            }
+            for (const balance of remaining.values()) {
+                expect(Math.abs(balance)).toBeLessThan(1);
+            }
+        };
+
+        it('should beat greedy when a zero-sum subgroup exists', () => {
+            // {+3, -3} can settle on their own; {+7, -5, -2} needs two transfers
+            const netBalances = toNetBalances([700, 300, -500, -300, -200]);
+
+            const greedy = simplifySettlements(netBalances);
+            const optimal = simplifySettlementsOptimal(netBalances);
+
+            expect(greedy).toHaveLength(4);
+            expect(optimal).toHaveLength(3);
+            expectAllSettled(netBalances, greedy);
+            expectAllSettled(netBalances, optimal);
+        });
+
+        it('should never need more transfers than greedy', () => {
+            const cases = [
+                [100, -100],
+                [500, 250, -400, -350],
+                [40, 30, 20, 10, -25, -25, -50],
+                [600, -100, -200, -300, 400, -400],
+            ];
+
+            for (const amounts of cases) {
+                const netBalances = toNetBalances(amounts);
+                const optimal = simplifySettlementsOptimal(netBalances);
+
+                expect(optimal.length).toBeLessThanOrEqual(simplifySettlements(netBalances).length);
+                expectAllSettled(netBalances, optimal);
+            }
+        });
+
+        it('should handle already balanced state', () => {
+            expect(simplifySettlementsOptimal(toNetBalances([0, 0.001, -0.001]))).toHaveLength(0);
+        });
+
+        it('should tolerate rounding drift in the balances', () => {
+            const netBalances = toNetBalances([100.004, 49.997, -150.003]);
+            const optimal = simplifySettlementsOptimal(netBalances);
+
+            expect(optimal).toHaveLength(2);
+            expectAllSettled(netBalances, optimal);
+        });
+
+        it('should fall back to greedy above the size limit', () => {
+            const amounts = Array.from({ length: EXACT_SOLVER_LIMIT + 1 }, (_, i) =>
+                i % 2 === 0 ? 100 + i : -(100 + i - 1)
+            );
+            const netBalances = toNetBalances(amounts);
+
+            expect(simplifySettlementsOptimal(netBalances)).toEqual(simplifySettlements(netBalances));
+        });
+    });
+
+    describe('getPairwiseSettlements', () => {
+        const record = (from: Types.ObjectId, to: Types.ObjectId, name: [string, string], amount: number) => ({
+            fromUser: { _id: from, name: name[0] },
+            toUser: { _id: to, name: name[1] },
+            amount,
+        });
+
+        it('should only suggest payments along existing debts', () => {
+            // A owes B 100, B owes C 100: netting would suggest A pays C
+            const settlements = getPairwiseSettlements([
+                record(userA, userB, ['Alice', 'Bob'], 100),
+                record(userB, userC, ['Bob', 'Charlie'], 100),
+            ]);
+
+            expect(settlements).toHaveLength(2);
+            expect(settlements.map((s) => [s.from.userName, s.to.userName])).toEqual(
+                expect.arrayContaining([['Alice', 'Bob'], ['Bob', 'Charlie']])
+            );
+            expect(getSimplifiedSettlements([
+                record(userA, userB, ['Alice', 'Bob'], 100),
+                record(userB, userC, ['Bob', 'Charlie'], 100),
+            ])).toHaveLength(1);
+        });
+
+        it('should cancel mutual debts between the same two people', () => {
+            const settlements = getPairwiseSettlements([
+                record(userA, userB, ['Alice', 'Bob'], 100),
+                record(userB, userA, ['Bob', 'Alice'], 160),
+                record(userA, userB, ['Alice', 'Bob'], 20),
+            ]);
+
+            // Net: Bob owes Alice 40
+            expect(settlements).toEqual([
+                {
+                    from: { userId: userB, userName: 'Bob' },
+                    to: { userId: userA, userName: 'Alice' },
+                    amount: 40,
+                },
+            ]);
+        });
+
+        it('should drop pairs that cancel out', () => {
+            expect(getPairwiseSettlements([
+                record(userA, userB, ['Alice', 'Bob'], 75),
+                record(userB, userA, ['Bob', 'Alice'], 75),
+            ])).toHaveLength(0);
+        });
+    });
+
     describe('getSimplifiedSettlements', () => {
         it('should process raw balance records and simplify', () => {
             const balances = [
@@ -99,5 +230,25 @@ describe('Balance Simplifier', () => {
             expect(settlements[0].to.userName).toBe('Bob');
             expect(settlements[0].amount).toBe(40);
         });
+
+        it('should use the requested strategy', () => {
+            const userD = new Types.ObjectId();
+            const userE = new Types.ObjectId();
+            const record = (from: Types.ObjectId, to: Types.ObjectId, amount: number) => ({
+                fromUser: { _id: from, name: from.toString() },
+                toUser: { _id: to, name: to.toString() },
+                amount,
+            });
+            // Net: A +700, B +300, C -500, D -300, E -200
+            const balances = [
+                record(userC, userA, 500),
+                record(userD, userB, 300),
+                record(userE, userA, 200),
+            ];
+
+            expect(getSimplifiedSettlements(balances, SimplifyStrategy.GREEDY)).toHaveLength(4);
+            expect(getSimplifiedSettlements(balances, SimplifyStrategy.OPTIMAL)).toHaveLength(3);
+            expect(getSimplifiedSettlements(balances)).toHaveLength(3);
+        });
     });
 });
@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for Expense Categories
+ *
+ * Tests resolving category names against the built-in and group lists,
+ * and that renaming or deleting a custom category carries its expenses
+ * along. Models and transactions are mocked so no database is needed.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { getCategories, resolveCategory } from '../../src/services/category.service';
+import {
+    createGroupCategory,
+    updateGroupCategory,
+    deleteGroupCategory,
+} from '../../src/controllers/category.controller';
+import { Expense, ExpenseHistory, Group, RecurringExpense } from '../../src/models';
+import { DEFAULT_CATEGORIES } from '../../src/config/categories';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Expense: { find: jest.fn(), updateMany: jest.fn() },
+    Group: { findById: jest.fn() },
+    RecurringExpense: { updateMany: jest.fn() },
+    ExpenseHistory: {
+        aggregate: jest.fn(() => ({ session: jest.fn().mockResolvedValue([]) })),
+        insertMany: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+const alice = new Types.ObjectId();
+const bob = new Types.ObjectId();
+const carol = new Types.ObjectId();
+
+const makeGroup = () => ({
+    _id: new Types.ObjectId(),
+    members: [alice, bob],
+    createdBy: alice,
+    categories: [{ _id: new Types.ObjectId(), name: 'Ski Passes', icon: '🎿', createdBy: bob }],
+    save: jest.fn(),
+});
+
+// Expenses in the category being changed, as Expense.find(...).session() returns them
+const mockExpensesInCategory = (groupId: Types.ObjectId, category: string) => {
+    const expense = {
+        _id: new Types.ObjectId(),
+        group: groupId,
+        description: 'Day passes',
+        amount: 12000,
+        category,
+        toObject() {
+            return { _id: this._id, group: this.group, description: this.description, amount: this.amount, category };
+        },
+    };
+    (Expense.find as jest.Mock).mockReturnValue({ session: jest.fn().mockResolvedValue([expense]) });
+    return expense;
+};
+
+const call = async (
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<void>,
+    user: Types.ObjectId,
+    params: Record<string, string>,
+    body: any = {}
+) => {
+    const res = response();
+    const next = jest.fn();
+    await handler({ user: { _id: user }, params, body } as any, res, next);
+    return { res, next };
+};
+
+describe('resolveCategory', () => {
+    const group = makeGroup();
+
+    it('should default to Other when no category is given', () => {
+        expect(resolveCategory(undefined)).toBe('Other');
+        expect(resolveCategory('')).toBe('Other');
+    });
+
+    it('should match built-in categories ignoring case', () => {
+        expect(resolveCategory('food')).toBe('Food');
+        expect(resolveCategory('  TRANSPORT ')).toBe('Transport');
+    });
+
+    it('should accept a group\'s custom categories only in that group', () => {
+        expect(resolveCategory('ski passes', group as any)).toBe('Ski Passes');
+        expect(() => resolveCategory('Ski Passes')).toThrow('Unknown category "Ski Passes"');
+    });
+
+    it('should list built-in categories before custom ones', () => {
+        const categories = getCategories(group as any);
+
+        expect(categories.map((c) => c.name)).toEqual([...DEFAULT_CATEGORIES, 'Ski Passes']);
+        expect(categories.at(-1)).toMatchObject({ custom: true, icon: '🎿' });
+    });
+});
+
+describe('Group categories', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should reject a category that clashes with a built-in one', async () => {
+        const group = makeGroup();
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+
+        const { next } = await call(createGroupCategory, bob, { id: group._id.toString() }, { name: 'FOOD' });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+        expect(group.save).not.toHaveBeenCalled();
+    });
+
+    it('should not let members outside the group add categories', async () => {
+        const group = makeGroup();
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+
+        const { next } = await call(createGroupCategory, carol, { id: group._id.toString() }, { name: 'Gifts' });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+    });
+
+    it('should rename the category on existing expenses and templates', async () => {
+        const group = makeGroup();
+        const category = group.categories[0];
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+        const expense = mockExpensesInCategory(group._id, 'Ski Passes');
+
+        const { res, next } = await call(
+            updateGroupCategory,
+            bob,
+            { id: group._id.toString(), categoryId: category._id.toString() },
+            { name: 'Lift Passes' }
+        );
+
+        expect(next).not.toHaveBeenCalled();
+        expect(Expense.updateMany).toHaveBeenCalledWith(
+            { group: group._id, category: 'Ski Passes' },
+            { $set: { category: 'Lift Passes' } },
+            { session: {} }
+        );
+        expect(RecurringExpense.updateMany).toHaveBeenCalledWith(
+            { group: group._id, 'template.category': 'Ski Passes' },
+            { $set: { 'template.category': 'Lift Passes' } },
+            { session: {} }
+        );
+        expect(ExpenseHistory.insertMany).toHaveBeenCalledWith(
+            [expect.objectContaining({
+                expense: expense._id,
+                version: 1,
+                action: 'UPDATED',
+                changes: [{ field: 'category', from: 'Ski Passes', to: 'Lift Passes' }],
+                changedBy: bob,
+            })],
+            { session: {} }
+        );
+        expect(res.json).toHaveBeenCalledWith({
+            success: true,
+            data: expect.objectContaining({ name: 'Lift Passes', custom: true }),
+        });
+    });
+
+    it('should only let the member who added a category (or the group creator) change it', async () => {
+        const group = makeGroup();
+        group.categories[0].createdBy = alice;
+        group.createdBy = carol;
+        group.members.push(carol);
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+
+        const { next } = await call(
+            deleteGroupCategory,
+            bob,
+            { id: group._id.toString(), categoryId: group.categories[0]._id.toString() }
+        );
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+        expect(Expense.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should move expenses to Other when a category is deleted', async () => {
+        const group = makeGroup();
+        const category = group.categories[0];
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+        mockExpensesInCategory(group._id, 'Ski Passes');
+
+        await call(
+            deleteGroupCategory,
+            alice,
+            { id: group._id.toString(), categoryId: category._id.toString() }
+        );
+
+        expect(group.categories).toHaveLength(0);
+        expect(group.save).toHaveBeenCalledWith({ session: {} });
+        expect(Expense.updateMany).toHaveBeenCalledWith(
+            { group: group._id, category: 'Ski Passes' },
+            { $set: { category: 'Other' } },
+            { session: {} }
+        );
+    });
+});
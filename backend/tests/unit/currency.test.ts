@@ -0,0 +1,29 @@
+/**
+ * Unit Tests for Currency Utility
+ *
+ * Tests conversions using the local exchange rate table.
+ */
+
+import { getLocalExchangeRate } from '../../src/utils/currency';
+import { EXCHANGE_RATES } from '../../src/config/currencies';
+
+describe('Currency', () => {
+    describe('getLocalExchangeRate', () => {
+        it('should return 1 for the same currency', () => {
+            expect(getLocalExchangeRate('EUR', 'EUR')).toBe(1);
+        });
+
+        it('should convert into the default currency', () => {
+            expect(getLocalExchangeRate('USD', 'INR')).toBe(EXCHANGE_RATES.USD);
+        });
+
+        it('should convert between two foreign currencies', () => {
+            const rate = getLocalExchangeRate('EUR', 'USD');
+            expect(rate).toBeCloseTo(EXCHANGE_RATES.EUR / EXCHANGE_RATES.USD, 6);
+        });
+
+        it('should throw error for unsupported currencies', () => {
+            expect(() => getLocalExchangeRate('XYZ', 'INR')).toThrow('Unsupported currency: XYZ');
+        });
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Tests for Expense History
+ *
+ * Tests expense snapshots and diffs, and that history entries are
+ * numbered per expense and skipped for edits that changed nothing.
+ * Models are mocked so no database is needed.
+ */
+
+import { Types } from 'mongoose';
+import { toExpenseSnapshot, diffExpenseSnapshots } from '../../src/utils/expenseDiff';
+import { recordExpenseHistory } from '../../src/services/expenseHistory.service';
+import { ExpenseHistory } from '../../src/models';
+import { ExpenseHistoryAction, SplitType } from '../../src/types';
+
+jest.mock('../../src/models', () => ({
+    ExpenseHistory: { aggregate: jest.fn(), insertMany: jest.fn() },
+}));
+
+const alice = new Types.ObjectId();
+const bob = new Types.ObjectId();
+const groupId = new Types.ObjectId();
+
+const makeExpense = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    group: groupId,
+    description: 'Dinner',
+    amount: 3000,
+    currency: 'INR',
+    expenseDate: new Date('2024-03-01T19:00:00Z'),
+    category: 'Food',
+    paidBy: alice,
+    splitType: SplitType.EQUAL,
+    splits: [{ user: alice, amount: 1500 }, { user: bob, amount: 1500 }],
+    items: [],
+    createdBy: alice,
+    ...overrides,
+});
+
+const mockLatestVersions = (latest: { _id: Types.ObjectId; version: number }[]) => {
+    (ExpenseHistory.aggregate as jest.Mock).mockReturnValue({
+        session: jest.fn().mockResolvedValue(latest),
+    });
+};
+
+describe('toExpenseSnapshot', () => {
+    it('should keep tracked fields as plain JSON and drop empty ones', () => {
+        const snapshot = toExpenseSnapshot(makeExpense());
+
+        expect(snapshot).toEqual({
+            group: groupId.toString(),
+            description: 'Dinner',
+            amount: 3000,
+            currency: 'INR',
+            expenseDate: '2024-03-01T19:00:00.000Z',
+            category: 'Food',
+            paidBy: alice.toString(),
+            splitType: SplitType.EQUAL,
+            splits: [
+                { user: alice.toString(), amount: 1500 },
+                { user: bob.toString(), amount: 1500 },
+            ],
+        });
+    });
+});
+
+describe('diffExpenseSnapshots', () => {
+    it('should list only the fields that changed', () => {
+        const before = toExpenseSnapshot(makeExpense());
+        const after = toExpenseSnapshot(makeExpense({
+            amount: 4000,
+            notes: 'Plus dessert',
+            splits: [{ user: alice, amount: 2000 }, { user: bob, amount: 2000 }],
+        }));
+
+        expect(diffExpenseSnapshots(before, after)).toEqual([
+            { field: 'notes', from: undefined, to: 'Plus dessert' },
+            { field: 'amount', from: 3000, to: 4000 },
+            {
+                field: 'splits',
+                from: before.splits,
+                to: [
+                    { user: alice.toString(), amount: 2000 },
+                    { user: bob.toString(), amount: 2000 },
+                ],
+            },
+        ]);
+    });
+
+    it('should find no changes between identical snapshots', () => {
+        const expense = makeExpense();
+
+        expect(diffExpenseSnapshots(toExpenseSnapshot(expense), toExpenseSnapshot({ ...expense }))).toEqual([]);
+    });
+});
+
+describe('recordExpenseHistory', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should continue each expense\'s version numbering', async () => {
+        const dinner = makeExpense();
+        const taxi = makeExpense({ description: 'Taxi', category: 'Transport' });
+        mockLatestVersions([{ _id: dinner._id, version: 3 }]);
+
+        const written = await recordExpenseHistory([
+            { expense: { ...dinner, amount: 3500 }, action: ExpenseHistoryAction.UPDATED, before: toExpenseSnapshot(dinner), changedBy: bob },
+            { expense: taxi, action: ExpenseHistoryAction.CREATED, changedBy: alice },
+        ]);
+
+        expect(written).toBe(2);
+        const [entries] = (ExpenseHistory.insertMany as jest.Mock).mock.calls[0];
+        expect(entries[0]).toMatchObject({
+            expense: dinner._id,
+            group: groupId,
+            version: 4,
+            action: ExpenseHistoryAction.UPDATED,
+            changes: [{ field: 'amount', from: 3000, to: 3500 }],
+            changedBy: bob,
+        });
+        expect(entries[1]).toMatchObject({
+            expense: taxi._id,
+            version: 1,
+            action: ExpenseHistoryAction.CREATED,
+            changes: [],
+        });
+    });
+
+    it('should skip updates that changed no tracked field', async () => {
+        const dinner = makeExpense();
+
+        const written = await recordExpenseHistory([
+            { expense: { ...dinner, createdBy: bob }, action: ExpenseHistoryAction.UPDATED, before: toExpenseSnapshot(dinner) },
+        ]);
+
+        expect(written).toBe(0);
+        expect(ExpenseHistory.aggregate).not.toHaveBeenCalled();
+        expect(ExpenseHistory.insertMany).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for Expense List Queries
+ *
+ * Tests how GET /api/expenses filters and sort options turn into a
+ * MongoDB filter and sort.
+ */
+
+import { Types } from 'mongoose';
+import { buildExpenseListQuery } from '../../src/utils/expenseQuery';
+import { SplitType } from '../../src/types';
+
+const userId = new Types.ObjectId();
+const otherId = new Types.ObjectId();
+
+const visibleTo = (id: Types.ObjectId) => ({
+    deletedAt: null,
+    $or: [
+        { paidBy: id },
+        { 'payers.user': id },
+        { 'splits.user': id },
+        { createdBy: id },
+    ],
+});
+
+describe('buildExpenseListQuery', () => {
+    it('should only return the user\'s expenses outside the trash, newest expense date first, by default', () => {
+        const { filter, sort } = buildExpenseListQuery(userId);
+
+        expect(filter).toEqual(visibleTo(userId));
+        expect(sort).toEqual({ expenseDate: -1, _id: -1 });
+    });
+
+    it('should combine every filter with the visibility check', () => {
+        const groupId = new Types.ObjectId();
+        const from = new Date('2024-01-01');
+        const to = new Date('2024-01-31');
+
+        const { filter } = buildExpenseListQuery(userId, {
+            groupId: groupId.toString(),
+            category: 'Food',
+            splitType: SplitType.EQUAL,
+            payer: otherId.toString(),
+            participant: userId.toString(),
+            minAmount: 100,
+            maxAmount: 5000,
+            from,
+            to,
+        });
+
+        expect(filter).toEqual({
+            $and: [
+                visibleTo(userId),
+                { group: groupId },
+                { category: { $regex: '^Food$', $options: 'i' } },
+                { splitType: SplitType.EQUAL },
+                { $or: [{ paidBy: otherId }, { 'payers.user': otherId }] },
+                { 'splits.user': userId },
+                { amount: { $gte: 100, $lte: 5000 } },
+                { expenseDate: { $gte: from, $lte: to } },
+            ],
+        });
+    });
+
+    it('should match categories ignoring case and as whole names', () => {
+        const { filter } = buildExpenseListQuery(userId, { category: 'food' });
+        const { $regex, $options } = filter.$and[1].category;
+        const matches = (name: string) => new RegExp($regex, $options).test(name);
+
+        expect(matches('Food')).toBe(true);
+        expect(matches('Fast food')).toBe(false);
+        expect(buildExpenseListQuery(userId, { category: 'Bills (home)' }).filter.$and[1].category.$regex)
+            .toBe('^Bills \\(home\\)$');
+    });
+
+    it('should keep open-ended ranges open', () => {
+        const { filter } = buildExpenseListQuery(userId, { minAmount: 0 });
+
+        expect(filter.$and[1]).toEqual({ amount: { $gte: 0 } });
+    });
+
+    it('should put text search at the top level of the filter', () => {
+        const { filter } = buildExpenseListQuery(userId, { q: 'pizza', category: 'Food' });
+
+        expect(filter.$text).toEqual({ $search: 'pizza' });
+        expect(filter.$and).toHaveLength(2);
+    });
+
+    it('should sort by relevance only when searching', () => {
+        expect(buildExpenseListQuery(userId, { q: 'taxi', sortBy: 'relevance' }).sort).toEqual({
+            score: { $meta: 'textScore' },
+            expenseDate: -1,
+            _id: -1,
+        });
+        expect(buildExpenseListQuery(userId, { sortBy: 'relevance' }).sort).toEqual({
+            expenseDate: -1,
+            _id: -1,
+        });
+    });
+
+    it('should sort by the chosen field and order', () => {
+        expect(buildExpenseListQuery(userId, { sortBy: 'amount', order: 'asc' }).sort).toEqual({
+            amount: 1,
+            _id: 1,
+        });
+        expect(buildExpenseListQuery(userId, { sortBy: 'createdAt' }).sort).toEqual({
+            createdAt: -1,
+            _id: -1,
+        });
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for the Expense Trash
+ *
+ * Tests that deleting an expense moves it to the trash and takes it out
+ * of the balances, that restoring puts it back, and that old trash is
+ * purged. Models and transactions are mocked so no database is needed.
+ */
+
+import { Request, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import { deleteExpense, restoreExpense } from '../../src/controllers/expense.controller';
+import { purgeDeletedExpenses } from '../../src/services/expense.service';
+import { Balance, Expense, ExpenseHistory, Group } from '../../src/models';
+import { ExpenseHistoryAction, GroupRole, SplitType } from '../../src/types';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Balance: { updateOne: jest.fn() },
+    Expense: { findOne: jest.fn(), deleteMany: jest.fn() },
+    Group: { findById: jest.fn() },
+    ExpenseHistory: {
+        aggregate: jest.fn(() => ({ session: jest.fn().mockResolvedValue([]) })),
+        insertMany: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const alice = new Types.ObjectId();
+const bob = new Types.ObjectId();
+const carol = new Types.ObjectId();
+const groupId = new Types.ObjectId();
+
+// Alice paid 1000, split equally with Bob
+const makeExpense = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    group: groupId,
+    description: 'Groceries',
+    amount: 1000,
+    exchangeRate: 1,
+    paidBy: alice,
+    splitType: SplitType.EQUAL,
+    splits: [{ user: alice, share: 500 }, { user: bob, share: 500 }],
+    createdBy: alice,
+    deletedAt: null as Date | null,
+    deletedBy: undefined as Types.ObjectId | undefined,
+    save: jest.fn().mockResolvedValue(undefined),
+    populate: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+});
+
+// Alice owns the group; Bob and Carol are members unless given a role
+const mockGroup = (members = [alice, bob], memberRoles: { user: Types.ObjectId; role: GroupRole }[] = []) => {
+    (Group.findById as jest.Mock).mockResolvedValue({ _id: groupId, members, memberRoles, createdBy: alice });
+};
+
+const makeRequest = (userId: Types.ObjectId, id: Types.ObjectId) =>
+    ({ params: { id: id.toString() }, user: { _id: userId } }) as unknown as Request;
+
+// Bob's side of the ledger entry for the expense, as applied in `direction`
+const bobOwesAlice = (direction: 1 | -1) => {
+    const aliceFirst = alice.toString() < bob.toString();
+    return [
+        {
+            group: groupId,
+            fromUser: aliceFirst ? alice : bob,
+            toUser: aliceFirst ? bob : alice,
+        },
+        { $inc: { amount: (aliceFirst ? -500 : 500) * direction } },
+        { upsert: true, session: {} },
+    ];
+};
+
+describe('Expense trash', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('deleteExpense', () => {
+        it('should move the expense to the trash and reverse its balances', async () => {
+            const expense = makeExpense();
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup();
+            const res = response();
+            const next = jest.fn() as NextFunction;
+
+            await deleteExpense(makeRequest(alice, expense._id), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(Expense.findOne).toHaveBeenCalledWith({ _id: expense._id.toString(), deletedAt: null });
+            expect(expense.deletedAt).toBeInstanceOf(Date);
+            expect(expense.deletedBy).toBe(alice);
+            expect(expense.save).toHaveBeenCalledWith({ session: {} });
+            expect(Balance.updateOne).toHaveBeenCalledWith(...bobOwesAlice(-1));
+            expect(ExpenseHistory.insertMany).toHaveBeenCalledWith(
+                [expect.objectContaining({ action: ExpenseHistoryAction.DELETED, changedBy: alice })],
+                { session: {} }
+            );
+            expect(res.json).toHaveBeenCalledWith({ success: true, message: 'Expense moved to trash' });
+        });
+
+        it('should not let other members delete', async () => {
+            const expense = makeExpense();
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup();
+            const next = jest.fn();
+
+            await deleteExpense(makeRequest(bob, expense._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+            expect(expense.deletedAt).toBeNull();
+            expect(Balance.updateOne).not.toHaveBeenCalled();
+        });
+
+        it('should let group admins delete what others added', async () => {
+            const expense = makeExpense();
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup([alice, bob, carol], [{ user: carol, role: GroupRole.ADMIN }]);
+            const next = jest.fn();
+
+            await deleteExpense(makeRequest(carol, expense._id), response(), next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(expense.deletedBy).toBe(carol);
+        });
+
+        it('should not let a creator who became a viewer delete', async () => {
+            const expense = makeExpense({ createdBy: bob });
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup([alice, bob], [{ user: bob, role: GroupRole.VIEWER }]);
+            const next = jest.fn();
+
+            await deleteExpense(makeRequest(bob, expense._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+        });
+    });
+
+    describe('restoreExpense', () => {
+        it('should take the expense out of the trash and reapply its balances', async () => {
+            const expense = makeExpense({ deletedAt: new Date(), deletedBy: alice });
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup();
+            const res = response();
+            const next = jest.fn() as NextFunction;
+
+            await restoreExpense(makeRequest(alice, expense._id), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(expense.deletedAt).toBeNull();
+            expect(expense.deletedBy).toBeUndefined();
+            expect(Balance.updateOne).toHaveBeenCalledWith(...bobOwesAlice(1));
+            expect(ExpenseHistory.insertMany).toHaveBeenCalledWith(
+                [expect.objectContaining({ action: ExpenseHistoryAction.RESTORED, changedBy: alice })],
+                { session: {} }
+            );
+            expect(res.json).toHaveBeenCalledWith({ success: true, data: expense });
+        });
+
+        it('should not restore an expense whose participants have left the group', async () => {
+            const expense = makeExpense({ deletedAt: new Date(), deletedBy: alice });
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup([alice, carol]);
+            const next = jest.fn();
+
+            await restoreExpense(makeRequest(alice, expense._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+            expect(expense.save).not.toHaveBeenCalled();
+            expect(Balance.updateOne).not.toHaveBeenCalled();
+        });
+
+        it('should not let other members restore', async () => {
+            const expense = makeExpense({ deletedAt: new Date(), deletedBy: alice });
+            (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+            mockGroup();
+            const next = jest.fn();
+
+            await restoreExpense(makeRequest(bob, expense._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+        });
+    });
+
+    describe('purgeDeletedExpenses', () => {
+        it('should remove expenses deleted before the retention period', async () => {
+            const now = new Date('2024-03-31T00:00:00Z');
+            (Expense.deleteMany as jest.Mock).mockResolvedValue({ deletedCount: 2 });
+
+            const purged = await purgeDeletedExpenses(now, 30);
+
+            expect(purged).toBe(2);
+            expect(Expense.deleteMany).toHaveBeenCalledWith({
+                deletedAt: { $lte: new Date(now.getTime() - 30 * DAY_MS) },
+            });
+        });
+    });
+});
@@ -0,0 +1,196 @@
+/**
+ * Unit Tests for Updating Expenses
+ *
+ * Tests that edits are checked the same way as new expenses: the fields
+ * sent are validated, and payers add up, exist and belong to the group.
+ * Models and transactions are mocked so no database is needed.
+ */
+
+import { Request } from 'express';
+import { validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { updateExpense } from '../../src/controllers/expense.controller';
+import { expenseValidation } from '../../src/middleware/validate.middleware';
+import { Expense, Group, User } from '../../src/models';
+import { SplitType } from '../../src/types';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Balance: { updateOne: jest.fn() },
+    Expense: { findOne: jest.fn() },
+    Group: { findById: jest.fn() },
+    User: { countDocuments: jest.fn() },
+    ExpenseHistory: {
+        aggregate: jest.fn(() => ({ session: jest.fn().mockResolvedValue([]) })),
+        insertMany: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+const alice = new Types.ObjectId();
+const bob = new Types.ObjectId();
+const carol = new Types.ObjectId();
+const groupId = new Types.ObjectId();
+
+// Alice and Bob paid 1000 between them, split equally
+const makeExpense = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    group: groupId,
+    description: 'Groceries',
+    amount: 1000,
+    exchangeRate: 1,
+    paidBy: alice,
+    payers: [{ user: alice, amount: 600 }, { user: bob, amount: 400 }],
+    splitType: SplitType.EQUAL,
+    splits: [{ user: alice, share: 500 }, { user: bob, share: 500 }],
+    createdBy: alice,
+    deletedAt: null,
+    set: jest.fn(),
+    save: jest.fn().mockResolvedValue(undefined),
+    populate: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+});
+
+const call = async (expense: ReturnType<typeof makeExpense>, body: any) => {
+    (Expense.findOne as jest.Mock).mockResolvedValue(expense);
+    const res = response();
+    const next = jest.fn();
+    await updateExpense(
+        { params: { id: expense._id.toString() }, user: { _id: alice }, body } as unknown as Request,
+        res,
+        next
+    );
+    return { res, next };
+};
+
+describe('updateExpense', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        // Alice owns the group; Carol isn't in it
+        (Group.findById as jest.Mock).mockResolvedValue({ _id: groupId, members: [alice, bob], memberRoles: [], createdBy: alice });
+        (User.countDocuments as jest.Mock).mockImplementation(async (filter: any) => filter._id.$in.length);
+    });
+
+    it('should change who paid', async () => {
+        const expense = makeExpense();
+        const payers = [{ userId: alice.toString(), amount: 300 }, { userId: bob.toString(), amount: 700 }];
+
+        const { next, res } = await call(expense, { payers });
+
+        expect(next).not.toHaveBeenCalled();
+        expect(expense.set).toHaveBeenCalledWith('payers', [
+            { user: alice.toString(), amount: 300 },
+            { user: bob.toString(), amount: 700 },
+        ]);
+        expect(expense.save).toHaveBeenCalled();
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    });
+
+    it('should refuse payers that do not add up to the amount', async () => {
+        const expense = makeExpense();
+        const payers = [{ userId: alice.toString(), amount: 300 }, { userId: bob.toString(), amount: 300 }];
+
+        const { next } = await call(expense, { payers });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({
+            statusCode: 400,
+            message: 'Payer amounts (600) must equal total amount (1000)',
+        }));
+        expect(expense.save).not.toHaveBeenCalled();
+    });
+
+    it('should check payers against the new amount', async () => {
+        const payers = [{ userId: alice.toString(), amount: 600 }, { userId: bob.toString(), amount: 600 }];
+
+        const { next } = await call(makeExpense(), { amount: 1200, payers });
+
+        expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should refuse payers who are not in the group', async () => {
+        const { next } = await call(makeExpense(), { paidBy: carol.toString() });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({
+            statusCode: 400,
+            message: 'Payer must be a member of the group',
+        }));
+    });
+
+    it('should refuse payers who do not exist', async () => {
+        (User.countDocuments as jest.Mock).mockResolvedValue(1);
+        const payers = [{ userId: alice.toString(), amount: 500 }, { userId: bob.toString(), amount: 500 }];
+
+        const { next } = await call(makeExpense(), { payers });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+    });
+
+    it('should refuse splits with people who are not in the group', async () => {
+        const expense = makeExpense({ payers: undefined });
+        const splits = [{ userId: alice.toString() }, { userId: carol.toString() }];
+
+        const { next } = await call(expense, { splits });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({
+            statusCode: 400,
+            message: `User ${carol} is not a member of this group`,
+        }));
+        expect(expense.save).not.toHaveBeenCalled();
+    });
+
+    it('should recheck who shares an itemized expense when its items change', async () => {
+        // Carol has left the group since the expense was added
+        const expense = makeExpense({
+            payers: undefined,
+            splitType: SplitType.ITEMIZED,
+            splits: [{ user: alice, share: 500 }, { user: carol, share: 500 }],
+        });
+        const items = [{ name: 'Pizza', price: 1000, sharedBy: [carol.toString()] }];
+
+        const { next } = await call(expense, { items });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+        expect(expense.save).not.toHaveBeenCalled();
+    });
+
+    it('should ask for the payers again when the amount of a shared payment changes', async () => {
+        const expense = makeExpense();
+
+        const { next } = await call(expense, { amount: 1200 });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+        expect(expense.save).not.toHaveBeenCalled();
+    });
+});
+
+describe('expenseValidation.update', () => {
+    // Messages from the update rules for `body`
+    const validate = async (body: any) => {
+        const req = { body } as unknown as Request;
+        for (const chain of expenseValidation.update) {
+            await chain.run(req);
+        }
+        return validationResult(req).array().map((error) => error.msg);
+    };
+
+    it('should only check the fields that are sent', async () => {
+        expect(await validate({ notes: 'Plus dessert' })).toEqual([]);
+    });
+
+    it('should only accept whole-number adjustments', async () => {
+        const splits = [{ userId: alice.toString(), adjustment: 0.5 }, { userId: bob.toString(), adjustment: -0.5 }];
+
+        expect(await validate({ splitType: SplitType.ADJUSTMENT, splits })).toContain('Split adjustment must be a whole number');
+    });
+
+    it('should check currencies and exchange rates', async () => {
+        expect(await validate({ currency: 'XYZ', exchangeRate: 0 })).toEqual([
+            'Unsupported currency',
+            'Exchange rate must be greater than 0',
+        ]);
+    });
+});
@@ -0,0 +1,237 @@
+/**
+ * Unit Tests for Group Invites
+ *
+ * Tests invite link tokens, joining through them (with usage limits,
+ * revocation and admin approval) and deciding join requests. Models are
+ * mocked so no database is needed.
+ */
+
+import { Types } from 'mongoose';
+import { generateInviteToken, generateToken, verifyInviteToken } from '../../src/middleware';
+import {
+    createInvite,
+    decideJoinRequest,
+    findActiveInvite,
+    getInviteToken,
+    redeemInvite,
+} from '../../src/services/invite.service';
+import { Group, GroupInvite, GroupJoinRequest } from '../../src/models';
+import { GroupRole, JoinRequestStatus } from '../../src/types';
+
+jest.mock('../../src/models', () => ({
+    Group: { findById: jest.fn() },
+    User: { findById: jest.fn() },
+    GroupInvite: { create: jest.fn(), findById: jest.fn(), findOneAndUpdate: jest.fn() },
+    GroupJoinRequest: { create: jest.fn(), findOne: jest.fn() },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const owner = new Types.ObjectId();
+const member = new Types.ObjectId();
+const newcomer = new Types.ObjectId();
+
+const makeGroup = () => ({
+    _id: new Types.ObjectId(),
+    members: [owner, member],
+    memberRoles: [
+        { user: owner, role: GroupRole.OWNER },
+        { user: member, role: GroupRole.MEMBER },
+    ],
+    createdBy: owner,
+    save: jest.fn().mockResolvedValue(undefined),
+});
+
+const makeInvite = (group: { _id: Types.ObjectId }, overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    group: group._id,
+    createdBy: owner,
+    expiresAt: new Date(Date.now() + DAY_MS),
+    maxUses: null as number | null,
+    uses: 0,
+    requiresApproval: false,
+    revokedAt: null as Date | null,
+    ...overrides,
+});
+
+// Make `invite` the one behind its token
+const mockInvite = (group: any, invite: any) => {
+    (GroupInvite.findById as jest.Mock).mockResolvedValue(invite);
+    (GroupInvite.findOneAndUpdate as jest.Mock).mockResolvedValue({ ...invite, uses: invite.uses + 1 });
+    (Group.findById as jest.Mock).mockResolvedValue(group);
+    return getInviteToken(invite);
+};
+
+describe('Group invites', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (GroupJoinRequest.findOne as jest.Mock).mockResolvedValue(null);
+    });
+
+    describe('invite tokens', () => {
+        it('should round-trip the invite and group', () => {
+            const token = generateInviteToken('invite1', 'group1', new Date(Date.now() + DAY_MS));
+
+            expect(verifyInviteToken(token)).toEqual({ inviteId: 'invite1', groupId: 'group1' });
+        });
+
+        it('should reject expired tokens and login tokens', () => {
+            const expired = generateInviteToken('invite1', 'group1', new Date(Date.now() - 1000));
+
+            expect(() => verifyInviteToken(expired)).toThrow('This invite link has expired');
+            expect(() => verifyInviteToken(generateToken(owner.toString(), 'a@example.com')))
+                .toThrow('This invite link is invalid');
+        });
+    });
+
+    describe('createInvite', () => {
+        it('should make invites from members without admin rights need approval', async () => {
+            const group = makeGroup();
+            const now = new Date('2024-03-01T00:00:00Z');
+
+            await createInvite(group as any, member, { expiresInDays: 3 }, now);
+            await createInvite(group as any, owner, {}, now);
+
+            expect(GroupInvite.create).toHaveBeenNthCalledWith(1, expect.objectContaining({
+                expiresAt: new Date(now.getTime() + 3 * DAY_MS),
+                requiresApproval: true,
+            }));
+            expect(GroupInvite.create).toHaveBeenNthCalledWith(2, expect.objectContaining({
+                expiresAt: new Date(now.getTime() + 7 * DAY_MS),
+                maxUses: null,
+                requiresApproval: false,
+            }));
+        });
+    });
+
+    describe('findActiveInvite', () => {
+        it.each([
+            ['revoked', { revokedAt: new Date() }, 'This invite link has been revoked'],
+            ['used up', { maxUses: 2, uses: 2 }, 'This invite link has been used up'],
+        ])('should refuse %s invites', async (_label, overrides, message) => {
+            const group = makeGroup();
+            const token = mockInvite(group, makeInvite(group, overrides));
+
+            await expect(findActiveInvite(token)).rejects.toMatchObject({ statusCode: 400, message });
+        });
+
+        it('should refuse a token pointing at another group', async () => {
+            const group = makeGroup();
+            const invite = makeInvite(group);
+            mockInvite(group, invite);
+            const token = generateInviteToken(invite._id.toString(), new Types.ObjectId().toString(), invite.expiresAt);
+
+            await expect(findActiveInvite(token)).rejects.toMatchObject({ message: 'This invite link is invalid' });
+        });
+    });
+
+    describe('redeemInvite', () => {
+        it('should add the user as a member and use the invite once', async () => {
+            const group = makeGroup();
+            const invite = makeInvite(group, { maxUses: 5 });
+            const token = mockInvite(group, invite);
+
+            const result = await redeemInvite(token, newcomer);
+
+            expect(result.status).toBe('JOINED');
+            expect(GroupInvite.findOneAndUpdate).toHaveBeenCalledWith(
+                expect.objectContaining({ _id: invite._id, revokedAt: null }),
+                { $inc: { uses: 1 } },
+                { new: true }
+            );
+            expect(group.members).toContainEqual(newcomer);
+            expect(group.memberRoles).toContainEqual({ user: newcomer, role: GroupRole.MEMBER });
+            expect(group.save).toHaveBeenCalled();
+        });
+
+        it('should not use the invite for existing members', async () => {
+            const group = makeGroup();
+            const token = mockInvite(group, makeInvite(group));
+
+            const result = await redeemInvite(token, member);
+
+            expect(result.status).toBe('ALREADY_MEMBER');
+            expect(GroupInvite.findOneAndUpdate).not.toHaveBeenCalled();
+        });
+
+        it('should fail when the last use was taken concurrently', async () => {
+            const group = makeGroup();
+            const token = mockInvite(group, makeInvite(group, { maxUses: 1 }));
+            (GroupInvite.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+            await expect(redeemInvite(token, newcomer)).rejects.toMatchObject({
+                message: 'This invite link has been used up',
+            });
+            expect(group.save).not.toHaveBeenCalled();
+        });
+
+        it('should leave a join request when the invite needs approval', async () => {
+            const group = makeGroup();
+            const invite = makeInvite(group, { requiresApproval: true });
+            const token = mockInvite(group, invite);
+            const request = { _id: new Types.ObjectId() };
+            (GroupJoinRequest.create as jest.Mock).mockResolvedValue(request);
+
+            const result = await redeemInvite(token, newcomer);
+
+            expect(result).toEqual({ status: 'PENDING', group, request });
+            expect(GroupJoinRequest.create).toHaveBeenCalledWith({
+                group: group._id,
+                invite: invite._id,
+                user: newcomer,
+            });
+            expect(group.members).not.toContainEqual(newcomer);
+        });
+
+        it('should not ask again while a request is open', async () => {
+            const group = makeGroup();
+            const token = mockInvite(group, makeInvite(group, { requiresApproval: true }));
+            const open = { _id: new Types.ObjectId() };
+            (GroupJoinRequest.findOne as jest.Mock).mockResolvedValue(open);
+
+            const result = await redeemInvite(token, newcomer);
+
+            expect(result.request).toBe(open);
+            expect(GroupInvite.findOneAndUpdate).not.toHaveBeenCalled();
+            expect(GroupJoinRequest.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('decideJoinRequest', () => {
+        const makeRequest = () => ({
+            _id: new Types.ObjectId(),
+            user: newcomer,
+            status: JoinRequestStatus.PENDING,
+            decidedBy: undefined as Types.ObjectId | undefined,
+            save: jest.fn().mockResolvedValue(undefined),
+        });
+
+        it('should add the member on approval', async () => {
+            const group = makeGroup();
+            const request = makeRequest();
+            (GroupJoinRequest.findOne as jest.Mock).mockResolvedValue(request);
+
+            await decideJoinRequest(group as any, request._id.toString(), owner, true);
+
+            expect(request.status).toBe(JoinRequestStatus.APPROVED);
+            expect(request.decidedBy).toBe(owner);
+            expect(group.members).toContainEqual(newcomer);
+        });
+
+        it('should leave the group alone on rejection', async () => {
+            const group = makeGroup();
+            const request = makeRequest();
+            (GroupJoinRequest.findOne as jest.Mock).mockResolvedValue(request);
+
+            await decideJoinRequest(group as any, request._id.toString(), owner, false);
+
+            expect(request.status).toBe(JoinRequestStatus.REJECTED);
+            expect(group.save).not.toHaveBeenCalled();
+        });
+
+        it('should 404 for requests that are not open', async () => {
+            await expect(decideJoinRequest(makeGroup() as any, new Types.ObjectId().toString(), owner, true))
+                .rejects.toMatchObject({ statusCode: 404 });
+        });
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Tests for Ledger Service
+ *
+ * Tests how expenses and settlements fold into normalized pairwise
+ * ledger entries, and verification against a full recomputation.
+ */
+
+import { Types } from 'mongoose';
+import {
+    toLedgerEntries,
+    getExpenseLedgerEntries,
+    getSettlementLedgerEntries,
+    verifyLedger,
+} from '../../src/services/ledger.service';
+import { Balance, Expense, Settlement } from '../../src/models';
+import { SettlementStatus } from '../../src/types';
+
+jest.mock('../../src/models', () => ({
+    Balance: { find: jest.fn(), updateOne: jest.fn() },
+    Expense: { find: jest.fn() },
+    Group: { find: jest.fn() },
+    Settlement: { find: jest.fn() },
+    ExchangeRate: { find: jest.fn() },
+}));
+
+describe('Ledger Service', () => {
+    // Fixed IDs so the stored (lower ID first) order is predictable
+    const userA = new Types.ObjectId('000000000000000000000001');
+    const userB = new Types.ObjectId('000000000000000000000002');
+    const userC = new Types.ObjectId('000000000000000000000003');
+    const group = new Types.ObjectId();
+
+    const expense = (overrides: any = {}): any => ({
+        amount: 3000,
+        exchangeRate: 1,
+        paidBy: userB,
+        payers: [],
+        group,
+        splits: [
+            { user: userA, share: 1000 },
+            { user: userB, share: 1000 },
+            { user: userC, share: 1000 },
+        ],
+        ...overrides,
+    });
+
+    const amountFor = (entries: any[], from: Types.ObjectId, to: Types.ObjectId) =>
+        entries.find((e) => e.fromUser.equals(from) && e.toUser.equals(to))?.amount;
+
+    describe('toLedgerEntries', () => {
+        it('should store each pair once with the lower user ID first', () => {
+            const entries = [...toLedgerEntries([
+                { fromUser: { _id: userB, name: 'B' }, toUser: { _id: userA, name: 'A' }, amount: 300 },
+                { fromUser: { _id: userA, name: 'A' }, toUser: { _id: userB, name: 'B' }, amount: 100 },
+            ]).values()];
+
+            expect(entries).toHaveLength(1);
+            expect(entries[0].fromUser).toBe(userA);
+            expect(entries[0].toUser).toBe(userB);
+            // B owes A 300, A owes B 100: net B owes A 200
+            expect(entries[0].amount).toBe(-200);
+        });
+    });
+
+    describe('getExpenseLedgerEntries', () => {
+        it('should record what each sharer owes the payer', () => {
+            const entries = getExpenseLedgerEntries(expense());
+
+            expect(entries).toHaveLength(2);
+            expect(entries.every((e) => e.group === group)).toBe(true);
+            expect(amountFor(entries, userA, userB)).toBe(1000);
+            expect(amountFor(entries, userB, userC)).toBe(-1000);
+        });
+
+        it('should split debts across several payers and convert currency', () => {
+            const entries = getExpenseLedgerEntries(expense({
+                exchangeRate: 2,
+                payers: [
+                    { user: userB, amount: 2000 },
+                    { user: userC, amount: 1000 },
+                ],
+            }));
+
+            // A owes B 2/3 and C 1/3 of 1000, times the rate of 2
+            expect(amountFor(entries, userA, userB)).toBeCloseTo(1333.33, 2);
+            expect(amountFor(entries, userA, userC)).toBeCloseTo(666.67, 2);
+            // B owes C 1/3 of 1000, C owes B 2/3 of 1000: net C owes B 333.33, times 2
+            expect(amountFor(entries, userB, userC)).toBeCloseTo(-666.67, 2);
+        });
+    });
+
+    describe('getSettlementLedgerEntries', () => {
+        const settlement = (status: SettlementStatus): any => ({
+            fromUser: userA,
+            toUser: userB,
+            amount: 500,
+            exchangeRate: 1,
+            status,
+        });
+
+        it('should reduce the payer\'s debt for confirmed settlements', () => {
+            const entries = getSettlementLedgerEntries(settlement(SettlementStatus.CONFIRMED));
+
+            expect(entries).toEqual([
+                { group: null, fromUser: userA, toUser: userB, amount: -500 },
+            ]);
+        });
+
+        it('should ignore pending and rejected settlements', () => {
+            expect(getSettlementLedgerEntries(settlement(SettlementStatus.PENDING))).toEqual([]);
+            expect(getSettlementLedgerEntries(settlement(SettlementStatus.REJECTED))).toEqual([]);
+        });
+    });
+
+    describe('verifyLedger', () => {
+        beforeEach(() => {
+            (Expense.find as jest.Mock).mockReturnValue({ cursor: () => [expense()] });
+            (Settlement.find as jest.Mock).mockReturnValue({ cursor: () => [] });
+        });
+
+        it('should report no mismatches for an up-to-date ledger', async () => {
+            (Balance.find as jest.Mock).mockResolvedValue([
+                { group, fromUser: userA, toUser: userB, amount: 1000 },
+                { group, fromUser: userB, toUser: userC, amount: -1000 },
+            ]);
+
+            expect(await verifyLedger()).toEqual([]);
+        });
+
+        it('should report drifted and missing entries', async () => {
+            (Balance.find as jest.Mock).mockResolvedValue([
+                { group, fromUser: userA, toUser: userB, amount: 900 },
+            ]);
+
+            const mismatches = await verifyLedger();
+
+            expect(mismatches).toEqual([
+                { group, fromUser: userA, toUser: userB, amount: 900, expected: 1000 },
+                { group, fromUser: userB, toUser: userC, amount: 0, expected: -1000 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,233 @@
+/**
+ * Unit Tests for Leaving Groups
+ *
+ * Tests that members only leave (or are removed) once their balance in
+ * the group is settled, forgiven or transferred, and that clearing it
+ * keeps the balance ledger right. Models are mocked so no database is
+ * needed.
+ */
+
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { removeFromGroup } from '../../src/services/membership.service';
+import { leaveGroup } from '../../src/controllers/group.controller';
+import { Balance, Group, RecurringExpense, Settlement } from '../../src/models';
+import { DebtResolution, GroupRole, SettlementKind, SettlementStatus } from '../../src/types';
+import { query } from '../helpers/query';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Balance: { find: jest.fn(), updateOne: jest.fn() },
+    Group: { findById: jest.fn() },
+    RecurringExpense: { updateMany: jest.fn() },
+    Settlement: { exists: jest.fn(), find: jest.fn(), create: jest.fn() },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+const owner = new Types.ObjectId();
+const admin = new Types.ObjectId();
+const alice = new Types.ObjectId();
+const bob = new Types.ObjectId();
+
+const makeGroup = () => ({
+    _id: new Types.ObjectId(),
+    name: 'Flat',
+    baseCurrency: 'INR',
+    members: [owner, admin, alice, bob],
+    memberRoles: [
+        { user: owner, role: GroupRole.OWNER },
+        { user: admin, role: GroupRole.ADMIN },
+        { user: alice, role: GroupRole.MEMBER },
+        { user: bob, role: GroupRole.MEMBER },
+    ],
+    formerMembers: [] as any[],
+    createdBy: owner,
+    save: jest.fn().mockResolvedValue(undefined),
+});
+
+// `debtor` owes `creditor` `amount` in the group's ledger
+const owes = (debtor: Types.ObjectId, creditor: Types.ObjectId, amount: number) => {
+    const ordered = debtor.toString() < creditor.toString();
+    return {
+        fromUser: { _id: ordered ? debtor : creditor, name: 'x' },
+        toUser: { _id: ordered ? creditor : debtor, name: 'x' },
+        amount: ordered ? amount : -amount,
+    };
+};
+
+const mockLedger = (...entries: ReturnType<typeof owes>[]) => {
+    (Balance.find as jest.Mock).mockReturnValue(query(entries));
+};
+
+// Ledger changes from the recorded settlements, as "fromUser:toUser" → amount
+const ledgerChanges = () => {
+    const changes = new Map<string, number>();
+    for (const [filter, update] of (Balance.updateOne as jest.Mock).mock.calls) {
+        changes.set(`${filter.fromUser}:${filter.toUser}`, update.$inc.amount);
+    }
+    return changes;
+};
+
+describe('removeFromGroup', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (Settlement.exists as jest.Mock).mockResolvedValue(null);
+        (Settlement.find as jest.Mock).mockResolvedValue([]);
+        (Group.findById as jest.Mock).mockReturnValue(query({ baseCurrency: 'INR' }));
+        (Settlement.create as jest.Mock).mockImplementation(async (docs: any[]) => docs);
+        mockLedger();
+    });
+
+    it('should remove a settled member and remember them as a former member', async () => {
+        const group = makeGroup();
+
+        const settlements = await removeFromGroup(group as any, alice, alice);
+
+        expect(settlements).toEqual([]);
+        expect(group.members).toEqual([owner, admin, bob]);
+        expect(group.memberRoles.map((r) => r.user)).not.toContainEqual(alice);
+        expect(group.formerMembers).toEqual([
+            expect.objectContaining({ user: alice, removedBy: undefined }),
+        ]);
+        expect(group.save).toHaveBeenCalled();
+    });
+
+    it('should pause the recurring expenses the member set up', async () => {
+        const group = makeGroup();
+
+        await removeFromGroup(group as any, alice, alice);
+
+        expect(RecurringExpense.updateMany).toHaveBeenCalledWith(
+            { group: group._id, createdBy: alice, paused: false },
+            { paused: true },
+            { session: {} }
+        );
+    });
+
+    it('should refuse while the member has a balance', async () => {
+        const group = makeGroup();
+        mockLedger(owes(alice, bob, 5000));
+
+        await expect(removeFromGroup(group as any, alice, admin)).rejects.toMatchObject({
+            statusCode: 409,
+            message: 'This member owes INR 5000 in this group. Settle up first, or forgive or transfer the balance',
+        });
+        expect(group.members).toContainEqual(alice);
+        expect(group.save).not.toHaveBeenCalled();
+    });
+
+    it('should refuse while the member has payments waiting to be confirmed', async () => {
+        (Settlement.exists as jest.Mock).mockResolvedValue({ _id: new Types.ObjectId() });
+
+        await expect(removeFromGroup(makeGroup() as any, alice, alice)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should let a member forgive what they are owed on the way out', async () => {
+        const group = makeGroup();
+        mockLedger(owes(bob, alice, 300));
+
+        const settlements = await removeFromGroup(group as any, alice, alice, { resolution: DebtResolution.FORGIVE });
+
+        expect(settlements).toEqual([expect.objectContaining({
+            fromUser: bob,
+            toUser: alice,
+            amount: 300,
+            kind: SettlementKind.FORGIVENESS,
+            status: SettlementStatus.CONFIRMED,
+        })]);
+        expect([...ledgerChanges().values()].map(Math.abs)).toEqual([300]);
+        expect(group.members).not.toContainEqual(alice);
+    });
+
+    it('should only let admins write off what a member owes', async () => {
+        mockLedger(owes(alice, bob, 300));
+
+        await expect(removeFromGroup(makeGroup() as any, alice, alice, { resolution: DebtResolution.FORGIVE }))
+            .rejects.toMatchObject({ statusCode: 403 });
+
+        const group = makeGroup();
+        await removeFromGroup(group as any, alice, admin, { resolution: DebtResolution.FORGIVE });
+        expect(group.formerMembers).toEqual([expect.objectContaining({ user: alice, removedBy: admin })]);
+    });
+
+    it('should hand the balance to another member', async () => {
+        const group = makeGroup();
+        // Bob owes Alice 200 and Alice owes the owner 50; the admin takes both over
+        mockLedger(owes(bob, alice, 200), owes(alice, owner, 50));
+
+        const settlements = await removeFromGroup(group as any, alice, admin, {
+            resolution: DebtResolution.TRANSFER,
+            transferTo: admin,
+        });
+
+        expect(settlements).toHaveLength(4);
+        expect(settlements.every((s) => s.kind === SettlementKind.TRANSFER)).toBe(true);
+
+        // Change in what each person is owed overall: Alice's +150 moves to
+        // the admin, and Bob and the owner are left as they were
+        const change = new Map<string, number>();
+        for (const s of settlements) {
+            // A payment from P to R leaves R owing P
+            change.set(s.toUser.toString(), (change.get(s.toUser.toString()) || 0) - s.amount);
+            change.set(s.fromUser.toString(), (change.get(s.fromUser.toString()) || 0) + s.amount);
+        }
+        expect(change.get(alice.toString())).toBe(-150);
+        expect(change.get(admin.toString())).toBe(150);
+        expect(change.get(bob.toString())).toBe(0);
+        expect(change.get(owner.toString())).toBe(0);
+        expect(settlements).toEqual(expect.arrayContaining([
+            expect.objectContaining({ fromUser: admin, toUser: bob, amount: 200 }),
+            expect.objectContaining({ fromUser: owner, toUser: admin, amount: 50 }),
+        ]));
+    });
+
+    it('should only transfer to a member who stays in the group', async () => {
+        mockLedger(owes(bob, alice, 200));
+
+        await expect(removeFromGroup(makeGroup() as any, alice, alice, {
+            resolution: DebtResolution.TRANSFER,
+            transferTo: new Types.ObjectId(),
+        })).rejects.toMatchObject({ statusCode: 400 });
+    });
+});
+
+describe('leaveGroup', () => {
+    const call = async (user: Types.ObjectId, group: any, body: any = {}) => {
+        (Group.findById as jest.Mock).mockImplementation(() => {
+            const q = query(group);
+            q.select = jest.fn(() => query({ baseCurrency: 'INR' }));
+            return q;
+        });
+        const res = response();
+        const next = jest.fn();
+        await leaveGroup({ user: { _id: user }, params: { id: group._id.toString() }, body } as unknown as Request, res, next);
+        return { res, next };
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (Settlement.exists as jest.Mock).mockResolvedValue(null);
+        (Settlement.find as jest.Mock).mockResolvedValue([]);
+        mockLedger();
+    });
+
+    it('should let a member leave', async () => {
+        const group = makeGroup();
+
+        const { next, res } = await call(bob, group);
+
+        expect(next).not.toHaveBeenCalled();
+        expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+        expect(group.members).not.toContainEqual(bob);
+    });
+
+    it('should not let the owner leave', async () => {
+        const { next } = await call(owner, makeGroup());
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+    });
+});
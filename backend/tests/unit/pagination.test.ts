@@ -0,0 +1,98 @@
+/**
+ * Unit Tests for Cursor Pagination
+ *
+ * Tests that cursors round-trip, are rejected when tampered with or
+ * used with another sort, and narrow a filter to the rows after them.
+ */
+
+import { Types } from 'mongoose';
+import {
+    getCursorKey,
+    encodeCursor,
+    decodeCursor,
+    applyCursor,
+} from '../../src/utils/pagination';
+
+const newestFirst = { expenseDate: -1 as const, _id: -1 as const };
+
+describe('getCursorKey', () => {
+    it('should accept one field plus _id in the same direction', () => {
+        expect(getCursorKey(newestFirst)).toEqual({ field: 'expenseDate', direction: -1 });
+        expect(getCursorKey({ amount: 1, _id: 1 })).toEqual({ field: 'amount', direction: 1 });
+    });
+
+    it('should reject sorts that cursors can\'t follow', () => {
+        expect(getCursorKey({ amount: 1, _id: -1 })).toBeNull();
+        expect(getCursorKey({ expenseDate: -1, createdAt: -1, _id: -1 })).toBeNull();
+        expect(getCursorKey({ score: { $meta: 'textScore' }, _id: -1 })).toBeNull();
+    });
+});
+
+describe('encodeCursor / decodeCursor', () => {
+    const row = { _id: new Types.ObjectId(), expenseDate: new Date('2024-03-01T10:00:00Z'), amount: 1500 };
+
+    it('should round-trip a date position', () => {
+        const cursor = encodeCursor(newestFirst, row)!;
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeCursor(cursor, newestFirst)).toEqual({
+            field: 'expenseDate',
+            direction: -1,
+            value: row.expenseDate,
+            id: row._id,
+        });
+    });
+
+    it('should round-trip a number position', () => {
+        const byAmount = { amount: 1 as const, _id: 1 as const };
+        const cursor = encodeCursor(byAmount, row)!;
+
+        expect(decodeCursor(cursor, byAmount)).toMatchObject({ field: 'amount', value: 1500 });
+    });
+
+    it('should reject a cursor made for a different sort', () => {
+        const cursor = encodeCursor(newestFirst, row)!;
+
+        expect(decodeCursor(cursor, { expenseDate: 1, _id: 1 })).toBeNull();
+        expect(decodeCursor(cursor, { amount: -1, _id: -1 })).toBeNull();
+    });
+
+    it('should reject malformed cursors', () => {
+        const bad = (payload: unknown) => Buffer.from(JSON.stringify(payload)).toString('base64url');
+
+        expect(decodeCursor('not-a-cursor', newestFirst)).toBeNull();
+        expect(decodeCursor(bad({ f: 'expenseDate', d: -1, v: 'x', t: 'date', id: row._id.toString() }), newestFirst)).toBeNull();
+        expect(decodeCursor(bad({ f: 'expenseDate', d: -1, v: row.expenseDate, t: 'date', id: 'nope' }), newestFirst)).toBeNull();
+        expect(decodeCursor(bad({ f: 'expenseDate', d: -1, v: { $gt: 1 }, t: 'number', id: row._id.toString() }), newestFirst)).toBeNull();
+    });
+});
+
+describe('applyCursor', () => {
+    const id = new Types.ObjectId();
+    const value = new Date('2024-03-01T10:00:00Z');
+
+    it('should keep rows after the position in a descending sort', () => {
+        const filter = { group: 'g1' };
+
+        expect(applyCursor(filter, { field: 'expenseDate', direction: -1, value, id })).toEqual({
+            $and: [
+                { group: 'g1' },
+                {
+                    $or: [
+                        { expenseDate: { $lt: value } },
+                        { expenseDate: value, _id: { $lt: id } },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('should use $gt for ascending sorts and leave $text at the top level', () => {
+        const filter = { $text: { $search: 'taxi' }, category: 'Transport' };
+        const result = applyCursor(filter, { field: 'amount', direction: 1, value: 500, id });
+
+        expect(result.$text).toEqual({ $search: 'taxi' });
+        expect(result.$and[0]).toEqual({ category: 'Transport' });
+        expect(result.$and[1].$or[0]).toEqual({ amount: { $gt: 500 } });
+    });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit Tests for Group Roles and Permissions
+ *
+ * Tests what each role may do, the permission middleware, and the member
+ * management rules (ranks, the owner, ownership transfer). Models are
+ * mocked so no database is needed.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import {
+    getMemberRole,
+    hasGroupPermission,
+    outranks,
+    requireGroupPermission,
+} from '../../src/middleware/permission.middleware';
+import { removeMember, transferOwnership } from '../../src/controllers/group.controller';
+import { Group } from '../../src/models';
+import { GroupPermission, GroupRole } from '../../src/types';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Group: { findById: jest.fn() },
+    User: { findById: jest.fn() },
+    RecurringExpense: { updateMany: jest.fn() },
+    Settlement: { exists: jest.fn() },
+}));
+
+// Members here have no balances; see membership.test.ts for those
+jest.mock('../../src/services/balance.service', () => ({
+    ...jest.requireActual('../../src/services/balance.service'),
+    getUserBalances: jest.fn().mockResolvedValue({ currency: 'INR', netBalance: 0, balances: [] }),
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+const owner = new Types.ObjectId();
+const admin = new Types.ObjectId();
+const member = new Types.ObjectId();
+const viewer = new Types.ObjectId();
+const outsider = new Types.ObjectId();
+
+const makeGroup = () => ({
+    _id: new Types.ObjectId(),
+    members: [owner, admin, member, viewer],
+    memberRoles: [
+        { user: owner, role: GroupRole.OWNER },
+        { user: admin, role: GroupRole.ADMIN },
+        { user: member, role: GroupRole.MEMBER },
+        { user: viewer, role: GroupRole.VIEWER },
+    ],
+    createdBy: owner,
+    save: jest.fn().mockResolvedValue(undefined),
+    populate: jest.fn().mockResolvedValue(undefined),
+});
+
+const call = async (
+    handler: (req: Request, res: Response, next: NextFunction) => Promise<void>,
+    user: Types.ObjectId,
+    group: any,
+    params: Record<string, string> = {},
+    body: any = {}
+) => {
+    const res = response();
+    const next = jest.fn();
+    await handler({ user: { _id: user }, group, params, body, query: {} } as any, res, next);
+    return { res, next };
+};
+
+describe('getMemberRole', () => {
+    it('should return each member\'s role and null for outsiders', () => {
+        const group = makeGroup() as any;
+
+        expect(getMemberRole(group, admin)).toBe(GroupRole.ADMIN);
+        expect(getMemberRole(group, viewer.toString())).toBe(GroupRole.VIEWER);
+        expect(getMemberRole(group, outsider)).toBeNull();
+    });
+
+    it('should treat the creator of a group without roles as its owner', () => {
+        const group = { ...makeGroup(), memberRoles: [] } as any;
+
+        expect(getMemberRole(group, owner)).toBe(GroupRole.OWNER);
+        expect(getMemberRole(group, admin)).toBe(GroupRole.MEMBER);
+    });
+});
+
+describe('hasGroupPermission', () => {
+    const group = makeGroup() as any;
+
+    it('should give each role its permissions', () => {
+        expect(hasGroupPermission(group, owner, GroupPermission.TRANSFER_OWNERSHIP)).toBe(true);
+        expect(hasGroupPermission(group, admin, GroupPermission.MANAGE_MEMBERS)).toBe(true);
+        expect(hasGroupPermission(group, admin, GroupPermission.MANAGE_ROLES)).toBe(false);
+        expect(hasGroupPermission(group, member, GroupPermission.ADD_EXPENSES)).toBe(true);
+        expect(hasGroupPermission(group, member, GroupPermission.EDIT_ANY_EXPENSE)).toBe(false);
+        expect(hasGroupPermission(group, viewer, GroupPermission.ADD_EXPENSES)).toBe(false);
+        expect(hasGroupPermission(group, outsider, GroupPermission.ADD_EXPENSES)).toBe(false);
+    });
+
+    it('should rank roles', () => {
+        expect(outranks(group, owner, admin)).toBe(true);
+        expect(outranks(group, admin, member)).toBe(true);
+        expect(outranks(group, admin, GroupRole.ADMIN)).toBe(false);
+        expect(outranks(group, member, viewer)).toBe(true);
+    });
+});
+
+describe('requireGroupPermission', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('should attach the group when the user has the permission', async () => {
+        const group = makeGroup();
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+        const req: any = { params: { id: group._id.toString() }, user: { _id: admin } };
+        const next = jest.fn();
+
+        await requireGroupPermission(GroupPermission.MANAGE_SETTINGS)(req, {} as Response, next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(req.group).toBe(group);
+    });
+
+    it('should reject members without the permission, and outsiders', async () => {
+        (Group.findById as jest.Mock).mockResolvedValue(makeGroup());
+
+        for (const [user, message] of [
+            [member, 'Only group admins can change group settings'],
+            [outsider, 'You are not a member of this group'],
+        ] as const) {
+            const next = jest.fn();
+            await requireGroupPermission(GroupPermission.MANAGE_SETTINGS)(
+                { params: { id: 'g1' }, user: { _id: user } } as any,
+                {} as Response,
+                next
+            );
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403, message }));
+        }
+    });
+});
+
+describe('Member management', () => {
+    it('should only let members remove people ranked below them', async () => {
+        const group = makeGroup();
+
+        const { next: denied } = await call(removeMember, admin, group, { userId: admin.toString() });
+        expect(denied).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+
+        const { next } = await call(removeMember, admin, group, { userId: member.toString() });
+        expect(next).not.toHaveBeenCalled();
+        expect(group.members).toEqual([owner, admin, viewer]);
+        expect(group.memberRoles.map((r) => r.user)).not.toContainEqual(member);
+    });
+
+    it('should never remove the owner', async () => {
+        const { next } = await call(removeMember, owner, makeGroup(), { userId: owner.toString() });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+    });
+
+    it('should hand ownership over and keep the previous owner as an admin', async () => {
+        const group = makeGroup();
+
+        const { next } = await call(transferOwnership, owner, group, {}, { userId: member.toString() });
+
+        expect(next).not.toHaveBeenCalled();
+        expect(getMemberRole(group as any, member)).toBe(GroupRole.OWNER);
+        expect(getMemberRole(group as any, owner)).toBe(GroupRole.ADMIN);
+        expect(group.save).toHaveBeenCalled();
+    });
+
+    it('should only transfer ownership to a member', async () => {
+        const { next } = await call(transferOwnership, owner, makeGroup(), {}, { userId: outsider.toString() });
+
+        expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+    });
+});
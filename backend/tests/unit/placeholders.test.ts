@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Placeholder Members
+ *
+ * Tests adding people who haven't signed up to a group, and claiming the
+ * placeholder when they register with its email. Models are mocked so no
+ * database is needed.
+ */
+
+import { Request } from 'express';
+import { Types } from 'mongoose';
+import { register } from '../../src/controllers/auth.controller';
+import { addPlaceholderMember, updatePlaceholder } from '../../src/services/placeholder.service';
+import { Group, User } from '../../src/models';
+import { GroupRole } from '../../src/types';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    User: { findOne: jest.fn(), create: jest.fn(), exists: jest.fn() },
+    Group: { exists: jest.fn() },
+}));
+
+const owner = new Types.ObjectId();
+
+const makeGroup = () => ({
+    _id: new Types.ObjectId(),
+    members: [owner],
+    memberRoles: [{ user: owner, role: GroupRole.OWNER }],
+    createdBy: owner,
+    save: jest.fn().mockResolvedValue(undefined),
+});
+
+const makeUser = (overrides: any = {}) => ({
+    _id: new Types.ObjectId(),
+    name: 'Dev',
+    email: 'dev@example.com' as string | undefined,
+    phone: undefined as string | undefined,
+    password: undefined as string | undefined,
+    isPlaceholder: true,
+    save: jest.fn().mockResolvedValue(undefined),
+    ...overrides,
+});
+
+describe('Placeholder members', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (User.findOne as jest.Mock).mockResolvedValue(null);
+        (User.exists as jest.Mock).mockResolvedValue(null);
+        (Group.exists as jest.Mock).mockResolvedValue(null);
+    });
+
+    describe('addPlaceholderMember', () => {
+        it('should create a placeholder and add it to the group as a member', async () => {
+            const group = makeGroup();
+            const placeholder = makeUser();
+            (User.create as jest.Mock).mockResolvedValue(placeholder);
+
+            await addPlaceholderMember(group as any, { name: 'Dev', email: 'dev@example.com' });
+
+            expect(User.create).toHaveBeenCalledWith({
+                name: 'Dev',
+                email: 'dev@example.com',
+                phone: undefined,
+                isPlaceholder: true,
+            });
+            expect(group.members).toContainEqual(placeholder._id);
+            expect(group.memberRoles).toContainEqual({ user: placeholder._id, role: GroupRole.MEMBER });
+            expect(group.save).toHaveBeenCalled();
+        });
+
+        it('should never share a placeholder with another group, or take a registered user\'s email', async () => {
+            const group = makeGroup();
+            (User.exists as jest.Mock).mockResolvedValue({ _id: new Types.ObjectId() });
+
+            await expect(addPlaceholderMember(group as any, { name: 'Dev', email: 'dev@example.com' }))
+                .rejects.toMatchObject({ statusCode: 409 });
+            expect(User.create).not.toHaveBeenCalled();
+            expect(group.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('updatePlaceholder', () => {
+        it('should add an email so the placeholder can be claimed', async () => {
+            const placeholder = makeUser({ email: undefined });
+
+            await updatePlaceholder(makeGroup() as any, placeholder as any, { email: 'dev@example.com' });
+
+            expect(placeholder.email).toBe('dev@example.com');
+            expect(placeholder.save).toHaveBeenCalled();
+        });
+
+        it('should not edit registered users', async () => {
+            await expect(updatePlaceholder(makeGroup() as any, makeUser({ isPlaceholder: false }) as any, { name: 'X' }))
+                .rejects.toMatchObject({ statusCode: 400 });
+        });
+
+        it('should not edit a placeholder that other groups rely on', async () => {
+            const placeholder = makeUser();
+            (Group.exists as jest.Mock).mockResolvedValue({ _id: new Types.ObjectId() });
+
+            await expect(updatePlaceholder(makeGroup() as any, placeholder as any, { email: 'me@attacker.test' }))
+                .rejects.toMatchObject({ statusCode: 403 });
+            expect(placeholder.email).toBe('dev@example.com');
+            expect(placeholder.save).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('register', () => {
+        const makeRequest = () => ({
+            body: { name: 'Devika', email: 'dev@example.com', password: 'secret1', phone: '9876543210' },
+        }) as unknown as Request;
+
+        it('should claim the placeholder with the same email, keeping its id', async () => {
+            const placeholder = makeUser();
+            (User.findOne as jest.Mock).mockResolvedValue(placeholder);
+            const res = response();
+            const next = jest.fn();
+
+            await register(makeRequest(), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(User.create).not.toHaveBeenCalled();
+            expect(placeholder).toMatchObject({
+                name: 'Devika',
+                password: 'secret1',
+                phone: '9876543210',
+                isPlaceholder: false,
+            });
+            expect(placeholder.save).toHaveBeenCalled();
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+                data: expect.objectContaining({
+                    user: expect.objectContaining({ _id: placeholder._id }),
+                    claimed: true,
+                }),
+            }));
+        });
+
+        it('should still refuse the email of a registered user', async () => {
+            (User.findOne as jest.Mock).mockResolvedValue(makeUser({ isPlaceholder: false }));
+            const next = jest.fn();
+
+            await register(makeRequest(), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+        });
+    });
+});
@@ -0,0 +1,70 @@
+/**
+ * Unit Tests for Exchange Rate CSV Parser
+ *
+ * Tests header handling and per-line validation of bulk rate uploads.
+ */
+
+import { parseRatesCsv } from '../../src/utils/rateCsv';
+
+describe('Rate CSV Parser', () => {
+    it('should parse valid rows', () => {
+        const csv = 'date,from,to,rate\n2024-03-01,USD,INR,83.12\n2024-03-02,eur,inr,90.5';
+        const { rates, errors } = parseRatesCsv(csv);
+
+        expect(errors).toHaveLength(0);
+        expect(rates).toHaveLength(2);
+        expect(rates[0]).toEqual({
+            effectiveDate: new Date('2024-03-01'),
+            fromCurrency: 'USD',
+            toCurrency: 'INR',
+            rate: 83.12,
+        });
+        expect(rates[1].fromCurrency).toBe('EUR');
+    });
+
+    it('should accept columns in any order and skip blank and comment lines', () => {
+        const csv = '# monthly rates\r\nRate,To,From,Date\r\n\r\n0.012,USD,INR,2024-03-01\r\n';
+        const { rates, errors } = parseRatesCsv(csv);
+
+        expect(errors).toHaveLength(0);
+        expect(rates).toEqual([
+            {
+                effectiveDate: new Date('2024-03-01'),
+                fromCurrency: 'INR',
+                toCurrency: 'USD',
+                rate: 0.012,
+            },
+        ]);
+    });
+
+    it('should report missing columns', () => {
+        const { rates, errors } = parseRatesCsv('date,from,rate\n2024-03-01,USD,83');
+
+        expect(rates).toHaveLength(0);
+        expect(errors).toEqual(['Missing column(s): to']);
+    });
+
+    it('should report an empty upload', () => {
+        expect(parseRatesCsv('  \n').errors).toEqual(['CSV is empty']);
+    });
+
+    it('should report each invalid line with its line number', () => {
+        const csv = [
+            'date,from,to,rate',
+            'not-a-date,USD,INR,83',
+            '2024-03-01,XYZ,INR,83',
+            '2024-03-01,USD,USD,1',
+            '2024-03-01,USD,INR,-5',
+            '2024-03-01,GBP,INR,105.2',
+        ].join('\n');
+        const { rates, errors } = parseRatesCsv(csv);
+
+        expect(rates).toHaveLength(1);
+        expect(errors).toEqual([
+            'Line 2: invalid date "not-a-date"',
+            'Line 3: unsupported currency "XYZ"',
+            'Line 4: from and to currency must be different',
+            'Line 5: rate must be a positive number',
+        ]);
+    });
+});
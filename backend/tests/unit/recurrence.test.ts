@@ -0,0 +1,120 @@
+/**
+ * Unit Tests for Recurrence Rules
+ *
+ * Tests when recurring expenses fall due for fixed frequencies
+ * and custom cron-like rules (all times UTC).
+ */
+
+import {
+    parseCronRule,
+    isValidCronRule,
+    getNextOccurrence,
+} from '../../src/utils/recurrence';
+import { RecurrenceFrequency } from '../../src/types';
+
+describe('Recurrence', () => {
+    const utc = (iso: string) => new Date(`${iso}Z`);
+
+    describe('parseCronRule', () => {
+        it('should parse lists, ranges and steps', () => {
+            const rule = parseCronRule('*/15 9-11 1,15 * 1-5');
+
+            expect([...rule.minutes]).toEqual([0, 15, 30, 45]);
+            expect([...rule.hours]).toEqual([9, 10, 11]);
+            expect([...rule.daysOfMonth]).toEqual([1, 15]);
+            expect(rule.months.size).toBe(12);
+            expect([...rule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+            expect(rule.anyDayOfMonth).toBe(false);
+            expect(rule.anyDayOfWeek).toBe(false);
+        });
+
+        it('should reject malformed rules', () => {
+            expect(isValidCronRule('0 9 1 *')).toBe(false);
+            expect(isValidCronRule('60 9 1 * *')).toBe(false);
+            expect(isValidCronRule('0 9 0 * *')).toBe(false);
+            expect(isValidCronRule('0 9 5-1 * *')).toBe(false);
+            expect(isValidCronRule('0 9 L * *')).toBe(false);
+            expect(isValidCronRule('0 9 1 * *')).toBe(true);
+        });
+
+        it('should explain what is wrong', () => {
+            expect(() => parseCronRule('0 25 * * *')).toThrow('Invalid hour field "25" (allowed 0-23)');
+        });
+    });
+
+    describe('getNextOccurrence', () => {
+        it('should treat the start date as the first occurrence', () => {
+            const startDate = utc('2024-03-01T09:00:00');
+            const schedule = { frequency: RecurrenceFrequency.DAILY, startDate };
+
+            expect(getNextOccurrence(schedule, utc('2024-02-01T00:00:00'))).toEqual(startDate);
+        });
+
+        it('should step daily and weekly by the interval', () => {
+            const startDate = utc('2024-03-01T09:00:00');
+
+            expect(getNextOccurrence(
+                { frequency: RecurrenceFrequency.DAILY, interval: 3, startDate },
+                startDate
+            )).toEqual(utc('2024-03-04T09:00:00'));
+            expect(getNextOccurrence(
+                { frequency: RecurrenceFrequency.WEEKLY, startDate },
+                utc('2024-03-10T12:00:00')
+            )).toEqual(utc('2024-03-15T09:00:00'));
+        });
+
+        it('should keep the day of month and clamp to short months', () => {
+            const schedule = { frequency: RecurrenceFrequency.MONTHLY, startDate: utc('2024-01-31T00:00:00') };
+
+            const feb = getNextOccurrence(schedule, schedule.startDate)!;
+            expect(feb).toEqual(utc('2024-02-29T00:00:00'));
+            // No drift to the 29th afterwards
+            expect(getNextOccurrence(schedule, feb)).toEqual(utc('2024-03-31T00:00:00'));
+            expect(getNextOccurrence(schedule, utc('2024-04-15T00:00:00'))).toEqual(utc('2024-04-30T00:00:00'));
+        });
+
+        it('should skip months by the interval', () => {
+            const schedule = {
+                frequency: RecurrenceFrequency.MONTHLY,
+                interval: 3,
+                startDate: utc('2024-01-05T00:00:00'),
+            };
+
+            expect(getNextOccurrence(schedule, utc('2024-01-05T00:00:00'))).toEqual(utc('2024-04-05T00:00:00'));
+            expect(getNextOccurrence(schedule, utc('2024-05-01T00:00:00'))).toEqual(utc('2024-07-05T00:00:00'));
+        });
+
+        it('should find the next cron match', () => {
+            const schedule = {
+                frequency: RecurrenceFrequency.CUSTOM,
+                cron: '0 9 1 * *', // 09:00 on the 1st of every month
+                startDate: utc('2024-01-01T00:00:00'),
+            };
+
+            expect(getNextOccurrence(schedule, utc('2024-01-01T09:00:00'))).toEqual(utc('2024-02-01T09:00:00'));
+            expect(getNextOccurrence(schedule, utc('2023-06-01T00:00:00'))).toEqual(utc('2024-01-01T09:00:00'));
+        });
+
+        it('should match either day field when both are restricted', () => {
+            const schedule = {
+                frequency: RecurrenceFrequency.CUSTOM,
+                cron: '0 0 15 * 1', // the 15th, or any Monday
+                startDate: utc('2024-01-01T00:00:00'),
+            };
+
+            // 2024-01-10 is a Wednesday; next Monday is the 15th anyway, then the 22nd
+            expect(getNextOccurrence(schedule, utc('2024-01-10T00:00:00'))).toEqual(utc('2024-01-15T00:00:00'));
+            expect(getNextOccurrence(schedule, utc('2024-01-15T00:00:00'))).toEqual(utc('2024-01-22T00:00:00'));
+        });
+
+        it('should return null for a cron rule that never matches', () => {
+            const schedule = {
+                frequency: RecurrenceFrequency.CUSTOM,
+                cron: '0 0 31 2 *', // February 31st
+                startDate: utc('2024-01-01T00:00:00'),
+            };
+
+            expect(getNextOccurrence(schedule, schedule.startDate)).toBeNull();
+        });
+    });
+});
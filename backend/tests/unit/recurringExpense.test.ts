@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for Recurring Expense Generation
+ *
+ * Models and transactions are mocked so no database is needed.
+ */
+
+import { Types } from 'mongoose';
+import {
+    materializeRecurringExpense,
+    runDueRecurringExpenses,
+} from '../../src/services/recurring.service';
+import { Balance, Expense, Group, RecurringExpense, User } from '../../src/models';
+import { RecurrenceFrequency, SplitType } from '../../src/types';
+
+jest.mock('../../src/models', () => ({
+    // Built expenses are plain objects with IDs cast like Mongoose would, and a save() stub
+    Expense: jest.fn((data: any) => {
+        const { ObjectId } = jest.requireActual('mongoose').Types;
+        return {
+            ...data,
+            _id: new ObjectId(),
+            paidBy: new ObjectId(data.paidBy),
+            splits: data.splits.map((s: any) => ({ ...s, user: new ObjectId(s.user) })),
+            save: jest.fn().mockResolvedValue(undefined),
+        };
+    }),
+    Balance: { updateOne: jest.fn() },
+    Group: { findById: jest.fn() },
+    User: { countDocuments: jest.fn() },
+    ExchangeRate: { findOne: jest.fn() },
+    RecurringExpense: { find: jest.fn(), updateOne: jest.fn() },
+    ExpenseHistory: {
+        aggregate: jest.fn(() => ({ session: jest.fn().mockResolvedValue([]) })),
+        insertMany: jest.fn(),
+    },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+describe('Recurring Expenses', () => {
+    const alice = new Types.ObjectId();
+    const bob = new Types.ObjectId();
+    const group = { _id: new Types.ObjectId(), members: [alice, bob], baseCurrency: 'INR' };
+
+    const makeRecurring = (overrides: any = {}) => ({
+        _id: new Types.ObjectId(),
+        group: group._id,
+        frequency: RecurrenceFrequency.MONTHLY,
+        interval: 1,
+        startDate: new Date('2024-01-01T00:00:00Z'),
+        nextRunAt: new Date('2024-01-01T00:00:00Z'),
+        paused: false,
+        template: {
+            description: 'Rent',
+            amount: 20000,
+            paidBy: alice.toString(),
+            splitType: SplitType.EQUAL,
+            splits: [{ userId: alice.toString() }, { userId: bob.toString() }],
+        },
+        createdBy: alice,
+        save: jest.fn().mockResolvedValue(undefined),
+        ...overrides,
+    });
+
+    // Expenses built so far
+    const builtExpenses = () => (Expense as unknown as jest.Mock).mock.results.map((r) => r.value);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (Group.findById as jest.Mock).mockResolvedValue(group);
+        (User.countDocuments as jest.Mock).mockResolvedValue(1);
+    });
+
+    it('should generate every occurrence that has fallen due', async () => {
+        const recurring = makeRecurring();
+
+        const created = await materializeRecurringExpense(
+            recurring as any,
+            new Date('2024-03-15T00:00:00Z')
+        );
+
+        expect(created).toBe(3); // Jan 1, Feb 1, Mar 1
+        expect(recurring.nextRunAt).toEqual(new Date('2024-04-01T00:00:00Z'));
+        expect(recurring.save).toHaveBeenCalledWith({ session: {} });
+        expect(recurring.save).toHaveBeenCalledTimes(3);
+
+        const expenses = builtExpenses();
+        expect(expenses).toHaveLength(3);
+        expenses.forEach((e) => expect(e.save).toHaveBeenCalledWith({ session: {} }));
+        // Each expense is dated when it fell due, not when it was generated
+        expect(expenses.map((e) => e.expenseDate)).toEqual([
+            new Date('2024-01-01T00:00:00Z'),
+            new Date('2024-02-01T00:00:00Z'),
+            new Date('2024-03-01T00:00:00Z'),
+        ]);
+
+        const expense = expenses[0];
+        expect(expense.description).toBe('Rent');
+        expect(expense.group).toBe(group._id.toString());
+        expect(expense.recurringExpense).toEqual(recurring._id);
+        expect(expense.splits.map((s: any) => s.amount)).toEqual([10000, 10000]);
+
+        // One ledger update per generated expense
+        expect(Balance.updateOne).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop at the end date', async () => {
+        const recurring = makeRecurring({ endDate: new Date('2024-02-15T00:00:00Z') });
+
+        const created = await materializeRecurringExpense(
+            recurring as any,
+            new Date('2024-06-01T00:00:00Z')
+        );
+
+        expect(created).toBe(2);
+        expect(recurring.nextRunAt).toBeUndefined();
+    });
+
+    it('should do nothing before the next due date', async () => {
+        const recurring = makeRecurring({ nextRunAt: new Date('2024-02-01T00:00:00Z') });
+
+        const created = await materializeRecurringExpense(
+            recurring as any,
+            new Date('2024-01-20T00:00:00Z')
+        );
+
+        expect(created).toBe(0);
+        expect(Expense).not.toHaveBeenCalled();
+    });
+
+    it('should pause a schedule whose template no longer fits the group', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const recurring = makeRecurring();
+        (RecurringExpense.find as jest.Mock).mockResolvedValue([recurring]);
+        // Bob left the group
+        (Group.findById as jest.Mock).mockResolvedValue({ ...group, members: [alice] });
+
+        const created = await runDueRecurringExpenses(new Date('2024-01-02T00:00:00Z'));
+
+        expect(created).toBe(0);
+        expect(RecurringExpense.updateOne).toHaveBeenCalledWith(
+            { _id: recurring._id },
+            { paused: true }
+        );
+        warn.mockRestore();
+    });
+
+    it('should pause a schedule whose splits no longer add up', async () => {
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const recurring = makeRecurring();
+        recurring.template = {
+            ...recurring.template,
+            splitType: SplitType.EXACT,
+            splits: [{ userId: alice.toString(), amount: 5000 }, { userId: bob.toString(), amount: 5000 }],
+        };
+        (RecurringExpense.find as jest.Mock).mockResolvedValue([recurring]);
+
+        const created = await runDueRecurringExpenses(new Date('2024-01-02T00:00:00Z'));
+
+        expect(created).toBe(0);
+        expect(RecurringExpense.updateOne).toHaveBeenCalledWith(
+            { _id: recurring._id },
+            { paused: true }
+        );
+        warn.mockRestore();
+    });
+
+    it('should only load active schedules that are due', async () => {
+        (RecurringExpense.find as jest.Mock).mockResolvedValue([]);
+        const now = new Date('2024-01-02T00:00:00Z');
+
+        await runDueRecurringExpenses(now);
+
+        expect(RecurringExpense.find).toHaveBeenCalledWith({
+            paused: false,
+            nextRunAt: { $lte: now },
+        });
+    });
+});
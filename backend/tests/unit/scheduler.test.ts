@@ -0,0 +1,107 @@
+/**
+ * Unit Tests for the In-process Job Scheduler
+ *
+ * Uses fake timers, so no real time passes.
+ */
+
+import { createScheduler } from '../../src/jobs/scheduler';
+
+describe('Job Scheduler', () => {
+    const MINUTE = 60 * 1000;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should run a job every interval once started', async () => {
+        const run = jest.fn().mockResolvedValue(undefined);
+        const scheduler = createScheduler();
+        scheduler.schedule({ name: 'job', intervalMs: MINUTE, run });
+
+        await jest.advanceTimersByTimeAsync(5 * MINUTE);
+        expect(run).not.toHaveBeenCalled();
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(MINUTE - 1);
+        expect(run).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+        expect(run).toHaveBeenCalledTimes(1);
+        await jest.advanceTimersByTimeAsync(2 * MINUTE);
+        expect(run).toHaveBeenCalledTimes(3);
+
+        scheduler.stop();
+    });
+
+    it('should run immediately when runOnStart is set', async () => {
+        const run = jest.fn().mockResolvedValue(undefined);
+        const scheduler = createScheduler();
+        scheduler.schedule({ name: 'job', intervalMs: MINUTE, run, runOnStart: true });
+
+        scheduler.start();
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(run).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+    });
+
+    it('should not overlap a slow run with the next one', async () => {
+        let finish: () => void = () => undefined;
+        const run = jest.fn(() => new Promise<void>((resolve) => {
+            finish = resolve;
+        }));
+        const scheduler = createScheduler();
+        scheduler.schedule({ name: 'slow', intervalMs: MINUTE, run });
+        scheduler.start();
+
+        await jest.advanceTimersByTimeAsync(5 * MINUTE);
+        expect(run).toHaveBeenCalledTimes(1);
+
+        // The next run is a full interval after the slow one finished
+        finish();
+        await jest.advanceTimersByTimeAsync(MINUTE);
+        expect(run).toHaveBeenCalledTimes(2);
+
+        scheduler.stop();
+    });
+
+    it('should keep running after a job fails', async () => {
+        const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const run = jest.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+        const scheduler = createScheduler();
+        scheduler.schedule({ name: 'flaky', intervalMs: MINUTE, run });
+        scheduler.start();
+
+        await jest.advanceTimersByTimeAsync(2 * MINUTE);
+
+        expect(run).toHaveBeenCalledTimes(2);
+        expect(error).toHaveBeenCalledTimes(1);
+        scheduler.stop();
+        error.mockRestore();
+    });
+
+    it('should stop running jobs when stopped', async () => {
+        const run = jest.fn().mockResolvedValue(undefined);
+        const scheduler = createScheduler();
+        scheduler.schedule({ name: 'job', intervalMs: MINUTE, run });
+        scheduler.start();
+
+        await jest.advanceTimersByTimeAsync(MINUTE);
+        scheduler.stop();
+        await jest.advanceTimersByTimeAsync(10 * MINUTE);
+
+        expect(run).toHaveBeenCalledTimes(1);
+        expect(scheduler.isRunning()).toBe(false);
+    });
+
+    it('should refuse to schedule the same job twice', () => {
+        const scheduler = createScheduler();
+        const job = { name: 'job', intervalMs: MINUTE, run: jest.fn() };
+        scheduler.schedule(job);
+
+        expect(() => scheduler.schedule(job)).toThrow('already scheduled');
+    });
+});
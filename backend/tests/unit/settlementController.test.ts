@@ -0,0 +1,580 @@
+/**
+ * Unit Tests for Settlement Controller
+ *
+ * Regression tests for the confirm/reject flows and for balances
+ * honouring settlement status. Models and transactions are mocked so
+ * no database is needed.
+ */
+
+import { Request, NextFunction } from 'express';
+import { Types } from 'mongoose';
+import {
+    confirmSettlement,
+    rejectSettlement,
+    cancelSettlement,
+    disputeSettlement,
+    settleCrossGroup,
+    createBatchSettlements,
+} from '../../src/controllers/settlement.controller';
+import {
+    getUserBalances,
+    getSettlementSuggestions,
+    getGroupPlanHash,
+} from '../../src/services/balance.service';
+import { Balance, Group, Settlement, User } from '../../src/models';
+import { SettlementStatus } from '../../src/types';
+import { query } from '../helpers/query';
+import { response } from '../helpers/response';
+
+jest.mock('../../src/models', () => ({
+    Balance: { find: jest.fn(), updateOne: jest.fn() },
+    Expense: { find: jest.fn() },
+    Group: { find: jest.fn(), findById: jest.fn() },
+    Settlement: { find: jest.fn(), findById: jest.fn(), create: jest.fn() },
+    User: { findById: jest.fn(), find: jest.fn() },
+    ExchangeRate: { find: jest.fn() },
+}));
+
+jest.mock('../../src/services/ledger.service', () => ({
+    ...jest.requireActual('../../src/services/ledger.service'),
+    runInTransaction: jest.fn((fn: any) => fn({})),
+}));
+
+describe('Settlement Controller', () => {
+    const alice = { _id: new Types.ObjectId(), name: 'Alice' };
+    const bob = { _id: new Types.ObjectId(), name: 'Bob' };
+
+    const makeSettlement = (status: SettlementStatus) => ({
+        fromUser: alice._id,
+        toUser: bob._id,
+        amount: 500,
+        exchangeRate: 1,
+        status,
+        statusHistory: [] as any[],
+        save: jest.fn().mockResolvedValue(undefined),
+        populate: jest.fn().mockResolvedValue(undefined),
+    });
+
+    const makeRequest = (userId: Types.ObjectId) =>
+        ({ params: { id: new Types.ObjectId().toString() }, user: { _id: userId } }) as unknown as Request;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('confirmSettlement', () => {
+        it('should confirm a pending settlement for the receiver', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const res = response();
+            const next = jest.fn() as NextFunction;
+
+            await confirmSettlement(makeRequest(bob._id), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(settlement.status).toBe(SettlementStatus.CONFIRMED);
+            expect((settlement as any).confirmedAt).toBeInstanceOf(Date);
+            expect(settlement.save).toHaveBeenCalledWith({ session: {} });
+            expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+        });
+
+        it('should move the confirmed payment into the balance ledger', async () => {
+            (Settlement.findById as jest.Mock).mockResolvedValue(
+                makeSettlement(SettlementStatus.PENDING)
+            );
+
+            await confirmSettlement(makeRequest(bob._id), response(), jest.fn());
+
+            // Alice paid Bob 500, so Bob now "owes" Alice 500 against her debt
+            const aliceFirst = alice._id.toString() < bob._id.toString();
+            expect(Balance.updateOne).toHaveBeenCalledTimes(1);
+            expect(Balance.updateOne).toHaveBeenCalledWith(
+                {
+                    group: null,
+                    fromUser: aliceFirst ? alice._id : bob._id,
+                    toUser: aliceFirst ? bob._id : alice._id,
+                },
+                { $inc: { amount: aliceFirst ? -500 : 500 } },
+                { upsert: true, session: {} }
+            );
+        });
+
+        it('should not let the payer confirm their own payment', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await confirmSettlement(makeRequest(alice._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+            expect(settlement.status).toBe(SettlementStatus.PENDING);
+            expect(settlement.save).not.toHaveBeenCalled();
+        });
+
+        it('should not confirm a rejected settlement', async () => {
+            const settlement = makeSettlement(SettlementStatus.REJECTED);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await confirmSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(
+                expect.objectContaining({ statusCode: 400, message: 'Settlement already rejected' })
+            );
+            expect(settlement.status).toBe(SettlementStatus.REJECTED);
+        });
+
+        it('should return 404 for an unknown settlement', async () => {
+            (Settlement.findById as jest.Mock).mockResolvedValue(null);
+            const next = jest.fn();
+
+            await confirmSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 404 }));
+        });
+    });
+
+    describe('rejectSettlement', () => {
+        it('should reject a pending settlement for the receiver', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const res = response();
+            const next = jest.fn();
+
+            await rejectSettlement(makeRequest(bob._id), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(settlement.status).toBe(SettlementStatus.REJECTED);
+            expect(settlement.save).toHaveBeenCalled();
+            expect(Balance.updateOne).not.toHaveBeenCalled();
+        });
+
+        it('should not reject an already confirmed settlement', async () => {
+            const settlement = makeSettlement(SettlementStatus.CONFIRMED);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await rejectSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(
+                expect.objectContaining({ statusCode: 400, message: 'Settlement already confirmed' })
+            );
+            expect(settlement.status).toBe(SettlementStatus.CONFIRMED);
+        });
+    });
+
+    describe('cancelSettlement', () => {
+        it('should let the payer cancel a pending settlement', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await cancelSettlement(makeRequest(alice._id), response(), next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(settlement.status).toBe(SettlementStatus.CANCELLED);
+            expect(settlement.statusHistory).toEqual([
+                expect.objectContaining({
+                    from: SettlementStatus.PENDING,
+                    to: SettlementStatus.CANCELLED,
+                    changedBy: alice._id,
+                }),
+            ]);
+            expect(Balance.updateOne).not.toHaveBeenCalled();
+        });
+
+        it('should not let the receiver cancel', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await cancelSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+            expect(settlement.status).toBe(SettlementStatus.PENDING);
+        });
+
+        it('should not cancel a confirmed settlement', async () => {
+            const settlement = makeSettlement(SettlementStatus.CONFIRMED);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await cancelSettlement(makeRequest(alice._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+        });
+    });
+
+    describe('disputeSettlement', () => {
+        const disputeRequest = (userId: Types.ObjectId) =>
+            ({
+                params: { id: new Types.ObjectId().toString() },
+                body: { reason: 'Never received it' },
+                user: { _id: userId },
+            }) as unknown as Request;
+
+        it('should record the reason in the status history', async () => {
+            const settlement = makeSettlement(SettlementStatus.PENDING);
+            (Settlement.findById as jest.Mock).mockResolvedValue(settlement);
+            const next = jest.fn();
+
+            await disputeSettlement(disputeRequest(bob._id), response(), next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(settlement.status).toBe(SettlementStatus.DISPUTED);
+            expect(settlement.statusHistory[0]).toEqual(expect.objectContaining({
+                from: SettlementStatus.PENDING,
+                to: SettlementStatus.DISPUTED,
+                changedBy: bob._id,
+                reason: 'Never received it',
+            }));
+        });
+
+        it('should take a disputed confirmed payment back out of the ledger', async () => {
+            (Settlement.findById as jest.Mock).mockResolvedValue(
+                makeSettlement(SettlementStatus.CONFIRMED)
+            );
+            const next = jest.fn();
+
+            await disputeSettlement(disputeRequest(alice._id), response(), next);
+
+            const aliceFirst = alice._id.toString() < bob._id.toString();
+            expect(next).not.toHaveBeenCalled();
+            expect(Balance.updateOne).toHaveBeenCalledWith(
+                expect.anything(),
+                { $inc: { amount: aliceFirst ? 500 : -500 } },
+                expect.anything()
+            );
+        });
+
+        it('should not let outsiders dispute', async () => {
+            (Settlement.findById as jest.Mock).mockResolvedValue(
+                makeSettlement(SettlementStatus.PENDING)
+            );
+            const next = jest.fn();
+
+            await disputeSettlement(disputeRequest(new Types.ObjectId()), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+        });
+    });
+
+    describe('cross-group settle-up', () => {
+        const goa = { _id: new Types.ObjectId(), name: 'Goa Trip', baseCurrency: 'INR' };
+        const flat = { _id: new Types.ObjectId(), name: 'Flat', baseCurrency: 'INR' };
+        const aliceFirst = alice._id.toString() < bob._id.toString();
+
+        // Ledger entry where `debtor` owes `creditor` in `group`
+        const owes = (debtor: Types.ObjectId, creditor: Types.ObjectId, amount: number, group: any) => ({
+            group,
+            fromUser: aliceFirst ? alice._id : bob._id,
+            toUser: aliceFirst ? bob._id : alice._id,
+            amount: (debtor.toString() < creditor.toString()) ? amount : -amount,
+        });
+
+        it('should record one linked settlement per group in a transaction', async () => {
+            (User.findById as jest.Mock).mockResolvedValue(bob);
+            // Alice owes Bob 500 in Goa; Bob owes Alice 800 in Flat
+            (Balance.find as jest.Mock).mockReturnValue(query([
+                owes(alice._id, bob._id, 500, goa),
+                owes(bob._id, alice._id, 800, flat),
+            ]));
+            (Settlement.create as jest.Mock).mockImplementation(async (docs) => docs);
+            const req = {
+                body: { userId: bob._id.toString() },
+                user: { _id: alice._id },
+            } as unknown as Request;
+            const res = response();
+            const next = jest.fn();
+
+            await settleCrossGroup(req, res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(201);
+            const [docs, options] = (Settlement.create as jest.Mock).mock.calls[0];
+            expect(options).toEqual({ session: {}, ordered: true });
+            expect(docs).toHaveLength(2);
+            expect(docs).toEqual(expect.arrayContaining([
+                expect.objectContaining({ fromUser: alice._id, toUser: bob._id.toString(), amount: 500, group: goa._id.toString() }),
+                expect.objectContaining({ fromUser: bob._id.toString(), toUser: alice._id, amount: 800, group: flat._id.toString() }),
+            ]));
+            expect(docs[0].linkId).toBe(docs[1].linkId);
+            expect((res.json as jest.Mock).mock.calls[0][0].data.netAmount).toBe(300);
+        });
+
+        it('should refuse when there is nothing to settle', async () => {
+            (User.findById as jest.Mock).mockResolvedValue(bob);
+            (Balance.find as jest.Mock).mockReturnValue(query([]));
+            const next = jest.fn();
+
+            await settleCrossGroup(
+                { body: { userId: bob._id.toString() }, user: { _id: alice._id } } as unknown as Request,
+                response(),
+                next
+            );
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+            expect(Settlement.create).not.toHaveBeenCalled();
+        });
+
+        it('should let the other party confirm all linked settlements together', async () => {
+            const linkId = new Types.ObjectId();
+            const linked = (from: Types.ObjectId, to: Types.ObjectId) => ({
+                ...makeSettlement(SettlementStatus.PENDING),
+                _id: new Types.ObjectId(),
+                fromUser: from,
+                toUser: to,
+                linkId,
+                createdBy: alice._id,
+            });
+            const first = linked(alice._id, bob._id);
+            const second = linked(bob._id, alice._id);
+            (Settlement.findById as jest.Mock).mockResolvedValue(second);
+            (Settlement.find as jest.Mock).mockResolvedValue([first]);
+            const next = jest.fn();
+
+            // Bob is the payer of `second`, but as the other party he confirms the link
+            await confirmSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(first.status).toBe(SettlementStatus.CONFIRMED);
+            expect(second.status).toBe(SettlementStatus.CONFIRMED);
+            expect(Balance.updateOne).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not let the recorder confirm their own settle-up', async () => {
+            (Settlement.findById as jest.Mock).mockResolvedValue({
+                ...makeSettlement(SettlementStatus.PENDING),
+                linkId: new Types.ObjectId(),
+                createdBy: bob._id,
+            });
+            const next = jest.fn();
+
+            await confirmSettlement(makeRequest(bob._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+        });
+    });
+
+    describe('batch settle-up', () => {
+        const carol = { _id: new Types.ObjectId(), name: 'Carol' };
+        const group = {
+            _id: new Types.ObjectId(),
+            members: [alice._id, bob._id, carol._id],
+            memberRoles: [],
+            baseCurrency: 'INR',
+            simplifyDebts: true,
+            createdBy: alice._id,
+        };
+        const groupId = group._id.toString();
+        const aliceFirst = alice._id.toString() < bob._id.toString();
+
+        // Alice owes Bob 1000 in the group
+        const ledger = [{
+            group: group._id,
+            fromUser: aliceFirst ? alice : bob,
+            toUser: aliceFirst ? bob : alice,
+            amount: aliceFirst ? 1000 : -1000,
+        }];
+
+        const makeBatchRequest = (body: any, userId = alice._id) =>
+            ({ body: { groupId, ...body }, user: { _id: userId } }) as unknown as Request;
+
+        beforeEach(() => {
+            (Group.findById as jest.Mock).mockReturnValue(query(group));
+            (Balance.find as jest.Mock).mockReturnValue(query(ledger));
+            (Settlement.find as jest.Mock).mockReturnValue(query([]));
+            (Settlement.create as jest.Mock).mockImplementation(async (docs) => docs);
+            (User.find as jest.Mock).mockReturnValue(query([]));
+        });
+
+        it('should record the selected transfers in one transaction', async () => {
+            const planHash = await getGroupPlanHash(groupId);
+            const res = response();
+            const next = jest.fn();
+
+            await createBatchSettlements(makeBatchRequest({
+                planHash,
+                settlements: [{ fromUserId: alice._id.toString(), toUserId: bob._id.toString(), amount: 600 }],
+            }), res, next);
+
+            expect(next).not.toHaveBeenCalled();
+            expect(res.status).toHaveBeenCalledWith(201);
+            const [docs, options] = (Settlement.create as jest.Mock).mock.calls[0];
+            expect(options).toEqual({ session: {}, ordered: true });
+            expect(docs).toEqual([
+                expect.objectContaining({ amount: 600, currency: 'INR', group: groupId, createdBy: alice._id }),
+            ]);
+        });
+
+        it('should confirm payments to members who have not signed up', async () => {
+            const planHash = await getGroupPlanHash(groupId);
+            (User.find as jest.Mock).mockReturnValue(query([{ _id: bob._id }]));
+            (Settlement.create as jest.Mock).mockImplementation(async (docs) =>
+                docs.map((doc: any) => ({
+                    ...makeSettlement(SettlementStatus.PENDING),
+                    ...doc,
+                    fromUser: new Types.ObjectId(doc.fromUser),
+                    toUser: new Types.ObjectId(doc.toUser),
+                }))
+            );
+            const res = response();
+
+            await createBatchSettlements(makeBatchRequest({
+                planHash,
+                settlements: [{ fromUserId: alice._id.toString(), toUserId: bob._id.toString(), amount: 600 }],
+            }), res, jest.fn());
+
+            const [settlement] = (res.json as jest.Mock).mock.calls[0][0].data;
+            expect(User.find).toHaveBeenCalledWith({ _id: { $in: [bob._id] }, isPlaceholder: true });
+            expect(settlement.status).toBe(SettlementStatus.CONFIRMED);
+            expect(settlement.statusHistory[0]).toEqual(expect.objectContaining({
+                changedBy: alice._id,
+                reason: 'Receiver has not signed up',
+            }));
+            expect(Balance.updateOne).toHaveBeenCalled();
+        });
+
+        it('should only let group admins record payments between other members', async () => {
+            const planHash = await getGroupPlanHash(groupId);
+            const next = jest.fn();
+
+            await createBatchSettlements(makeBatchRequest({
+                planHash,
+                settlements: [{ fromUserId: alice._id.toString(), toUserId: bob._id.toString(), amount: 600 }],
+            }, carol._id), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 403 }));
+            expect(Settlement.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject a plan computed from older balances', async () => {
+            const planHash = await getGroupPlanHash(groupId);
+            (Balance.find as jest.Mock).mockReturnValue(query([{ ...ledger[0], amount: ledger[0].amount / 2 }]));
+            const next = jest.fn();
+
+            await createBatchSettlements(makeBatchRequest({
+                planHash,
+                settlements: [{ fromUserId: alice._id.toString(), toUserId: bob._id.toString(), amount: 500 }],
+            }), response(), next);
+
+            expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 409 }));
+            expect(Settlement.create).not.toHaveBeenCalled();
+        });
+
+        it('should reject transfers that are not in the plan', async () => {
+            const planHash = await getGroupPlanHash(groupId);
+
+            for (const transfer of [
+                { fromUserId: bob._id.toString(), toUserId: alice._id.toString(), amount: 500 },
+                { fromUserId: alice._id.toString(), toUserId: bob._id.toString(), amount: 1500 },
+            ]) {
+                const next = jest.fn();
+                await createBatchSettlements(
+                    makeBatchRequest({ planHash, settlements: [transfer] }),
+                    response(),
+                    next
+                );
+                expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+            }
+            expect(Settlement.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('balances', () => {
+        // Ledger: Alice owes Bob 1000 for an expense Bob paid
+        const aliceFirst = alice._id.toString() < bob._id.toString();
+        const ledgerEntry = (amount: number) => ({
+            group: null,
+            fromUser: aliceFirst ? alice : bob,
+            toUser: aliceFirst ? bob : alice,
+            amount: aliceFirst ? amount : -amount,
+        });
+
+        const pendingPayment = (amount: number) => ({
+            fromUser: alice._id,
+            toUser: bob._id,
+            amount,
+            exchangeRate: 1,
+            status: SettlementStatus.PENDING,
+        });
+
+        beforeEach(() => {
+            (Group.find as jest.Mock).mockReturnValue(query([]));
+        });
+
+        it('should read balances from the ledger', async () => {
+            (Balance.find as jest.Mock).mockReturnValue(query([ledgerEntry(1000)]));
+            (Settlement.find as jest.Mock).mockReturnValue(query([]));
+
+            const summary = await getUserBalances(alice._id.toString());
+
+            expect(summary.totalOwing).toBe(1000);
+            expect(summary.balances).toEqual([
+                { userId: bob._id.toString(), userName: 'Bob', amount: -1000 },
+            ]);
+        });
+
+        it('should report pending settlements separately without reducing the debt', async () => {
+            (Balance.find as jest.Mock).mockReturnValue(query([ledgerEntry(1000)]));
+            (Settlement.find as jest.Mock).mockReturnValue(query([pendingPayment(400)]));
+
+            const aliceSummary = await getUserBalances(alice._id.toString());
+            expect(aliceSummary.totalOwing).toBe(1000);
+            expect(aliceSummary.pendingOutgoing).toBe(400);
+            expect(aliceSummary.pendingIncoming).toBe(0);
+
+            const bobSummary = await getUserBalances(bob._id.toString());
+            expect(bobSummary.totalOwed).toBe(1000);
+            expect(bobSummary.pendingIncoming).toBe(400);
+        });
+
+        it('should only load pending settlements besides the ledger', async () => {
+            (Balance.find as jest.Mock).mockReturnValue(query([]));
+            (Settlement.find as jest.Mock).mockReturnValue(query([]));
+
+            await getUserBalances(alice._id.toString());
+
+            expect(Settlement.find).toHaveBeenCalledWith(
+                expect.objectContaining({ status: SettlementStatus.PENDING })
+            );
+        });
+
+        it('should suggest settlements from the group ledger', async () => {
+            (Balance.find as jest.Mock).mockReturnValue(query([ledgerEntry(1000)]));
+            (Group.findById as jest.Mock).mockReturnValue(query({ simplifyDebts: true }));
+
+            const suggestions = await getSettlementSuggestions(new Types.ObjectId().toString());
+
+            expect(suggestions).toEqual([
+                expect.objectContaining({
+                    from: expect.objectContaining({ userName: 'Alice' }),
+                    to: expect.objectContaining({ userName: 'Bob' }),
+                    amount: 1000,
+                }),
+            ]);
+        });
+
+        it('should only settle along existing debts when the group does not simplify', async () => {
+            const carol = { _id: new Types.ObjectId(), name: 'Carol' };
+            const pair = (from: typeof alice, to: typeof alice, amount: number) =>
+                from._id.toString() < to._id.toString()
+                    ? { group: null, fromUser: from, toUser: to, amount }
+                    : { group: null, fromUser: to, toUser: from, amount: -amount };
+
+            // Alice owes Bob 300, Bob owes Carol 300
+            (Balance.find as jest.Mock).mockReturnValue(query([
+                pair(alice, bob, 300),
+                pair(bob, carol, 300),
+            ]));
+            (Group.findById as jest.Mock).mockReturnValue(query({ simplifyDebts: false }));
+
+            const suggestions = await getSettlementSuggestions(new Types.ObjectId().toString());
+
+            expect(suggestions.map((s) => [s.from.userName, s.to.userName, s.amount])).toEqual(
+                expect.arrayContaining([['Alice', 'Bob', 300], ['Bob', 'Carol', 300]])
+            );
+            expect(suggestions).toHaveLength(2);
+        });
+    });
+});
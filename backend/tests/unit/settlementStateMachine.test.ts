@@ -0,0 +1,75 @@
+/**
+ * Unit Tests for the Settlement State Machine
+ *
+ * Tests which status changes are allowed and who may make them.
+ */
+
+import { checkTransition, SettlementActor } from '../../src/utils/settlementStateMachine';
+import { SettlementStatus } from '../../src/types';
+
+describe('Settlement State Machine', () => {
+    const { PAYER, RECEIVER } = SettlementActor;
+
+    describe('checkTransition', () => {
+        it('should let only the receiver confirm or reject a pending settlement', () => {
+            for (const to of [SettlementStatus.CONFIRMED, SettlementStatus.REJECTED]) {
+                expect(checkTransition(SettlementStatus.PENDING, to, RECEIVER)).toEqual({ allowed: true });
+                expect(checkTransition(SettlementStatus.PENDING, to, PAYER)).toEqual({
+                    allowed: false,
+                    reason: 'FORBIDDEN',
+                });
+            }
+        });
+
+        it('should let only the payer cancel', () => {
+            expect(checkTransition(SettlementStatus.PENDING, SettlementStatus.CANCELLED, PAYER).allowed).toBe(true);
+            expect(checkTransition(SettlementStatus.DISPUTED, SettlementStatus.CANCELLED, PAYER).allowed).toBe(true);
+            expect(checkTransition(SettlementStatus.PENDING, SettlementStatus.CANCELLED, RECEIVER)).toEqual({
+                allowed: false,
+                reason: 'FORBIDDEN',
+            });
+        });
+
+        it('should not cancel a confirmed settlement', () => {
+            expect(checkTransition(SettlementStatus.CONFIRMED, SettlementStatus.CANCELLED, PAYER)).toEqual({
+                allowed: false,
+                reason: 'INVALID_TRANSITION',
+            });
+        });
+
+        it('should let either party dispute a pending or confirmed settlement', () => {
+            for (const from of [SettlementStatus.PENDING, SettlementStatus.CONFIRMED]) {
+                expect(checkTransition(from, SettlementStatus.DISPUTED, PAYER).allowed).toBe(true);
+                expect(checkTransition(from, SettlementStatus.DISPUTED, RECEIVER).allowed).toBe(true);
+            }
+        });
+
+        it('should let the receiver resolve a dispute by confirming', () => {
+            expect(checkTransition(SettlementStatus.DISPUTED, SettlementStatus.CONFIRMED, RECEIVER).allowed).toBe(true);
+            expect(checkTransition(SettlementStatus.DISPUTED, SettlementStatus.CONFIRMED, PAYER).allowed).toBe(false);
+        });
+
+        it('should forbid outsiders', () => {
+            expect(checkTransition(SettlementStatus.PENDING, SettlementStatus.DISPUTED, null)).toEqual({
+                allowed: false,
+                reason: 'FORBIDDEN',
+            });
+        });
+
+        it('should treat rejected and cancelled as final', () => {
+            for (const from of [SettlementStatus.REJECTED, SettlementStatus.CANCELLED]) {
+                for (const to of Object.values(SettlementStatus)) {
+                    expect(checkTransition(from, to, PAYER)).toEqual({ allowed: false, reason: 'INVALID_TRANSITION' });
+                    expect(checkTransition(from, to, RECEIVER)).toEqual({ allowed: false, reason: 'INVALID_TRANSITION' });
+                }
+            }
+        });
+
+        it('should report invalid transitions before permissions', () => {
+            expect(checkTransition(SettlementStatus.REJECTED, SettlementStatus.CONFIRMED, null)).toEqual({
+                allowed: false,
+                reason: 'INVALID_TRANSITION',
+            });
+        });
+    });
+});
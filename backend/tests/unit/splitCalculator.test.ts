@@ -5,8 +5,8 @@
  * Run with: npm test
  */
 
-import { calculateSplits } from '../src/utils/splitCalculator';
-import { SplitType } from '../src/types';
+import { calculateSplits } from '../../src/utils/splitCalculator';
+import { SplitType } from '../../src/types';
 
 describe('Split Calculator', () => {
     describe('EQUAL Split', () => {
@@ -152,4 +152,208 @@ describe('Split Calculator', () => {
             expect(total).toBe(1000);
         });
     });
+
+    describe('SHARES Split', () => {
+        it('should split amount in proportion to shares', () => {
+            const result = calculateSplits(
+                1000,
+                SplitType.SHARES,
+                [
+                    { userId: '507f1f77bcf86cd799439011', amount: 2 }, // 2 drinks
+                    { userId: '507f1f77bcf86cd799439012', amount: 3 }, // 3 drinks
+                ]
+            );
+
+            expect(result).toHaveLength(2);
+            expect(result[0].share).toBe(400);
+            expect(result[1].share).toBe(600);
+            // Weight is stored as amount
+            expect(result[0].amount).toBe(2);
+        });
+
+        it('should spread leftover units one at a time', () => {
+            const result = calculateSplits(
+                100,
+                SplitType.SHARES,
+                [
+                    { userId: '507f1f77bcf86cd799439011', amount: 1 },
+                    { userId: '507f1f77bcf86cd799439012', amount: 1 },
+                    { userId: '507f1f77bcf86cd799439013', amount: 1 },
+                ]
+            );
+
+            // Same as an equal split: first person gets the extra unit
+            expect(result.map((s) => s.share)).toEqual([34, 33, 33]);
+        });
+
+        it('should give leftover units to the largest fractions first', () => {
+            const result = calculateSplits(
+                10,
+                SplitType.SHARES,
+                [
+                    { userId: '507f1f77bcf86cd799439011', amount: 1 }, // 1.666...
+                    { userId: '507f1f77bcf86cd799439012', amount: 2 }, // 3.333...
+                    { userId: '507f1f77bcf86cd799439013', amount: 3 }, // 5
+                ]
+            );
+
+            expect(result.map((s) => s.share)).toEqual([2, 3, 5]);
+        });
+
+        it('should give nothing to participants with zero shares', () => {
+            const result = calculateSplits(
+                101,
+                SplitType.SHARES,
+                [
+                    { userId: '507f1f77bcf86cd799439011', amount: 0 },
+                    { userId: '507f1f77bcf86cd799439012', amount: 2 },
+                ]
+            );
+
+            expect(result[0].share).toBe(0);
+            expect(result[1].share).toBe(101);
+        });
+
+        it('should throw error if shares are missing', () => {
+            expect(() => {
+                calculateSplits(
+                    1000,
+                    SplitType.SHARES,
+                    [
+                        { userId: '507f1f77bcf86cd799439011', amount: 2 },
+                        { userId: '507f1f77bcf86cd799439012' }, // Missing shares
+                    ]
+                );
+            }).toThrow('Each split must have a non-negative number of shares');
+        });
+
+        it('should throw error if total shares is zero', () => {
+            expect(() => {
+                calculateSplits(
+                    1000,
+                    SplitType.SHARES,
+                    [
+                        { userId: '507f1f77bcf86cd799439011', amount: 0 },
+                        { userId: '507f1f77bcf86cd799439012', amount: 0 },
+                    ]
+                );
+            }).toThrow('Total shares must be greater than 0');
+        });
+    });
+
+    describe('ADJUSTMENT Split', () => {
+        it('should split equally and apply adjustments on top', () => {
+            const result = calculateSplits(
+                1200,
+                SplitType.ADJUSTMENT,
+                [
+                    { userId: '507f1f77bcf86cd799439011' },
+                    { userId: '507f1f77bcf86cd799439012', adjustment: 200 }, // Ordered wine
+                    { userId: '507f1f77bcf86cd799439013' },
+                ]
+            );
+
+            // (1200 - 200) / 3 = 333.33 each, Bob pays 200 more
+            expect(result.map((s) => s.share)).toEqual([334, 533, 333]);
+            expect(result.reduce((sum, s) => sum + s.share, 0)).toBe(1200);
+        });
+
+        it('should keep the adjustment on each split', () => {
+            const result = calculateSplits(
+                1000,
+                SplitType.ADJUSTMENT,
+                [
+                    { userId: '507f1f77bcf86cd799439011', adjustment: -100 },
+                    { userId: '507f1f77bcf86cd799439012', adjustment: 100 },
+                ]
+            );
+
+            expect(result[0].share).toBe(400);
+            expect(result[1].share).toBe(600);
+            expect(result[0].adjustment).toBe(-100);
+            expect(result[1].adjustment).toBe(100);
+        });
+
+        it('should throw error if an adjustment makes a share negative', () => {
+            expect(() => {
+                calculateSplits(
+                    1000,
+                    SplitType.ADJUSTMENT,
+                    [
+                        { userId: '507f1f77bcf86cd799439011', adjustment: -1200 },
+                        { userId: '507f1f77bcf86cd799439012' },
+                    ]
+                );
+            }).toThrow('makes a share negative');
+        });
+    });
+
+    describe('ITEMIZED Split', () => {
+        const alice = '507f1f77bcf86cd799439011';
+        const bob = '507f1f77bcf86cd799439012';
+        const charlie = '507f1f77bcf86cd799439013';
+        const splits = [{ userId: alice }, { userId: bob }, { userId: charlie }];
+
+        it('should split each item among the people who shared it', () => {
+            const result = calculateSplits(1500, SplitType.ITEMIZED, splits, {
+                items: [
+                    { name: 'Pizza', price: 900, sharedBy: [alice, bob, charlie] },
+                    { name: 'Wine', price: 600, sharedBy: [bob] },
+                ],
+            });
+
+            expect(result.map((s) => s.share)).toEqual([300, 900, 300]);
+            // Item subtotal is stored as amount
+            expect(result[1].amount).toBe(900);
+        });
+
+        it('should spread charges in proportion to item subtotals', () => {
+            const result = calculateSplits(1200, SplitType.ITEMIZED, splits, {
+                items: [
+                    { name: 'Pasta', price: 200, sharedBy: [alice] },
+                    { name: 'Steak', price: 600, sharedBy: [bob] },
+                    { name: 'Salad', price: 200, sharedBy: [charlie] },
+                ],
+                tax: 100,
+                serviceCharge: 50,
+                tip: 50,
+            });
+
+            // 200 of charges spread 20% / 60% / 20%
+            expect(result.map((s) => s.share)).toEqual([240, 720, 240]);
+            expect(result.reduce((sum, s) => sum + s.share, 0)).toBe(1200);
+        });
+
+        it('should give nothing to participants with no items', () => {
+            const result = calculateSplits(1100, SplitType.ITEMIZED, splits, {
+                items: [{ name: 'Thali', price: 1000, sharedBy: [alice, bob] }],
+                tip: 100,
+            });
+
+            expect(result.map((s) => s.share)).toEqual([550, 550, 0]);
+        });
+
+        it('should throw error if items and charges do not sum to total', () => {
+            expect(() => {
+                calculateSplits(1000, SplitType.ITEMIZED, splits, {
+                    items: [{ name: 'Thali', price: 800, sharedBy: [alice] }],
+                    tax: 100,
+                });
+            }).toThrow('Items (800) plus charges (100) must equal total amount (1000)');
+        });
+
+        it('should throw error if an item is shared by a non-participant', () => {
+            expect(() => {
+                calculateSplits(500, SplitType.ITEMIZED, [{ userId: alice }], {
+                    items: [{ name: 'Fries', price: 500, sharedBy: [alice, bob] }],
+                });
+            }).toThrow('who is not in the splits');
+        });
+
+        it('should throw error if no items are given', () => {
+            expect(() => {
+                calculateSplits(500, SplitType.ITEMIZED, splits);
+            }).toThrow('At least one item is required for ITEMIZED split');
+        });
+    });
 });
@@ -1,7 +1,7 @@
 import React from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate, useSearchParams } from 'react-router-dom';
 import { Toaster } from 'react-hot-toast';
-import { AuthProvider, useAuth } from './context/AuthContext';
+import { AuthProvider, useAuth, getRedirectPath } from './context/AuthContext';
 import Layout from './components/Layout';
 
 // Pages
@@ -13,6 +13,8 @@ import CreateGroup from './pages/CreateGroup';
 import GroupDetail from './pages/GroupDetail';
 import Expenses from './pages/Expenses';
 import CreateExpense from './pages/CreateExpense';
+import ExpenseDetail from './pages/ExpenseDetail';
+import JoinGroup from './pages/JoinGroup';
 
 // Protected Route wrapper
 const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -33,9 +35,10 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
     return <>{children}</>;
 };
 
-// Public Route wrapper (redirect to home if authenticated)
+// Public Route wrapper (redirect to home, or the `redirect` param, if authenticated)
 const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     const { isAuthenticated, isLoading } = useAuth();
+    const [searchParams] = useSearchParams();
 
     if (isLoading) {
         return (
@@ -46,7 +49,7 @@ const PublicRoute: React.FC<{ children: React.ReactNode }> = ({ children }) => {
     }
 
     if (isAuthenticated) {
-        return <Navigate to="/" replace />;
+        return <Navigate to={getRedirectPath(searchParams)} replace />;
     }
 
     return <>{children}</>;
@@ -73,6 +76,9 @@ const AppRoutes: React.FC = () => {
                 }
             />
 
+            {/* Invite links work signed in or out */}
+            <Route path="/join/:token" element={<JoinGroup />} />
+
             {/* Protected Routes */}
             <Route
                 path="/"
@@ -134,6 +140,16 @@ const AppRoutes: React.FC = () => {
                     </ProtectedRoute>
                 }
             />
+            <Route
+                path="/expenses/:id"
+                element={
+                    <ProtectedRoute>
+                        <Layout>
+                            <ExpenseDetail />
+                        </Layout>
+                    </ProtectedRoute>
+                }
+            />
 
             {/* Fallback */}
             <Route path="*" element={<Navigate to="/" replace />} />
@@ -0,0 +1,46 @@
+import React from 'react';
+import {
+    Utensils,
+    ShoppingCart,
+    Car,
+    BedDouble,
+    Lightbulb,
+    Home,
+    Clapperboard,
+    ShoppingBag,
+    HeartPulse,
+    Receipt,
+    Tag,
+    type LucideIcon,
+} from 'lucide-react';
+
+// Icons for the built-in categories; custom categories show their emoji
+const categoryIcons: Record<string, LucideIcon> = {
+    Food: Utensils,
+    Groceries: ShoppingCart,
+    Transport: Car,
+    Lodging: BedDouble,
+    Utilities: Lightbulb,
+    Rent: Home,
+    Entertainment: Clapperboard,
+    Shopping: ShoppingBag,
+    Health: HeartPulse,
+    Other: Receipt,
+};
+
+interface CategoryIconProps {
+    name?: string;
+    emoji?: string;
+    size?: number;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ name, emoji, size = 18 }) => {
+    if (emoji) {
+        return <span style={{ fontSize: size, lineHeight: 1 }}>{emoji}</span>;
+    }
+
+    const Icon = (name && categoryIcons[name]) || (name ? Tag : Receipt);
+    return <Icon size={size} />;
+};
+
+export default CategoryIcon;
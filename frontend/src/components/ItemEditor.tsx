@@ -0,0 +1,141 @@
+import React from 'react';
+import type { User } from '../types';
+import { Plus, Trash2 } from 'lucide-react';
+
+export interface ItemDraft {
+    name: string;
+    price: string;
+    sharedBy: string[];
+}
+
+export interface ChargesDraft {
+    tax: string;
+    serviceCharge: string;
+    tip: string;
+}
+
+interface ItemEditorProps {
+    members: User[];
+    items: ItemDraft[];
+    charges: ChargesDraft;
+    onItemsChange: (items: ItemDraft[]) => void;
+    onChargesChange: (charges: ChargesDraft) => void;
+}
+
+const chargeLabels: { key: keyof ChargesDraft; label: string }[] = [
+    { key: 'tax', label: 'Tax' },
+    { key: 'serviceCharge', label: 'Service' },
+    { key: 'tip', label: 'Tip' },
+];
+
+const ItemEditor: React.FC<ItemEditorProps> = ({
+    members,
+    items,
+    charges,
+    onItemsChange,
+    onChargesChange,
+}) => {
+    const updateItem = (index: number, changes: Partial<ItemDraft>) => {
+        onItemsChange(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    };
+
+    const toggleMember = (index: number, userId: string) => {
+        const sharedBy = items[index].sharedBy;
+        updateItem(index, {
+            sharedBy: sharedBy.includes(userId)
+                ? sharedBy.filter((id) => id !== userId)
+                : [...sharedBy, userId],
+        });
+    };
+
+    const addItem = () => {
+        onItemsChange([...items, { name: '', price: '', sharedBy: members.map((m) => m._id) }]);
+    };
+
+    const removeItem = (index: number) => {
+        onItemsChange(items.filter((_, i) => i !== index));
+    };
+
+    return (
+        <div
+            style={{
+                background: 'var(--bg-secondary)',
+                borderRadius: 'var(--radius-md)',
+                padding: '1rem',
+            }}
+        >
+            {items.map((item, index) => (
+                <div
+                    key={index}
+                    className="mb-4"
+                    style={{ paddingBottom: '1rem', borderBottom: '1px solid var(--border)' }}
+                >
+                    <div className="flex items-center gap-2 mb-2">
+                        <input
+                            type="text"
+                            className="form-input"
+                            placeholder="Item, e.g. Margherita"
+                            value={item.name}
+                            onChange={(e) => updateItem(index, { name: e.target.value })}
+                            style={{ flex: 1, padding: '0.5rem' }}
+                        />
+                        <input
+                            type="number"
+                            className="form-input"
+                            placeholder="₹0"
+                            value={item.price}
+                            onChange={(e) => updateItem(index, { price: e.target.value })}
+                            style={{ width: '100px', padding: '0.5rem' }}
+                            min="0"
+                        />
+                        <button
+                            type="button"
+                            className="btn btn-ghost"
+                            onClick={() => removeItem(index)}
+                            title="Remove item"
+                        >
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                    <div className="flex gap-2" style={{ flexWrap: 'wrap' }}>
+                        {members.map((member) => (
+                            <button
+                                key={member._id}
+                                type="button"
+                                className={`btn btn-sm ${item.sharedBy.includes(member._id) ? 'btn-primary' : 'btn-secondary'}`}
+                                onClick={() => toggleMember(index, member._id)}
+                                style={{ padding: '0.25rem 0.75rem' }}
+                            >
+                                {member.name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            ))}
+
+            <button type="button" className="btn btn-secondary mb-4" onClick={addItem}>
+                <Plus size={16} />
+                Add Item
+            </button>
+
+            <div className="flex gap-2">
+                {chargeLabels.map(({ key, label }) => (
+                    <div key={key} style={{ flex: 1 }}>
+                        <label className="text-sm text-muted">{label} (₹)</label>
+                        <input
+                            type="number"
+                            className="form-input"
+                            placeholder="0"
+                            value={charges[key]}
+                            onChange={(e) => onChargesChange({ ...charges, [key]: e.target.value })}
+                            style={{ padding: '0.5rem' }}
+                            min="0"
+                        />
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default ItemEditor;
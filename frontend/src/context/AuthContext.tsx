@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import type { User, LoginCredentials, RegisterData } from '../types';
+import type { User, AuthResponse, LoginCredentials, RegisterData } from '../types';
 import { authService } from '../services';
 
 interface AuthContextType {
@@ -8,7 +8,7 @@ interface AuthContextType {
     isLoading: boolean;
     isAuthenticated: boolean;
     login: (credentials: LoginCredentials) => Promise<void>;
-    register: (data: RegisterData) => Promise<void>;
+    register: (data: RegisterData) => Promise<AuthResponse>;
     logout: () => void;
 }
 
@@ -49,6 +49,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         setToken(response.token);
         setUser(response.user);
+        return response;
     }, []);
 
     const logout = useCallback(() => {
@@ -78,3 +79,9 @@ export const useAuth = (): AuthContextType => {
     }
     return context;
 };
+
+// Where to go after signing in: the `redirect` query param if it's a path in this app
+export const getRedirectPath = (searchParams: URLSearchParams): string => {
+    const redirect = searchParams.get('redirect');
+    return redirect && redirect.startsWith('/') && !redirect.startsWith('//') ? redirect : '/';
+};
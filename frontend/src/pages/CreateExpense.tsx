@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { expenseService, groupService, userService } from '../services';
-import { SplitType } from '../types';
-import type { Group, User } from '../types';
+import { expenseService, groupService, userService, recurringService, categoryService } from '../services';
+import { SplitType, CURRENCIES, RecurrenceFrequency, DEFAULT_CATEGORIES } from '../types';
+import type { Group, User, CreateExpenseData, Category } from '../types';
 import { ArrowLeft, Receipt, DollarSign, Users } from 'lucide-react';
 import toast from 'react-hot-toast';
+import ItemEditor from '../components/ItemEditor';
+import CategoryIcon from '../components/CategoryIcon';
+import type { ItemDraft, ChargesDraft } from '../components/ItemEditor';
 
 const CreateExpense: React.FC = () => {
     const { user } = useAuth();
@@ -14,11 +17,24 @@ const CreateExpense: React.FC = () => {
     const groupIdFromUrl = searchParams.get('groupId');
 
     const [description, setDescription] = useState('');
+    const [notes, setNotes] = useState('');
     const [amount, setAmount] = useState('');
     const [paidBy, setPaidBy] = useState(user?._id || '');
+    const [multiplePayers, setMultiplePayers] = useState(false);
+    const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({});
     const [groupId, setGroupId] = useState(groupIdFromUrl || '');
+    const [currency, setCurrency] = useState('INR');
+    const today = new Date().toLocaleDateString('en-CA'); // YYYY-MM-DD in local time
+    const [expenseDate, setExpenseDate] = useState(today);
+    const [repeat, setRepeat] = useState<RecurrenceFrequency | ''>('');
+    const [category, setCategory] = useState('Other');
+    const [categories, setCategories] = useState<Category[]>(
+        DEFAULT_CATEGORIES.map((name) => ({ name, custom: false }))
+    );
     const [splitType, setSplitType] = useState<SplitType>(SplitType.EQUAL);
     const [splits, setSplits] = useState<{ userId: string; amount: string }[]>([]);
+    const [items, setItems] = useState<ItemDraft[]>([]);
+    const [charges, setCharges] = useState<ChargesDraft>({ tax: '', serviceCharge: '', tip: '' });
 
     const [groups, setGroups] = useState<Group[]>([]);
     const [allUsers, setAllUsers] = useState<User[]>([]);
@@ -56,6 +72,7 @@ const CreateExpense: React.FC = () => {
             if (group) {
                 setSelectedGroup(group);
                 setSplits(group.members.map((m) => ({ userId: m._id, amount: '' })));
+                setCurrency(group.baseCurrency);
             }
         } else {
             setSelectedGroup(null);
@@ -63,6 +80,25 @@ const CreateExpense: React.FC = () => {
         }
     }, [groupId, groups]);
 
+    // Group expenses can also use the group's own categories
+    useEffect(() => {
+        const defaults = DEFAULT_CATEGORIES.map((name) => ({ name, custom: false }));
+        if (!groupId) {
+            setCategories(defaults);
+            return;
+        }
+
+        categoryService.getAll(groupId)
+            .then(setCategories)
+            .catch(() => setCategories(defaults));
+    }, [groupId]);
+
+    useEffect(() => {
+        if (!categories.some((c) => c.name === category)) {
+            setCategory('Other');
+        }
+    }, [categories, category]);
+
     const handleSplitChange = (userId: string, value: string) => {
         setSplits(splits.map((s) => (s.userId === userId ? { ...s, amount: value } : s)));
     };
@@ -72,26 +108,68 @@ const CreateExpense: React.FC = () => {
         setIsLoading(true);
 
         try {
-            const amountNum = parseFloat(amount);
+            const amountNum = splitType === SplitType.ITEMIZED ? itemizedTotal : parseFloat(amount);
 
-            let splitData: { userId: string; amount?: number }[];
+            let splitData: { userId: string; amount?: number; adjustment?: number }[];
 
             if (splitType === SplitType.EQUAL) {
                 splitData = splits.map((s) => ({ userId: s.userId }));
             } else if (splitType === SplitType.EXACT) {
                 splitData = splits.map((s) => ({ userId: s.userId, amount: parseFloat(s.amount) || 0 }));
+            } else if (splitType === SplitType.SHARES) {
+                splitData = splits.map((s) => ({ userId: s.userId, amount: parseFloat(s.amount) || 0 }));
+            } else if (splitType === SplitType.ADJUSTMENT) {
+                splitData = splits.map((s) => ({ userId: s.userId, adjustment: parseFloat(s.amount) || 0 }));
+            } else if (splitType === SplitType.ITEMIZED) {
+                // Only people who shared at least one item take part
+                splitData = splits
+                    .filter((s) => items.some((item) => item.sharedBy.includes(s.userId)))
+                    .map((s) => ({ userId: s.userId }));
             } else {
                 splitData = splits.map((s) => ({ userId: s.userId, amount: parseFloat(s.amount) || 0 }));
             }
 
-            await expenseService.create({
+            const expenseData: CreateExpenseData = {
                 description,
+                notes: notes.trim() || undefined,
                 amount: amountNum,
-                paidBy,
+                ...(multiplePayers
+                    ? {
+                        payers: Object.entries(payerAmounts)
+                            .map(([userId, value]) => ({ userId, amount: parseFloat(value) || 0 }))
+                            .filter((p) => p.amount > 0),
+                    }
+                    : { paidBy }),
                 groupId: groupId || undefined,
+                // Left out for today so the expense is dated now
+                expenseDate: expenseDate !== today ? expenseDate : undefined,
+                category,
+                currency,
                 splitType,
                 splits: splitData,
-            });
+                ...(splitType === SplitType.ITEMIZED && {
+                    items: items.map((item) => ({
+                        name: item.name,
+                        price: parseFloat(item.price) || 0,
+                        sharedBy: item.sharedBy,
+                    })),
+                    charges: {
+                        tax: parseFloat(charges.tax) || 0,
+                        serviceCharge: parseFloat(charges.serviceCharge) || 0,
+                        tip: parseFloat(charges.tip) || 0,
+                    },
+                }),
+            };
+
+            if (groupId && repeat) {
+                const { groupId: _groupId, expenseDate: startDate, ...template } = expenseData;
+                await recurringService.create(groupId, { frequency: repeat, startDate, template });
+                toast.success('Recurring expense scheduled! 🔁');
+                navigate(`/groups/${groupId}`);
+                return;
+            }
+
+            await expenseService.create(expenseData);
 
             toast.success('Expense added successfully! 💰');
             navigate(groupId ? `/groups/${groupId}` : '/expenses');
@@ -123,6 +201,39 @@ const CreateExpense: React.FC = () => {
         ? splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0)
         : 0;
 
+    // Calculate total shares for validation and per-person preview
+    const totalShares = splitType === SplitType.SHARES
+        ? splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0)
+        : 0;
+    const isSharesValid = splitType !== SplitType.SHARES || splits.length === 0 || totalShares > 0;
+
+    // Equal part left over after adjustments, for the per-person preview
+    const totalAdjustment = splitType === SplitType.ADJUSTMENT
+        ? splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0)
+        : 0;
+    const adjustedEqualShare = splits.length > 0
+        ? ((parseFloat(amount) || 0) - totalAdjustment) / splits.length
+        : 0;
+    const isAdjustmentValid = splitType !== SplitType.ADJUSTMENT || splits.every(
+        (s) => adjustedEqualShare + (parseFloat(s.amount) || 0) >= 0
+    );
+
+    // Itemized total is the sum of items plus charges
+    const itemizedTotal = items.reduce((sum, item) => sum + (parseFloat(item.price) || 0), 0)
+        + (parseFloat(charges.tax) || 0)
+        + (parseFloat(charges.serviceCharge) || 0)
+        + (parseFloat(charges.tip) || 0);
+    const isItemizedValid = splitType !== SplitType.ITEMIZED || (
+        items.length > 0 &&
+        itemizedTotal > 0 &&
+        items.every((item) => item.name.trim() && item.sharedBy.length > 0)
+    );
+
+    // Payer amounts must cover the whole expense
+    const totalPaid = Object.values(payerAmounts).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+    const expenseTotal = splitType === SplitType.ITEMIZED ? itemizedTotal : parseFloat(amount) || 0;
+    const isPayersValid = !multiplePayers || (totalPaid > 0 && totalPaid === expenseTotal);
+
     const participants = selectedGroup ? selectedGroup.members : allUsers.slice(0, 10);
 
     return (
@@ -162,6 +273,28 @@ const CreateExpense: React.FC = () => {
                             </select>
                         </div>
 
+                        {/* Repeat (group expenses only) */}
+                        {groupId && (
+                            <div className="form-group">
+                                <label className="form-label">Repeats</label>
+                                <select
+                                    className="form-input form-select"
+                                    value={repeat}
+                                    onChange={(e) => setRepeat(e.target.value as RecurrenceFrequency | '')}
+                                >
+                                    <option value="">Doesn't repeat</option>
+                                    <option value={RecurrenceFrequency.DAILY}>Every day</option>
+                                    <option value={RecurrenceFrequency.WEEKLY}>Every week</option>
+                                    <option value={RecurrenceFrequency.MONTHLY}>Every month</option>
+                                </select>
+                                {repeat && (
+                                    <p className="text-xs text-muted mt-1">
+                                        The first expense is added shortly, then automatically on schedule
+                                    </p>
+                                )}
+                            </div>
+                        )}
+
                         {/* Description */}
                         <div className="form-group">
                             <label className="form-label">Description *</label>
@@ -175,55 +308,164 @@ const CreateExpense: React.FC = () => {
                             />
                         </div>
 
+                        {/* Notes */}
+                        <div className="form-group">
+                            <label className="form-label">Notes</label>
+                            <textarea
+                                className="form-input"
+                                placeholder="Anything worth remembering (searchable)"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                maxLength={1000}
+                                rows={2}
+                            />
+                        </div>
+
                         {/* Amount */}
                         <div className="form-group">
-                            <label className="form-label">Amount (₹) *</label>
-                            <div style={{ position: 'relative' }}>
-                                <DollarSign
-                                    size={18}
-                                    style={{
-                                        position: 'absolute',
-                                        left: '14px',
-                                        top: '50%',
-                                        transform: 'translateY(-50%)',
-                                        color: 'var(--text-muted)',
-                                    }}
-                                />
-                                <input
-                                    type="number"
-                                    className="form-input"
-                                    placeholder="0"
-                                    value={amount}
-                                    onChange={(e) => setAmount(e.target.value)}
-                                    required
-                                    min="1"
-                                    step="1"
-                                    style={{ paddingLeft: '44px', fontSize: '1.25rem' }}
-                                />
+                            <label className="form-label">Amount *</label>
+                            <div className="flex gap-2">
+                                <select
+                                    className="form-input form-select"
+                                    value={currency}
+                                    onChange={(e) => setCurrency(e.target.value)}
+                                    style={{ width: '110px' }}
+                                >
+                                    {CURRENCIES.map((code) => (
+                                        <option key={code} value={code}>
+                                            {code}
+                                        </option>
+                                    ))}
+                                </select>
+                                <div style={{ position: 'relative', flex: 1 }}>
+                                    <DollarSign
+                                        size={18}
+                                        style={{
+                                            position: 'absolute',
+                                            left: '14px',
+                                            top: '50%',
+                                            transform: 'translateY(-50%)',
+                                            color: 'var(--text-muted)',
+                                        }}
+                                    />
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        placeholder="0"
+                                        value={splitType === SplitType.ITEMIZED ? itemizedTotal : amount}
+                                        onChange={(e) => setAmount(e.target.value)}
+                                        required
+                                        min="1"
+                                        step="1"
+                                        disabled={splitType === SplitType.ITEMIZED}
+                                        style={{ paddingLeft: '44px', fontSize: '1.25rem' }}
+                                    />
+                                </div>
                             </div>
+                            {selectedGroup && currency !== selectedGroup.baseCurrency && (
+                                <p className="text-xs text-muted mt-1">
+                                    Balances will be converted to {selectedGroup.baseCurrency} at the rate on the expense date
+                                </p>
+                            )}
                         </div>
 
-                        {/* Paid By */}
+                        {/* Category */}
                         <div className="form-group">
-                            <label className="form-label">Paid by *</label>
-                            <select
-                                className="form-input form-select"
-                                value={paidBy}
-                                onChange={(e) => setPaidBy(e.target.value)}
-                                required
-                            >
-                                {participants.map((member) => (
-                                    <option key={member._id} value={member._id}>
-                                        {member.name} {member._id === user?._id ? '(You)' : ''}
-                                    </option>
+                            <label className="form-label">Category</label>
+                            <div className="flex gap-2" style={{ flexWrap: 'wrap' }}>
+                                {categories.map((c) => (
+                                    <button
+                                        key={c.name}
+                                        type="button"
+                                        onClick={() => setCategory(c.name)}
+                                        className={`btn btn-sm ${category === c.name ? 'btn-primary' : 'btn-secondary'}`}
+                                    >
+                                        <CategoryIcon name={c.name} emoji={c.icon} size={16} />
+                                        {c.name}
+                                    </button>
                                 ))}
-                            </select>
+                            </div>
+                        </div>
+
+                        {/* Date */}
+                        <div className="form-group">
+                            <label className="form-label">{repeat ? 'Starts on' : 'Date'}</label>
+                            <input
+                                type="date"
+                                className="form-input"
+                                value={expenseDate}
+                                onChange={(e) => setExpenseDate(e.target.value || today)}
+                            />
+                        </div>
+
+                        {/* Paid By */}
+                        <div className="form-group">
+                            <div className="flex items-center justify-between">
+                                <label className="form-label">Paid by *</label>
+                                <label className="text-sm text-muted flex items-center gap-2">
+                                    <input
+                                        type="checkbox"
+                                        checked={multiplePayers}
+                                        onChange={(e) => setMultiplePayers(e.target.checked)}
+                                    />
+                                    Multiple payers
+                                </label>
+                            </div>
+                            {multiplePayers ? (
+                                <div
+                                    style={{
+                                        background: 'var(--bg-secondary)',
+                                        borderRadius: 'var(--radius-md)',
+                                        padding: '1rem',
+                                    }}
+                                >
+                                    {participants.map((member) => (
+                                        <div key={member._id} className="flex items-center gap-3 mb-3">
+                                            <div className="avatar avatar-sm">{getInitials(member.name)}</div>
+                                            <span className="flex-1 text-sm">
+                                                {member.name} {member._id === user?._id ? '(You)' : ''}
+                                            </span>
+                                            <input
+                                                type="number"
+                                                className="form-input"
+                                                placeholder="₹0"
+                                                value={payerAmounts[member._id] || ''}
+                                                onChange={(e) => setPayerAmounts({ ...payerAmounts, [member._id]: e.target.value })}
+                                                style={{ width: '100px', padding: '0.5rem' }}
+                                                min="0"
+                                            />
+                                        </div>
+                                    ))}
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-medium">Total Paid:</span>
+                                        <span
+                                            className="font-bold"
+                                            style={{ color: isPayersValid ? 'var(--success)' : 'var(--danger)' }}
+                                        >
+                                            ₹{totalPaid} / ₹{expenseTotal}
+                                        </span>
+                                    </div>
+                                </div>
+                            ) : (
+                                <select
+                                    className="form-input form-select"
+                                    value={paidBy}
+                                    onChange={(e) => setPaidBy(e.target.value)}
+                                    required
+                                >
+                                    {participants.map((member) => (
+                                        <option key={member._id} value={member._id}>
+                                            {member.name} {member._id === user?._id ? '(You)' : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
                         </div>
 
                         {/* Split Type */}
                         <div className="form-group">
                             <label className="form-label">Split Type *</label>
-                            <div className="flex gap-2">
+                            <div className="flex gap-2" style={{ flexWrap: 'wrap' }}>
                                 {Object.values(SplitType).map((type) => (
                                     <button
                                         key={type}
@@ -238,8 +480,25 @@ const CreateExpense: React.FC = () => {
                             </div>
                         </div>
 
+                        {/* Itemized receipt */}
+                        {selectedGroup && splitType === SplitType.ITEMIZED && (
+                            <div className="form-group">
+                                <label className="form-label">
+                                    <Receipt size={16} style={{ display: 'inline', marginRight: '6px' }} />
+                                    Receipt items
+                                </label>
+                                <ItemEditor
+                                    members={selectedGroup.members}
+                                    items={items}
+                                    charges={charges}
+                                    onItemsChange={setItems}
+                                    onChargesChange={setCharges}
+                                />
+                            </div>
+                        )}
+
                         {/* Split Details */}
-                        {selectedGroup && splits.length > 0 && (
+                        {selectedGroup && splits.length > 0 && splitType !== SplitType.ITEMIZED && (
                             <div className="form-group">
                                 <label className="form-label">
                                     <Users size={16} style={{ display: 'inline', marginRight: '6px' }} />
@@ -264,13 +523,32 @@ const CreateExpense: React.FC = () => {
                                                     <input
                                                         type="number"
                                                         className="form-input"
-                                                        placeholder={splitType === SplitType.PERCENTAGE ? '0%' : '₹0'}
+                                                        placeholder={
+                                                            splitType === SplitType.PERCENTAGE
+                                                                ? '0%'
+                                                                : splitType === SplitType.SHARES
+                                                                    ? '0 shares'
+                                                                    : splitType === SplitType.ADJUSTMENT
+                                                                        ? '+/- ₹0'
+                                                                        : '₹0'
+                                                        }
                                                         value={split.amount}
                                                         onChange={(e) => handleSplitChange(split.userId, e.target.value)}
                                                         style={{ width: '100px', padding: '0.5rem' }}
-                                                        min="0"
+                                                        min={splitType === SplitType.ADJUSTMENT ? undefined : '0'}
+                                                        step={splitType === SplitType.ADJUSTMENT ? '1' : undefined}
                                                     />
                                                 )}
+                                                {splitType === SplitType.SHARES && amount && totalShares > 0 && (
+                                                    <span className="text-sm text-muted">
+                                                        ₹{Math.round((parseFloat(amount) * (parseFloat(split.amount) || 0)) / totalShares)}
+                                                    </span>
+                                                )}
+                                                {splitType === SplitType.ADJUSTMENT && amount && (
+                                                    <span className="text-sm text-muted">
+                                                        ₹{Math.round(adjustedEqualShare + (parseFloat(split.amount) || 0))}
+                                                    </span>
+                                                )}
                                                 {splitType === SplitType.EQUAL && amount && (
                                                     <span className="text-sm text-muted">
                                                         ₹{Math.round(parseFloat(amount) / splits.length)}
@@ -317,6 +595,44 @@ const CreateExpense: React.FC = () => {
                                         </div>
                                     )}
 
+                                    {/* Total display for SHARES */}
+                                    {splitType === SplitType.SHARES && (
+                                        <div
+                                            className="flex items-center justify-between"
+                                            style={{
+                                                marginTop: '1rem',
+                                                paddingTop: '1rem',
+                                                borderTop: '1px solid var(--border)',
+                                            }}
+                                        >
+                                            <span className="font-medium">Total Shares:</span>
+                                            <span
+                                                className="font-bold"
+                                                style={{
+                                                    fontSize: '1.1rem',
+                                                    color: totalShares > 0 ? 'var(--success)' : 'var(--danger)',
+                                                }}
+                                            >
+                                                {totalShares}
+                                            </span>
+                                        </div>
+                                    )}
+
+                                    {splitType === SplitType.ADJUSTMENT && !isAdjustmentValid && (
+                                        <div
+                                            style={{
+                                                marginTop: '0.75rem',
+                                                padding: '0.75rem',
+                                                background: 'var(--danger-light)',
+                                                borderRadius: 'var(--radius-sm)',
+                                                color: 'var(--danger)',
+                                                fontSize: '0.9rem',
+                                            }}
+                                        >
+                                            ⚠️ Adjustments cannot make anyone's share negative.
+                                        </div>
+                                    )}
+
                                     {/* Total display for EXACT */}
                                     {splitType === SplitType.EXACT && amount && (
                                         <div
@@ -346,7 +662,17 @@ const CreateExpense: React.FC = () => {
                         <button
                             type="submit"
                             className="btn btn-primary"
-                            disabled={isLoading || !description || !amount || !paidBy || !isPercentValid}
+                            disabled={
+                                isLoading ||
+                                !description ||
+                                (!amount && splitType !== SplitType.ITEMIZED) ||
+                                (!paidBy && !multiplePayers) ||
+                                !isPayersValid ||
+                                !isPercentValid ||
+                                !isSharesValid ||
+                                !isAdjustmentValid ||
+                                !isItemizedValid
+                            }
                             style={{ width: '100%', marginTop: '1rem' }}
                         >
                             {isLoading ? <div className="spinner" style={{ width: '20px', height: '20px' }} /> : 'Add Expense'}
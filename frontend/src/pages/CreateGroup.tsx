@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { groupService, userService } from '../services';
+import { CURRENCIES } from '../types';
 import type { User } from '../types';
 import { Users, ArrowLeft, UserPlus, X } from 'lucide-react';
 import toast from 'react-hot-toast';
@@ -8,6 +9,7 @@ import toast from 'react-hot-toast';
 const CreateGroup: React.FC = () => {
     const [name, setName] = useState('');
     const [description, setDescription] = useState('');
+    const [baseCurrency, setBaseCurrency] = useState('INR');
     const [selectedMembers, setSelectedMembers] = useState<User[]>([]);
     const [allUsers, setAllUsers] = useState<User[]>([]);
     const [searchQuery, setSearchQuery] = useState('');
@@ -26,11 +28,13 @@ const CreateGroup: React.FC = () => {
         fetchUsers();
     }, []);
 
+    // People who haven't signed up are added by name from the group page
     const filteredUsers = allUsers.filter(
         (user) =>
+            !user.isPlaceholder &&
             !selectedMembers.some((m) => m._id === user._id) &&
             (user.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                user.email.toLowerCase().includes(searchQuery.toLowerCase()))
+                user.email?.toLowerCase().includes(searchQuery.toLowerCase()))
     );
 
     const handleAddMember = (user: User) => {
@@ -50,6 +54,7 @@ const CreateGroup: React.FC = () => {
             const group = await groupService.create({
                 name,
                 description: description || undefined,
+                baseCurrency,
                 memberIds: selectedMembers.map((m) => m._id),
             });
             toast.success('Group created successfully! 🎉');
@@ -118,6 +123,24 @@ const CreateGroup: React.FC = () => {
                             />
                         </div>
 
+                        <div className="form-group">
+                            <label className="form-label">Base Currency</label>
+                            <select
+                                className="form-input form-select"
+                                value={baseCurrency}
+                                onChange={(e) => setBaseCurrency(e.target.value)}
+                            >
+                                {CURRENCIES.map((code) => (
+                                    <option key={code} value={code}>
+                                        {code}
+                                    </option>
+                                ))}
+                            </select>
+                            <p className="text-xs text-muted mt-1">
+                                Balances are shown in this currency, whatever currency expenses are entered in
+                            </p>
+                        </div>
+
                         <div className="form-group">
                             <label className="form-label">
                                 <UserPlus size={16} style={{ display: 'inline', marginRight: '6px' }} />
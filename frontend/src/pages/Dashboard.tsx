@@ -1,8 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { userService, groupService, expenseService, settlementService } from '../services';
-import type { BalanceSummary, Group, Expense, Settlement } from '../types';
+import { authService, userService, groupService, expenseService, settlementService } from '../services';
+import type { BalanceSummary, CrossGroupBalances, Group, Expense, Settlement } from '../types';
 import {
     TrendingUp,
     TrendingDown,
@@ -13,7 +13,8 @@ import {
     Wallet,
     Clock,
     Check,
-    X
+    X,
+    AlertTriangle
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -23,23 +24,27 @@ const Dashboard: React.FC = () => {
     const [groups, setGroups] = useState<Group[]>([]);
     const [recentExpenses, setRecentExpenses] = useState<Expense[]>([]);
     const [pendingSettlements, setPendingSettlements] = useState<Settlement[]>([]);
+    const [crossGroup, setCrossGroup] = useState<CrossGroupBalances | null>(null);
+    const [autoConfirm, setAutoConfirm] = useState(true);
     const [isLoading, setIsLoading] = useState(true);
 
     const fetchData = async () => {
         if (!user) return;
 
         try {
-            const [balanceData, groupsData, expensesData, pendingData] = await Promise.all([
+            const [balanceData, groupsData, expensesData, pendingData, me] = await Promise.all([
                 userService.getBalances(user._id),
                 groupService.getAll(),
-                expenseService.getAll(undefined, 1, 5),
+                expenseService.getAll(undefined, { limit: 5 }),
                 settlementService.getPending(),
+                authService.getMe(),
             ]);
 
             setBalances(balanceData);
             setGroups(groupsData);
             setRecentExpenses(expensesData.data || []);
             setPendingSettlements(pendingData || []);
+            setAutoConfirm(me.autoConfirmSettlements !== false);
         } catch (error) {
             console.error('Failed to fetch dashboard data:', error);
         } finally {
@@ -76,10 +81,58 @@ const Dashboard: React.FC = () => {
         }
     };
 
-    const formatCurrency = (amount: number) => {
+    const handleDisputeSettlement = async (id: string) => {
+        const reason = window.prompt('Why are you disputing this payment?');
+        if (!reason?.trim()) return;
+
+        try {
+            await settlementService.dispute(id, reason.trim());
+            toast.success('Settlement disputed');
+            setPendingSettlements(prev => prev.filter(s => s._id !== id));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to dispute settlement');
+        }
+    };
+
+    const handleAutoConfirmChange = async (autoConfirmSettlements: boolean) => {
+        try {
+            await authService.updateMe({ autoConfirmSettlements });
+            setAutoConfirm(autoConfirmSettlements);
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update preference');
+        }
+    };
+
+    const handleShowCrossGroup = async (userId: string) => {
+        if (crossGroup?.user._id === userId) {
+            setCrossGroup(null);
+            return;
+        }
+
+        try {
+            setCrossGroup(await settlementService.getCrossGroup(userId));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to load balances');
+        }
+    };
+
+    const handleSettleCrossGroup = async () => {
+        if (!crossGroup) return;
+
+        try {
+            await settlementService.settleCrossGroup(crossGroup.user._id);
+            toast.success(`Settle-up with ${crossGroup.user.name} recorded (awaiting confirmation)`);
+            setCrossGroup(null);
+            fetchData();
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to record settle-up');
+        }
+    };
+
+    const formatCurrency = (amount: number, currency = 'INR') => {
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: 'INR',
+            currency,
             minimumFractionDigits: 0,
         }).format(amount);
     };
@@ -138,6 +191,14 @@ const Dashboard: React.FC = () => {
                         <p className="text-sm text-muted mb-4">
                             These users claim they've paid you. Please confirm or reject:
                         </p>
+                        <label className="text-sm text-muted flex items-center gap-2 mb-4">
+                            <input
+                                type="checkbox"
+                                checked={autoConfirm}
+                                onChange={(e) => handleAutoConfirmChange(e.target.checked)}
+                            />
+                            Auto-confirm payments to me after the group's confirmation window
+                        </label>
                         <div className="flex flex-col gap-3">
                             {pendingSettlements.map((settlement) => (
                                 <div
@@ -161,7 +222,7 @@ const Dashboard: React.FC = () => {
                                         </p>
                                     </div>
                                     <p className="font-bold text-lg" style={{ color: 'var(--success)' }}>
-                                        {formatCurrency(settlement.amount)}
+                                        {formatCurrency(settlement.amount, settlement.currency)}
                                     </p>
                                     <div className="flex gap-2">
                                         <button
@@ -188,6 +249,18 @@ const Dashboard: React.FC = () => {
                                         >
                                             <X size={16} />
                                         </button>
+                                        <button
+                                            onClick={() => handleDisputeSettlement(settlement._id)}
+                                            className="btn btn-sm"
+                                            style={{
+                                                background: 'var(--warning)',
+                                                color: '#000',
+                                                padding: '0.5rem 0.75rem'
+                                            }}
+                                            title="Dispute - something is wrong with this payment"
+                                        >
+                                            <AlertTriangle size={16} />
+                                        </button>
                                     </div>
                                 </div>
                             ))}
@@ -208,7 +281,7 @@ const Dashboard: React.FC = () => {
                             <span className="text-sm text-muted">You are owed</span>
                         </div>
                         <p className="text-2xl font-bold balance-positive">
-                            {formatCurrency(balances?.totalOwed || 0)}
+                            {formatCurrency(balances?.totalOwed || 0, balances?.currency)}
                         </p>
                     </div>
 
@@ -223,7 +296,7 @@ const Dashboard: React.FC = () => {
                             <span className="text-sm text-muted">You owe</span>
                         </div>
                         <p className="text-2xl font-bold balance-negative">
-                            {formatCurrency(balances?.totalOwing || 0)}
+                            {formatCurrency(balances?.totalOwing || 0, balances?.currency)}
                         </p>
                     </div>
 
@@ -239,8 +312,18 @@ const Dashboard: React.FC = () => {
                         </div>
                         <p className={`text-2xl font-bold ${(balances?.netBalance || 0) >= 0 ? 'balance-positive' : 'balance-negative'
                             }`}>
-                            {formatCurrency(balances?.netBalance || 0)}
+                            {formatCurrency(balances?.netBalance || 0, balances?.currency)}
                         </p>
+                        {((balances?.pendingIncoming || 0) > 0 || (balances?.pendingOutgoing || 0) > 0) && (
+                            <p className="text-xs text-muted" style={{ marginTop: '0.5rem' }}>
+                                Awaiting confirmation:{' '}
+                                {(balances?.pendingIncoming || 0) > 0 &&
+                                    `${formatCurrency(balances!.pendingIncoming, balances?.currency)} to you`}
+                                {(balances?.pendingIncoming || 0) > 0 && (balances?.pendingOutgoing || 0) > 0 && ' · '}
+                                {(balances?.pendingOutgoing || 0) > 0 &&
+                                    `${formatCurrency(balances!.pendingOutgoing, balances?.currency)} from you`}
+                            </p>
+                        )}
                     </div>
                 </div>
 
@@ -338,11 +421,11 @@ const Dashboard: React.FC = () => {
                                         <div className="flex-1">
                                             <p className="font-medium text-sm">{expense.description}</p>
                                             <p className="text-xs text-muted">
-                                                Paid by {expense.paidBy.name}
+                                                Paid by {expense.payers?.length ? expense.payers.map((p) => p.user.name).join(' & ') : expense.paidBy.name}
                                             </p>
                                         </div>
                                         <p className="font-bold text-sm">
-                                            {formatCurrency(expense.amount)}
+                                            {formatCurrency(expense.amount, expense.currency)}
                                         </p>
                                     </div>
                                 ))}
@@ -359,23 +442,63 @@ const Dashboard: React.FC = () => {
                             {balances.balances.map((balance) => (
                                 <div
                                     key={balance.userId}
-                                    className="flex items-center justify-between p-3"
+                                    className="p-3"
                                     style={{
                                         background: 'var(--bg-secondary)',
                                         borderRadius: 'var(--radius-md)',
                                     }}
                                 >
-                                    <div className="flex items-center gap-3">
-                                        <div className="avatar avatar-sm">
-                                            {getInitials(balance.userName)}
+                                    <div className="flex items-center justify-between">
+                                        <div className="flex items-center gap-3">
+                                            <div className="avatar avatar-sm">
+                                                {getInitials(balance.userName)}
+                                            </div>
+                                            <span>{balance.userName}</span>
+                                        </div>
+                                        <div className="flex items-center gap-3">
+                                            <span className={`font-bold ${balance.amount >= 0 ? 'balance-positive' : 'balance-negative'
+                                                }`}>
+                                                {balance.amount >= 0 ? 'owes you ' : 'you owe '}
+                                                {formatCurrency(Math.abs(balance.amount), balances.currency)}
+                                            </span>
+                                            <button
+                                                className="btn btn-secondary btn-sm"
+                                                onClick={() => handleShowCrossGroup(balance.userId)}
+                                            >
+                                                Settle up
+                                            </button>
                                         </div>
-                                        <span>{balance.userName}</span>
                                     </div>
-                                    <span className={`font-bold ${balance.amount >= 0 ? 'balance-positive' : 'balance-negative'
-                                        }`}>
-                                        {balance.amount >= 0 ? 'owes you ' : 'you owe '}
-                                        {formatCurrency(Math.abs(balance.amount))}
-                                    </span>
+
+                                    {crossGroup?.user._id === balance.userId && (
+                                        <div className="flex flex-col gap-2" style={{ marginTop: '0.75rem' }}>
+                                            {crossGroup.groups.map((group) => (
+                                                <div
+                                                    key={group.groupId || 'none'}
+                                                    className="flex items-center justify-between text-sm"
+                                                >
+                                                    <span className="text-muted">{group.groupName}</span>
+                                                    <span className={group.amount >= 0 ? 'balance-positive' : 'balance-negative'}>
+                                                        {group.amount >= 0 ? 'owes you ' : 'you owe '}
+                                                        {formatCurrency(Math.abs(group.amount), group.currency)}
+                                                    </span>
+                                                </div>
+                                            ))}
+                                            <div className="flex items-center justify-between">
+                                                <span className="font-medium">
+                                                    Net: {crossGroup.netAmount >= 0 ? 'owes you ' : 'you owe '}
+                                                    {formatCurrency(Math.abs(crossGroup.netAmount), crossGroup.currency)}
+                                                </span>
+                                                <button
+                                                    className="btn btn-success btn-sm"
+                                                    onClick={handleSettleCrossGroup}
+                                                    disabled={crossGroup.groups.length === 0}
+                                                >
+                                                    Record settle-up
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
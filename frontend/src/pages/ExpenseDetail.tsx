@@ -0,0 +1,308 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useParams, Link, useNavigate } from 'react-router-dom';
+import { expenseService, userService } from '../services';
+import { useAuth } from '../context/AuthContext';
+import { ExpenseHistoryAction } from '../types';
+import type { Expense, ExpenseFieldChange, ExpenseHistoryEntry, ExpenseSnapshot } from '../types';
+import { ArrowLeft, History, PlusCircle, Pencil, Trash2, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import CategoryIcon from '../components/CategoryIcon';
+
+const FIELD_LABELS: Record<string, string> = {
+    description: 'Description',
+    notes: 'Notes',
+    amount: 'Amount',
+    currency: 'Currency',
+    exchangeRate: 'Exchange rate',
+    expenseDate: 'Date',
+    category: 'Category',
+    paidBy: 'Paid by',
+    payers: 'Payers',
+    splitType: 'Split type',
+    splits: 'Split',
+    items: 'Items',
+    charges: 'Tax, service & tip',
+};
+
+const ExpenseDetail: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { user } = useAuth();
+    const [expense, setExpense] = useState<Expense | null>(null);
+    const [history, setHistory] = useState<ExpenseHistoryEntry[]>([]);
+    const [userNames, setUserNames] = useState<Map<string, string>>(new Map());
+    const [isLoading, setIsLoading] = useState(true);
+
+    const fetchData = useCallback(async () => {
+        if (!id) return;
+
+        try {
+            const [historyData, users] = await Promise.all([
+                expenseService.getHistory(id),
+                userService.getAll(),
+            ]);
+
+            setHistory(historyData.data || []);
+            setUserNames(new Map(users.map((u) => [u._id, u.name])));
+            setExpense(historyData.deleted ? null : await expenseService.getById(id));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to load expense');
+            navigate('/expenses');
+        } finally {
+            setIsLoading(false);
+        }
+    }, [id, navigate]);
+
+    useEffect(() => {
+        fetchData();
+    }, [fetchData]);
+
+    const handleDelete = async () => {
+        if (!id || !window.confirm('Move this expense to the trash? It stops counting towards balances.')) {
+            return;
+        }
+
+        try {
+            await expenseService.delete(id);
+            toast.success('Expense moved to trash');
+            await fetchData();
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to delete expense');
+        }
+    };
+
+    const handleRestore = async () => {
+        if (!id) return;
+
+        try {
+            await expenseService.restore(id);
+            toast.success('Expense restored');
+            await fetchData();
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to restore expense');
+        }
+    };
+
+    const formatCurrency = (amount: number, currency = 'INR') => {
+        return new Intl.NumberFormat('en-IN', {
+            style: 'currency',
+            currency,
+            minimumFractionDigits: 0,
+        }).format(amount);
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleDateString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric',
+        });
+    };
+
+    const formatDateTime = (dateString: string) => {
+        return new Date(dateString).toLocaleString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    };
+
+    const nameOf = (userId: string) => userNames.get(userId) || 'Former member';
+
+    // Render one side of a field change; snapshot values are ids, ISO dates and plain numbers
+    const formatValue = (field: string, value: unknown, currency?: string): string => {
+        if (value === undefined || value === null || value === '') {
+            return '—';
+        }
+
+        switch (field) {
+            case 'amount':
+                return formatCurrency(value as number, currency);
+            case 'expenseDate':
+                return formatDate(value as string);
+            case 'paidBy':
+                return nameOf(value as string);
+            case 'payers':
+                return (value as { user: string; amount: number }[])
+                    .map((payer) => `${nameOf(payer.user)} ${formatCurrency(payer.amount, currency)}`)
+                    .join(', ');
+            case 'splits':
+                return (value as { user: string; share: number }[])
+                    .map((split) => `${nameOf(split.user)} ${formatCurrency(split.share, currency)}`)
+                    .join(', ');
+            case 'items':
+                return (value as { name: string; price: number }[])
+                    .map((item) => `${item.name} ${formatCurrency(item.price, currency)}`)
+                    .join(', ');
+            case 'charges': {
+                const charges = value as { tax?: number; serviceCharge?: number; tip?: number };
+                return [
+                    charges.tax ? `tax ${formatCurrency(charges.tax, currency)}` : '',
+                    charges.serviceCharge ? `service ${formatCurrency(charges.serviceCharge, currency)}` : '',
+                    charges.tip ? `tip ${formatCurrency(charges.tip, currency)}` : '',
+                ].filter(Boolean).join(', ') || '—';
+            }
+            default:
+                return String(value);
+        }
+    };
+
+    const renderChange = (change: ExpenseFieldChange, snapshot: ExpenseSnapshot) => (
+        <li key={change.field} className="text-sm">
+            <span className="text-muted">{FIELD_LABELS[change.field] || change.field}:</span>{' '}
+            <span style={{ textDecoration: 'line-through', opacity: 0.7 }}>
+                {formatValue(change.field, change.from, snapshot.currency)}
+            </span>
+            {' → '}
+            <span className="font-bold">{formatValue(change.field, change.to, snapshot.currency)}</span>
+        </li>
+    );
+
+    if (isLoading) {
+        return (
+            <div className="page flex items-center justify-center">
+                <div className="spinner" style={{ width: '48px', height: '48px' }} />
+            </div>
+        );
+    }
+
+    // A deleted expense is shown as it was when deleted
+    const last = history.length ? history[history.length - 1].snapshot : null;
+    const summary = expense
+        ? {
+            description: expense.description,
+            notes: expense.notes,
+            amount: expense.amount,
+            currency: expense.currency,
+            expenseDate: expense.expenseDate,
+            category: expense.category,
+            paidBy: expense.payers?.length ? expense.payers.map((p) => p.user.name).join(' & ') : expense.paidBy.name,
+            splits: expense.splits.map((s) => ({ name: s.user.name, share: s.share })),
+        }
+        : last && {
+            description: last.description,
+            notes: last.notes,
+            amount: last.amount ?? 0,
+            currency: last.currency,
+            expenseDate: last.expenseDate,
+            category: last.category,
+            paidBy: last.payers?.length ? last.payers.map((p) => nameOf(p.user)).join(' & ') : nameOf(last.paidBy || ''),
+            splits: (last.splits || []).map((s) => ({ name: nameOf(s.user), share: s.share })),
+        };
+
+    return (
+        <div className="page">
+            <div className="container" style={{ maxWidth: '800px' }}>
+                <button onClick={() => navigate(-1)} className="btn btn-ghost mb-4 animate-fade-in">
+                    <ArrowLeft size={18} />
+                    Back
+                </button>
+
+                {summary && (
+                    <div className="card mb-6 animate-slide-up">
+                        <div className="flex items-center gap-4">
+                            <div
+                                className="avatar avatar-lg"
+                                style={{ background: 'var(--gradient-accent)' }}
+                                title={summary.category}
+                            >
+                                <CategoryIcon name={summary.category || 'Other'} size={24} />
+                            </div>
+                            <div className="flex-1">
+                                <h1 className="text-2xl font-bold">{summary.description}</h1>
+                                <p className="text-sm text-muted mt-1">
+                                    Paid by <span className="text-primary">{summary.paidBy}</span>
+                                    {summary.expenseDate && <> • {formatDate(summary.expenseDate)}</>}
+                                    {expense?.group && (
+                                        <> • <Link to={`/groups/${expense.group._id}`} className="text-secondary">{expense.group.name}</Link></>
+                                    )}
+                                </p>
+                                {!expense && (
+                                    <span className="badge badge-danger mt-1">Deleted</span>
+                                )}
+                            </div>
+                            <p className="text-2xl font-bold">{formatCurrency(summary.amount, summary.currency)}</p>
+                            {/* Group admins can move others' expenses to the trash too; the server checks the role */}
+                            {expense && (expense.createdBy._id === user?._id || expense.group) && (
+                                <button onClick={handleDelete} className="btn btn-secondary btn-sm" title="Move to trash">
+                                    <Trash2 size={16} />
+                                </button>
+                            )}
+                            {!expense && (
+                                <button onClick={handleRestore} className="btn btn-secondary btn-sm">
+                                    <RotateCcw size={16} />
+                                    Restore
+                                </button>
+                            )}
+                        </div>
+
+                        {summary.notes && (
+                            <p className="text-sm text-muted mt-4" style={{ whiteSpace: 'pre-wrap' }}>{summary.notes}</p>
+                        )}
+
+                        <div className="flex flex-col gap-2 mt-4">
+                            {summary.splits.map((split, index) => (
+                                <div key={index} className="flex items-center justify-between text-sm">
+                                    <span>{split.name}</span>
+                                    <span>{formatCurrency(split.share, summary.currency)}</span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="card animate-slide-up" style={{ animationDelay: '0.1s' }}>
+                    <h3 className="flex items-center gap-2 mb-4">
+                        <History size={20} />
+                        History
+                    </h3>
+
+                    {history.length === 0 ? (
+                        <p className="text-muted text-center">No changes recorded for this expense</p>
+                    ) : (
+                        <div className="flex flex-col gap-3">
+                            {[...history].reverse().map((entry) => (
+                                <div
+                                    key={entry._id}
+                                    className="flex gap-4 p-4"
+                                    style={{
+                                        background: 'var(--bg-secondary)',
+                                        borderRadius: 'var(--radius-md)',
+                                    }}
+                                >
+                                    <div className="avatar" style={{ background: 'var(--gradient-primary)' }}>
+                                        {entry.action === ExpenseHistoryAction.CREATED && <PlusCircle size={18} />}
+                                        {entry.action === ExpenseHistoryAction.UPDATED && <Pencil size={18} />}
+                                        {entry.action === ExpenseHistoryAction.DELETED && <Trash2 size={18} />}
+                                        {entry.action === ExpenseHistoryAction.RESTORED && <RotateCcw size={18} />}
+                                    </div>
+                                    <div className="flex-1">
+                                        <p className="font-bold">
+                                            {entry.action === ExpenseHistoryAction.CREATED && 'Added'}
+                                            {entry.action === ExpenseHistoryAction.UPDATED && 'Edited'}
+                                            {entry.action === ExpenseHistoryAction.DELETED && 'Deleted'}
+                                            {entry.action === ExpenseHistoryAction.RESTORED && 'Restored'}
+                                            {' by '}
+                                            <span className="text-primary">{entry.changedBy?.name || 'a recurring schedule'}</span>
+                                        </p>
+                                        <p className="text-xs text-muted">
+                                            Version {entry.version} • {formatDateTime(entry.createdAt)}
+                                        </p>
+                                        {entry.changes.length > 0 && (
+                                            <ul className="flex flex-col gap-1 mt-2">
+                                                {entry.changes.map((change) => renderChange(change, entry.snapshot))}
+                                            </ul>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ExpenseDetail;
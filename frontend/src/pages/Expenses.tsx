@@ -1,35 +1,121 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { Link } from 'react-router-dom';
-import { expenseService } from '../services';
-import type { Expense } from '../types';
-import { Receipt, Plus, Filter } from 'lucide-react';
+import { expenseService, userService } from '../services';
+import { DEFAULT_CATEGORIES, SplitType } from '../types';
+import type { Expense, ExpenseFilters, PageOptions, User } from '../types';
+import { Receipt, Plus, Filter, Search, X } from 'lucide-react';
+import CategoryIcon from '../components/CategoryIcon';
+
+const PAGE_SIZE = 15;
 
 const Expenses: React.FC = () => {
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [isLoading, setIsLoading] = useState(true);
-    const [page, setPage] = useState(1);
-    const [totalPages, setTotalPages] = useState(1);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [nextCursor, setNextCursor] = useState<string | null>(null);
+    // Sorting by relevance can't use cursors, so it pages by number instead
+    const [nextPage, setNextPage] = useState<number | null>(null);
+    const [search, setSearch] = useState('');
+    const [filters, setFilters] = useState<ExpenseFilters>({});
+    const [showFilters, setShowFilters] = useState(false);
+    const [users, setUsers] = useState<User[]>([]);
+    // Built-in categories plus any group categories seen so far
+    const [categoryOptions, setCategoryOptions] = useState<string[]>([...DEFAULT_CATEGORIES]);
+
+    const hasFilters = Object.values(filters).some((value) => value !== undefined && value !== '');
+
+    const updateFilters = (changes: Partial<ExpenseFilters>) => {
+        setFilters((prev) => ({ ...prev, ...changes }));
+    };
 
+    // Search as the user types, without a request per keystroke
     useEffect(() => {
-        const fetchExpenses = async () => {
-            try {
-                const data = await expenseService.getAll(undefined, page, 15);
-                setExpenses(data.data || []);
-                setTotalPages(data.pages || 1);
-            } catch (error) {
-                console.error('Failed to fetch expenses:', error);
-            } finally {
+        const timer = setTimeout(() => {
+            const q = search.trim() || undefined;
+            if (q !== filters.q) {
+                updateFilters({
+                    q,
+                    // Relevance only makes sense while searching
+                    ...(!q && filters.sortBy === 'relevance' && { sortBy: undefined }),
+                });
+            }
+        }, 300);
+        return () => clearTimeout(timer);
+    }, [search, filters.q, filters.sortBy]);
+
+    useEffect(() => {
+        userService.getAll().then(setUsers).catch(() => setUsers([]));
+    }, []);
+
+    const requestFilters = useMemo<ExpenseFilters>(() => ({
+        ...filters,
+        // The "to" day is included in full
+        to: filters.to && `${filters.to}T23:59:59.999Z`,
+    }), [filters]);
+
+    // Responses to filters that have since changed are dropped
+    const latestRequest = useRef(0);
+    const sentinelRef = useRef<HTMLDivElement>(null);
+
+    const fetchExpenses = useCallback(async (options: PageOptions, append: boolean) => {
+        const request = ++latestRequest.current;
+        try {
+            const data = await expenseService.getAll(undefined, { ...options, limit: PAGE_SIZE }, requestFilters);
+            if (request !== latestRequest.current) return;
+
+            const rows = data.data || [];
+            setExpenses((prev) => (append ? [...prev, ...rows] : rows));
+            setNextCursor(data.nextCursor);
+            setNextPage(data.page && data.pages && data.page < data.pages ? data.page + 1 : null);
+            setCategoryOptions((prev) => [
+                ...prev,
+                ...new Set(rows.map((e) => e.category).filter((c) => c && !prev.includes(c))),
+            ]);
+        } catch (error) {
+            console.error('Failed to fetch expenses:', error);
+        } finally {
+            if (request === latestRequest.current) {
                 setIsLoading(false);
+                setIsLoadingMore(false);
             }
-        };
+        }
+    }, [requestFilters]);
+
+    // Start over whenever the filters change
+    useEffect(() => {
+        fetchExpenses({}, false);
+    }, [fetchExpenses]);
+
+    const byRelevance = filters.sortBy === 'relevance';
+    const hasMore = byRelevance ? nextPage !== null : nextCursor !== null;
+
+    const loadMore = useCallback(() => {
+        if (isLoadingMore || !hasMore) return;
+        setIsLoadingMore(true);
+        fetchExpenses(byRelevance ? { page: nextPage! } : { cursor: nextCursor! }, true);
+    }, [isLoadingMore, hasMore, byRelevance, nextPage, nextCursor, fetchExpenses]);
+
+    // Load the next rows as the end of the list scrolls into view
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!sentinel || !hasMore) return;
+
+        const observer = new IntersectionObserver(
+            (entries) => {
+                if (entries[0].isIntersecting) loadMore();
+            },
+            { rootMargin: '200px' }
+        );
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMore, loadMore]);
 
-        fetchExpenses();
-    }, [page]);
+    const sortValue = `${filters.sortBy || 'expenseDate'}:${filters.order || 'desc'}`;
 
-    const formatCurrency = (amount: number) => {
+    const formatCurrency = (amount: number, currency = 'INR') => {
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: 'INR',
+            currency,
             minimumFractionDigits: 0,
         }).format(amount);
     };
@@ -63,10 +149,160 @@ const Expenses: React.FC = () => {
                     </Link>
                 </div>
 
+                {/* Filter bar */}
+                <div className="card mb-6 animate-slide-up">
+                    <div className="flex items-center gap-2">
+                        <div style={{ position: 'relative', flex: 1 }}>
+                            <Search
+                                size={18}
+                                style={{
+                                    position: 'absolute',
+                                    left: '14px',
+                                    top: '50%',
+                                    transform: 'translateY(-50%)',
+                                    color: 'var(--text-muted)',
+                                }}
+                            />
+                            <input
+                                type="search"
+                                className="form-input"
+                                placeholder="Search descriptions and notes"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                style={{ paddingLeft: '44px' }}
+                            />
+                        </div>
+                        <select
+                            className="form-input form-select"
+                            value={sortValue}
+                            onChange={(e) => {
+                                const [sortBy, order] = e.target.value.split(':') as [
+                                    ExpenseFilters['sortBy'],
+                                    ExpenseFilters['order'],
+                                ];
+                                updateFilters({ sortBy, order });
+                            }}
+                            style={{ width: '180px' }}
+                        >
+                            <option value="expenseDate:desc">Newest first</option>
+                            <option value="expenseDate:asc">Oldest first</option>
+                            <option value="amount:desc">Highest amount</option>
+                            <option value="amount:asc">Lowest amount</option>
+                            <option value="createdAt:desc">Recently added</option>
+                            {filters.q && <option value="relevance:desc">Best match</option>}
+                        </select>
+                        <button
+                            onClick={() => setShowFilters((show) => !show)}
+                            className={`btn ${showFilters ? 'btn-primary' : 'btn-secondary'}`}
+                            title="More filters"
+                        >
+                            <Filter size={18} />
+                        </button>
+                        {(hasFilters || search) && (
+                            <button
+                                onClick={() => {
+                                    setSearch('');
+                                    setFilters({});
+                                }}
+                                className="btn btn-ghost"
+                                title="Clear filters"
+                            >
+                                <X size={18} />
+                            </button>
+                        )}
+                    </div>
+
+                    {showFilters && (
+                        <div
+                            className="mt-4"
+                            style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(180px, 1fr))', gap: '0.75rem' }}
+                        >
+                            <select
+                                className="form-input form-select"
+                                value={filters.category || ''}
+                                onChange={(e) => updateFilters({ category: e.target.value || undefined })}
+                            >
+                                <option value="">All categories</option>
+                                {categoryOptions.map((name) => (
+                                    <option key={name} value={name}>
+                                        {name}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                className="form-input form-select"
+                                value={filters.splitType || ''}
+                                onChange={(e) => updateFilters({ splitType: (e.target.value || undefined) as SplitType | undefined })}
+                            >
+                                <option value="">Any split</option>
+                                {Object.values(SplitType).map((type) => (
+                                    <option key={type} value={type}>
+                                        {type}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                className="form-input form-select"
+                                value={filters.payer || ''}
+                                onChange={(e) => updateFilters({ payer: e.target.value || undefined })}
+                            >
+                                <option value="">Paid by anyone</option>
+                                {users.map((u) => (
+                                    <option key={u._id} value={u._id}>
+                                        Paid by {u.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <select
+                                className="form-input form-select"
+                                value={filters.participant || ''}
+                                onChange={(e) => updateFilters({ participant: e.target.value || undefined })}
+                            >
+                                <option value="">Shared with anyone</option>
+                                {users.map((u) => (
+                                    <option key={u._id} value={u._id}>
+                                        Shared with {u.name}
+                                    </option>
+                                ))}
+                            </select>
+                            <input
+                                type="number"
+                                className="form-input"
+                                placeholder="Min amount"
+                                min="0"
+                                value={filters.minAmount ?? ''}
+                                onChange={(e) => updateFilters({ minAmount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            />
+                            <input
+                                type="number"
+                                className="form-input"
+                                placeholder="Max amount"
+                                min="0"
+                                value={filters.maxAmount ?? ''}
+                                onChange={(e) => updateFilters({ maxAmount: e.target.value === '' ? undefined : Number(e.target.value) })}
+                            />
+                            <input
+                                type="date"
+                                className="form-input"
+                                title="From"
+                                value={filters.from || ''}
+                                onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+                            />
+                            <input
+                                type="date"
+                                className="form-input"
+                                title="To"
+                                value={filters.to || ''}
+                                onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+                            />
+                        </div>
+                    )}
+                </div>
+
                 {expenses.length === 0 ? (
                     <div className="card empty-state animate-slide-up">
                         <Receipt size={48} className="empty-state-icon" style={{ margin: '0 auto 1rem' }} />
-                        <h3 className="empty-state-title">No expenses yet</h3>
+                        <h3 className="empty-state-title">{hasFilters ? 'No matching expenses' : 'No expenses yet'}</h3>
                         <p className="empty-state-text">Start tracking your shared expenses</p>
                         <Link to="/expenses/new" className="btn btn-primary">
                             <Plus size={18} />
@@ -86,48 +322,41 @@ const Expenses: React.FC = () => {
                                             borderRadius: 'var(--radius-md)',
                                         }}
                                     >
-                                        <div className="avatar" style={{ background: 'var(--gradient-accent)' }}>
-                                            <Receipt size={18} />
+                                        <div
+                                            className="avatar"
+                                            style={{ background: 'var(--gradient-accent)' }}
+                                            title={expense.category}
+                                        >
+                                            <CategoryIcon name={expense.category} />
                                         </div>
                                         <div className="flex-1">
-                                            <p className="font-bold">{expense.description}</p>
+                                            <p className="font-bold">
+                                                <Link to={`/expenses/${expense._id}`}>{expense.description}</Link>
+                                            </p>
                                             <p className="text-sm text-muted">
-                                                Paid by <span className="text-primary">{expense.paidBy.name}</span>
+                                                Paid by <span className="text-primary">{expense.payers?.length ? expense.payers.map((p) => p.user.name).join(' & ') : expense.paidBy.name}</span>
                                                 {expense.group && (
                                                     <> • <Link to={`/groups/${expense.group._id}`} className="text-secondary">{expense.group.name}</Link></>
                                                 )}
                                             </p>
                                             <div className="flex items-center gap-2 mt-1">
                                                 <span className="badge badge-primary">{expense.splitType}</span>
-                                                <span className="text-xs text-muted">{formatDate(expense.createdAt)}</span>
+                                                {expense.category && (
+                                                    <span className="badge">{expense.category}</span>
+                                                )}
+                                                <span className="text-xs text-muted">{formatDate(expense.expenseDate)}</span>
                                             </div>
                                         </div>
-                                        <p className="text-xl font-bold">{formatCurrency(expense.amount)}</p>
+                                        <p className="text-xl font-bold">{formatCurrency(expense.amount, expense.currency)}</p>
                                     </div>
                                 ))}
                             </div>
                         </div>
 
-                        {/* Pagination */}
-                        {totalPages > 1 && (
-                            <div className="flex justify-center gap-2 mt-6 animate-slide-up">
-                                <button
-                                    onClick={() => setPage((p) => Math.max(1, p - 1))}
-                                    disabled={page === 1}
-                                    className="btn btn-secondary"
-                                >
-                                    Previous
-                                </button>
-                                <span className="btn btn-ghost" style={{ pointerEvents: 'none' }}>
-                                    {page} / {totalPages}
-                                </span>
-                                <button
-                                    onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-                                    disabled={page === totalPages}
-                                    className="btn btn-secondary"
-                                >
-                                    Next
-                                </button>
+                        {/* Infinite scroll */}
+                        {hasMore && (
+                            <div ref={sentinelRef} className="flex justify-center mt-6">
+                                {isLoadingMore && <div className="spinner" />}
                             </div>
                         )}
                     </>
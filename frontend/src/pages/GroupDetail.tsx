@@ -1,7 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
-import { groupService, expenseService } from '../services';
-import type { Group, Expense, SettlementSuggestion } from '../types';
+import { groupService, expenseService, settlementService, recurringService } from '../services';
+import { useAuth } from '../context/AuthContext';
+import { GroupRole, DebtResolution } from '../types';
+import type { Group, Expense, SettlementSuggestion, RecurringExpense, GroupInvite, JoinRequest, LeaveGroupOptions } from '../types';
 import {
     ArrowLeft,
     Users,
@@ -9,33 +11,82 @@ import {
     Plus,
     ArrowRight,
     Wallet,
-    CheckCircle
+    CheckCircle,
+    Repeat,
+    Pause,
+    Play,
+    SkipForward,
+    Trash2,
+    RotateCcw,
+    Crown,
+    UserMinus,
+    LogOut,
+    Link as LinkIcon,
+    Copy,
+    Check,
+    X
 } from 'lucide-react';
 import toast from 'react-hot-toast';
+import CategoryIcon from '../components/CategoryIcon';
+
+const ROLE_RANK: Record<GroupRole, number> = {
+    OWNER: 3,
+    ADMIN: 2,
+    MEMBER: 1,
+    VIEWER: 0,
+};
+
+const ROLE_LABELS: Record<GroupRole, string> = {
+    OWNER: 'Owner',
+    ADMIN: 'Admin',
+    MEMBER: 'Member',
+    VIEWER: 'Viewer',
+};
 
 const GroupDetail: React.FC = () => {
     const { id } = useParams<{ id: string }>();
     const navigate = useNavigate();
+    const { user } = useAuth();
     const [group, setGroup] = useState<Group | null>(null);
     const [expenses, setExpenses] = useState<Expense[]>([]);
     const [settlements, setSettlements] = useState<SettlementSuggestion[]>([]);
+    const [planHash, setPlanHash] = useState('');
+    const [skipped, setSkipped] = useState<Set<number>>(new Set());
+    const [isSettling, setIsSettling] = useState(false);
     const [isLoading, setIsLoading] = useState(true);
-    const [activeTab, setActiveTab] = useState<'expenses' | 'balances' | 'members'>('expenses');
+    const [recurring, setRecurring] = useState<RecurringExpense[]>([]);
+    const [trash, setTrash] = useState<Expense[]>([]);
+    const [retentionDays, setRetentionDays] = useState(30);
+    const [invites, setInvites] = useState<GroupInvite[]>([]);
+    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
+    const [inviteDays, setInviteDays] = useState(7);
+    const [inviteMaxUses, setInviteMaxUses] = useState('');
+    const [inviteApproval, setInviteApproval] = useState(false);
+    const [placeholder, setPlaceholder] = useState({ name: '', email: '', phone: '' });
+    const [leaving, setLeaving] = useState<{ memberId: string; name: string; error: string } | null>(null);
+    const [transferTo, setTransferTo] = useState('');
+    const [activeTab, setActiveTab] = useState<'expenses' | 'balances' | 'recurring' | 'trash' | 'members'>('expenses');
 
     useEffect(() => {
         const fetchData = async () => {
             if (!id) return;
 
             try {
-                const [groupData, expensesData, balancesData] = await Promise.all([
+                const [groupData, expensesData, balancesData, recurringData, trashData] = await Promise.all([
                     groupService.getById(id),
                     expenseService.getAll(id),
                     groupService.getBalances(id),
+                    recurringService.getAll(id),
+                    groupService.getTrash(id),
                 ]);
 
                 setGroup(groupData);
                 setExpenses(expensesData.data || []);
                 setSettlements(balancesData.settlementSuggestions || []);
+                setPlanHash(balancesData.planHash);
+                setRecurring(recurringData);
+                setTrash(trashData.data || []);
+                setRetentionDays(trashData.retentionDays);
             } catch (error: any) {
                 toast.error(error.response?.data?.error || 'Failed to load group');
                 navigate('/groups');
@@ -47,10 +98,300 @@ const GroupDetail: React.FC = () => {
         fetchData();
     }, [id, navigate]);
 
-    const formatCurrency = (amount: number) => {
+    // Same fallback as the backend: groups from before roles are owned by their creator
+    const roleOf = (memberId?: string): GroupRole => {
+        if (!group) return GroupRole.VIEWER;
+        const roles = group.memberRoles || [];
+        const entry = roles.find((r) => r.user === memberId);
+        if (entry) return entry.role;
+        const hasOwner = roles.some((r) => r.role === GroupRole.OWNER);
+        return !hasOwner && memberId === group.createdBy._id ? GroupRole.OWNER : GroupRole.MEMBER;
+    };
+
+    const myRole = roleOf(user?._id);
+    const isAdmin = myRole === GroupRole.OWNER || myRole === GroupRole.ADMIN;
+    const canAddExpenses = myRole !== GroupRole.VIEWER;
+
+    // Invites and join requests are only loaded for the members tab
+    useEffect(() => {
+        const fetchInvites = async () => {
+            if (!id || activeTab !== 'members' || !canAddExpenses) return;
+
+            try {
+                const [invitesData, requestsData] = await Promise.all([
+                    groupService.getInvites(id),
+                    isAdmin ? groupService.getJoinRequests(id) : Promise.resolve([]),
+                ]);
+                setInvites(invitesData);
+                setJoinRequests(requestsData);
+            } catch (error: any) {
+                toast.error(error.response?.data?.error || 'Failed to load invites');
+            }
+        };
+
+        fetchInvites();
+    }, [id, activeTab, canAddExpenses, isAdmin]);
+
+    const handleAutoConfirmChange = async (autoConfirmDays: number | null) => {
+        if (!id) return;
+
+        try {
+            setGroup(await groupService.update(id, { autoConfirmDays }));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update group');
+        }
+    };
+
+    const handleSimplifyDebtsChange = async (simplifyDebts: boolean) => {
+        if (!id) return;
+
+        try {
+            const updated = await groupService.update(id, { simplifyDebts });
+            setGroup(updated);
+            await refreshBalances();
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update group');
+        }
+    };
+
+    const refreshBalances = async () => {
+        if (!id) return;
+
+        const balancesData = await groupService.getBalances(id);
+        setSettlements(balancesData.settlementSuggestions || []);
+        setPlanHash(balancesData.planHash);
+        setSkipped(new Set());
+    };
+
+    const toggleSuggestion = (index: number) => {
+        const next = new Set(skipped);
+        if (next.has(index)) {
+            next.delete(index);
+        } else {
+            next.add(index);
+        }
+        setSkipped(next);
+    };
+
+    const handleSettleAll = async () => {
+        if (!id) return;
+
+        const selected = settlements.filter((_, index) => !skipped.has(index));
+        setIsSettling(true);
+        try {
+            const created = await settlementService.batch({
+                groupId: id,
+                planHash,
+                settlements: selected.map((s) => ({
+                    fromUserId: s.from.userId,
+                    toUserId: s.to.userId,
+                    amount: s.amount,
+                })),
+            });
+            toast.success(`Recorded ${created.length} payment${created.length === 1 ? '' : 's'} (awaiting confirmation)`);
+            await refreshBalances();
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to record settlements');
+            if (error.response?.status === 409) {
+                await refreshBalances();
+            }
+        } finally {
+            setIsSettling(false);
+        }
+    };
+
+    const handleRecurringAction = async (
+        recurringId: string,
+        action: 'skip' | 'pause' | 'resume' | 'delete'
+    ) => {
+        if (!id) return;
+        if (action === 'delete' && !window.confirm('Stop this recurring expense? Expenses already added are kept.')) {
+            return;
+        }
+
+        try {
+            if (action === 'delete') {
+                await recurringService.delete(id, recurringId);
+                setRecurring((prev) => prev.filter((r) => r._id !== recurringId));
+                return;
+            }
+            const updated = await recurringService[action](id, recurringId);
+            setRecurring((prev) => prev.map((r) => (r._id === recurringId ? updated : r)));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update recurring expense');
+        }
+    };
+
+    const handleRoleChange = async (memberId: string, role: GroupRole) => {
+        if (!id) return;
+
+        try {
+            setGroup(await groupService.updateMemberRole(id, memberId, role));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to change role');
+        }
+    };
+
+    const handleTransferOwnership = async (memberId: string, name: string) => {
+        if (!id || !window.confirm(`Make ${name} the owner of this group? You will stay on as an admin.`)) {
+            return;
+        }
+
+        try {
+            setGroup(await groupService.transferOwnership(id, memberId));
+            toast.success(`${name} now owns this group`);
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to transfer ownership');
+        }
+    };
+
+    const handleAddPlaceholder = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!id) return;
+
+        try {
+            setGroup(await groupService.addPlaceholder(id, {
+                name: placeholder.name,
+                email: placeholder.email || undefined,
+                phone: placeholder.phone || undefined,
+            }));
+            toast.success(`Added ${placeholder.name}`);
+            setPlaceholder({ name: '', email: '', phone: '' });
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to add member');
+        }
+    };
+
+    const handleAddPlaceholderEmail = async (memberId: string, name: string) => {
+        const email = window.prompt(`${name}'s email. When they sign up with it, everything here becomes theirs.`);
+        if (!id || !email) return;
+
+        try {
+            const updated = await groupService.updatePlaceholder(id, memberId, { email });
+            setGroup((prev) => prev && {
+                ...prev,
+                members: prev.members.map((m) => (m._id === memberId ? { ...m, email: updated.email } : m)),
+            });
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update member');
+        }
+    };
+
+    // Remove a member, or leave when it's yourself. A balance in the group
+    // blocks it (409) until it's settled or `options` says how to clear it.
+    const handleRemoveMember = async (memberId: string, name: string, options: LeaveGroupOptions = {}) => {
+        const isSelf = memberId === user?._id;
+        if (!id || (!options.resolution && !window.confirm(isSelf ? `Leave ${group?.name}?` : `Remove ${name} from this group?`))) {
+            return;
+        }
+
+        try {
+            if (isSelf) {
+                await groupService.leave(id, options);
+                toast.success(`You left ${group?.name}`);
+                navigate('/groups');
+                return;
+            }
+            setGroup(await groupService.removeMember(id, memberId, options));
+            setLeaving(null);
+            if (options.resolution) {
+                await refreshBalances();
+            }
+        } catch (error: any) {
+            const message = error.response?.data?.error || (isSelf ? 'Failed to leave group' : 'Failed to remove member');
+            if (error.response?.status === 409) {
+                setLeaving({ memberId, name, error: message });
+                setTransferTo('');
+            } else {
+                toast.error(message);
+            }
+        }
+    };
+
+    const inviteLink = (invite: GroupInvite) => `${window.location.origin}/join/${invite.token}`;
+
+    const copyInviteLink = async (invite: GroupInvite) => {
+        try {
+            await navigator.clipboard.writeText(inviteLink(invite));
+            toast.success('Invite link copied');
+        } catch {
+            toast.error('Could not copy the link');
+        }
+    };
+
+    const handleCreateInvite = async () => {
+        if (!id) return;
+
+        try {
+            const invite = await groupService.createInvite(id, {
+                expiresInDays: inviteDays,
+                maxUses: inviteMaxUses ? Number(inviteMaxUses) : null,
+                requiresApproval: inviteApproval,
+            });
+            setInvites((prev) => [invite, ...prev]);
+            await copyInviteLink(invite);
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to create invite');
+        }
+    };
+
+    const handleRevokeInvite = async (inviteId: string) => {
+        if (!id || !window.confirm('Revoke this invite? The link will stop working.')) {
+            return;
+        }
+
+        try {
+            await groupService.revokeInvite(id, inviteId);
+            setInvites((prev) => prev.filter((i) => i._id !== inviteId));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to revoke invite');
+        }
+    };
+
+    const handleJoinRequest = async (request: JoinRequest, approve: boolean) => {
+        if (!id) return;
+
+        try {
+            if (approve) {
+                setGroup(await groupService.approveJoinRequest(id, request._id));
+                toast.success(`${request.user.name} joined the group`);
+            } else {
+                await groupService.rejectJoinRequest(id, request._id);
+            }
+            setJoinRequests((prev) => prev.filter((r) => r._id !== request._id));
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to update join request');
+        }
+    };
+
+    const handleRestore = async (expenseId: string) => {
+        try {
+            const restored = await expenseService.restore(expenseId);
+            setTrash((prev) => prev.filter((e) => e._id !== expenseId));
+            setExpenses((prev) =>
+                [...prev, restored].sort((a, b) => b.expenseDate.localeCompare(a.expenseDate))
+            );
+            await refreshBalances();
+            toast.success('Expense restored');
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to restore expense');
+        }
+    };
+
+    // Deleted expenses are purged this long after they were deleted
+    const purgeDate = (deletedAt: string) =>
+        new Date(new Date(deletedAt).getTime() + retentionDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const describeSchedule = (r: RecurringExpense) => {
+        if (r.frequency === 'CUSTOM') return `Custom (${r.cron})`;
+        const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[r.frequency];
+        return r.interval > 1 ? `Every ${r.interval} ${unit}s` : `Every ${unit}`;
+    };
+
+    const formatCurrency = (amount: number, currency = 'INR') => {
         return new Intl.NumberFormat('en-IN', {
             style: 'currency',
-            currency: 'INR',
+            currency,
             minimumFractionDigits: 0,
         }).format(amount);
     };
@@ -106,16 +447,18 @@ const GroupDetail: React.FC = () => {
                                 {group.members.length} members • Created {formatDate(group.createdAt)}
                             </p>
                         </div>
-                        <Link to={`/expenses/new?groupId=${id}`} className="btn btn-primary">
-                            <Plus size={18} />
-                            Add Expense
-                        </Link>
+                        {canAddExpenses && (
+                            <Link to={`/expenses/new?groupId=${id}`} className="btn btn-primary">
+                                <Plus size={18} />
+                                Add Expense
+                            </Link>
+                        )}
                     </div>
                 </div>
 
                 {/* Tabs */}
                 <div className="flex gap-2 mb-6 animate-slide-up" style={{ animationDelay: '0.1s' }}>
-                    {(['expenses', 'balances', 'members'] as const).map((tab) => (
+                    {(['expenses', 'balances', 'recurring', 'trash', 'members'] as const).map((tab) => (
                         <button
                             key={tab}
                             onClick={() => setActiveTab(tab)}
@@ -124,6 +467,8 @@ const GroupDetail: React.FC = () => {
                         >
                             {tab === 'expenses' && <Receipt size={18} />}
                             {tab === 'balances' && <Wallet size={18} />}
+                            {tab === 'recurring' && <Repeat size={18} />}
+                            {tab === 'trash' && <Trash2 size={18} />}
                             {tab === 'members' && <Users size={18} />}
                             {tab}
                         </button>
@@ -140,10 +485,12 @@ const GroupDetail: React.FC = () => {
                                     <Receipt size={48} className="empty-state-icon" />
                                     <h4 className="empty-state-title">No expenses yet</h4>
                                     <p className="empty-state-text">Add your first expense to this group</p>
-                                    <Link to={`/expenses/new?groupId=${id}`} className="btn btn-primary">
-                                        <Plus size={18} />
-                                        Add Expense
-                                    </Link>
+                                    {canAddExpenses && (
+                                        <Link to={`/expenses/new?groupId=${id}`} className="btn btn-primary">
+                                            <Plus size={18} />
+                                            Add Expense
+                                        </Link>
+                                    )}
                                 </div>
                             ) : (
                                 <div className="flex flex-col gap-3">
@@ -159,19 +506,22 @@ const GroupDetail: React.FC = () => {
                                             <div
                                                 className="avatar"
                                                 style={{ background: 'var(--gradient-accent)' }}
+                                                title={expense.category}
                                             >
-                                                <Receipt size={18} />
+                                                <CategoryIcon name={expense.category} />
                                             </div>
                                             <div className="flex-1">
-                                                <p className="font-bold">{expense.description}</p>
+                                                <p className="font-bold">
+                                                    <Link to={`/expenses/${expense._id}`}>{expense.description}</Link>
+                                                </p>
                                                 <p className="text-sm text-muted">
-                                                    Paid by <span className="text-primary">{expense.paidBy.name}</span> • {formatDate(expense.createdAt)}
+                                                    Paid by <span className="text-primary">{expense.payers?.length ? expense.payers.map((p) => p.user.name).join(' & ') : expense.paidBy.name}</span> • {formatDate(expense.expenseDate)}
                                                 </p>
                                                 <span className="badge badge-primary mt-1">
                                                     {expense.splitType}
                                                 </span>
                                             </div>
-                                            <p className="text-xl font-bold">{formatCurrency(expense.amount)}</p>
+                                            <p className="text-xl font-bold">{formatCurrency(expense.amount, expense.currency)}</p>
                                         </div>
                                     ))}
                                 </div>
@@ -181,7 +531,33 @@ const GroupDetail: React.FC = () => {
 
                     {activeTab === 'balances' && (
                         <div className="card">
-                            <h3 className="mb-4">Settlement Suggestions</h3>
+                            <div className="flex items-center justify-between mb-4">
+                                <h3>Settlement Suggestions</h3>
+                                {isAdmin && (
+                                    <div className="flex items-center gap-4">
+                                        <label className="text-sm text-muted flex items-center gap-2">
+                                            Auto-confirm payments
+                                            <select
+                                                value={group.autoConfirmDays ?? ''}
+                                                onChange={(e) => handleAutoConfirmChange(e.target.value ? Number(e.target.value) : null)}
+                                            >
+                                                <option value="">Never</option>
+                                                {[3, 7, 14, 30].map((days) => (
+                                                    <option key={days} value={days}>After {days} days</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="text-sm text-muted flex items-center gap-2">
+                                            <input
+                                                type="checkbox"
+                                                checked={group.simplifyDebts}
+                                                onChange={(e) => handleSimplifyDebtsChange(e.target.checked)}
+                                            />
+                                            Simplify group debts
+                                        </label>
+                                    </div>
+                                )}
+                            </div>
                             {settlements.length === 0 ? (
                                 <div className="empty-state">
                                     <CheckCircle size={48} className="empty-state-icon" style={{ color: 'var(--success)' }} />
@@ -190,9 +566,26 @@ const GroupDetail: React.FC = () => {
                                 </div>
                             ) : (
                                 <div className="flex flex-col gap-3">
-                                    <p className="text-sm text-muted mb-2">
-                                        Here are the optimized payments to settle all balances:
-                                    </p>
+                                    <div className="flex items-center justify-between mb-2">
+                                        <p className="text-sm text-muted">
+                                            {group.simplifyDebts
+                                                ? 'Here are the optimized payments to settle all balances:'
+                                                : 'Payments between people who owe each other directly:'}
+                                        </p>
+                                        {isAdmin && (
+                                            <button
+                                                className="btn btn-primary btn-sm"
+                                                onClick={handleSettleAll}
+                                                disabled={isSettling || skipped.size === settlements.length}
+                                            >
+                                                {isSettling
+                                                    ? 'Recording...'
+                                                    : skipped.size === 0
+                                                        ? 'Settle all'
+                                                        : `Settle selected (${settlements.length - skipped.size})`}
+                                            </button>
+                                        )}
+                                    </div>
                                     {settlements.map((settlement, index) => (
                                         <div
                                             key={index}
@@ -202,21 +595,162 @@ const GroupDetail: React.FC = () => {
                                                 borderRadius: 'var(--radius-md)',
                                             }}
                                         >
+                                            {isAdmin && (
+                                                <input
+                                                    type="checkbox"
+                                                    checked={!skipped.has(index)}
+                                                    onChange={() => toggleSuggestion(index)}
+                                                    aria-label="Include in settle all"
+                                                />
+                                            )}
                                             <div className="avatar avatar-sm">{getInitials(settlement.from.name)}</div>
                                             <span className="font-medium">{settlement.from.name}</span>
                                             <ArrowRight size={18} className="text-muted" />
                                             <div className="avatar avatar-sm">{getInitials(settlement.to.name)}</div>
                                             <span className="font-medium">{settlement.to.name}</span>
                                             <span className="ml-auto text-xl font-bold text-primary">
-                                                {formatCurrency(settlement.amount)}
+                                                {formatCurrency(settlement.amount, group.baseCurrency)}
                                             </span>
-                                            <Link
-                                                to={`/settlements/new?groupId=${id}&from=${settlement.from.userId}&to=${settlement.to.userId}&amount=${settlement.amount}`}
-                                                className="btn btn-success btn-sm"
-                                                style={{ padding: '0.5rem 1rem' }}
+                                            {(isAdmin || (canAddExpenses && [settlement.from.userId, settlement.to.userId].includes(user?._id || ''))) && (
+                                                <Link
+                                                    to={`/settlements/new?groupId=${id}&from=${settlement.from.userId}&to=${settlement.to.userId}&amount=${settlement.amount}`}
+                                                    className="btn btn-success btn-sm"
+                                                    style={{ padding: '0.5rem 1rem' }}
+                                                >
+                                                    Settle
+                                                </Link>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'recurring' && (
+                        <div className="card">
+                            <h3 className="mb-4">Recurring Expenses ({recurring.length})</h3>
+                            {recurring.length === 0 ? (
+                                <div className="empty-state">
+                                    <Repeat size={48} className="empty-state-icon" />
+                                    <h4 className="empty-state-title">Nothing recurring</h4>
+                                    <p className="empty-state-text">
+                                        Choose "Repeats" when adding an expense for rent, bills or subscriptions
+                                    </p>
+                                </div>
+                            ) : (
+                                <div className="flex flex-col gap-3">
+                                    {recurring.map((r) => (
+                                        <div
+                                            key={r._id}
+                                            className="flex items-center gap-4 p-4"
+                                            style={{
+                                                background: 'var(--bg-secondary)',
+                                                borderRadius: 'var(--radius-md)',
+                                                opacity: r.paused || !r.nextRunAt ? 0.6 : 1,
+                                            }}
+                                        >
+                                            <div className="avatar" style={{ background: 'var(--gradient-accent)' }}>
+                                                <Repeat size={18} />
+                                            </div>
+                                            <div className="flex-1">
+                                                <p className="font-bold">{r.template.description}</p>
+                                                <p className="text-sm text-muted">
+                                                    {describeSchedule(r)} •{' '}
+                                                    {r.paused
+                                                        ? 'Paused'
+                                                        : r.nextRunAt
+                                                            ? `Next on ${formatDate(r.nextRunAt)}`
+                                                            : 'Ended'}
+                                                </p>
+                                            </div>
+                                            <p className="text-xl font-bold">
+                                                {formatCurrency(r.template.amount, r.template.currency || group.baseCurrency)}
+                                            </p>
+                                            <div className="flex gap-2">
+                                                {r.nextRunAt && !r.paused && (
+                                                    <button
+                                                        onClick={() => handleRecurringAction(r._id, 'skip')}
+                                                        className="btn btn-secondary btn-sm"
+                                                        title="Skip next"
+                                                    >
+                                                        <SkipForward size={16} />
+                                                    </button>
+                                                )}
+                                                {r.nextRunAt && (
+                                                    <button
+                                                        onClick={() => handleRecurringAction(r._id, r.paused ? 'resume' : 'pause')}
+                                                        className="btn btn-secondary btn-sm"
+                                                        title={r.paused ? 'Resume' : 'Pause'}
+                                                    >
+                                                        {r.paused ? <Play size={16} /> : <Pause size={16} />}
+                                                    </button>
+                                                )}
+                                                <button
+                                                    onClick={() => handleRecurringAction(r._id, 'delete')}
+                                                    className="btn btn-secondary btn-sm"
+                                                    title="Delete"
+                                                >
+                                                    <Trash2 size={16} />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'trash' && (
+                        <div className="card">
+                            <h3 className="mb-1">Trash ({trash.length})</h3>
+                            <p className="text-sm text-muted mb-4">
+                                Deleted expenses don't count towards balances and are removed for good after {retentionDays} days
+                            </p>
+                            {trash.length === 0 ? (
+                                <div className="empty-state">
+                                    <Trash2 size={48} className="empty-state-icon" />
+                                    <h4 className="empty-state-title">Trash is empty</h4>
+                                </div>
+                            ) : (
+                                <div className="flex flex-col gap-3">
+                                    {trash.map((expense) => (
+                                        <div
+                                            key={expense._id}
+                                            className="flex items-center gap-4 p-4"
+                                            style={{
+                                                background: 'var(--bg-secondary)',
+                                                borderRadius: 'var(--radius-md)',
+                                                opacity: 0.8,
+                                            }}
+                                        >
+                                            <div
+                                                className="avatar"
+                                                style={{ background: 'var(--gradient-accent)' }}
+                                                title={expense.category}
+                                            >
+                                                <CategoryIcon name={expense.category} />
+                                            </div>
+                                            <div className="flex-1">
+                                                <p className="font-bold">
+                                                    <Link to={`/expenses/${expense._id}`}>{expense.description}</Link>
+                                                </p>
+                                                <p className="text-sm text-muted">
+                                                    Deleted by <span className="text-primary">{expense.deletedBy?.name}</span>
+                                                    {expense.deletedAt && (
+                                                        <> on {formatDate(expense.deletedAt)} • Removed on {formatDate(purgeDate(expense.deletedAt))}</>
+                                                    )}
+                                                </p>
+                                            </div>
+                                            <p className="text-xl font-bold">{formatCurrency(expense.amount, expense.currency)}</p>
+                                            <button
+                                                onClick={() => handleRestore(expense._id)}
+                                                className="btn btn-secondary btn-sm"
+                                                title="Restore"
                                             >
-                                                Settle
-                                            </Link>
+                                                <RotateCcw size={16} />
+                                                Restore
+                                            </button>
                                         </div>
                                     ))}
                                 </div>
@@ -225,8 +759,99 @@ const GroupDetail: React.FC = () => {
                     )}
 
                     {activeTab === 'members' && (
-                        <div className="card">
-                            <h3 className="mb-4">Members ({group.members.length})</h3>
+                        <div className="card mb-6">
+                            <div className="flex items-center justify-between mb-4">
+                                <h3>Members ({group.members.length})</h3>
+                                {myRole !== GroupRole.OWNER && user && (
+                                    <button
+                                        onClick={() => handleRemoveMember(user._id, user.name)}
+                                        className="btn btn-secondary btn-sm"
+                                    >
+                                        <LogOut size={16} />
+                                        Leave group
+                                    </button>
+                                )}
+                            </div>
+                            {leaving && (
+                                <div
+                                    className="p-4 mb-4"
+                                    style={{
+                                        background: 'var(--bg-secondary)',
+                                        borderRadius: 'var(--radius-md)',
+                                    }}
+                                >
+                                    <p className="font-bold">{leaving.error}</p>
+                                    <p className="text-sm text-muted mb-4">
+                                        Payments waiting to be confirmed have to be confirmed or cancelled first. A
+                                        remaining balance can be written off, or handed to another member, who then
+                                        owes or is owed it instead.
+                                    </p>
+                                    <div className="flex items-center gap-2">
+                                        <button
+                                            onClick={() => handleRemoveMember(leaving.memberId, leaving.name, { resolution: DebtResolution.FORGIVE })}
+                                            className="btn btn-secondary btn-sm"
+                                        >
+                                            Forgive balance
+                                        </button>
+                                        <select
+                                            value={transferTo}
+                                            onChange={(e) => setTransferTo(e.target.value)}
+                                            aria-label="Member to transfer the balance to"
+                                        >
+                                            <option value="">Transfer to…</option>
+                                            {group.members
+                                                .filter((m) => m._id !== leaving.memberId)
+                                                .map((m) => (
+                                                    <option key={m._id} value={m._id}>{m.name}</option>
+                                                ))}
+                                        </select>
+                                        <button
+                                            onClick={() => handleRemoveMember(leaving.memberId, leaving.name, {
+                                                resolution: DebtResolution.TRANSFER,
+                                                transferTo,
+                                            })}
+                                            className="btn btn-secondary btn-sm"
+                                            disabled={!transferTo}
+                                        >
+                                            Transfer balance
+                                        </button>
+                                        <button onClick={() => setLeaving(null)} className="btn btn-ghost btn-sm ml-auto">
+                                            Cancel
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                            {isAdmin && (
+                                <form onSubmit={handleAddPlaceholder} className="flex items-center gap-2 mb-4">
+                                    <input
+                                        className="form-input"
+                                        placeholder="Name of someone without an account"
+                                        value={placeholder.name}
+                                        onChange={(e) => setPlaceholder({ ...placeholder, name: e.target.value })}
+                                        required
+                                        minLength={2}
+                                        maxLength={50}
+                                    />
+                                    <input
+                                        type="email"
+                                        className="form-input"
+                                        placeholder="Email (optional)"
+                                        value={placeholder.email}
+                                        onChange={(e) => setPlaceholder({ ...placeholder, email: e.target.value })}
+                                    />
+                                    <input
+                                        className="form-input"
+                                        placeholder="Phone (optional)"
+                                        pattern="[0-9]{10}"
+                                        value={placeholder.phone}
+                                        onChange={(e) => setPlaceholder({ ...placeholder, phone: e.target.value })}
+                                    />
+                                    <button type="submit" className="btn btn-secondary btn-sm">
+                                        <Plus size={16} />
+                                        Add
+                                    </button>
+                                </form>
+                            )}
                             <div className="flex flex-col gap-3">
                                 {group.members.map((member, index) => (
                                     <div
@@ -246,17 +871,207 @@ const GroupDetail: React.FC = () => {
                                             {getInitials(member.name)}
                                         </div>
                                         <div>
-                                            <p className="font-bold">{member.name}</p>
-                                            <p className="text-sm text-muted">{member.email}</p>
+                                            <p className="font-bold">
+                                                {member.name}
+                                                {member.isPlaceholder && (
+                                                    <span className="badge badge-danger" style={{ marginLeft: '0.5rem' }}>Not signed up</span>
+                                                )}
+                                            </p>
+                                            <p className="text-sm text-muted">
+                                                {member.email || (member.isPlaceholder && isAdmin && (
+                                                    <button
+                                                        onClick={() => handleAddPlaceholderEmail(member._id, member.name)}
+                                                        className="btn btn-ghost btn-sm"
+                                                        style={{ padding: 0 }}
+                                                    >
+                                                        Add email so they can claim it
+                                                    </button>
+                                                ))}
+                                            </p>
                                         </div>
-                                        {member._id === group.createdBy._id && (
-                                            <span className="badge badge-primary ml-auto">Admin</span>
-                                        )}
+                                        <div className="flex items-center gap-2 ml-auto">
+                                            {myRole === GroupRole.OWNER && member._id !== user?._id ? (
+                                                <select
+                                                    value={roleOf(member._id)}
+                                                    onChange={(e) => handleRoleChange(member._id, e.target.value as GroupRole)}
+                                                    aria-label={`Role of ${member.name}`}
+                                                >
+                                                    {[GroupRole.ADMIN, GroupRole.MEMBER, GroupRole.VIEWER].map((role) => (
+                                                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                                                    ))}
+                                                </select>
+                                            ) : (
+                                                <span className="badge badge-primary">{ROLE_LABELS[roleOf(member._id)]}</span>
+                                            )}
+                                            {myRole === GroupRole.OWNER && member._id !== user?._id && (
+                                                <button
+                                                    onClick={() => handleTransferOwnership(member._id, member.name)}
+                                                    className="btn btn-secondary btn-sm"
+                                                    title="Make owner"
+                                                >
+                                                    <Crown size={16} />
+                                                </button>
+                                            )}
+                                            {isAdmin && ROLE_RANK[myRole] > ROLE_RANK[roleOf(member._id)] && (
+                                                <button
+                                                    onClick={() => handleRemoveMember(member._id, member.name)}
+                                                    className="btn btn-secondary btn-sm"
+                                                    title="Remove from group"
+                                                >
+                                                    <UserMinus size={16} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {group.formerMembers && group.formerMembers.length > 0 && (
+                                <>
+                                    <div className="divider" />
+                                    <h4 className="text-sm text-muted mb-4">Former members</h4>
+                                    <div className="flex flex-col gap-2">
+                                        {group.formerMembers.map((former) => (
+                                            <div key={former.user._id} className="flex items-center gap-3 text-sm text-muted">
+                                                <div className="avatar avatar-sm">{getInitials(former.user.name)}</div>
+                                                <span>{former.user.name}</span>
+                                                <span className="ml-auto">
+                                                    {former.removedBy ? 'Removed' : 'Left'} {formatDate(former.leftAt)}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {activeTab === 'members' && isAdmin && joinRequests.length > 0 && (
+                        <div className="card mb-6">
+                            <h3 className="mb-4">Join Requests ({joinRequests.length})</h3>
+                            <div className="flex flex-col gap-3">
+                                {joinRequests.map((request) => (
+                                    <div
+                                        key={request._id}
+                                        className="flex items-center gap-4 p-4"
+                                        style={{
+                                            background: 'var(--bg-secondary)',
+                                            borderRadius: 'var(--radius-md)',
+                                        }}
+                                    >
+                                        <div className="avatar">{getInitials(request.user.name)}</div>
+                                        <div className="flex-1">
+                                            <p className="font-bold">{request.user.name}</p>
+                                            <p className="text-sm text-muted">
+                                                {request.user.email} • Invited by {request.invite.createdBy.name} • {formatDate(request.createdAt)}
+                                            </p>
+                                        </div>
+                                        <button
+                                            onClick={() => handleJoinRequest(request, true)}
+                                            className="btn btn-success btn-sm"
+                                            title="Approve"
+                                        >
+                                            <Check size={16} />
+                                        </button>
+                                        <button
+                                            onClick={() => handleJoinRequest(request, false)}
+                                            className="btn btn-secondary btn-sm"
+                                            title="Reject"
+                                        >
+                                            <X size={16} />
+                                        </button>
                                     </div>
                                 ))}
                             </div>
                         </div>
                     )}
+
+                    {activeTab === 'members' && canAddExpenses && (
+                        <div className="card">
+                            <h3 className="mb-1">Invite Links</h3>
+                            <p className="text-sm text-muted mb-4">
+                                {isAdmin
+                                    ? 'Anyone with a link can join until it expires, is used up or is revoked'
+                                    : 'People who join through your links wait for an admin to approve them'}
+                            </p>
+                            <div className="flex items-center gap-4 mb-4">
+                                <label className="text-sm text-muted flex items-center gap-2">
+                                    Expires after
+                                    <select value={inviteDays} onChange={(e) => setInviteDays(Number(e.target.value))}>
+                                        {[1, 7, 14, 30].map((days) => (
+                                            <option key={days} value={days}>{days} day{days === 1 ? '' : 's'}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <label className="text-sm text-muted flex items-center gap-2">
+                                    Uses
+                                    <input
+                                        type="number"
+                                        className="form-input"
+                                        placeholder="No limit"
+                                        min={1}
+                                        max={1000}
+                                        value={inviteMaxUses}
+                                        onChange={(e) => setInviteMaxUses(e.target.value)}
+                                        style={{ width: '110px' }}
+                                    />
+                                </label>
+                                {isAdmin && (
+                                    <label className="text-sm text-muted flex items-center gap-2">
+                                        <input
+                                            type="checkbox"
+                                            checked={inviteApproval}
+                                            onChange={(e) => setInviteApproval(e.target.checked)}
+                                        />
+                                        Approve new members
+                                    </label>
+                                )}
+                                <button onClick={handleCreateInvite} className="btn btn-primary btn-sm ml-auto">
+                                    <LinkIcon size={16} />
+                                    Create link
+                                </button>
+                            </div>
+                            {invites.length > 0 && (
+                                <div className="flex flex-col gap-3">
+                                    {invites.map((invite) => (
+                                        <div
+                                            key={invite._id}
+                                            className="flex items-center gap-4 p-4"
+                                            style={{
+                                                background: 'var(--bg-secondary)',
+                                                borderRadius: 'var(--radius-md)',
+                                            }}
+                                        >
+                                            <div className="flex-1">
+                                                <p className="text-sm">
+                                                    By <span className="text-primary">{invite.createdBy.name}</span> • Expires {formatDate(invite.expiresAt)}
+                                                </p>
+                                                <p className="text-sm text-muted">
+                                                    Used {invite.uses}{invite.maxUses ? ` of ${invite.maxUses}` : ''} time{(invite.maxUses ?? invite.uses) === 1 ? '' : 's'}
+                                                    {invite.requiresApproval && ' • Needs approval'}
+                                                </p>
+                                            </div>
+                                            <button
+                                                onClick={() => copyInviteLink(invite)}
+                                                className="btn btn-secondary btn-sm"
+                                                title="Copy link"
+                                            >
+                                                <Copy size={16} />
+                                            </button>
+                                            {(isAdmin || invite.createdBy._id === user?._id) && (
+                                                <button
+                                                    onClick={() => handleRevokeInvite(invite._id)}
+                                                    className="btn btn-secondary btn-sm"
+                                                    title="Revoke"
+                                                >
+                                                    <Trash2 size={16} />
+                                                </button>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
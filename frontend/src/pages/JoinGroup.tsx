@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
+import { groupService } from '../services';
+import { useAuth } from '../context/AuthContext';
+import type { InvitePreview } from '../types';
+import { Users, Clock, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const JoinGroup: React.FC = () => {
+    const { token } = useParams<{ token: string }>();
+    const navigate = useNavigate();
+    const { isAuthenticated, isLoading: isAuthLoading } = useAuth();
+    const [preview, setPreview] = useState<InvitePreview | null>(null);
+    const [error, setError] = useState('');
+    const [isLoading, setIsLoading] = useState(true);
+    const [isJoining, setIsJoining] = useState(false);
+    const [isPending, setIsPending] = useState(false);
+
+    useEffect(() => {
+        const fetchPreview = async () => {
+            if (!token) return;
+
+            try {
+                setPreview(await groupService.previewInvite(token));
+            } catch (error: any) {
+                setError(error.response?.data?.error || 'This invite link is invalid');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchPreview();
+    }, [token]);
+
+    const handleJoin = async () => {
+        if (!token) return;
+
+        setIsJoining(true);
+        try {
+            const result = await groupService.join(token);
+            if (result.status === 'PENDING') {
+                setIsPending(true);
+                return;
+            }
+            toast.success(result.status === 'JOINED' ? `Joined ${result.data.name} 🎉` : 'You are already in this group');
+            navigate(`/groups/${result.data._id}`);
+        } catch (error: any) {
+            toast.error(error.response?.data?.error || 'Failed to join group');
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    const formatDate = (dateString: string) => {
+        return new Date(dateString).toLocaleDateString('en-IN', {
+            day: 'numeric',
+            month: 'short',
+            year: 'numeric',
+        });
+    };
+
+    if (isLoading || isAuthLoading) {
+        return (
+            <div className="page flex items-center justify-center" style={{ minHeight: '100vh' }}>
+                <div className="spinner" style={{ width: '48px', height: '48px' }} />
+            </div>
+        );
+    }
+
+    const redirect = `?redirect=${encodeURIComponent(`/join/${token}`)}`;
+
+    return (
+        <div className="page flex items-center justify-center" style={{ minHeight: '100vh' }}>
+            <div className="card card-glass animate-slide-up text-center" style={{ width: '100%', maxWidth: '420px' }}>
+                {!preview ? (
+                    <>
+                        <AlertCircle size={48} className="empty-state-icon" style={{ margin: '0 auto' }} />
+                        <h1 className="text-2xl font-bold mt-4">Can't use this invite</h1>
+                        <p className="text-muted text-sm mt-2">{error}</p>
+                        <p className="text-muted text-sm mt-2">Ask whoever sent it for a new link.</p>
+                        <Link to="/" className="btn btn-secondary mt-6">
+                            Go home
+                        </Link>
+                    </>
+                ) : (
+                    <>
+                        <div
+                            className="avatar avatar-lg mb-4"
+                            style={{
+                                margin: '0 auto',
+                                background: 'var(--gradient-primary)',
+                                width: '72px',
+                                height: '72px',
+                            }}
+                        >
+                            <Users size={32} />
+                        </div>
+                        <p className="text-muted text-sm">
+                            <span className="text-primary">{preview.invitedBy.name}</span> invited you to join
+                        </p>
+                        <h1 className="text-2xl font-bold mt-2">{preview.group.name}</h1>
+                        {preview.group.description && (
+                            <p className="text-muted mt-2">{preview.group.description}</p>
+                        )}
+                        <p className="text-sm text-muted mt-2">
+                            {preview.group.memberCount} member{preview.group.memberCount === 1 ? '' : 's'} • Link expires {formatDate(preview.expiresAt)}
+                        </p>
+                        {preview.requiresApproval && (
+                            <p className="text-sm text-muted mt-2">A group admin needs to approve new members.</p>
+                        )}
+
+                        <div className="divider" />
+
+                        {isPending ? (
+                            <div className="flex flex-col items-center gap-2">
+                                <Clock size={32} className="text-muted" />
+                                <p className="font-bold">Request sent</p>
+                                <p className="text-sm text-muted">
+                                    You'll see the group in your list once an admin approves it.
+                                </p>
+                                <Link to="/groups" className="btn btn-secondary mt-4">
+                                    Go to my groups
+                                </Link>
+                            </div>
+                        ) : isAuthenticated ? (
+                            <button
+                                onClick={handleJoin}
+                                className="btn btn-primary"
+                                disabled={isJoining}
+                                style={{ width: '100%' }}
+                            >
+                                {isJoining
+                                    ? <div className="spinner" style={{ width: '20px', height: '20px' }} />
+                                    : preview.requiresApproval ? 'Ask to join' : 'Join group'}
+                            </button>
+                        ) : (
+                            <div className="flex flex-col gap-3">
+                                <Link to={`/login${redirect}`} className="btn btn-primary">
+                                    Sign in to join
+                                </Link>
+                                <Link to={`/register${redirect}`} className="btn btn-secondary">
+                                    Create an account
+                                </Link>
+                            </div>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default JoinGroup;
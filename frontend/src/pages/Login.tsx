@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../context/AuthContext';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth, getRedirectPath } from '../context/AuthContext';
 import { Wallet, Mail, Lock } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -10,6 +10,7 @@ const Login: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const { login } = useAuth();
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -18,7 +19,7 @@ const Login: React.FC = () => {
         try {
             await login({ email, password });
             toast.success('Welcome back! 🎉');
-            navigate('/');
+            navigate(getRedirectPath(searchParams));
         } catch (error: any) {
             toast.error(error.response?.data?.error || 'Login failed');
         } finally {
@@ -111,7 +112,7 @@ const Login: React.FC = () => {
 
                 <p className="text-center text-sm text-muted">
                     Don't have an account?{' '}
-                    <Link to="/register" className="text-primary font-medium">
+                    <Link to={`/register${searchParams.toString() ? `?${searchParams}` : ''}`} className="text-primary font-medium">
                         Create one
                     </Link>
                 </p>
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
-import { useAuth } from '../context/AuthContext';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth, getRedirectPath } from '../context/AuthContext';
 import { Wallet, Mail, Lock, User, Phone } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -12,15 +12,18 @@ const Register: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const { register } = useAuth();
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
 
         try {
-            await register({ name, email, password, phone: phone || undefined });
-            toast.success('Account created successfully! 🎉');
-            navigate('/');
+            const { claimed } = await register({ name, email, password, phone: phone || undefined });
+            toast.success(claimed
+                ? 'Account created! Groups and expenses you were added to are now yours 🎉'
+                : 'Account created successfully! 🎉');
+            navigate(getRedirectPath(searchParams));
         } catch (error: any) {
             toast.error(error.response?.data?.error || 'Registration failed');
         } finally {
@@ -164,7 +167,7 @@ const Register: React.FC = () => {
 
                 <p className="text-center text-sm text-muted">
                     Already have an account?{' '}
-                    <Link to="/login" className="text-primary font-medium">
+                    <Link to={`/login${searchParams.toString() ? `?${searchParams}` : ''}`} className="text-primary font-medium">
                         Sign in
                     </Link>
                 </p>
@@ -6,14 +6,32 @@ import type {
     RegisterData,
     User,
     Group,
+    GroupRole,
     Expense,
     Settlement,
     BalanceSummary,
+    CrossGroupBalances,
     SettlementSuggestion,
     CreateGroupData,
+    UpdateGroupData,
+    PlaceholderData,
+    LeaveGroupOptions,
     CreateExpenseData,
+    ExpenseFilters,
+    ExpenseHistoryResponse,
+    TrashResponse,
+    GroupInvite,
+    CreateInviteData,
+    InvitePreview,
+    JoinRequest,
+    JoinGroupResult,
+    Category,
+    RecurringExpense,
+    CreateRecurringExpenseData,
     CreateSettlementData,
+    BatchSettlementData,
     PaginatedResponse,
+    PageOptions,
 } from '../types';
 
 // ============ Auth ============
@@ -32,6 +50,11 @@ export const authService = {
         const response = await api.get<ApiResponse<User>>('/auth/me');
         return response.data.data!;
     },
+
+    updateMe: async (data: { autoConfirmSettlements?: boolean }): Promise<User> => {
+        const response = await api.patch<ApiResponse<User>>('/auth/me', data);
+        return response.data.data!;
+    },
 };
 
 // ============ Users ============
@@ -70,20 +93,153 @@ export const groupService = {
         return response.data.data!;
     },
 
-    addMember: async (groupId: string, userId: string): Promise<Group> => {
-        const response = await api.post<ApiResponse<Group>>(`/groups/${groupId}/members`, { userId });
+    update: async (id: string, data: UpdateGroupData): Promise<Group> => {
+        const response = await api.patch<ApiResponse<Group>>(`/groups/${id}`, data);
+        return response.data.data!;
+    },
+
+    addMember: async (groupId: string, userId: string, role?: GroupRole): Promise<Group> => {
+        const response = await api.post<ApiResponse<Group>>(`/groups/${groupId}/members`, { userId, role });
+        return response.data.data!;
+    },
+
+    addPlaceholder: async (groupId: string, data: PlaceholderData): Promise<Group> => {
+        const response = await api.post<ApiResponse<{ placeholder: User; group: Group }>>(
+            `/groups/${groupId}/placeholders`,
+            data
+        );
+        return response.data.data!.group;
+    },
+
+    updatePlaceholder: async (groupId: string, userId: string, data: Partial<PlaceholderData>): Promise<User> => {
+        const response = await api.patch<ApiResponse<User>>(`/groups/${groupId}/placeholders/${userId}`, data);
+        return response.data.data!;
+    },
+
+    updateMemberRole: async (groupId: string, userId: string, role: GroupRole): Promise<Group> => {
+        const response = await api.patch<ApiResponse<Group>>(`/groups/${groupId}/members/${userId}`, { role });
+        return response.data.data!;
+    },
+
+    transferOwnership: async (groupId: string, userId: string): Promise<Group> => {
+        const response = await api.post<ApiResponse<Group>>(`/groups/${groupId}/transfer-ownership`, { userId });
+        return response.data.data!;
+    },
+
+    removeMember: async (groupId: string, userId: string, options: LeaveGroupOptions = {}): Promise<Group> => {
+        const response = await api.delete<ApiResponse<Group>>(`/groups/${groupId}/members/${userId}`, {
+            params: options,
+        });
+        return response.data.data!;
+    },
+
+    leave: async (groupId: string, options: LeaveGroupOptions = {}): Promise<void> => {
+        await api.post(`/groups/${groupId}/leave`, options);
+    },
+
+    getBalances: async (groupId: string): Promise<{ currency: string; planHash: string; settlementSuggestions: SettlementSuggestion[] }> => {
+        const response = await api.get<ApiResponse<{ currency: string; planHash: string; settlementSuggestions: SettlementSuggestion[] }>>(`/groups/${groupId}/balances`);
+        return response.data.data!;
+    },
+
+    getTrash: async (groupId: string): Promise<TrashResponse> => {
+        const response = await api.get<TrashResponse>(`/groups/${groupId}/trash`);
+        return response.data;
+    },
+
+    createInvite: async (groupId: string, data: CreateInviteData): Promise<GroupInvite> => {
+        const response = await api.post<ApiResponse<GroupInvite>>(`/groups/${groupId}/invites`, data);
+        return response.data.data!;
+    },
+
+    getInvites: async (groupId: string): Promise<GroupInvite[]> => {
+        const response = await api.get<ApiResponse<GroupInvite[]>>(`/groups/${groupId}/invites`);
+        return response.data.data || [];
+    },
+
+    revokeInvite: async (groupId: string, inviteId: string): Promise<void> => {
+        await api.delete(`/groups/${groupId}/invites/${inviteId}`);
+    },
+
+    previewInvite: async (token: string): Promise<InvitePreview> => {
+        const response = await api.get<ApiResponse<InvitePreview>>(`/groups/join/${token}`);
+        return response.data.data!;
+    },
+
+    join: async (token: string): Promise<JoinGroupResult> => {
+        const response = await api.post<JoinGroupResult>(`/groups/join/${token}`);
+        return response.data;
+    },
+
+    getJoinRequests: async (groupId: string): Promise<JoinRequest[]> => {
+        const response = await api.get<ApiResponse<JoinRequest[]>>(`/groups/${groupId}/join-requests`);
+        return response.data.data || [];
+    },
+
+    approveJoinRequest: async (groupId: string, requestId: string): Promise<Group> => {
+        const response = await api.post<ApiResponse<{ request: JoinRequest; group: Group }>>(
+            `/groups/${groupId}/join-requests/${requestId}/approve`
+        );
+        return response.data.data!.group;
+    },
+
+    rejectJoinRequest: async (groupId: string, requestId: string): Promise<void> => {
+        await api.post(`/groups/${groupId}/join-requests/${requestId}/reject`);
+    },
+};
+
+// ============ Recurring Expenses ============
+export const recurringService = {
+    getAll: async (groupId: string): Promise<RecurringExpense[]> => {
+        const response = await api.get<ApiResponse<RecurringExpense[]>>(`/groups/${groupId}/recurring`);
+        return response.data.data!;
+    },
+
+    create: async (groupId: string, data: CreateRecurringExpenseData): Promise<RecurringExpense> => {
+        const response = await api.post<ApiResponse<RecurringExpense>>(`/groups/${groupId}/recurring`, data);
+        return response.data.data!;
+    },
+
+    skip: async (groupId: string, id: string): Promise<RecurringExpense> => {
+        const response = await api.post<ApiResponse<RecurringExpense>>(`/groups/${groupId}/recurring/${id}/skip`);
         return response.data.data!;
     },
 
-    removeMember: async (groupId: string, userId: string): Promise<Group> => {
-        const response = await api.delete<ApiResponse<Group>>(`/groups/${groupId}/members/${userId}`);
+    pause: async (groupId: string, id: string): Promise<RecurringExpense> => {
+        const response = await api.post<ApiResponse<RecurringExpense>>(`/groups/${groupId}/recurring/${id}/pause`);
         return response.data.data!;
     },
 
-    getBalances: async (groupId: string): Promise<{ settlementSuggestions: SettlementSuggestion[] }> => {
-        const response = await api.get<ApiResponse<{ settlementSuggestions: SettlementSuggestion[] }>>(`/groups/${groupId}/balances`);
+    resume: async (groupId: string, id: string): Promise<RecurringExpense> => {
+        const response = await api.post<ApiResponse<RecurringExpense>>(`/groups/${groupId}/recurring/${id}/resume`);
         return response.data.data!;
     },
+
+    delete: async (groupId: string, id: string): Promise<void> => {
+        await api.delete(`/groups/${groupId}/recurring/${id}`);
+    },
+};
+
+// ============ Categories ============
+export const categoryService = {
+    getAll: async (groupId: string): Promise<Category[]> => {
+        const response = await api.get<ApiResponse<Category[]>>(`/groups/${groupId}/categories`);
+        return response.data.data!;
+    },
+
+    create: async (groupId: string, data: { name: string; icon?: string }): Promise<Category> => {
+        const response = await api.post<ApiResponse<Category>>(`/groups/${groupId}/categories`, data);
+        return response.data.data!;
+    },
+
+    update: async (groupId: string, id: string, data: { name?: string; icon?: string }): Promise<Category> => {
+        const response = await api.patch<ApiResponse<Category>>(`/groups/${groupId}/categories/${id}`, data);
+        return response.data.data!;
+    },
+
+    delete: async (groupId: string, id: string): Promise<void> => {
+        await api.delete(`/groups/${groupId}/categories/${id}`);
+    },
 };
 
 // ============ Expenses ============
@@ -93,8 +249,12 @@ export const expenseService = {
         return response.data.data!;
     },
 
-    getAll: async (groupId?: string, page = 1, limit = 20): Promise<PaginatedResponse<Expense>> => {
-        const params = { groupId, page, limit };
+    getAll: async (
+        groupId?: string,
+        { page = 1, limit = 20, cursor }: PageOptions = {},
+        filters: ExpenseFilters = {}
+    ): Promise<PaginatedResponse<Expense>> => {
+        const params = { groupId, ...(cursor ? { cursor } : { page }), limit, ...filters };
         const response = await api.get<PaginatedResponse<Expense>>('/expenses', { params });
         return response.data;
     },
@@ -104,6 +264,11 @@ export const expenseService = {
         return response.data.data!;
     },
 
+    getHistory: async (id: string): Promise<ExpenseHistoryResponse> => {
+        const response = await api.get<ExpenseHistoryResponse>(`/expenses/${id}/history`);
+        return response.data;
+    },
+
     update: async (id: string, data: Partial<CreateExpenseData>): Promise<Expense> => {
         const response = await api.put<ApiResponse<Expense>>(`/expenses/${id}`, data);
         return response.data.data!;
@@ -112,6 +277,11 @@ export const expenseService = {
     delete: async (id: string): Promise<void> => {
         await api.delete(`/expenses/${id}`);
     },
+
+    restore: async (id: string): Promise<Expense> => {
+        const response = await api.post<ApiResponse<Expense>>(`/expenses/${id}/restore`);
+        return response.data.data!;
+    },
 };
 
 // ============ Settlements ============
@@ -121,12 +291,32 @@ export const settlementService = {
         return response.data.data!;
     },
 
-    getAll: async (groupId?: string, page = 1, limit = 20): Promise<PaginatedResponse<Settlement>> => {
-        const params = { groupId, page, limit };
+    getAll: async (
+        groupId?: string,
+        { page = 1, limit = 20, cursor }: PageOptions = {}
+    ): Promise<PaginatedResponse<Settlement>> => {
+        const params = { groupId, ...(cursor ? { cursor } : { page }), limit };
         const response = await api.get<PaginatedResponse<Settlement>>('/settlements', { params });
         return response.data;
     },
 
+    batch: async (data: BatchSettlementData): Promise<Settlement[]> => {
+        const response = await api.post<ApiResponse<Settlement[]>>('/settlements/batch', data);
+        return response.data.data!;
+    },
+
+    getCrossGroup: async (userId: string): Promise<CrossGroupBalances> => {
+        const response = await api.get<ApiResponse<CrossGroupBalances>>('/settlements/cross-group', {
+            params: { userId },
+        });
+        return response.data.data!;
+    },
+
+    settleCrossGroup: async (userId: string, note?: string): Promise<{ linkId: string; settlements: Settlement[] }> => {
+        const response = await api.post<ApiResponse<{ linkId: string; settlements: Settlement[] }>>('/settlements/cross-group', { userId, note });
+        return response.data.data!;
+    },
+
     getPending: async (): Promise<Settlement[]> => {
         const response = await api.get<ApiResponse<Settlement[]> & { data: Settlement[] }>('/settlements/pending');
         return response.data.data;
@@ -142,8 +332,18 @@ export const settlementService = {
         return response.data.data!;
     },
 
-    getSuggestions: async (groupId: string): Promise<{ optimizedSettlements: SettlementSuggestion[] }> => {
-        const response = await api.get<ApiResponse<{ optimizedSettlements: SettlementSuggestion[] }>>('/settlements/suggestions', {
+    cancel: async (id: string): Promise<Settlement> => {
+        const response = await api.patch<ApiResponse<Settlement>>(`/settlements/${id}/cancel`);
+        return response.data.data!;
+    },
+
+    dispute: async (id: string, reason: string): Promise<Settlement> => {
+        const response = await api.patch<ApiResponse<Settlement>>(`/settlements/${id}/dispute`, { reason });
+        return response.data.data!;
+    },
+
+    getSuggestions: async (groupId: string): Promise<{ currency: string; planHash: string; optimizedSettlements: SettlementSuggestion[] }> => {
+        const response = await api.get<ApiResponse<{ currency: string; planHash: string; optimizedSettlements: SettlementSuggestion[] }>>('/settlements/suggestions', {
             params: { groupId },
         });
         return response.data.data!;
@@ -4,15 +4,79 @@ export const SplitType = {
     EQUAL: 'EQUAL',
     EXACT: 'EXACT',
     PERCENTAGE: 'PERCENTAGE',
+    SHARES: 'SHARES',
+    ADJUSTMENT: 'ADJUSTMENT',
+    ITEMIZED: 'ITEMIZED',
 } as const;
 
 export type SplitType = typeof SplitType[keyof typeof SplitType];
 
+// Currencies supported by the backend's local rates table
+export const CURRENCIES = ['INR', 'USD', 'EUR', 'GBP', 'AED', 'SGD', 'THB', 'JPY'] as const;
+
+// Built-in expense categories (groups can add their own)
+export const DEFAULT_CATEGORIES = [
+    'Food',
+    'Groceries',
+    'Transport',
+    'Lodging',
+    'Utilities',
+    'Rent',
+    'Entertainment',
+    'Shopping',
+    'Health',
+    'Other',
+] as const;
+
+export interface Category {
+    _id?: string; // Custom categories only
+    name: string;
+    icon?: string; // Emoji for custom categories
+    custom: boolean;
+}
+
 export interface User {
     _id: string;
     name: string;
-    email: string;
+    email?: string; // Placeholders may have none
     phone?: string;
+    isPlaceholder?: boolean; // Added to a group by name; registering with the email claims it
+    autoConfirmSettlements?: boolean; // false = payments to you always wait for a manual confirm
+}
+
+// A member's role in a group, from most to least access
+export const GroupRole = {
+    OWNER: 'OWNER',
+    ADMIN: 'ADMIN',
+    MEMBER: 'MEMBER',
+    VIEWER: 'VIEWER',
+} as const;
+
+export type GroupRole = typeof GroupRole[keyof typeof GroupRole];
+
+export interface GroupMemberRole {
+    user: string;
+    role: GroupRole;
+}
+
+// Someone who left the group or was removed; their past expenses and payments stay
+export interface GroupFormerMember {
+    user: User;
+    leftAt: string;
+    removedBy?: string; // Unset when they left by themselves
+}
+
+// How a leaving member's balance in the group is cleared
+export const DebtResolution = {
+    FORGIVE: 'FORGIVE',   // Write it off
+    TRANSFER: 'TRANSFER', // Hand it to another member
+} as const;
+
+export type DebtResolution = typeof DebtResolution[keyof typeof DebtResolution];
+
+export interface LeaveGroupOptions {
+    resolution?: DebtResolution;
+    transferTo?: string; // Member who takes over the balance, for TRANSFER
 }
 
 export interface Group {
@@ -20,38 +84,183 @@ export interface Group {
     name: string;
     description?: string;
     members: User[];
+    baseCurrency: string;
+    simplifyDebts: boolean; // false = only settle along existing debts
+    autoConfirmDays?: number; // Pending settlements are confirmed automatically after this many days
+    memberRoles?: GroupMemberRole[]; // Missing for groups from before roles; their creator is the owner
+    formerMembers?: GroupFormerMember[];
     createdBy: User;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface GroupInvite {
+    _id: string;
+    group: string;
+    createdBy: User;
+    expiresAt: string;
+    maxUses?: number | null; // No limit when unset
+    uses: number;
+    requiresApproval: boolean; // Joining sends a request to the group admins
+    revokedAt?: string | null;
+    createdAt: string;
+    token: string; // Goes in the /join/:token link
+}
+
+export interface CreateInviteData {
+    expiresInDays?: number;
+    maxUses?: number | null;
+    requiresApproval?: boolean;
+}
+
+// What a link invites to, shown before signing in
+export interface InvitePreview {
+    group: {
+        _id: string;
+        name: string;
+        description?: string;
+        memberCount: number;
+    };
+    invitedBy: { _id: string; name: string };
+    requiresApproval: boolean;
+    expiresAt: string;
+}
+
+export interface JoinRequest {
+    _id: string;
+    user: User;
+    invite: { _id: string; createdBy: { _id: string; name: string } };
+    status: 'PENDING' | 'APPROVED' | 'REJECTED';
+    createdAt: string;
+}
+
+export type JoinGroupResult =
+    | { status: 'JOINED' | 'ALREADY_MEMBER'; data: Group }
+    | { status: 'PENDING'; message: string; data: JoinRequest };
+
 export interface Split {
     user: User;
     amount: number;
     share: number;
+    adjustment?: number;
+}
+
+export interface ExpenseItem {
+    name: string;
+    price: number;
+    sharedBy: string[];
+}
+
+export interface ExpenseCharges {
+    tax: number;
+    serviceCharge: number;
+    tip: number;
+}
+
+export interface Payer {
+    user: User;
+    amount: number;
 }
 
 export interface Expense {
     _id: string;
     description: string;
+    notes?: string;
     amount: number;
     paidBy: User;
+    payers?: Payer[];
     group?: Group;
     splitType: SplitType;
     splits: Split[];
+    items?: ExpenseItem[];
+    charges?: ExpenseCharges;
+    currency: string;
+    exchangeRate: number;
+    expenseDate: string; // When it happened (createdAt is when it was entered)
+    category: string;
+    deletedAt?: string | null; // Set while the expense is in the trash
+    deletedBy?: User;
     createdBy: User;
     createdAt: string;
     updatedAt: string;
 }
 
+export const ExpenseHistoryAction = {
+    CREATED: 'CREATED',
+    UPDATED: 'UPDATED',
+    DELETED: 'DELETED',
+    RESTORED: 'RESTORED',
+} as const;
+
+export type ExpenseHistoryAction = typeof ExpenseHistoryAction[keyof typeof ExpenseHistoryAction];
+
+export interface ExpenseFieldChange {
+    field: string;
+    from?: unknown;
+    to?: unknown;
+}
+
+// Snapshots store ids as strings and dates as ISO strings
+export interface ExpenseSnapshot {
+    group?: string;
+    description?: string;
+    notes?: string;
+    amount?: number;
+    currency?: string;
+    exchangeRate?: number;
+    expenseDate?: string;
+    category?: string;
+    paidBy?: string;
+    payers?: { user: string; amount: number }[];
+    splitType?: SplitType;
+    splits?: { user: string; amount: number; share: number; adjustment?: number }[];
+}
+
+export interface ExpenseHistoryEntry {
+    _id: string;
+    expense: string;
+    version: number;
+    action: ExpenseHistoryAction;
+    changes: ExpenseFieldChange[];
+    snapshot: ExpenseSnapshot;
+    changedBy?: User; // Unset for expenses made by a recurring schedule
+    createdAt: string;
+}
+
+export interface ExpenseHistoryResponse extends ApiResponse<ExpenseHistoryEntry[]> {
+    deleted: boolean;
+}
+
+export interface TrashResponse extends ApiResponse<Expense[]> {
+    retentionDays: number; // Deleted expenses are purged after this many days
+}
+
 export const SettlementStatus = {
     PENDING: 'PENDING',
     CONFIRMED: 'CONFIRMED',
     REJECTED: 'REJECTED',
+    CANCELLED: 'CANCELLED',
+    DISPUTED: 'DISPUTED',
 } as const;
 
 export type SettlementStatus = typeof SettlementStatus[keyof typeof SettlementStatus];
 
+export const SettlementKind = {
+    PAYMENT: 'PAYMENT',
+    FORGIVENESS: 'FORGIVENESS', // Written off when a member left the group
+    TRANSFER: 'TRANSFER',       // Handed to another member when a member left the group
+} as const;
+
+export type SettlementKind = typeof SettlementKind[keyof typeof SettlementKind];
+
+export interface SettlementStatusChange {
+    from: SettlementStatus;
+    to: SettlementStatus;
+    changedBy: string;
+    reason?: string;
+    changedAt: string;
+}
+
 export interface Settlement {
     _id: string;
     fromUser: User;
@@ -59,11 +268,31 @@ export interface Settlement {
     amount: number;
     group?: Group;
     note?: string;
+    currency: string;
+    exchangeRate: number;
     status: SettlementStatus;
+    kind?: SettlementKind; // PAYMENT when unset
     confirmedAt?: string;
+    statusHistory?: SettlementStatusChange[];
+    linkId?: string; // Shared by settlements from one cross-group settle-up
     createdAt: string;
 }
 
+export interface PairGroupBalance {
+    groupId: string | null;
+    groupName: string;
+    currency: string;
+    amount: number; // Positive = they owe you, in the group's currency
+    convertedAmount: number;
+}
+
+export interface CrossGroupBalances {
+    user: { _id: string; name: string };
+    currency: string;
+    netAmount: number; // Positive = they owe you overall
+    groups: PairGroupBalance[];
+}
+
 export interface UserBalance {
     userId: string;
     userName: string;
@@ -71,9 +300,12 @@ export interface UserBalance {
 }
 
 export interface BalanceSummary {
+    currency: string;
     totalOwed: number;
     totalOwing: number;
     netBalance: number;
+    pendingIncoming: number; // Payments to you awaiting your confirmation
+    pendingOutgoing: number; // Your payments awaiting confirmation
     balances: UserBalance[];
 }
 
@@ -93,15 +325,23 @@ export interface ApiResponse<T> {
 
 export interface PaginatedResponse<T> extends ApiResponse<T[]> {
     count: number;
-    total: number;
-    page: number;
-    pages: number;
+    total?: number; // Page mode only (not when a cursor was passed)
+    page?: number;
+    pages?: number;
+    nextCursor: string | null; // Pass as `cursor` for the following rows
+}
+
+export interface PageOptions {
+    page?: number;
+    limit?: number;
+    cursor?: string; // Takes precedence over page
 }
 
 // Auth types
 export interface AuthResponse {
     user: User;
     token: string;
+    claimed?: boolean; // Registration took over a placeholder, with its groups and expenses
 }
 
 export interface LoginCredentials {
@@ -117,28 +357,114 @@ export interface RegisterData {
 }
 
 // Create types
+export type ExpenseSortField = 'expenseDate' | 'amount' | 'createdAt' | 'relevance';
+
+export interface ExpenseFilters {
+    q?: string; // Searches description and notes
+    category?: string;
+    splitType?: SplitType;
+    payer?: string;
+    participant?: string;
+    minAmount?: number;
+    maxAmount?: number;
+    from?: string;
+    to?: string;
+    sortBy?: ExpenseSortField; // relevance needs q
+    order?: 'asc' | 'desc';
+}
+
 export interface CreateExpenseData {
     description: string;
+    notes?: string;
     amount: number;
-    paidBy: string;
+    paidBy?: string;
+    payers?: {
+        userId: string;
+        amount: number;
+    }[];
     groupId?: string;
+    expenseDate?: string; // Defaults to now
+    category?: string; // Defaults to Other
+    currency?: string;
     splitType: SplitType;
     splits: {
         userId: string;
         amount?: number;
+        adjustment?: number;
     }[];
+    items?: ExpenseItem[];
+    charges?: Partial<ExpenseCharges>;
+}
+
+export const RecurrenceFrequency = {
+    DAILY: 'DAILY',
+    WEEKLY: 'WEEKLY',
+    MONTHLY: 'MONTHLY',
+    CUSTOM: 'CUSTOM',
+} as const;
+
+export type RecurrenceFrequency = typeof RecurrenceFrequency[keyof typeof RecurrenceFrequency];
+
+export type RecurringExpenseTemplate = Omit<CreateExpenseData, 'groupId' | 'expenseDate'>;
+
+export interface RecurringExpense {
+    _id: string;
+    group: string;
+    frequency: RecurrenceFrequency;
+    interval: number;
+    cron?: string; // minute hour day-of-month month day-of-week (UTC)
+    startDate: string;
+    endDate?: string;
+    nextRunAt?: string; // Unset once the schedule has ended
+    paused: boolean;
+    template: RecurringExpenseTemplate;
+    createdBy: User;
+    createdAt: string;
+}
+
+export interface CreateRecurringExpenseData {
+    frequency: RecurrenceFrequency;
+    interval?: number;
+    cron?: string;
+    startDate?: string;
+    endDate?: string;
+    template: RecurringExpenseTemplate;
 }
 
 export interface CreateGroupData {
     name: string;
     description?: string;
+    baseCurrency?: string;
+    simplifyDebts?: boolean;
     memberIds?: string[];
 }
 
+// Someone who hasn't signed up, added to a group by name
+export interface PlaceholderData {
+    name: string;
+    email?: string;
+    phone?: string;
+}
+
+export interface UpdateGroupData {
+    name?: string;
+    description?: string;
+    simplifyDebts?: boolean;
+    autoConfirmDays?: number | null; // null turns auto-confirm off
+}
+
+export interface BatchSettlementData {
+    groupId: string;
+    planHash: string;
+    settlements: { fromUserId: string; toUserId: string; amount: number }[];
+    note?: string;
+}
+
 export interface CreateSettlementData {
     fromUserId: string;
     toUserId: string;
     amount: number;
     groupId?: string;
     note?: string;
+    currency?: string;
 }